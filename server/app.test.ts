@@ -0,0 +1,107 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { API_ROUTES, type ApiErrorBody, type CreateUploadResponse } from '../src/lib/transcription-api-contract';
+import { createApp } from './app';
+import { createMockBackend } from './mock-backend';
+
+// Drives the HTTP API over a real socket with the in-memory mock backend, the
+// way the browser does: upload, start, poll, fetch the transcript and cancel.
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  const backend = createMockBackend({ queuedForMs: 20, completeAfterMs: 60, vocabularyReadyAfterMs: 0 });
+  server = createServer(createApp(backend, {
+    allowedOrigins: [],
+    maxJsonBytes: 64 * 1024,
+    maxVocabularyJsonBytes: 1024 * 1024,
+    maxMockUploadBytes: 1024 * 1024
+  }));
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+const call = (method: string, path: string, body?: unknown) => fetch(`${baseUrl}${path}`, {
+  method,
+  headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+  body: body === undefined ? undefined : JSON.stringify(body)
+});
+
+async function uploadMedia(fileName: string): Promise<string> {
+  const response = await call('POST', API_ROUTES.uploads, { fileName, contentType: 'audio/mpeg', size: 4 });
+  expect(response.status).toBe(201);
+  const upload = await response.json() as CreateUploadResponse;
+  const put = await fetch(`${baseUrl}${upload.uploadUrl}`, { method: 'PUT', headers: upload.headers, body: 'data' });
+  expect(put.status).toBe(200);
+  return upload.key;
+}
+
+async function startJob(key: string): Promise<string> {
+  const response = await call('POST', API_ROUTES.jobs, { key, language: 'en-US', mediaFormat: 'mp3' });
+  expect(response.status).toBe(201);
+  return ((await response.json()) as { jobName: string }).jobName;
+}
+
+async function waitForStatus(jobName: string): Promise<{ status: string; failureReason?: string }> {
+  for (let attempt = 0; attempt < 50; attempt++) {
+    const job = await (await call('GET', API_ROUTES.job(jobName))).json() as { status: string; failureReason?: string };
+    if (job.status === 'COMPLETED' || job.status === 'FAILED') return job;
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  throw new Error(`Job ${jobName} did not finish`);
+}
+
+describe('transcription server with the mock backend', () => {
+  it('uploads, transcribes and returns a Transcribe output document', async () => {
+    const jobName = await startJob(await uploadMedia('lecture.mp3'));
+    expect(jobName).toMatch(/^job-/);
+
+    expect((await waitForStatus(jobName)).status).toBe('COMPLETED');
+    const response = await call('GET', API_ROUTES.transcript(jobName));
+    expect(response.status).toBe(200);
+    const transcript = await response.json() as { status: string; results: { items: unknown[] } };
+    expect(transcript.status).toBe('COMPLETED');
+    expect(transcript.results.items.length).toBeGreaterThan(0);
+  });
+
+  it('fails jobs for files with "fail" in their name', async () => {
+    const job = await waitForStatus(await startJob(await uploadMedia('will-fail.mp3')));
+    expect(job.status).toBe('FAILED');
+    expect(job.failureReason).toBeTruthy();
+  });
+
+  it('cancels a job and removes its media', async () => {
+    const key = await uploadMedia('cancelled.mp3');
+    const jobName = await startJob(key);
+
+    expect((await call('DELETE', API_ROUTES.job(jobName))).status).toBe(204);
+    expect((await call('GET', API_ROUTES.job(jobName))).status).toBe(404);
+    const restart = await call('POST', API_ROUTES.jobs, { key, language: 'en-US', mediaFormat: 'mp3' });
+    expect(restart.status).toBe(400);
+  });
+
+  it('deletes media no job was started for', async () => {
+    const key = await uploadMedia('abandoned.mp3');
+    expect((await call('DELETE', `${API_ROUTES.uploads}?key=${encodeURIComponent(key)}`)).status).toBe(204);
+    const start = await call('POST', API_ROUTES.jobs, { key, language: 'en-US', mediaFormat: 'mp3' });
+    expect(start.status).toBe(400);
+  });
+
+  it('answers 400 InvalidName for malformed percent-encoding', async () => {
+    for (const path of ['/jobs/%E0%A4', '/jobs/%E0%A4/transcript', '/vocabularies/%E0%A4', '/vocabulary-filters/%ZZ']) {
+      const response = await call('GET', path);
+      expect(response.status, path).toBe(400);
+      expect(((await response.json()) as ApiErrorBody).error.code, path).toBe('InvalidName');
+    }
+  });
+
+  it('answers 404 for unknown jobs', async () => {
+    const response = await call('GET', API_ROUTES.job('job-unknown'));
+    expect(response.status).toBe(404);
+    expect(((await response.json()) as ApiErrorBody).error.code).toBe('JobNotFound');
+  });
+});
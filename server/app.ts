@@ -0,0 +1,258 @@
+import type { IncomingMessage, RequestListener, ServerResponse } from 'node:http';
+import { ZodError, type ZodType } from 'zod';
+import {
+  API_ROUTES,
+  completeMultipartUploadRequestSchema,
+  createStreamingSessionRequestSchema,
+  createUploadRequestSchema,
+  resourceNameSchema,
+  saveVocabularyFilterRequestSchema,
+  saveVocabularyRequestSchema,
+  signPartsRequestSchema,
+  startJobRequestSchema,
+  translateRequestSchema,
+  type ApiErrorBody
+} from '../src/lib/transcription-api-contract';
+import { HttpError, type TranscriptionBackend } from './backend';
+
+export interface AppOptions {
+  // Origins allowed to call the API directly instead of through the Vite proxy
+  allowedOrigins: string[];
+  maxJsonBytes: number;
+  // Vocabulary tables and filter word lists are larger than other requests
+  maxVocabularyJsonBytes: number;
+  maxMockUploadBytes: number;
+}
+
+function readBody(request: IncomingMessage, limit: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    request.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        reject(new HttpError(413, 'PayloadTooLarge', `Request body exceeds ${limit} bytes`));
+        request.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on('end', () => resolve(Buffer.concat(chunks)));
+    request.on('error', reject);
+  });
+}
+
+// Consumes a body without keeping it, for uploads whose content does not matter
+function drainBody(request: IncomingMessage, limit: number): Promise<number> {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    request.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        reject(new HttpError(413, 'PayloadTooLarge', `Request body exceeds ${limit} bytes`));
+        request.destroy();
+      }
+    });
+    request.on('end', () => resolve(size));
+    request.on('error', reject);
+  });
+}
+
+async function readJson<T>(request: IncomingMessage, schema: ZodType<T>, limit: number): Promise<T> {
+  const body = await readBody(request, limit);
+  let data: unknown;
+  try {
+    data = JSON.parse(body.toString('utf-8') || '{}');
+  } catch {
+    throw new HttpError(400, 'InvalidRequest', 'Request body is not valid JSON');
+  }
+  return schema.parse(data);
+}
+
+// A malformed escape such as %E0%A4 is the caller's mistake, not a server error
+function decodePathSegment(encoded: string): string {
+  try {
+    return decodeURIComponent(encoded);
+  } catch {
+    throw new HttpError(400, 'InvalidName', `Malformed percent-encoding in ${encoded}`);
+  }
+}
+
+// Names in the path follow the same rules as Transcribe resource names
+function parseResourceName(encoded: string): string {
+  const result = resourceNameSchema.safeParse(decodePathSegment(encoded));
+  if (!result.success) {
+    throw new HttpError(400, 'InvalidName', `name: ${result.error.issues[0].message}`);
+  }
+  return result.data;
+}
+
+function send(response: ServerResponse, status: number, body?: unknown) {
+  if (body === undefined) {
+    response.writeHead(status).end();
+    return;
+  }
+  const json = typeof body === 'string' ? body : JSON.stringify(body);
+  response.writeHead(status, { 'Content-Type': 'application/json' }).end(json);
+}
+
+// AWS SDK errors carry code and statusCode; pass them on so the browser can
+// tell credential problems and throttling apart from other failures
+function toErrorResponse(error: unknown): { status: number; body: ApiErrorBody } {
+  if (error instanceof HttpError) {
+    return { status: error.status, body: { error: { code: error.code, message: error.message } } };
+  }
+  if (error instanceof ZodError) {
+    const message = error.issues.map(issue => `${issue.path.join('.') || 'body'}: ${issue.message}`).join('; ');
+    return { status: 400, body: { error: { code: 'InvalidRequest', message } } };
+  }
+
+  const { code, statusCode, retryable, message } = error as {
+    code?: string;
+    statusCode?: number;
+    retryable?: boolean;
+    message?: string;
+  };
+  return {
+    status: statusCode && statusCode >= 400 ? statusCode : 500,
+    body: { error: { code: code || 'InternalError', message: message || 'Unexpected server error', retryable } }
+  };
+}
+
+export function createApp(backend: TranscriptionBackend, options: AppOptions): RequestListener {
+  const route = async (request: IncomingMessage, response: ServerResponse) => {
+    const url = new URL(request.url || '/', 'http://localhost');
+    const path = url.pathname.replace(/\/+$/, '');
+    const method = request.method || 'GET';
+
+    if (method === 'POST' && path === API_ROUTES.uploads) {
+      const body = await readJson(request, createUploadRequestSchema, options.maxJsonBytes);
+      return send(response, 201, await backend.createUpload(body));
+    }
+
+    if (method === 'DELETE' && path === API_ROUTES.uploads) {
+      await backend.deleteUpload(url.searchParams.get('key') || '');
+      return send(response, 204);
+    }
+
+    if (method === 'PUT' && path.startsWith(`${API_ROUTES.mockUploads}/`) && backend.receiveUpload) {
+      const key = decodePathSegment(path.slice(API_ROUTES.mockUploads.length + 1));
+      await backend.receiveUpload(key, await drainBody(request, options.maxMockUploadBytes));
+      return send(response, 200);
+    }
+
+    if (method === 'PUT' && path.startsWith(`${API_ROUTES.mockParts}/`) && backend.receivePart) {
+      const [uploadId, partNumber] = path.slice(API_ROUTES.mockParts.length + 1).split('/').map(decodePathSegment);
+      const size = await drainBody(request, options.maxMockUploadBytes);
+      response.setHeader('ETag', await backend.receivePart(uploadId, Number(partNumber), size));
+      return send(response, 200);
+    }
+
+    if (method === 'POST' && path === API_ROUTES.multipartUploads) {
+      const body = await readJson(request, createUploadRequestSchema, options.maxJsonBytes);
+      return send(response, 201, await backend.createMultipartUpload(body));
+    }
+
+    const multipartMatch = path.match(/^\/multipart-uploads\/([^/]+)(\/parts|\/complete)?$/);
+    if (multipartMatch) {
+      const uploadId = decodePathSegment(multipartMatch[1]);
+      const key = url.searchParams.get('key') || '';
+      const action = multipartMatch[2];
+
+      if (method === 'GET' && action === '/parts') {
+        return send(response, 200, await backend.listUploadedParts(uploadId, key));
+      }
+      if (method === 'POST' && action === '/parts') {
+        const body = await readJson(request, signPartsRequestSchema, options.maxJsonBytes);
+        return send(response, 200, await backend.signUploadParts(uploadId, body));
+      }
+      if (method === 'POST' && action === '/complete') {
+        const body = await readJson(request, completeMultipartUploadRequestSchema, options.maxJsonBytes);
+        await backend.completeMultipartUpload(uploadId, body);
+        return send(response, 204);
+      }
+      if (method === 'DELETE' && !action) {
+        await backend.abortMultipartUpload(uploadId, key);
+        return send(response, 204);
+      }
+    }
+
+    if (method === 'POST' && path === API_ROUTES.jobs) {
+      const body = await readJson(request, startJobRequestSchema, options.maxJsonBytes);
+      return send(response, 201, await backend.startJob(body));
+    }
+
+    const jobMatch = path.match(/^\/jobs\/([^/]+)(\/transcript)?$/);
+    if (jobMatch) {
+      const jobName = decodePathSegment(jobMatch[1]);
+      if (method === 'GET' && jobMatch[2]) return send(response, 200, await backend.getTranscript(jobName));
+      if (method === 'GET') return send(response, 200, await backend.getJob(jobName));
+      if (method === 'DELETE') {
+        await backend.cancelJob(jobName);
+        return send(response, 204);
+      }
+    }
+
+    if (method === 'GET' && path === API_ROUTES.vocabularies) {
+      return send(response, 200, await backend.listVocabularies());
+    }
+
+    const vocabularyMatch = path.match(/^\/vocabularies\/([^/]+)$/);
+    if (vocabularyMatch) {
+      const name = parseResourceName(vocabularyMatch[1]);
+      if (method === 'GET') return send(response, 200, await backend.getVocabulary(name));
+      if (method === 'PUT') {
+        const body = await readJson(request, saveVocabularyRequestSchema, options.maxVocabularyJsonBytes);
+        return send(response, 200, await backend.saveVocabulary(name, body));
+      }
+    }
+
+    if (method === 'GET' && path === API_ROUTES.vocabularyFilters) {
+      return send(response, 200, await backend.listVocabularyFilters());
+    }
+
+    const filterMatch = path.match(/^\/vocabulary-filters\/([^/]+)$/);
+    if (filterMatch) {
+      const name = parseResourceName(filterMatch[1]);
+      if (method === 'GET') return send(response, 200, await backend.getVocabularyFilter(name));
+      if (method === 'PUT') {
+        const body = await readJson(request, saveVocabularyFilterRequestSchema, options.maxVocabularyJsonBytes);
+        return send(response, 200, await backend.saveVocabularyFilter(name, body));
+      }
+    }
+
+    if (method === 'POST' && path === API_ROUTES.streamingSessions) {
+      const body = await readJson(request, createStreamingSessionRequestSchema, options.maxJsonBytes);
+      return send(response, 201, await backend.createStreamingSession(body));
+    }
+
+    if (method === 'POST' && path === API_ROUTES.translations) {
+      const body = await readJson(request, translateRequestSchema, options.maxJsonBytes);
+      return send(response, 200, await backend.translate(body));
+    }
+
+    throw new HttpError(404, 'NotFound', `No route for ${method} ${path}`);
+  };
+
+  return (request, response) => {
+    const origin = request.headers.origin;
+    if (origin && options.allowedOrigins.includes(origin)) {
+      response.setHeader('Access-Control-Allow-Origin', origin);
+      response.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE');
+      response.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+      // Multipart uploads read the ETag of each part
+      response.setHeader('Access-Control-Expose-Headers', 'ETag');
+      response.setHeader('Vary', 'Origin');
+    }
+    if (request.method === 'OPTIONS') {
+      send(response, 204);
+      return;
+    }
+
+    route(request, response).catch(error => {
+      const { status, body } = toErrorResponse(error);
+      if (status >= 500) console.error(`${request.method} ${request.url} failed:`, error);
+      if (!response.headersSent) send(response, status, body);
+    });
+  };
+}
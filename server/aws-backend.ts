@@ -0,0 +1,475 @@
+import * as AWS from 'aws-sdk';
+import {
+  TRANSCRIPT_KEY_PREFIX,
+  UPLOAD_KEY_PREFIX,
+  type StartJobRequest,
+  type VocabularyFilterSummary,
+  type VocabularyState,
+  type VocabularySummary
+} from '../src/lib/transcription-api-contract';
+import { parseVocabularyTable, parseWordList } from '../src/lib/vocabulary';
+import { AUTO_SOURCE_LANGUAGE } from '../src/lib/translation-languages';
+import {
+  assertJobName,
+  assertTranslationLanguages,
+  assertUploadKey,
+  assertVocabularyFilterWords,
+  assertVocabularyLanguages,
+  buildUploadKey,
+  buildVocabularyTable,
+  createJobName,
+  HttpError,
+  resolveLanguageOptions,
+  type TranscriptionBackend,
+  type VocabularyLanguages
+} from './backend';
+import { buildStreamingQuery, presignStreamingUrl, type StreamingCredentials } from './streaming';
+
+// Vocabulary tables are stored here for Transcribe to read
+const VOCABULARY_KEY_PREFIX = 'vocabularies/';
+
+export interface AwsBackendConfig {
+  region: string;
+  bucket: string;
+  // Languages offered to Transcribe when the browser asks for 'auto' without naming candidates
+  languageOptions: string[];
+  // Lifetime of presigned upload URLs
+  uploadUrlExpiresSeconds: number;
+  // Time the browser has to open a live captioning WebSocket, at most 300
+  streamingUrlExpiresSeconds: number;
+  // TranslateText calls in flight for one translation request
+  translateConcurrency: number;
+}
+
+// Quotes a custom terminology CSV field when it holds a comma, quote or line break
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// Runs fn over items with at most `limit` calls in flight, keeping their order
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+// Credentials come from the standard AWS provider chain (environment, profile or
+// instance role), so they never leave the server.
+export function createAwsBackend(config: AwsBackendConfig): TranscriptionBackend {
+  const s3 = new AWS.S3({ region: config.region, signatureVersion: 'v4' });
+  const transcribeService = new AWS.TranscribeService({ apiVersion: '2017-10-26', region: config.region });
+  const translateService = new AWS.Translate({ apiVersion: '2017-07-01', region: config.region });
+  // Terminology CSV last imported under each name, so an unchanged glossary isn't imported again
+  const importedTerminologies = new Map<string, string>();
+
+  const describeJob = async (jobName: string) => {
+    assertJobName(jobName);
+    const { TranscriptionJob } = await transcribeService.getTranscriptionJob({
+      TranscriptionJobName: jobName
+    }).promise();
+    if (!TranscriptionJob) {
+      throw new HttpError(404, 'JobNotFound', `Transcription job ${jobName} does not exist`);
+    }
+    return TranscriptionJob;
+  };
+
+  // s3://bucket/key and https://s3.region.amazonaws.com/bucket/key both carry the key after the bucket
+  const keyFromUri = (uri: string): string => {
+    const { pathname, protocol } = new URL(uri);
+    const parts = pathname.split('/').filter(Boolean);
+    return decodeURIComponent((protocol === 's3:' ? parts : parts.slice(1)).join('/'));
+  };
+
+  const isNotFound = (error: unknown) => (error as { code?: string }).code === 'NotFoundException';
+
+  const notFoundAs = (message: string) => (error: unknown): never => {
+    if (isNotFound(error)) throw new HttpError(404, 'NotFoundException', message);
+    throw error;
+  };
+
+  const vocabularyLanguages = async (
+    request: Pick<StartJobRequest, 'vocabularyName' | 'vocabularyFilterName'>
+  ): Promise<VocabularyLanguages> => ({
+    vocabulary: request.vocabularyName
+      ? (await transcribeService.getVocabulary({ VocabularyName: request.vocabularyName }).promise()
+        .catch(notFoundAs(`Vocabulary ${request.vocabularyName} does not exist`))).LanguageCode
+      : undefined,
+    vocabularyFilter: request.vocabularyFilterName
+      ? (await transcribeService.getVocabularyFilter({ VocabularyFilterName: request.vocabularyFilterName }).promise()
+        .catch(notFoundAs(`Vocabulary filter ${request.vocabularyFilterName} does not exist`))).LanguageCode
+      : undefined
+  });
+
+  // With language identification the vocabulary and filter go under their own
+  // language in LanguageIdSettings instead of in Settings
+  const buildLanguageIdSettings = async (request: StartJobRequest, languageOptions: string[]) => {
+    const languages = await vocabularyLanguages(request);
+    assertVocabularyLanguages(request, languageOptions, languages);
+    const { vocabulary, vocabularyFilter } = languages;
+    const settings: AWS.TranscribeService.LanguageIdSettingsMap = {};
+    if (request.vocabularyName && vocabulary) {
+      settings[vocabulary] = { ...settings[vocabulary], VocabularyName: request.vocabularyName };
+    }
+    if (request.vocabularyFilterName && vocabularyFilter) {
+      settings[vocabularyFilter] = { ...settings[vocabularyFilter], VocabularyFilterName: request.vocabularyFilterName };
+    }
+    return settings;
+  };
+
+  // Vocabularies and filters are read back from the presigned DownloadUri Transcribe returns
+  const download = async (uri: string | undefined): Promise<string> => {
+    if (!uri) return '';
+    const response = await fetch(uri);
+    if (!response.ok) throw new HttpError(502, 'DownloadFailed', `Could not download from Transcribe (${response.status})`);
+    return response.text();
+  };
+
+  const isoDate = (date?: Date) => date?.toISOString();
+
+  // Uploaded media of a job, which must lie under the upload prefix to be deleted
+  const mediaKeyOf = (job: AWS.TranscribeService.TranscriptionJob | null): string | null => {
+    const uri = job?.Media?.MediaFileUri;
+    if (!uri) return null;
+    const key = keyFromUri(uri);
+    assertUploadKey(UPLOAD_KEY_PREFIX, key);
+    return key;
+  };
+
+  const deleteMedia = (key: string | null) => key
+    ? s3.deleteObject({ Bucket: config.bucket, Key: key }).promise()
+      .then(() => undefined)
+      .catch(error => console.warn('Could not delete uploaded media:', error))
+    : Promise.resolve();
+
+  // A do-not-translate glossary is a custom terminology that maps each term to
+  // itself. There is one per language pair, overwritten when the glossary changes.
+  const glossaryTerminology = async (source: string, target: string, terms: string[]): Promise<string[] | undefined> => {
+    if (terms.length === 0) return undefined;
+    if (source === AUTO_SOURCE_LANGUAGE) {
+      throw new HttpError(400, 'BadRequestException', 'Choose the source language to use a do-not-translate glossary');
+    }
+    const name = `subtitle-glossary-${source}-${target}`;
+    const csv = [`${source},${target}`, ...terms.map(term => `${csvField(term)},${csvField(term)}`)].join('\n');
+    if (importedTerminologies.get(name) !== csv) {
+      await translateService.importTerminology({
+        Name: name,
+        MergeStrategy: 'OVERWRITE',
+        TerminologyData: { File: Buffer.from(csv, 'utf-8'), Format: 'CSV', Directionality: 'UNI' }
+      }).promise();
+      importedTerminologies.set(name, csv);
+    }
+    return [name];
+  };
+
+  return {
+    async createUpload({ fileName, contentType }) {
+      const key = buildUploadKey(UPLOAD_KEY_PREFIX, fileName);
+      const headers = { 'Content-Type': contentType || 'application/octet-stream' };
+      const uploadUrl = await s3.getSignedUrlPromise('putObject', {
+        Bucket: config.bucket,
+        Key: key,
+        ContentType: headers['Content-Type'],
+        Expires: config.uploadUrlExpiresSeconds
+      });
+      return { key, uploadUrl, headers };
+    },
+
+    async createMultipartUpload({ fileName, contentType }) {
+      const key = buildUploadKey(UPLOAD_KEY_PREFIX, fileName);
+      const { UploadId } = await s3.createMultipartUpload({
+        Bucket: config.bucket,
+        Key: key,
+        ContentType: contentType || 'application/octet-stream'
+      }).promise();
+      return { key, uploadId: UploadId as string };
+    },
+
+    async signUploadParts(uploadId, { key, partNumbers }) {
+      assertUploadKey(UPLOAD_KEY_PREFIX, key);
+      const urls = await Promise.all(partNumbers.map(async partNumber => ({
+        partNumber,
+        url: await s3.getSignedUrlPromise('uploadPart', {
+          Bucket: config.bucket,
+          Key: key,
+          UploadId: uploadId,
+          PartNumber: partNumber,
+          Expires: config.uploadUrlExpiresSeconds
+        })
+      })));
+      return { urls };
+    },
+
+    async listUploadedParts(uploadId, key) {
+      assertUploadKey(UPLOAD_KEY_PREFIX, key);
+      const parts: { partNumber: number; etag: string; size: number }[] = [];
+      let marker: number | undefined;
+      // listParts returns at most 1000 parts per page
+      for (;;) {
+        const page = await s3.listParts({
+          Bucket: config.bucket,
+          Key: key,
+          UploadId: uploadId,
+          PartNumberMarker: marker
+        }).promise();
+        for (const part of page.Parts || []) {
+          parts.push({ partNumber: part.PartNumber as number, etag: part.ETag as string, size: part.Size as number });
+        }
+        if (!page.IsTruncated) break;
+        marker = page.NextPartNumberMarker;
+      }
+      return { parts };
+    },
+
+    async completeMultipartUpload(uploadId, { key, parts }) {
+      assertUploadKey(UPLOAD_KEY_PREFIX, key);
+      await s3.completeMultipartUpload({
+        Bucket: config.bucket,
+        Key: key,
+        UploadId: uploadId,
+        MultipartUpload: {
+          Parts: [...parts]
+            .sort((a, b) => a.partNumber - b.partNumber)
+            .map(part => ({ PartNumber: part.partNumber, ETag: part.etag }))
+        }
+      }).promise();
+    },
+
+    async abortMultipartUpload(uploadId, key) {
+      assertUploadKey(UPLOAD_KEY_PREFIX, key);
+      await s3.abortMultipartUpload({ Bucket: config.bucket, Key: key, UploadId: uploadId }).promise();
+    },
+
+    async deleteUpload(key) {
+      assertUploadKey(UPLOAD_KEY_PREFIX, key);
+      await s3.deleteObject({ Bucket: config.bucket, Key: key }).promise();
+    },
+
+    async startJob(request) {
+      const { key, language, mediaFormat, maxSpeakers, channelIdentification } = request;
+      assertUploadKey(UPLOAD_KEY_PREFIX, key);
+      const languageOptions = resolveLanguageOptions(request, config.languageOptions);
+      const languageIdSettings = languageOptions && await buildLanguageIdSettings(request, languageOptions);
+      const settings: AWS.TranscribeService.Settings = {
+        ...(maxSpeakers && { ShowSpeakerLabels: true, MaxSpeakerLabels: maxSpeakers }),
+        ...(channelIdentification && { ChannelIdentification: true }),
+        ...(!languageOptions && request.vocabularyName && { VocabularyName: request.vocabularyName }),
+        ...(!languageOptions && request.vocabularyFilterName && { VocabularyFilterName: request.vocabularyFilterName }),
+        ...(request.vocabularyFilterName && { VocabularyFilterMethod: request.vocabularyFilterMethod || 'mask' })
+      };
+      const jobName = createJobName();
+      await transcribeService.startTranscriptionJob({
+        TranscriptionJobName: jobName,
+        ...(!languageOptions
+          ? { LanguageCode: language }
+          : request.identifyMultipleLanguages
+            ? { IdentifyMultipleLanguages: true, LanguageOptions: languageOptions }
+            : { IdentifyLanguage: true, LanguageOptions: languageOptions }),
+        ...(languageIdSettings && Object.keys(languageIdSettings).length > 0 && { LanguageIdSettings: languageIdSettings }),
+        MediaFormat: mediaFormat,
+        ...(request.mediaSampleRateHertz && { MediaSampleRateHertz: request.mediaSampleRateHertz }),
+        Media: { MediaFileUri: `s3://${config.bucket}/${key}` },
+        OutputBucketName: config.bucket,
+        OutputKey: `${TRANSCRIPT_KEY_PREFIX}${jobName}.json`,
+        ...(Object.keys(settings).length > 0 && { Settings: settings })
+      }).promise();
+      return { jobName };
+    },
+
+    async getJob(jobName) {
+      const job = await describeJob(jobName);
+      // Media of a failed job is of no further use
+      if (job.TranscriptionJobStatus === 'FAILED') await deleteMedia(mediaKeyOf(job));
+      return {
+        jobName,
+        status: job.TranscriptionJobStatus as 'QUEUED' | 'IN_PROGRESS' | 'COMPLETED' | 'FAILED',
+        failureReason: job.FailureReason
+      };
+    },
+
+    async getTranscript(jobName) {
+      const job = await describeJob(jobName);
+      const transcriptUri = job.Transcript?.TranscriptFileUri;
+      if (job.TranscriptionJobStatus !== 'COMPLETED' || !transcriptUri) {
+        throw new HttpError(409, 'TranscriptNotReady', `Transcription job ${jobName} has not completed`);
+      }
+      const object = await s3.getObject({ Bucket: config.bucket, Key: keyFromUri(transcriptUri) }).promise();
+      // The transcript stays for re-fetching after a reload; the media is done with
+      await deleteMedia(mediaKeyOf(job));
+      return object.Body?.toString('utf-8') || '';
+    },
+
+    async cancelJob(jobName) {
+      assertJobName(jobName);
+      const job = await describeJob(jobName).catch(() => null);
+      const mediaKey = mediaKeyOf(job);
+      await transcribeService.deleteTranscriptionJob({ TranscriptionJobName: jobName }).promise()
+        .catch(error => console.warn('Could not delete transcription job:', error));
+      await deleteMedia(mediaKey);
+      await s3.deleteObject({ Bucket: config.bucket, Key: `${TRANSCRIPT_KEY_PREFIX}${jobName}.json` }).promise()
+        .catch(error => console.warn('Could not delete transcript output:', error));
+    },
+
+    async listVocabularies() {
+      const vocabularies: VocabularySummary[] = [];
+      let nextToken: string | undefined;
+      do {
+        const page = await transcribeService.listVocabularies({ NextToken: nextToken, MaxResults: 100 }).promise();
+        for (const vocabulary of page.Vocabularies || []) {
+          vocabularies.push({
+            name: vocabulary.VocabularyName as string,
+            languageCode: vocabulary.LanguageCode as string,
+            state: vocabulary.VocabularyState as VocabularyState,
+            lastModified: isoDate(vocabulary.LastModifiedTime)
+          });
+        }
+        nextToken = page.NextToken;
+      } while (nextToken);
+      return { vocabularies };
+    },
+
+    async getVocabulary(name) {
+      const vocabulary = await transcribeService.getVocabulary({ VocabularyName: name }).promise()
+        .catch(notFoundAs(`Vocabulary ${name} does not exist`));
+      return {
+        name,
+        languageCode: vocabulary.LanguageCode as string,
+        state: vocabulary.VocabularyState as VocabularyState,
+        lastModified: isoDate(vocabulary.LastModifiedTime),
+        failureReason: vocabulary.FailureReason,
+        phrases: vocabulary.VocabularyState === 'READY' ? parseVocabularyTable(await download(vocabulary.DownloadUri)) : []
+      };
+    },
+
+    async saveVocabulary(name, request) {
+      const key = `${VOCABULARY_KEY_PREFIX}${name}.txt`;
+      await s3.putObject({
+        Bucket: config.bucket,
+        Key: key,
+        Body: buildVocabularyTable(request),
+        ContentType: 'text/plain; charset=utf-8'
+      }).promise();
+
+      const params = {
+        VocabularyName: name,
+        LanguageCode: request.languageCode,
+        VocabularyFileUri: `s3://${config.bucket}/${key}`
+      };
+      const saved = await transcribeService.updateVocabulary(params).promise()
+        .catch(error => {
+          if (isNotFound(error)) return transcribeService.createVocabulary(params).promise();
+          throw error;
+        });
+      return {
+        name,
+        languageCode: saved.LanguageCode as string,
+        state: saved.VocabularyState as VocabularyState,
+        lastModified: isoDate(saved.LastModifiedTime),
+        failureReason: 'FailureReason' in saved ? saved.FailureReason : undefined
+      };
+    },
+
+    async listVocabularyFilters() {
+      const filters: VocabularyFilterSummary[] = [];
+      let nextToken: string | undefined;
+      do {
+        const page = await transcribeService.listVocabularyFilters({ NextToken: nextToken, MaxResults: 100 }).promise();
+        for (const filter of page.VocabularyFilters || []) {
+          filters.push({
+            name: filter.VocabularyFilterName as string,
+            languageCode: filter.LanguageCode as string,
+            lastModified: isoDate(filter.LastModifiedTime)
+          });
+        }
+        nextToken = page.NextToken;
+      } while (nextToken);
+      return { filters };
+    },
+
+    async getVocabularyFilter(name) {
+      const filter = await transcribeService.getVocabularyFilter({ VocabularyFilterName: name }).promise()
+        .catch(notFoundAs(`Vocabulary filter ${name} does not exist`));
+      return {
+        name,
+        languageCode: filter.LanguageCode as string,
+        lastModified: isoDate(filter.LastModifiedTime),
+        words: parseWordList(await download(filter.DownloadUri))
+      };
+    },
+
+    async saveVocabularyFilter(name, request) {
+      assertVocabularyFilterWords(request);
+      const existing = await transcribeService.getVocabularyFilter({ VocabularyFilterName: name }).promise()
+        .catch(error => {
+          if (isNotFound(error)) return null;
+          throw error;
+        });
+
+      // A filter's language can't be updated, so a change of language recreates it
+      if (existing && existing.LanguageCode !== request.languageCode) {
+        await transcribeService.deleteVocabularyFilter({ VocabularyFilterName: name }).promise();
+      }
+      const saved = existing && existing.LanguageCode === request.languageCode
+        ? await transcribeService.updateVocabularyFilter({ VocabularyFilterName: name, Words: request.words }).promise()
+        : await transcribeService.createVocabularyFilter({
+          VocabularyFilterName: name,
+          LanguageCode: request.languageCode,
+          Words: request.words
+        }).promise();
+      return {
+        name,
+        languageCode: saved.LanguageCode as string,
+        lastModified: isoDate(saved.LastModifiedTime)
+      };
+    },
+
+    // Signed here so the credentials stay on the server; the browser then talks to Transcribe directly
+    async createStreamingSession(request) {
+      const languageOptions = resolveLanguageOptions(request, config.languageOptions);
+      if (languageOptions) assertVocabularyLanguages(request, languageOptions, await vocabularyLanguages(request));
+      const credentials = await new Promise<StreamingCredentials>((resolve, reject) => {
+        AWS.config.getCredentials((error, loaded) => (error || !loaded ? reject(error) : resolve(loaded)));
+      });
+      const query = buildStreamingQuery(request, languageOptions);
+      const now = new Date();
+      return {
+        url: presignStreamingUrl({
+          region: config.region,
+          credentials,
+          query,
+          expiresSeconds: config.streamingUrlExpiresSeconds,
+          now
+        }),
+        expiresAt: new Date(now.getTime() + config.streamingUrlExpiresSeconds * 1000).toISOString()
+      };
+    },
+
+    async translate(request) {
+      assertTranslationLanguages(request);
+      const terminologyNames = await glossaryTerminology(
+        request.sourceLanguage,
+        request.targetLanguage,
+        request.doNotTranslate ?? []
+      );
+      let sourceLanguage = request.sourceLanguage;
+      const translations = await mapWithConcurrency(request.texts, config.translateConcurrency, async text => {
+        if (!text.trim()) return text;
+        const result = await translateService.translateText({
+          Text: text,
+          SourceLanguageCode: request.sourceLanguage,
+          TargetLanguageCode: request.targetLanguage,
+          TerminologyNames: terminologyNames
+        }).promise();
+        sourceLanguage = result.SourceLanguageCode;
+        return result.TranslatedText;
+      });
+      return { translations, sourceLanguage };
+    }
+  };
+}
@@ -0,0 +1,172 @@
+import type {
+  CompleteMultipartUploadRequest,
+  CreateMultipartUploadResponse,
+  CreateStreamingSessionRequest,
+  CreateStreamingSessionResponse,
+  CreateUploadRequest,
+  CreateUploadResponse,
+  ListPartsResponse,
+  SignPartsRequest,
+  SignPartsResponse,
+  JobStatusResponse,
+  ListVocabulariesResponse,
+  ListVocabularyFiltersResponse,
+  SaveVocabularyFilterRequest,
+  SaveVocabularyRequest,
+  StartJobRequest,
+  StartJobResponse,
+  TranslateRequest,
+  TranslateResponse,
+  VocabularyDetail,
+  VocabularyFilterDetail,
+  VocabularySummary,
+  VocabularyFilterSummary
+} from '../src/lib/transcription-api-contract';
+import { languageOptionsProblem } from '../src/lib/languages';
+import { AUTO_SOURCE_LANGUAGE, isTranslationLanguage } from '../src/lib/translation-languages';
+import {
+  MAX_VOCABULARY_FILE_BYTES,
+  toVocabularyTable,
+  validateVocabularyPhrase,
+  vocabularyFileBytes
+} from '../src/lib/vocabulary';
+
+// What the HTTP layer needs from a transcription service. The AWS backend talks
+// to S3 and Transcribe; the mock backend keeps everything in memory.
+export interface TranscriptionBackend {
+  createUpload(request: CreateUploadRequest): Promise<CreateUploadResponse>;
+  createMultipartUpload(request: CreateUploadRequest): Promise<CreateMultipartUploadResponse>;
+  signUploadParts(uploadId: string, request: SignPartsRequest): Promise<SignPartsResponse>;
+  listUploadedParts(uploadId: string, key: string): Promise<ListPartsResponse>;
+  completeMultipartUpload(uploadId: string, request: CompleteMultipartUploadRequest): Promise<void>;
+  abortMultipartUpload(uploadId: string, key: string): Promise<void>;
+  // Deletes uploaded media that no job was started for
+  deleteUpload(key: string): Promise<void>;
+  startJob(request: StartJobRequest): Promise<StartJobResponse>;
+  getJob(jobName: string): Promise<JobStatusResponse>;
+  // Raw AWS Transcribe output JSON
+  getTranscript(jobName: string): Promise<string>;
+  // Stops the job and deletes its uploaded media
+  cancelJob(jobName: string): Promise<void>;
+  listVocabularies(): Promise<ListVocabulariesResponse>;
+  getVocabulary(name: string): Promise<VocabularyDetail>;
+  // Creates the vocabulary or replaces its phrases; it is PENDING until Transcribe has processed it
+  saveVocabulary(name: string, request: SaveVocabularyRequest): Promise<VocabularySummary>;
+  listVocabularyFilters(): Promise<ListVocabularyFiltersResponse>;
+  getVocabularyFilter(name: string): Promise<VocabularyFilterDetail>;
+  saveVocabularyFilter(name: string, request: SaveVocabularyFilterRequest): Promise<VocabularyFilterSummary>;
+  // Signs a WebSocket URL the browser streams microphone audio to for live captions
+  createStreamingSession(request: CreateStreamingSessionRequest): Promise<CreateStreamingSessionResponse>;
+  // Translates subtitle texts one by one, leaving glossary terms as they are
+  translate(request: TranslateRequest): Promise<TranslateResponse>;
+  // Only the mock backend accepts uploads itself; presigned URLs go straight to S3
+  receiveUpload?(key: string, size: number): Promise<void>;
+  // Returns the ETag of the stored part
+  receivePart?(uploadId: string, partNumber: number, size: number): Promise<string>;
+}
+
+// Error with an HTTP status, rendered as an ApiErrorBody
+export class HttpError extends Error {
+  readonly status: number;
+  readonly code: string;
+
+  constructor(status: number, code: string, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+// Keeps the original name readable in the bucket without allowing path tricks
+export function buildUploadKey(prefix: string, fileName: string): string {
+  const safeName = fileName.replace(/[^\w.-]+/g, '_').slice(-200);
+  return `${prefix}${Date.now()}-${safeName}`;
+}
+
+// Every key the browser names must be one this server handed out
+export function assertUploadKey(prefix: string, key: string) {
+  if (!key.startsWith(prefix)) {
+    throw new HttpError(400, 'InvalidKey', 'Media must be uploaded through this server');
+  }
+}
+
+// Every job this server starts is named with this prefix
+const JOB_NAME_PREFIX = 'job-';
+
+export function createJobName(): string {
+  return `${JOB_NAME_PREFIX}${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// The API has no authentication, so it only touches jobs this server started
+export function assertJobName(jobName: string) {
+  if (!jobName.startsWith(JOB_NAME_PREFIX)) {
+    throw new HttpError(404, 'JobNotFound', `Transcription job ${jobName} does not exist`);
+  }
+}
+
+// Checks the phrases against Transcribe's rules and returns the table to store
+export function buildVocabularyTable(request: SaveVocabularyRequest): string {
+  const problems = request.phrases.map(validateVocabularyPhrase).filter(Boolean);
+  if (problems.length > 0) {
+    const more = problems.length > 3 ? ` (and ${problems.length - 3} more)` : '';
+    throw new HttpError(400, 'InvalidVocabulary', `${problems.slice(0, 3).join('; ')}${more}`);
+  }
+  const table = toVocabularyTable(request.phrases);
+  if (vocabularyFileBytes(table) > MAX_VOCABULARY_FILE_BYTES) {
+    throw new HttpError(400, 'InvalidVocabulary', `The vocabulary is larger than ${MAX_VOCABULARY_FILE_BYTES / 1024} KB`);
+  }
+  return table;
+}
+
+export function assertVocabularyFilterWords(request: SaveVocabularyFilterRequest) {
+  if (vocabularyFileBytes(request.words.join('\n')) > MAX_VOCABULARY_FILE_BYTES) {
+    throw new HttpError(400, 'InvalidVocabularyFilter', `The word list is larger than ${MAX_VOCABULARY_FILE_BYTES / 1024} KB`);
+  }
+}
+
+// Languages of the vocabulary and vocabulary filter a job names
+export interface VocabularyLanguages {
+  vocabulary?: string;
+  vocabularyFilter?: string;
+}
+
+// With language identification Transcribe applies a vocabulary or filter only
+// to the language it was made for, so that language has to be a candidate
+export function assertVocabularyLanguages(
+  request: Pick<StartJobRequest, 'vocabularyName' | 'vocabularyFilterName'>,
+  languageOptions: string[],
+  languages: VocabularyLanguages
+) {
+  const check = (kind: string, name: string | undefined, languageCode: string | undefined) => {
+    if (name && languageCode && !languageOptions.includes(languageCode)) {
+      throw new HttpError(400, 'BadRequestException', `${kind} ${name} is for ${languageCode}, which is not one of the languages to identify`);
+    }
+  };
+  check('Vocabulary', request.vocabularyName, languages.vocabulary);
+  check('Vocabulary filter', request.vocabularyFilterName, languages.vocabularyFilter);
+}
+
+// Candidates for a job that identifies its language, or null for a fixed language
+export function resolveLanguageOptions(
+  request: Pick<StartJobRequest, 'language' | 'languageOptions'>,
+  defaults: string[]
+): string[] | null {
+  if (request.language !== 'auto') return null;
+  const options = request.languageOptions ?? defaults;
+  const problem = languageOptionsProblem(options);
+  if (problem) throw new HttpError(400, 'BadRequestException', problem);
+  return options;
+}
+
+export function assertTranslationLanguages({ sourceLanguage, targetLanguage }: TranslateRequest) {
+  if (sourceLanguage !== AUTO_SOURCE_LANGUAGE && !isTranslationLanguage(sourceLanguage)) {
+    throw new HttpError(400, 'UnsupportedLanguagePairException', `${sourceLanguage} is not a language Translate supports`);
+  }
+  if (!isTranslationLanguage(targetLanguage)) {
+    throw new HttpError(400, 'UnsupportedLanguagePairException', `${targetLanguage} is not a language Translate supports`);
+  }
+  if (sourceLanguage === targetLanguage) {
+    throw new HttpError(400, 'BadRequestException', 'The source and target languages are the same');
+  }
+}
@@ -0,0 +1,56 @@
+import { createServer } from 'node:http';
+import { createApp } from './app';
+import { createAwsBackend } from './aws-backend';
+import { createMockBackend } from './mock-backend';
+import { createMockStreamingServer } from './mock-streaming';
+import type { TranscriptionBackend } from './backend';
+
+// Transcription server. Holds the AWS credentials and does everything that
+// needs them on behalf of the browser.
+//
+//   npm run server        talks to AWS (AWS_REGION, TRANSCRIPTION_BUCKET and
+//                         credentials from the usual AWS provider chain)
+//   npm run server:mock   runs fully offline with in-memory jobs that return
+//                         recorded transcripts, and a fake streaming server
+//                         for live captions
+
+const env = process.env;
+const useMock = process.argv.includes('--mock') || env.TRANSCRIPTION_BACKEND === 'mock';
+const port = Number(env.PORT) || 8787;
+
+function createBackend(): TranscriptionBackend {
+  if (useMock) {
+    return createMockBackend({ queuedForMs: 1500, completeAfterMs: 6000, vocabularyReadyAfterMs: 3000 });
+  }
+
+  const region = env.AWS_REGION;
+  const bucket = env.TRANSCRIPTION_BUCKET;
+  if (!region || !bucket) {
+    console.error('AWS_REGION and TRANSCRIPTION_BUCKET must be set (or start with --mock)');
+    process.exit(1);
+  }
+  return createAwsBackend({
+    region,
+    bucket,
+    languageOptions: (env.TRANSCRIPTION_LANGUAGE_OPTIONS || 'ta-IN,en-US,hi-IN').split(','),
+    uploadUrlExpiresSeconds: 15 * 60,
+    streamingUrlExpiresSeconds: 5 * 60,
+    translateConcurrency: 5
+  });
+}
+
+const app = createApp(createBackend(), {
+  allowedOrigins: (env.ALLOWED_ORIGINS || 'http://localhost:8080').split(','),
+  maxJsonBytes: 64 * 1024,
+  maxVocabularyJsonBytes: 1024 * 1024,
+  maxMockUploadBytes: 2 * 1024 * 1024 * 1024
+});
+
+const server = createServer(app);
+if (useMock) {
+  server.on('upgrade', createMockStreamingServer({ wordsPerSecond: 2.5, pauseSeconds: 0.8, voiceThreshold: 0.01 }));
+}
+
+server.listen(port, () => {
+  console.log(`Transcription server (${useMock ? 'mock' : 'aws'}) listening on http://localhost:${port}`);
+});
@@ -0,0 +1,352 @@
+import {
+  API_ROUTES,
+  UPLOAD_KEY_PREFIX,
+  type StartJobRequest,
+  type VocabularyDetail,
+  type VocabularyFilterDetail,
+  type VocabularyFilterMethod
+} from '../src/lib/transcription-api-contract';
+import { renderFixture, selectFixture } from '../src/lib/providers/fixtures';
+import { findMockDictionary, mockSourceLanguage, translateWithDictionary } from '../src/lib/translation-languages';
+import {
+  assertTranslationLanguages,
+  assertUploadKey,
+  assertVocabularyFilterWords,
+  assertVocabularyLanguages,
+  buildUploadKey,
+  buildVocabularyTable,
+  createJobName,
+  HttpError,
+  resolveLanguageOptions,
+  type TranscriptionBackend
+} from './backend';
+import { buildStreamingQuery } from './streaming';
+
+export interface MockBackendConfig {
+  // Time a job reports QUEUED, then IN_PROGRESS until completeAfterMs
+  queuedForMs: number;
+  completeAfterMs: number;
+  // Time a saved vocabulary reports PENDING before it becomes READY
+  vocabularyReadyAfterMs: number;
+}
+
+interface MockJob {
+  request: StartJobRequest;
+  createdAt: number;
+}
+
+interface MockItem {
+  type: string;
+  alternatives: { content: string }[];
+  vocabulary_filter_match?: boolean;
+}
+
+interface MockOutput {
+  results: {
+    transcripts: { transcript: string }[];
+    items: MockItem[];
+    channel_labels?: { channels: { items: MockItem[] }[] };
+  };
+}
+
+const normalizeWord = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+
+// What Transcribe does to filtered words: replace them with ***, drop them or
+// mark them with vocabulary_filter_match
+function applyVocabularyFilter(transcript: string, words: string[], method: VocabularyFilterMethod): string {
+  const filtered = new Set(words.map(normalizeWord));
+  const output = JSON.parse(transcript) as MockOutput;
+  const isFiltered = (item: MockItem) =>
+    item.type === 'pronunciation' && filtered.has(normalizeWord(item.alternatives[0]?.content || ''));
+
+  const filterItems = (items: MockItem[]): MockItem[] => {
+    if (method === 'remove') return items.filter(item => !isFiltered(item));
+    return items.map(item => {
+      if (!isFiltered(item)) return item;
+      return method === 'mask'
+        ? { ...item, alternatives: item.alternatives.map(alternative => ({ ...alternative, content: '***' })) }
+        : { ...item, vocabulary_filter_match: true };
+    });
+  };
+
+  const filterText = (text: string) => {
+    if (method === 'tag') return text;
+    return text
+      .split(' ')
+      .map(word => (filtered.has(normalizeWord(word)) ? (method === 'mask' ? '***' : '') : word))
+      .filter(Boolean)
+      .join(' ');
+  };
+
+  const { results } = output;
+  results.items = filterItems(results.items);
+  results.transcripts = results.transcripts.map(({ transcript: text }) => ({ transcript: filterText(text) }));
+  if (results.channel_labels) {
+    results.channel_labels.channels = results.channel_labels.channels.map(channel => ({
+      ...channel,
+      items: filterItems(channel.items)
+    }));
+  }
+  return JSON.stringify(output);
+}
+
+// In-memory stand-in for S3 and Transcribe so the whole flow runs offline.
+// Finished jobs return the recorded fixture that matches their options.
+export function createMockBackend(config: MockBackendConfig): TranscriptionBackend {
+  const uploads = new Map<string, { fileName: string; size: number }>();
+  const jobs = new Map<string, MockJob>();
+  const multipartUploads = new Map<string, { key: string; parts: Map<number, { etag: string; size: number }> }>();
+  const vocabularies = new Map<string, Omit<VocabularyDetail, 'state'> & { savedAt: number }>();
+  const vocabularyFilters = new Map<string, VocabularyFilterDetail>();
+  let uploadSequence = 0;
+
+  const findJob = (jobName: string): MockJob => {
+    const job = jobs.get(jobName);
+    if (!job) throw new HttpError(404, 'JobNotFound', `Transcription job ${jobName} does not exist`);
+    return job;
+  };
+
+  const findMultipartUpload = (uploadId: string, key: string) => {
+    assertUploadKey(UPLOAD_KEY_PREFIX, key);
+    const upload = multipartUploads.get(uploadId);
+    if (!upload || upload.key !== key) {
+      throw new HttpError(404, 'NoSuchUpload', `Multipart upload ${uploadId} does not exist`);
+    }
+    return upload;
+  };
+
+  const vocabularyState = (savedAt: number) =>
+    Date.now() - savedAt < config.vocabularyReadyAfterMs ? 'PENDING' as const : 'READY' as const;
+
+  const findVocabulary = (name: string): VocabularyDetail => {
+    const vocabulary = vocabularies.get(name);
+    if (!vocabulary) throw new HttpError(404, 'NotFoundException', `Vocabulary ${name} does not exist`);
+    const { savedAt, ...detail } = vocabulary;
+    return { ...detail, state: vocabularyState(savedAt) };
+  };
+
+  const findVocabularyFilter = (name: string): VocabularyFilterDetail => {
+    const filter = vocabularyFilters.get(name);
+    if (!filter) throw new HttpError(404, 'NotFoundException', `Vocabulary filter ${name} does not exist`);
+    return filter;
+  };
+
+  // Transcribe refuses jobs whose vocabulary isn't ready or doesn't match the
+  // job's language, or with identification isn't for one of the candidates.
+  // Returns the candidates, or null for a fixed language.
+  const assertJobVocabularies = (
+    request: Pick<StartJobRequest, 'language' | 'languageOptions' | 'vocabularyName' | 'vocabularyFilterName'>
+  ) => {
+    // Refuse candidate sets Transcribe would refuse; the defaults only need to be valid
+    const languageOptions = resolveLanguageOptions(request, ['en-US', 'ta-IN']);
+    const vocabulary = request.vocabularyName ? findVocabulary(request.vocabularyName) : undefined;
+    const filter = request.vocabularyFilterName ? findVocabularyFilter(request.vocabularyFilterName) : undefined;
+    if (vocabulary && vocabulary.state !== 'READY') {
+      throw new HttpError(400, 'BadRequestException', `Vocabulary ${vocabulary.name} is not ready yet`);
+    }
+    if (languageOptions) {
+      assertVocabularyLanguages(request, languageOptions, {
+        vocabulary: vocabulary?.languageCode,
+        vocabularyFilter: filter?.languageCode
+      });
+      return languageOptions;
+    }
+    if (vocabulary && vocabulary.languageCode !== request.language) {
+      throw new HttpError(400, 'BadRequestException', `Vocabulary ${vocabulary.name} is for ${vocabulary.languageCode}`);
+    }
+    if (filter && filter.languageCode !== request.language) {
+      throw new HttpError(400, 'BadRequestException', `Vocabulary filter ${filter.name} is for ${filter.languageCode}`);
+    }
+    return null;
+  };
+
+  const statusOf = (job: MockJob) => {
+    const elapsed = Date.now() - job.createdAt;
+    if (elapsed < config.queuedForMs) return 'QUEUED' as const;
+    if (elapsed < config.completeAfterMs) return 'IN_PROGRESS' as const;
+    return uploads.get(job.request.key)?.fileName.toLowerCase().includes('fail')
+      ? 'FAILED' as const
+      : 'COMPLETED' as const;
+  };
+
+  return {
+    async createUpload({ fileName, contentType }) {
+      const key = buildUploadKey(UPLOAD_KEY_PREFIX, fileName);
+      uploads.set(key, { fileName, size: 0 });
+      return {
+        key,
+        uploadUrl: `${API_ROUTES.mockUploads}/${encodeURIComponent(key)}`,
+        headers: { 'Content-Type': contentType || 'application/octet-stream' }
+      };
+    },
+
+    async createMultipartUpload({ fileName }) {
+      const key = buildUploadKey(UPLOAD_KEY_PREFIX, fileName);
+      const uploadId = `mock-upload-${++uploadSequence}`;
+      uploads.set(key, { fileName, size: 0 });
+      multipartUploads.set(uploadId, { key, parts: new Map() });
+      return { key, uploadId };
+    },
+
+    async signUploadParts(uploadId, { key, partNumbers }) {
+      findMultipartUpload(uploadId, key);
+      return {
+        urls: partNumbers.map(partNumber => ({
+          partNumber,
+          url: `${API_ROUTES.mockParts}/${encodeURIComponent(uploadId)}/${partNumber}`
+        }))
+      };
+    },
+
+    async receivePart(uploadId, partNumber, size) {
+      const upload = multipartUploads.get(uploadId);
+      if (!upload) throw new HttpError(404, 'NoSuchUpload', `Multipart upload ${uploadId} does not exist`);
+      const etag = `"${uploadId}-${partNumber}-${size}"`;
+      upload.parts.set(partNumber, { etag, size });
+      return etag;
+    },
+
+    async listUploadedParts(uploadId, key) {
+      const { parts } = findMultipartUpload(uploadId, key);
+      return {
+        parts: [...parts.entries()]
+          .sort(([a], [b]) => a - b)
+          .map(([partNumber, part]) => ({ partNumber, ...part }))
+      };
+    },
+
+    async completeMultipartUpload(uploadId, { key, parts }) {
+      const upload = findMultipartUpload(uploadId, key);
+      let size = 0;
+      for (const { partNumber, etag } of parts) {
+        const stored = upload.parts.get(partNumber);
+        if (!stored || stored.etag !== etag) {
+          throw new HttpError(400, 'InvalidPart', `Part ${partNumber} was not uploaded`);
+        }
+        size += stored.size;
+      }
+      const file = uploads.get(key);
+      if (file) file.size = size;
+      multipartUploads.delete(uploadId);
+    },
+
+    async abortMultipartUpload(uploadId, key) {
+      findMultipartUpload(uploadId, key);
+      multipartUploads.delete(uploadId);
+      uploads.delete(key);
+    },
+
+    async deleteUpload(key) {
+      assertUploadKey(UPLOAD_KEY_PREFIX, key);
+      uploads.delete(key);
+    },
+
+    async receiveUpload(key, size) {
+      const upload = uploads.get(key);
+      if (!upload) throw new HttpError(404, 'UploadNotFound', `No upload was created for ${key}`);
+      upload.size = size;
+    },
+
+    async startJob(request) {
+      if (!uploads.get(request.key)?.size) {
+        throw new HttpError(400, 'BadRequestException', 'The media file has not been uploaded');
+      }
+      assertJobVocabularies(request);
+      const jobName = createJobName();
+      jobs.set(jobName, { request, createdAt: Date.now() });
+      return { jobName };
+    },
+
+    async getJob(jobName) {
+      const status = statusOf(findJob(jobName));
+      return {
+        jobName,
+        status,
+        ...(status === 'FAILED' && { failureReason: 'The mock server fails files with "fail" in their name.' })
+      };
+    },
+
+    async getTranscript(jobName) {
+      const job = findJob(jobName);
+      if (statusOf(job) !== 'COMPLETED') {
+        throw new HttpError(409, 'TranscriptNotReady', `Transcription job ${jobName} has not completed`);
+      }
+      const transcript = renderFixture(selectFixture(job.request), jobName, job.request);
+      const filter = job.request.vocabularyFilterName && vocabularyFilters.get(job.request.vocabularyFilterName);
+      return filter
+        ? applyVocabularyFilter(transcript, filter.words, job.request.vocabularyFilterMethod || 'mask')
+        : transcript;
+    },
+
+    async cancelJob(jobName) {
+      const job = jobs.get(jobName);
+      if (job) uploads.delete(job.request.key);
+      jobs.delete(jobName);
+    },
+
+    async listVocabularies() {
+      return {
+        vocabularies: [...vocabularies.keys()].map(name => {
+          const { phrases, ...summary } = findVocabulary(name);
+          return summary;
+        })
+      };
+    },
+
+    async getVocabulary(name) {
+      return findVocabulary(name);
+    },
+
+    async saveVocabulary(name, request) {
+      buildVocabularyTable(request);
+      const lastModified = new Date().toISOString();
+      vocabularies.set(name, { name, ...request, lastModified, savedAt: Date.now() });
+      const { phrases, ...summary } = findVocabulary(name);
+      return summary;
+    },
+
+    async listVocabularyFilters() {
+      return { filters: [...vocabularyFilters.values()].map(({ words, ...summary }) => summary) };
+    },
+
+    async getVocabularyFilter(name) {
+      return findVocabularyFilter(name);
+    },
+
+    async saveVocabularyFilter(name, request) {
+      assertVocabularyFilterWords(request);
+      const filter = { name, ...request, lastModified: new Date().toISOString() };
+      vocabularyFilters.set(name, filter);
+      const { words, ...summary } = filter;
+      return summary;
+    },
+
+    // Points at the fake streaming server that runs alongside this backend
+    async createStreamingSession(request) {
+      const languageOptions = assertJobVocabularies(request);
+      const query = new URLSearchParams(buildStreamingQuery(request, languageOptions));
+      return {
+        url: `${API_ROUTES.mockStreaming}?${query}`,
+        expiresAt: new Date(Date.now() + 5 * 60 * 1000).toISOString()
+      };
+    },
+
+    // Word-for-word from the offline dictionaries, for the pairs they cover
+    async translate(request) {
+      assertTranslationLanguages(request);
+      const sourceLanguage = mockSourceLanguage(request.sourceLanguage, request.texts.join(' '));
+      const dictionary = findMockDictionary(sourceLanguage, request.targetLanguage);
+      if (!dictionary) {
+        throw new HttpError(
+          400,
+          'UnsupportedLanguagePairException',
+          `The mock translator has no dictionary from ${sourceLanguage} to ${request.targetLanguage}`
+        );
+      }
+      return {
+        translations: request.texts.map(text => translateWithDictionary(text, dictionary, request.doNotTranslate)),
+        sourceLanguage
+      };
+    }
+  };
+}
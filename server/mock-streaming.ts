@@ -0,0 +1,280 @@
+import { createHash } from 'node:crypto';
+import type { IncomingMessage } from 'node:http';
+import type { Duplex } from 'node:stream';
+import { API_ROUTES } from '../src/lib/transcription-api-contract';
+import { TRANSCRIBE_FIXTURES } from '../src/lib/providers/fixtures';
+import { decodeEventStreamMessage, encodeEventStreamMessage } from '../src/lib/event-stream';
+
+// Stand-in for Transcribe Streaming that runs with the mock backend. It speaks
+// the same event stream protocol over a WebSocket and "recognises" the words
+// of a recorded transcript at a steady pace whenever the audio isn't silent,
+// so captions follow the speaker without any AWS account.
+
+export interface MockStreamingConfig {
+  wordsPerSecond: number;
+  // Silence that ends a segment, like a pause in speech
+  pauseSeconds: number;
+  // RMS level, 0-1, above which audio counts as speech
+  voiceThreshold: number;
+}
+
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const OPCODE_CONTINUATION = 0x0;
+const OPCODE_BINARY = 0x2;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+interface ScriptItem {
+  type: 'pronunciation' | 'punctuation';
+  content: string;
+}
+
+interface StreamItem {
+  Type: ScriptItem['type'];
+  Content: string;
+  StartTime: number;
+  EndTime: number;
+  VocabularyFilterMatch: boolean;
+  Speaker?: string;
+}
+
+const SCRIPT: ScriptItem[] = TRANSCRIBE_FIXTURES['single-speaker'].results.items.map(item => ({
+  type: item.type === 'punctuation' ? 'punctuation' : 'pronunciation',
+  content: item.alternatives[0].content
+}));
+
+function encodeFrame(opcode: number, payload: Uint8Array): Buffer {
+  const length = payload.length;
+  const header = length < 126 ? Buffer.alloc(2) : length < 65536 ? Buffer.alloc(4) : Buffer.alloc(10);
+  header[0] = 0x80 | opcode;
+  if (length < 126) {
+    header[1] = length;
+  } else if (length < 65536) {
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+// Reads client frames, which are always masked, as they arrive in pieces
+function createFrameReader(onMessage: (opcode: number, payload: Buffer) => void) {
+  let buffered = Buffer.alloc(0);
+  let fragments: Buffer[] = [];
+  let fragmentOpcode = 0;
+
+  return (chunk: Buffer) => {
+    buffered = Buffer.concat([buffered, chunk]);
+    for (;;) {
+      if (buffered.length < 2) return;
+      const fin = (buffered[0] & 0x80) !== 0;
+      const opcode = buffered[0] & 0x0f;
+      const masked = (buffered[1] & 0x80) !== 0;
+      let length = buffered[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (buffered.length < 4) return;
+        length = buffered.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (buffered.length < 10) return;
+        length = Number(buffered.readBigUInt64BE(2));
+        offset = 10;
+      }
+      const maskOffset = offset;
+      if (masked) offset += 4;
+      if (buffered.length < offset + length) return;
+
+      const payload = Buffer.from(buffered.subarray(offset, offset + length));
+      if (masked) {
+        for (let i = 0; i < payload.length; i++) payload[i] ^= buffered[maskOffset + (i % 4)];
+      }
+      buffered = buffered.subarray(offset + length);
+
+      // Control frames can arrive between the fragments of a message
+      if (opcode >= OPCODE_CLOSE) {
+        onMessage(opcode, payload);
+      } else if (!fin) {
+        if (opcode !== OPCODE_CONTINUATION) fragmentOpcode = opcode;
+        fragments.push(payload);
+      } else if (opcode === OPCODE_CONTINUATION) {
+        onMessage(fragmentOpcode, Buffer.concat([...fragments, payload]));
+        fragments = [];
+      } else {
+        onMessage(opcode, payload);
+      }
+    }
+  };
+}
+
+function rmsLevel(pcm: Uint8Array): number {
+  const view = new DataView(pcm.buffer, pcm.byteOffset, pcm.byteLength);
+  const samples = Math.floor(pcm.length / 2);
+  let sum = 0;
+  for (let i = 0; i < samples; i++) {
+    const sample = view.getInt16(i * 2, true) / 32768;
+    sum += sample * sample;
+  }
+  return samples > 0 ? Math.sqrt(sum / samples) : 0;
+}
+
+// One live captioning session on an open socket
+function runSession(socket: Duplex, query: URLSearchParams, config: MockStreamingConfig) {
+  let closed = false;
+  const send = (headers: Record<string, string>, body: unknown) => {
+    if (closed) return;
+    const payload = new TextEncoder().encode(JSON.stringify(body));
+    socket.write(encodeFrame(OPCODE_BINARY, encodeEventStreamMessage({ headers, payload })));
+  };
+  const close = (code = 1000) => {
+    if (closed) return;
+    closed = true;
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(code);
+    socket.end(encodeFrame(OPCODE_CLOSE, payload));
+  };
+  const fail = (exceptionType: string, message: string) => {
+    send({ ':message-type': 'exception', ':exception-type': exceptionType, ':content-type': 'application/json' }, { Message: message });
+    close(1011);
+  };
+
+  const sampleRate = Number(query.get('sample-rate'));
+  if (!Number.isInteger(sampleRate) || sampleRate < 8000 || sampleRate > 48000) {
+    fail('BadRequestException', 'sample-rate must be between 8000 and 48000');
+    return;
+  }
+  const languageCode = query.get('language-code') ?? query.get('language-options')?.split(',')[0] ?? 'en-US';
+  const showSpeakers = query.get('show-speaker-label') === 'true';
+
+  let audioSeconds = 0;
+  let lastVoiceAt = 0;
+  let speech = 0;
+  let scriptIndex = 0;
+  let segmentCount = 0;
+  let segment: StreamItem[] = [];
+
+  const emit = (isPartial: boolean) => {
+    const first = segment[0];
+    const last = segment[segment.length - 1];
+    const transcript = segment.reduce(
+      (text, item) => (item.Type === 'punctuation' || !text ? text + item.Content : `${text} ${item.Content}`),
+      ''
+    );
+    send({ ':message-type': 'event', ':event-type': 'TranscriptEvent', ':content-type': 'application/json' }, {
+      Transcript: {
+        Results: [{
+          ResultId: `mock-${segmentCount}`,
+          StartTime: first.StartTime,
+          EndTime: last.EndTime,
+          IsPartial: isPartial,
+          ChannelId: 'ch_0',
+          LanguageCode: languageCode,
+          Alternatives: [{ Transcript: transcript, Items: segment }]
+        }]
+      }
+    });
+  };
+
+  const finishSegment = () => {
+    if (segment.length === 0) return;
+    emit(false);
+    segment = [];
+    segmentCount++;
+  };
+
+  // Take the next word from the script, with the punctuation that follows it
+  const recogniseWord = (end: number) => {
+    const previousEnd = segment[segment.length - 1]?.EndTime ?? 0;
+    const start = Number(Math.max(previousEnd, end - 1 / config.wordsPerSecond).toFixed(3));
+    const speaker = showSpeakers ? { Speaker: String(segmentCount % 2) } : {};
+    const take = () => {
+      const item = SCRIPT[scriptIndex];
+      scriptIndex = (scriptIndex + 1) % SCRIPT.length;
+      return item;
+    };
+    while (SCRIPT[scriptIndex].type === 'punctuation') take();
+    const word = take();
+    segment.push({ Type: 'pronunciation', Content: word.content, StartTime: start, EndTime: end, VocabularyFilterMatch: false, ...speaker });
+    while (SCRIPT[scriptIndex].type === 'punctuation') {
+      const mark = take();
+      segment.push({ Type: 'punctuation', Content: mark.content, StartTime: end, EndTime: end, VocabularyFilterMatch: false, ...speaker });
+      if (/[.?!]/.test(mark.content)) return true;
+    }
+    return false;
+  };
+
+  const receiveAudio = (pcm: Uint8Array) => {
+    const seconds = pcm.length / 2 / sampleRate;
+    audioSeconds += seconds;
+    if (rmsLevel(pcm) < config.voiceThreshold) {
+      if (audioSeconds - lastVoiceAt >= config.pauseSeconds) finishSegment();
+      return;
+    }
+
+    lastVoiceAt = audioSeconds;
+    speech += seconds * config.wordsPerSecond;
+    let recognised = false;
+    while (speech >= 1) {
+      speech--;
+      recognised = true;
+      if (recogniseWord(Number(audioSeconds.toFixed(3)))) {
+        finishSegment();
+        recognised = false;
+      }
+    }
+    if (recognised) emit(true);
+  };
+
+  const read = createFrameReader((opcode, payload) => {
+    if (opcode === OPCODE_PING) {
+      socket.write(encodeFrame(OPCODE_PONG, payload));
+    } else if (opcode === OPCODE_CLOSE) {
+      close();
+    } else if (opcode === OPCODE_BINARY) {
+      let message;
+      try {
+        message = decodeEventStreamMessage(payload);
+      } catch (error) {
+        fail('BadRequestException', (error as Error).message);
+        return;
+      }
+      if (message.headers[':event-type'] !== 'AudioEvent') return;
+      // An empty audio event ends the stream
+      if (message.payload.length === 0) {
+        finishSegment();
+        close();
+        return;
+      }
+      receiveAudio(message.payload);
+    }
+  });
+  socket.on('data', read);
+}
+
+// Handler for the HTTP server's 'upgrade' event
+export function createMockStreamingServer(config: MockStreamingConfig) {
+  return (request: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const url = new URL(request.url || '/', 'http://localhost');
+    const key = request.headers['sec-websocket-key'];
+    if (url.pathname !== API_ROUTES.mockStreaming || request.headers.upgrade?.toLowerCase() !== 'websocket' || !key) {
+      socket.end('HTTP/1.1 404 Not Found\r\nConnection: close\r\n\r\n');
+      return;
+    }
+
+    const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+    socket.write([
+      'HTTP/1.1 101 Switching Protocols',
+      'Upgrade: websocket',
+      'Connection: Upgrade',
+      `Sec-WebSocket-Accept: ${accept}`,
+      '',
+      ''
+    ].join('\r\n'));
+    socket.on('error', error => console.warn('Mock streaming socket error:', error.message));
+    runSession(socket, url.searchParams, config);
+    if (head.length > 0) socket.emit('data', head);
+  };
+}
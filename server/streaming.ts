@@ -0,0 +1,83 @@
+import { createHash, createHmac } from 'node:crypto';
+import type { CreateStreamingSessionRequest } from '../src/lib/transcription-api-contract';
+
+// Transcribe Streaming takes its settings as query parameters on the WebSocket
+// URL, which is signed with Signature Version 4 like a presigned S3 URL.
+
+export const STREAMING_PATH = '/stream-transcription-websocket';
+
+// Query parameters for a session; languageOptions are the resolved candidates
+// when the language is identified
+export function buildStreamingQuery(
+  request: CreateStreamingSessionRequest,
+  languageOptions: string[] | null
+): Record<string, string> {
+  return {
+    ...(languageOptions
+      ? { 'identify-language': 'true', 'language-options': languageOptions.join(',') }
+      : { 'language-code': request.language }),
+    'media-encoding': 'pcm',
+    'sample-rate': String(request.sampleRate),
+    ...(request.showSpeakerLabels && { 'show-speaker-label': 'true' }),
+    // Identification takes lists, matched to the candidates by their language
+    ...(request.vocabularyName && { [languageOptions ? 'vocabulary-names' : 'vocabulary-name']: request.vocabularyName }),
+    ...(request.vocabularyFilterName && {
+      [languageOptions ? 'vocabulary-filter-names' : 'vocabulary-filter-name']: request.vocabularyFilterName,
+      'vocabulary-filter-method': request.vocabularyFilterMethod || 'mask'
+    })
+  };
+}
+
+export interface StreamingCredentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+}
+
+export interface PresignStreamingOptions {
+  region: string;
+  credentials: StreamingCredentials;
+  query: Record<string, string>;
+  // Transcribe accepts at most 300 seconds
+  expiresSeconds: number;
+  now?: Date;
+}
+
+// RFC 3986 encoding, which SigV4 requires and encodeURIComponent nearly does
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+const sha256Hex = (data: string) => createHash('sha256').update(data, 'utf8').digest('hex');
+const hmac = (key: Buffer | string, data: string) => createHmac('sha256', key).update(data, 'utf8').digest();
+
+export function presignStreamingUrl({ region, credentials, query, expiresSeconds, now = new Date() }: PresignStreamingOptions): string {
+  const host = `transcribestreaming.${region}.amazonaws.com:8443`;
+  const amzDate = now.toISOString().replace(/[-:]|\.\d{3}/g, '');
+  const date = amzDate.slice(0, 8);
+  const scope = `${date}/${region}/transcribe/aws4_request`;
+
+  const params: Record<string, string> = {
+    ...query,
+    'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+    'X-Amz-Credential': `${credentials.accessKeyId}/${scope}`,
+    'X-Amz-Date': amzDate,
+    'X-Amz-Expires': String(expiresSeconds),
+    'X-Amz-SignedHeaders': 'host',
+    ...(credentials.sessionToken && { 'X-Amz-Security-Token': credentials.sessionToken })
+  };
+  const canonicalQuery = Object.keys(params)
+    .sort()
+    .map(name => `${encodeRfc3986(name)}=${encodeRfc3986(params[name])}`)
+    .join('&');
+
+  const canonicalRequest = ['GET', STREAMING_PATH, canonicalQuery, `host:${host}`, '', 'host', sha256Hex('')].join('\n');
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+  const signingKey = ['transcribe', 'aws4_request'].reduce(
+    (key, part) => hmac(key, part),
+    hmac(hmac(`AWS4${credentials.secretAccessKey}`, date), region)
+  );
+  const signature = createHmac('sha256', signingKey).update(stringToSign, 'utf8').digest('hex');
+
+  return `wss://${host}${STREAMING_PATH}?${canonicalQuery}&X-Amz-Signature=${signature}`;
+}
@@ -0,0 +1,173 @@
+import React, { useEffect, useMemo } from 'react';
+import { Check, Download, Mic, Pause, Play, Square, Trash2, X } from 'lucide-react';
+import { cn, formatFileSize } from '@/lib/utils';
+import { formatDuration } from '@/lib/transcribe-output';
+import { useAudioRecorder } from '@/hooks/use-audio-recorder';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+
+interface AudioRecorderProps {
+  // Receives the kept take, to transcribe like a chosen file
+  onRecordingComplete: (file: File) => void;
+  // Goes back to choosing a file
+  onClose?: () => void;
+  maxDurationSeconds: number;
+  disabled?: boolean;
+}
+
+// Select can't hold an empty value, so the browser's default device gets its own
+const DEFAULT_DEVICE = 'default-input';
+
+const AudioRecorder: React.FC<AudioRecorderProps> = ({
+  onRecordingComplete,
+  onClose,
+  maxDurationSeconds,
+  disabled = false
+}) => {
+  const recorder = useAudioRecorder(maxDurationSeconds);
+  const { state, recording } = recorder;
+  const active = state === 'recording' || state === 'paused';
+  const recordingUrl = useMemo(() => recording && URL.createObjectURL(recording), [recording]);
+
+  useEffect(() => () => {
+    if (recordingUrl) URL.revokeObjectURL(recordingUrl);
+  }, [recordingUrl]);
+
+  const saveRecording = () => {
+    if (!recording || !recordingUrl) return;
+    const link = document.createElement('a');
+    link.href = recordingUrl;
+    link.download = recording.name;
+    link.click();
+  };
+
+  if (!recorder.supported) {
+    return (
+      <div className="glass-card rounded-2xl p-8 text-center text-sm text-muted-foreground">
+        This browser can't record from a microphone.
+        {onClose && (
+          <Button variant="link" size="sm" onClick={onClose}>Upload a file instead</Button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="glass-card relative space-y-5 rounded-2xl p-6">
+      {onClose && !active && (
+        <button
+          onClick={onClose}
+          className="absolute right-3 top-3 rounded-full bg-muted/80 p-1.5 text-muted-foreground transition-colors hover:bg-muted hover:text-foreground"
+          aria-label="Upload a file instead"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      )}
+
+      <div className="flex items-center gap-2">
+        <Mic className="h-5 w-5 text-primary" />
+        <h3 className="text-lg font-medium">Record from microphone</h3>
+      </div>
+
+      <Select
+        value={recorder.deviceId || DEFAULT_DEVICE}
+        onValueChange={value => recorder.setDeviceId(value === DEFAULT_DEVICE ? '' : value)}
+        disabled={disabled || active || state === 'starting'}
+      >
+        <SelectTrigger className="w-full" aria-label="Microphone">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={DEFAULT_DEVICE}>Default microphone</SelectItem>
+          {recorder.devices
+            .filter(device => device.deviceId && device.deviceId !== 'default')
+            .map(device => (
+              <SelectItem key={device.deviceId} value={device.deviceId}>{device.label}</SelectItem>
+            ))}
+        </SelectContent>
+      </Select>
+
+      <div className="space-y-2">
+        <div className="flex items-baseline justify-between">
+          <span
+            className={cn(
+              'font-mono text-3xl tabular-nums',
+              state === 'recording' && 'text-destructive',
+              state === 'paused' && 'animate-pulse'
+            )}
+          >
+            {formatDuration(recorder.elapsed)}
+          </span>
+          <span className="text-xs text-muted-foreground">
+            up to {formatDuration(maxDurationSeconds)}
+          </span>
+        </div>
+        <Progress value={recorder.level * 100} className="h-2" aria-label="Input level" />
+      </div>
+
+      {recorder.error && <p className="text-sm text-destructive">{recorder.error}</p>}
+      {recorder.reachedLimit && (
+        <p className="text-sm text-muted-foreground">Recording stopped at the maximum length.</p>
+      )}
+
+      {state === 'stopped' && recording && recordingUrl ? (
+        <div className="space-y-3">
+          <audio src={recordingUrl} controls className="w-full" />
+          <p className="text-xs text-muted-foreground">
+            {recording.name} · {formatFileSize(recording.size)}
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <Button onClick={() => onRecordingComplete(recording)} disabled={disabled}>
+              <Check className="mr-1.5 h-4 w-4" />
+              Transcribe
+            </Button>
+            <Button variant="outline" onClick={saveRecording}>
+              <Download className="mr-1.5 h-4 w-4" />
+              Save
+            </Button>
+            <Button variant="ghost" onClick={recorder.discard}>
+              <Trash2 className="mr-1.5 h-4 w-4" />
+              Discard
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {!active ? (
+            <Button onClick={recorder.start} disabled={disabled || state === 'starting'}>
+              <Mic className="mr-1.5 h-4 w-4" />
+              {state === 'starting' ? 'Starting...' : 'Start recording'}
+            </Button>
+          ) : (
+            <>
+              {state === 'recording' ? (
+                <Button variant="outline" onClick={recorder.pause}>
+                  <Pause className="mr-1.5 h-4 w-4" />
+                  Pause
+                </Button>
+              ) : (
+                <Button variant="outline" onClick={recorder.resume}>
+                  <Play className="mr-1.5 h-4 w-4" />
+                  Resume
+                </Button>
+              )}
+              <Button variant="destructive" onClick={recorder.stop}>
+                <Square className="mr-1.5 h-4 w-4" />
+                Stop
+              </Button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AudioRecorder;
@@ -1,28 +1,90 @@
 
 import React, { useState, useRef } from 'react';
-import { Cloud, FileAudio, Loader2, X } from 'lucide-react';
+import { Cloud, FileAudio, FolderOpen, Loader2, Mic, X } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { toast } from 'sonner';
-import { cn } from '@/lib/utils';
+import { cn, formatFileSize } from '@/lib/utils';
+import { formatEta, type UploadStats } from '@/lib/upload-progress';
+import { isSubtitleFile, SUBTITLE_FILE_EXTENSIONS } from '@/lib/subtitle-import';
+import { inspectMedia, MEDIA_FILE_ACCEPT, SUPPORTED_MEDIA_DESCRIPTION } from '@/lib/media-format';
+import { shouldExtractAudio, EXTRACTABLE_VIDEO_DESCRIPTION } from '@/lib/audio-extraction';
+import { Progress } from '@/components/ui/progress';
+import AudioRecorder from '@/components/AudioRecorder';
 
 interface AudioUploaderProps {
   onFileSelected: (file: File) => void;
+  // Receives every valid file when several files or a folder are selected at once
+  onFilesSelected?: (files: File[]) => void;
+  // Receives an existing .srt/.vtt file to edit, with the media file dropped alongside it if any
+  onSubtitleImport?: (subtitles: File, media: File | null) => void;
   isLoading: boolean;
+  // Shows a cancel button while loading
+  onCancel?: () => void;
+  // Replaces the generic loading text, e.g. with the AWS job status
+  statusMessage?: string;
+  // Overall progress (0-100); without it an indeterminate bar is shown
+  progress?: number;
+  // Transfer details shown while the file is uploading
+  uploadStats?: UploadStats;
   disabled?: boolean; // Added the disabled prop as optional
+  // MIME types to accept instead of audio and video, which are recognised from their contents
   acceptedFileTypes?: string[];
   maxFileSizeMB?: number;
+  // Offers recording from a microphone, stopping at this length
+  maxRecordingSeconds?: number;
+}
+
+// Recursively collect files from dropped folders
+async function readEntry(entry: FileSystemEntry): Promise<File[]> {
+  if (entry.isFile) {
+    return new Promise((resolve, reject) => (entry as FileSystemFileEntry).file(file => resolve([file]), reject));
+  }
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const children: FileSystemEntry[] = [];
+  // readEntries returns results in batches until it yields an empty list
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) break;
+    children.push(...batch);
+  }
+
+  const nested = await Promise.all(children.map(readEntry));
+  return nested.flat();
+}
+
+async function collectDroppedFiles(dataTransfer: DataTransfer): Promise<File[]> {
+  const entries = Array.from(dataTransfer.items || [])
+    .map(item => item.webkitGetAsEntry?.())
+    .filter(Boolean);
+
+  if (entries.length === 0) {
+    return Array.from(dataTransfer.files);
+  }
+
+  const files = await Promise.all(entries.map(readEntry));
+  return files.flat();
 }
 
 const AudioUploader: React.FC<AudioUploaderProps> = ({
   onFileSelected,
+  onFilesSelected,
+  onSubtitleImport,
   isLoading,
+  onCancel,
+  statusMessage,
+  progress,
+  uploadStats,
   disabled = false, // Default to false
-  acceptedFileTypes = ['audio/mp3', 'audio/wav', 'audio/mpeg', 'audio/m4a'],
-  maxFileSizeMB = 100
+  acceptedFileTypes,
+  maxFileSizeMB = 100,
+  maxRecordingSeconds
 }) => {
   const [isDragging, setIsDragging] = useState(false);
+  const [isRecording, setIsRecording] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
 
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
@@ -34,44 +96,92 @@ const AudioUploader: React.FC<AudioUploaderProps> = ({
     setIsDragging(false);
   };
 
-  const validateFile = (file: File): boolean => {
-    // Check file type
-    if (!acceptedFileTypes.includes(file.type)) {
-      toast.error(`Invalid file type. Please select ${acceptedFileTypes.join(', ')}`);
-      return false;
+  // Resolves to the reason a file can't be used, or null if it is valid
+  const getValidationError = async (file: File): Promise<string | null> => {
+    // Check file size (convert MB to bytes)
+    const sizeError = file.size > maxFileSizeMB * 1024 * 1024
+      ? `${file.name} is too large. Maximum size is ${maxFileSizeMB}MB`
+      : null;
+
+    if (acceptedFileTypes) {
+      return sizeError || (acceptedFileTypes.includes(file.type)
+        ? null
+        : `Invalid file type. Please select ${acceptedFileTypes.join(', ')}`);
+    }
+
+    // Browsers guess the type from the extension, so look at the file itself
+    try {
+      const media = await inspectMedia(file);
+      // Videos Transcribe can't take directly have their audio extracted later,
+      // and only the extracted audio has to fit the upload limit
+      if (shouldExtractAudio(media)) return null;
+      return sizeError || (media.problem && `${file.name}: ${media.problem}`);
+    } catch (error) {
+      console.error('Could not read file:', error);
+      return `Could not read ${file.name}`;
+    }
+  };
+
+  const handleFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+
+    const subtitles = onSubtitleImport ? files.find(isSubtitleFile) : undefined;
+    if (subtitles) {
+      const others = files.filter(file => !isSubtitleFile(file));
+      const errors = await Promise.all(others.map(getValidationError));
+      const media = others.find((_, i) => !errors[i]) ?? null;
+      if (others.length > 0 && !media) {
+        toast.warning(`Importing subtitles without media: ${errors[0]}`);
+      }
+      setSelectedFile(media ?? subtitles);
+      onSubtitleImport(subtitles, media);
+      return;
     }
 
-    // Check file size (convert MB to bytes)
-    if (file.size > maxFileSizeMB * 1024 * 1024) {
-      toast.error(`File is too large. Maximum size is ${maxFileSizeMB}MB`);
-      return false;
+    if (files.length === 1 || !onFilesSelected) {
+      const file = files[0];
+      const error = await getValidationError(file);
+      if (error) {
+        toast.error(error);
+        return;
+      }
+      setSelectedFile(file);
+      onFileSelected(file);
+      return;
     }
 
-    return true;
+    const errors = await Promise.all(files.map(getValidationError));
+    const validFiles = files.filter((_, i) => !errors[i]);
+    const skipped = errors.filter(Boolean);
+    if (skipped.length === 1) {
+      toast.warning(`Skipped ${skipped[0]}`);
+    } else if (skipped.length > 1) {
+      toast.warning(`Skipped ${skipped.length} unsupported or oversized files`, { description: skipped.join('; ') });
+    }
+    if (validFiles.length > 0) {
+      onFilesSelected(validFiles);
+    }
   };
 
-  const handleDrop = (e: React.DragEvent) => {
+  const handleDrop = async (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
     
     if (disabled) return; // Don't process drops if disabled
     
-    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-      const file = e.dataTransfer.files[0];
-      if (validateFile(file)) {
-        setSelectedFile(file);
-        onFileSelected(file);
-      }
+    try {
+      await handleFiles(await collectDroppedFiles(e.dataTransfer));
+    } catch (error) {
+      console.error('Error reading dropped files:', error);
+      toast.error('Failed to read dropped files');
     }
   };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
-      const file = e.target.files[0];
-      if (validateFile(file)) {
-        setSelectedFile(file);
-        onFileSelected(file);
-      }
+      handleFiles(Array.from(e.target.files));
+      // Allow choosing the same files or folder again
+      e.target.value = '';
     }
   };
 
@@ -84,12 +194,6 @@ const AudioUploader: React.FC<AudioUploaderProps> = ({
     }
   };
 
-  const formatFileSize = (bytes: number): string => {
-    if (bytes < 1024) return bytes + ' B';
-    else if (bytes < 1048576) return (bytes / 1024).toFixed(1) + ' KB';
-    else return (bytes / 1048576).toFixed(1) + ' MB';
-  };
-
   return (
     <motion.div
       initial={{ opacity: 0, y: 10 }}
@@ -97,7 +201,17 @@ const AudioUploader: React.FC<AudioUploaderProps> = ({
       transition={{ duration: 0.4, ease: 'easeOut' }}
       className="w-full"
     >
-      {!selectedFile ? (
+      {!selectedFile && isRecording && maxRecordingSeconds ? (
+        <AudioRecorder
+          maxDurationSeconds={maxRecordingSeconds}
+          disabled={disabled}
+          onClose={() => setIsRecording(false)}
+          onRecordingComplete={file => {
+            setIsRecording(false);
+            handleFiles([file]);
+          }}
+        />
+      ) : !selectedFile ? (
         <div
           onDragOver={disabled ? undefined : handleDragOver}
           onDragLeave={disabled ? undefined : handleDragLeave}
@@ -113,10 +227,21 @@ const AudioUploader: React.FC<AudioUploaderProps> = ({
             type="file"
             ref={fileInputRef}
             onChange={handleFileChange}
-            accept={acceptedFileTypes.join(',')}
+            accept={[...(acceptedFileTypes ?? MEDIA_FILE_ACCEPT), ...(onSubtitleImport ? SUBTITLE_FILE_EXTENSIONS : [])].join(',')}
             className="hidden"
             disabled={disabled}
+            multiple={!!onFilesSelected}
           />
+          {onFilesSelected && (
+            <input
+              type="file"
+              ref={folderInputRef}
+              onChange={handleFileChange}
+              className="hidden"
+              disabled={disabled}
+              {...({ webkitdirectory: '' } as React.InputHTMLAttributes<HTMLInputElement>)}
+            />
+          )}
 
           <motion.div
             animate={{ scale: isDragging ? 1.05 : 1 }}
@@ -130,12 +255,49 @@ const AudioUploader: React.FC<AudioUploaderProps> = ({
           <p className="text-muted-foreground text-center mb-4 max-w-sm">
             {disabled 
               ? "Please configure AWS credentials first" 
-              : "Drag and drop your audio file here, or click to browse"}
+              : onFilesSelected
+                ? "Drag and drop audio files or folders here, or click to browse"
+                : "Drag and drop your audio file here, or click to browse"}
           </p>
+
+          {onFilesSelected && !disabled && (
+            <button
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation();
+                folderInputRef.current?.click();
+              }}
+              className="mb-4 inline-flex items-center text-sm text-primary hover:underline"
+            >
+              <FolderOpen className="mr-1.5 h-4 w-4" />
+              Select a folder
+            </button>
+          )}
+
+          {maxRecordingSeconds && !disabled && (
+            <button
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation();
+                setIsRecording(true);
+              }}
+              className="mb-4 inline-flex items-center text-sm text-primary hover:underline"
+            >
+              <Mic className="mr-1.5 h-4 w-4" />
+              Record from microphone
+            </button>
+          )}
           
           <span className="text-xs text-muted-foreground">
-            Supports {acceptedFileTypes.map(type => type.split('/')[1]).join(', ')} (up to {maxFileSizeMB}MB)
+            Supports {acceptedFileTypes
+              ? acceptedFileTypes.map(type => type.split('/')[1]).join(', ')
+              : `${SUPPORTED_MEDIA_DESCRIPTION} audio, or ${EXTRACTABLE_VIDEO_DESCRIPTION}`} (up to {maxFileSizeMB}MB)
           </span>
+          {onSubtitleImport && (
+            <span className="mt-1 text-xs text-muted-foreground">
+              Or drop an existing .srt or .vtt file, together with its media, to edit it
+            </span>
+          )}
         </div>
       ) : (
         <motion.div
@@ -147,10 +309,29 @@ const AudioUploader: React.FC<AudioUploaderProps> = ({
             <div className="absolute inset-0 bg-background/80 backdrop-blur-sm rounded-2xl flex items-center justify-center z-10">
               <div className="flex flex-col items-center">
                 <Loader2 className="animate-spin w-8 h-8 text-primary mb-3" />
-                <span className="text-sm font-medium">Processing audio...</span>
-                <div className="w-48 h-1 bg-muted rounded-full mt-4 overflow-hidden">
-                  <div className="h-full bg-primary animate-progress rounded-full"></div>
-                </div>
+                <span className="text-sm font-medium">{statusMessage || 'Processing audio...'}</span>
+                {progress === undefined ? (
+                  <div className="w-48 h-1 bg-muted rounded-full mt-4 overflow-hidden">
+                    <div className="h-full bg-primary animate-progress rounded-full"></div>
+                  </div>
+                ) : (
+                  <Progress value={progress} className="w-48 h-1 mt-4" />
+                )}
+                {uploadStats && (
+                  <span className="mt-2 text-xs text-muted-foreground tabular-nums">
+                    {formatFileSize(uploadStats.loaded)} of {formatFileSize(uploadStats.total)}
+                    {uploadStats.bytesPerSecond > 0 && ` · ${formatFileSize(uploadStats.bytesPerSecond)}/s`}
+                    {` · ${formatEta(uploadStats.etaSeconds)}`}
+                  </span>
+                )}
+                {onCancel && (
+                  <button
+                    onClick={onCancel}
+                    className="mt-4 text-sm text-muted-foreground hover:text-foreground underline-offset-4 hover:underline"
+                  >
+                    Cancel
+                  </button>
+                )}
               </div>
             </div>
           ) : (
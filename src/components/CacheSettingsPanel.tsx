@@ -0,0 +1,185 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Database, Eye, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatFileSize } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger
+} from '@/components/ui/sheet';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  clearTranscriptionCache,
+  deleteCachedTranscription,
+  evictEntries,
+  getCacheSettings,
+  listCachedTranscriptions,
+  saveCacheSettings,
+  type CacheEntry,
+  type CacheSettings
+} from '@/lib/transcription-cache';
+
+const CacheSettingsPanel: React.FC = () => {
+  const [open, setOpen] = useState(false);
+  const [settings, setSettings] = useState<CacheSettings>(getCacheSettings);
+  const [entries, setEntries] = useState<CacheEntry[]>([]);
+  const [inspected, setInspected] = useState<CacheEntry | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setEntries(await listCachedTranscriptions());
+    } catch (error) {
+      console.error('Error reading transcription cache:', error);
+      toast.error('Failed to read the transcription cache');
+    }
+  }, []);
+
+  useEffect(() => {
+    if (open) refresh();
+  }, [open, refresh]);
+
+  const updateNumber = (field: 'ttlHours' | 'maxEntries' | 'maxSizeMB') =>
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const value = Number(e.target.value);
+      if (value > 0) setSettings(prev => ({ ...prev, [field]: value }));
+    };
+
+  const handleSave = async () => {
+    saveCacheSettings(settings);
+    await evictEntries(settings);
+    await refresh();
+    toast.success('Cache settings saved');
+  };
+
+  const handleDelete = async (key: string) => {
+    await deleteCachedTranscription(key);
+    await refresh();
+  };
+
+  const handlePurge = async () => {
+    await clearTranscriptionCache();
+    await refresh();
+    toast.success('Transcription cache cleared');
+  };
+
+  const totalSize = entries.reduce((sum, entry) => sum + entry.size, 0);
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Database className="mr-2 h-4 w-4" />
+          Cache
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-xl overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Transcription Cache</SheetTitle>
+          <SheetDescription>
+            Re-uploading the same file with the same settings reuses a cached result instead of starting a new AWS job.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-4">
+          <div className="flex items-center gap-3">
+            <Switch
+              id="cache-enabled"
+              checked={settings.enabled}
+              onCheckedChange={(enabled) => setSettings(prev => ({ ...prev, enabled }))}
+            />
+            <label htmlFor="cache-enabled" className="text-sm font-medium">Use cached transcriptions</label>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className="block text-xs text-muted-foreground mb-1">Keep for (hours)</label>
+              <Input type="number" min={1} value={settings.ttlHours} onChange={updateNumber('ttlHours')} />
+            </div>
+            <div>
+              <label className="block text-xs text-muted-foreground mb-1">Max entries</label>
+              <Input type="number" min={1} value={settings.maxEntries} onChange={updateNumber('maxEntries')} />
+            </div>
+            <div>
+              <label className="block text-xs text-muted-foreground mb-1">Max size (MB)</label>
+              <Input type="number" min={1} value={settings.maxSizeMB} onChange={updateNumber('maxSizeMB')} />
+            </div>
+          </div>
+
+          <Button size="sm" onClick={handleSave}>Save settings</Button>
+        </div>
+
+        <div className="mt-8">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-sm text-muted-foreground">
+              {entries.length} entries, {formatFileSize(totalSize)}
+            </span>
+            <Button variant="destructive" size="sm" onClick={handlePurge} disabled={entries.length === 0}>
+              <Trash2 className="mr-2 h-4 w-4" />
+              Purge all
+            </Button>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>File</TableHead>
+                <TableHead>Language</TableHead>
+                <TableHead>Size</TableHead>
+                <TableHead>Last used</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map(entry => (
+                <TableRow key={entry.key}>
+                  <TableCell className="max-w-[140px] truncate" title={entry.fileName}>{entry.fileName}</TableCell>
+                  <TableCell>{entry.language}</TableCell>
+                  <TableCell>{formatFileSize(entry.size)}</TableCell>
+                  <TableCell>{new Date(entry.lastAccessedAt).toLocaleString()}</TableCell>
+                  <TableCell className="flex gap-1 justify-end">
+                    <Button variant="ghost" size="icon" onClick={() => setInspected(entry)} aria-label="Inspect entry">
+                      <Eye className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => handleDelete(entry.key)} aria-label="Delete entry">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        <Dialog open={!!inspected} onOpenChange={(isOpen) => !isOpen && setInspected(null)}>
+          <DialogContent className="max-w-2xl">
+            <DialogHeader>
+              <DialogTitle>{inspected?.fileName}</DialogTitle>
+            </DialogHeader>
+            {inspected && (
+              <div className="space-y-2 text-sm">
+                <p className="text-muted-foreground break-all">Hash: {inspected.fileHash}</p>
+                <p className="text-muted-foreground">
+                  Cached {new Date(inspected.createdAt).toLocaleString()} · {formatFileSize(inspected.fileSize)} source ·
+                  duration {inspected.result.duration} · {inspected.result.cues.length} subtitles
+                </p>
+                <p className="text-muted-foreground">Job options: {JSON.stringify(inspected.jobOptions)}</p>
+                <pre className="max-h-80 overflow-y-auto rounded-md bg-muted p-4 font-mono text-xs whitespace-pre-wrap">
+                  {inspected.result.srtContent}
+                </pre>
+              </div>
+            )}
+          </DialogContent>
+        </Dialog>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default CacheSettingsPanel;
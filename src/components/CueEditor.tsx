@@ -0,0 +1,197 @@
+import React, { useRef } from 'react';
+import { Merge, Minus, Plus, Redo2, Scissors, Trash2, Undo2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  deleteCue,
+  insertCueAfter,
+  mergeWithNext,
+  nudgeCue,
+  splitCue,
+  updateCueText,
+  type EditableCue
+} from '@/lib/cue-editor';
+import type { SetHistoryOptions } from '@/hooks/use-undo-history';
+import { formatSrtTime, speakerDisplayName } from '@/lib/subtitle-formats';
+
+// Seconds moved per click on a nudge button; Shift+click moves a whole second
+const NUDGE_STEP = 0.1;
+
+interface CueEditorProps {
+  cues: EditableCue[];
+  onEdit: (update: (cues: EditableCue[]) => EditableCue[], options?: SetHistoryOptions) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  speakerNames?: Record<string, string>;
+  // Cue under the playhead, when media is playing alongside the editor
+  activeCueId?: string;
+  onSeek?: (seconds: number) => void;
+}
+
+const CueEditor: React.FC<CueEditorProps> = ({
+  cues,
+  onEdit,
+  onUndo,
+  onRedo,
+  canUndo,
+  canRedo,
+  speakerNames = {},
+  activeCueId,
+  onSeek
+}) => {
+  // Last caret position in each cue's text, used as the split point
+  const carets = useRef(new Map<string, number>());
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!(e.ctrlKey || e.metaKey)) return;
+    const key = e.key.toLowerCase();
+    // Text edits are part of the cue history, so the editor's own undo replaces the textarea's
+    if (key === 'z' || key === 'y') {
+      e.preventDefault();
+      if (key === 'y' || e.shiftKey) onRedo();
+      else onUndo();
+    }
+  };
+
+  const nudge = (id: string, edge: 'start' | 'end', direction: 1 | -1) => (e: React.MouseEvent) => {
+    const step = e.shiftKey ? 1 : NUDGE_STEP;
+    onEdit(prev => nudgeCue(prev, id, edge, direction * step), { coalesceKey: `nudge:${id}:${edge}` });
+  };
+
+  const renderTime = (cue: EditableCue, edge: 'start' | 'end') => (
+    <div className="flex items-center">
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-7 w-7"
+        onClick={nudge(cue.id, edge, -1)}
+        title={`Move ${edge} earlier (Shift: 1s)`}
+      >
+        <Minus className="h-3 w-3" />
+      </Button>
+      <span className="font-mono text-xs tabular-nums">{formatSrtTime(cue[edge])}</span>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-7 w-7"
+        onClick={nudge(cue.id, edge, 1)}
+        title={`Move ${edge} later (Shift: 1s)`}
+      >
+        <Plus className="h-3 w-3" />
+      </Button>
+    </div>
+  );
+
+  return (
+    <div className="space-y-3" onKeyDown={handleKeyDown}>
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={onUndo} disabled={!canUndo} title="Undo (Ctrl+Z)">
+            <Undo2 className="mr-2 h-4 w-4" />
+            Undo
+          </Button>
+          <Button variant="outline" size="sm" onClick={onRedo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)">
+            <Redo2 className="mr-2 h-4 w-4" />
+            Redo
+          </Button>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => onEdit(prev => insertCueAfter(prev, null))}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add cue at start
+        </Button>
+      </div>
+
+      <div className="max-h-[32rem] space-y-2 overflow-y-auto pr-1">
+        {cues.length === 0 && (
+          <p className="py-8 text-center text-sm text-muted-foreground">No subtitles left. Add a cue to start over.</p>
+        )}
+        {cues.map((cue, index) => {
+          const label = cue.speaker || cue.channel;
+          return (
+            <div key={cue.id} className={cn('rounded-md border p-2', cue.id === activeCueId && 'border-primary')}>
+              <div className="mb-1 flex flex-wrap items-center justify-between gap-1">
+                <div className="flex flex-wrap items-center gap-1 text-sm">
+                  {onSeek ? (
+                    <button
+                      type="button"
+                      className="w-8 text-left text-muted-foreground hover:text-foreground"
+                      onClick={() => onSeek(cue.start)}
+                      title="Play from here"
+                    >
+                      {index + 1}
+                    </button>
+                  ) : (
+                    <span className="w-8 text-muted-foreground">{index + 1}</span>
+                  )}
+                  {renderTime(cue, 'start')}
+                  <span className="text-muted-foreground">→</span>
+                  {renderTime(cue, 'end')}
+                  {label && (
+                    <span className="ml-2 text-xs text-muted-foreground">
+                      {speakerDisplayName(label, speakerNames)}
+                    </span>
+                  )}
+                </div>
+                <div className="flex">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    title="Split at the cursor"
+                    onClick={() => onEdit(prev => splitCue(prev, cue.id, carets.current.get(cue.id)))}
+                  >
+                    <Scissors className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    title="Merge with next"
+                    disabled={index === cues.length - 1}
+                    onClick={() => onEdit(prev => mergeWithNext(prev, cue.id))}
+                  >
+                    <Merge className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    title="Insert cue after"
+                    onClick={() => onEdit(prev => insertCueAfter(prev, cue.id))}
+                  >
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    title="Delete cue"
+                    onClick={() => onEdit(prev => deleteCue(prev, cue.id))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              <Textarea
+                value={cue.text}
+                rows={2}
+                className="min-h-0 resize-none"
+                onChange={(e) => {
+                  carets.current.set(cue.id, e.target.selectionStart);
+                  const text = e.target.value;
+                  onEdit(prev => updateCueText(prev, cue.id, text), { coalesceKey: `text:${cue.id}` });
+                }}
+                onSelect={(e) => carets.current.set(cue.id, e.currentTarget.selectionStart)}
+              />
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default CueEditor;
@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { Check, ChevronsUpDown, Star } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList
+} from '@/components/ui/command';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useFavouriteLanguages } from '@/hooks/use-favourite-languages';
+import { languageName, TRANSCRIBE_LANGUAGES, type TranscribeLanguage } from '@/lib/languages';
+
+interface LanguagePickerProps {
+  value: string[];
+  onChange: (codes: string[]) => void;
+  // Picks several languages, e.g. candidates for language identification
+  multiple?: boolean;
+  placeholder?: string;
+  disabled?: boolean;
+  id?: string;
+}
+
+// Searchable list of every Transcribe language, with favourites on top
+const LanguagePicker: React.FC<LanguagePickerProps> = ({
+  value,
+  onChange,
+  multiple = false,
+  placeholder = 'Select language',
+  disabled,
+  id
+}) => {
+  const [open, setOpen] = useState(false);
+  const { favourites, toggleFavourite } = useFavouriteLanguages();
+
+  const favouriteLanguages = TRANSCRIBE_LANGUAGES.filter(language => favourites.includes(language.code));
+  const otherLanguages = TRANSCRIBE_LANGUAGES.filter(language => !favourites.includes(language.code));
+
+  const select = (code: string) => {
+    if (!multiple) {
+      onChange([code]);
+      setOpen(false);
+      return;
+    }
+    onChange(value.includes(code) ? value.filter(selected => selected !== code) : [...value, code]);
+  };
+
+  const label = value.length === 0
+    ? placeholder
+    : value.map(languageName).join(', ');
+
+  const renderItem = (language: TranscribeLanguage) => {
+    const favourite = favourites.includes(language.code);
+    return (
+      <CommandItem
+        key={language.code}
+        value={`${language.name} ${language.code}`}
+        onSelect={() => select(language.code)}
+      >
+        <Check className={cn('mr-2 h-4 w-4', value.includes(language.code) ? 'opacity-100' : 'opacity-0')} />
+        <span className="flex-1">{language.name}</span>
+        <span className="mr-2 text-xs text-muted-foreground">{language.code}</span>
+        <button
+          type="button"
+          className="rounded p-0.5 text-muted-foreground hover:text-foreground"
+          aria-label={favourite ? `Remove ${language.name} from favourites` : `Add ${language.name} to favourites`}
+          onClick={(e) => {
+            // Starring shouldn't also pick the language
+            e.stopPropagation();
+            toggleFavourite(language.code);
+          }}
+        >
+          <Star className={cn('h-4 w-4', favourite && 'fill-amber-400 text-amber-400')} />
+        </button>
+      </CommandItem>
+    );
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          id={id}
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          disabled={disabled}
+          className="w-full justify-between font-normal"
+        >
+          <span className={cn('truncate', value.length === 0 && 'text-muted-foreground')}>{label}</span>
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[var(--radix-popover-trigger-width)] min-w-[18rem] p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search languages..." />
+          <CommandList>
+            <CommandEmpty>No language found.</CommandEmpty>
+            {favouriteLanguages.length > 0 && (
+              <CommandGroup heading="Favourites">{favouriteLanguages.map(renderItem)}</CommandGroup>
+            )}
+            <CommandGroup heading="All languages">{otherLanguages.map(renderItem)}</CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default LanguagePicker;
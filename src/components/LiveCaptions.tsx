@@ -0,0 +1,145 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { Download, FileText, Radio, RotateCcw, Square } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { useLiveCaptions, type LiveCaptionsSettings } from '@/hooks/use-live-captions';
+import { liveResultsToTranscript } from '@/lib/live-transcription';
+import { transcriptToCues, type TranscribeResult } from '@/lib/transcription';
+import { cuesToSrt } from '@/lib/subtitle-formats';
+import { formatDuration } from '@/lib/transcribe-output';
+import type { SegmentationOptions } from '@/lib/segmentation';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+
+interface LiveCaptionsProps {
+  settings: LiveCaptionsSettings;
+  segmentation: SegmentationOptions;
+  // Receives the finished session to edit like any other transcription
+  onOpenInEditor: (result: TranscribeResult, fileName: string) => void;
+  disabled?: boolean;
+}
+
+// Final results kept on screen above the partial one
+const VISIBLE_FINALS = 3;
+
+function sessionFileName(startedAt: Date | null): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const date = startedAt ?? new Date();
+  return `live-captions-${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+    + `-${pad(date.getHours())}-${pad(date.getMinutes())}.srt`;
+}
+
+const LiveCaptions: React.FC<LiveCaptionsProps> = ({
+  settings,
+  segmentation,
+  onOpenInEditor,
+  disabled = false
+}) => {
+  const captions = useLiveCaptions();
+  const { state, finals, partial } = captions;
+  const active = state === 'connecting' || state === 'live' || state === 'stopping';
+  const captionsRef = useRef<HTMLDivElement>(null);
+
+  // The session so far in the batch output format, for cues and the editor
+  const transcript = useMemo(
+    () => (finals.length > 0 ? liveResultsToTranscript(finals, settings.language) : null),
+    [finals, settings.language]
+  );
+  const cues = useMemo(() => (transcript ? transcriptToCues(transcript, segmentation) : []), [transcript, segmentation]);
+  const duration = finals.length > 0 ? finals[finals.length - 1].endTime : 0;
+
+  useEffect(() => {
+    captionsRef.current?.scrollTo({ top: captionsRef.current.scrollHeight });
+  }, [finals, partial]);
+
+  useEffect(() => {
+    if (captions.error) toast.error(captions.error);
+  }, [captions.error]);
+
+  const downloadSrt = () => {
+    const element = document.createElement('a');
+    const file = new Blob([cuesToSrt(cues)], { type: 'text/plain' });
+    element.href = URL.createObjectURL(file);
+    element.download = sessionFileName(captions.startedAt);
+    document.body.appendChild(element);
+    element.click();
+    document.body.removeChild(element);
+    URL.revokeObjectURL(element.href);
+    toast.success('SRT file downloaded successfully');
+  };
+
+  const openInEditor = () => {
+    if (!transcript) return;
+    onOpenInEditor({
+      srtContent: cuesToSrt(cues),
+      cues,
+      duration: formatDuration(duration),
+      rawTranscriptData: transcript
+    }, sessionFileName(captions.startedAt));
+  };
+
+  if (!captions.supported) return null;
+
+  return (
+    <div className="glass-card space-y-4 rounded-2xl p-6">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Radio className={cn('h-5 w-5 text-primary', state === 'live' && 'animate-pulse text-destructive')} />
+          <h3 className="text-lg font-medium">Live captions</h3>
+        </div>
+        {finals.length > 0 && (
+          <span className="font-mono text-sm tabular-nums text-muted-foreground">{formatDuration(duration)}</span>
+        )}
+      </div>
+
+      {(active || finals.length > 0) && (
+        <div
+          ref={captionsRef}
+          className="max-h-40 min-h-24 space-y-1 overflow-y-auto rounded-lg bg-black/80 p-4 text-lg leading-snug text-white"
+          aria-live="polite"
+        >
+          {finals.slice(-VISIBLE_FINALS).map(result => (
+            <p key={result.id}>{result.text}</p>
+          ))}
+          {partial && <p className="text-white/60">{partial.text}</p>}
+          {finals.length === 0 && !partial && (
+            <p className="text-white/50">{state === 'connecting' ? 'Connecting...' : 'Listening...'}</p>
+          )}
+        </div>
+      )}
+
+      {active && <Progress value={captions.level * 100} className="h-2" aria-label="Input level" />}
+
+      <div className="flex flex-wrap gap-2">
+        {active ? (
+          <Button variant="destructive" onClick={captions.stop} disabled={state !== 'live'}>
+            <Square className="mr-1.5 h-4 w-4" />
+            {state === 'stopping' ? 'Finishing...' : 'Stop'}
+          </Button>
+        ) : state === 'ended' ? (
+          <>
+            <Button onClick={openInEditor} disabled={!transcript}>
+              <FileText className="mr-1.5 h-4 w-4" />
+              Open in editor
+            </Button>
+            <Button variant="outline" onClick={downloadSrt} disabled={cues.length === 0}>
+              <Download className="mr-1.5 h-4 w-4" />
+              Download SRT
+            </Button>
+            <Button variant="ghost" onClick={captions.reset}>
+              <RotateCcw className="mr-1.5 h-4 w-4" />
+              New session
+            </Button>
+          </>
+        ) : (
+          <Button onClick={() => captions.start(settings)} disabled={disabled}>
+            <Radio className="mr-1.5 h-4 w-4" />
+            Start live captions
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LiveCaptions;
@@ -0,0 +1,149 @@
+import React, { memo, useEffect, useMemo, useRef, useState } from 'react';
+import { PlayCircle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { usePlaybackTime } from '@/hooks/use-playback-time';
+import { isVideoFile } from '@/lib/media-probe';
+import { findCueIndexAt, findWordIndexAt, type EditableCue } from '@/lib/cue-editor';
+import { formatSrtTime, speakerDisplayName } from '@/lib/subtitle-formats';
+
+interface MediaPlayerProps {
+  file: File;
+  cues: EditableCue[];
+  // Receives the media element so the parent can control playback
+  onMediaElement?: (media: HTMLMediaElement | null) => void;
+  onActiveCueChange?: (cueId: string | undefined) => void;
+  onSeek: (seconds: number) => void;
+  speakerNames?: Record<string, string>;
+}
+
+interface CueRowProps {
+  cue: EditableCue;
+  // Index of the word being spoken, only set on the active cue
+  activeWordIndex: number | null;
+  onSeek: (seconds: number) => void;
+  speakerNames: Record<string, string>;
+}
+
+// Memoised so that following the playhead only re-renders the active row
+const CueRow = memo(function CueRow({ cue, activeWordIndex, onSeek, speakerNames }: CueRowProps) {
+  const label = cue.speaker || cue.channel;
+  return (
+    <div className={cn('flex gap-3 rounded px-2 py-1', activeWordIndex !== null && 'bg-accent')}>
+      <button
+        type="button"
+        className="shrink-0 font-mono text-xs text-muted-foreground hover:text-foreground"
+        onClick={() => onSeek(cue.start)}
+        title="Play from here"
+      >
+        {formatSrtTime(cue.start)}
+      </button>
+      <p>
+        {label && (
+          <span className="mr-1 text-muted-foreground">{speakerDisplayName(label, speakerNames)}:</span>
+        )}
+        {cue.words.length > 0 ? (
+          cue.words.map((word, wordIndex) => (
+            <React.Fragment key={wordIndex}>
+              <span
+                className={cn(
+                  'cursor-pointer rounded hover:underline',
+                  wordIndex === activeWordIndex && 'bg-primary text-primary-foreground'
+                )}
+                onClick={() => onSeek(word.start)}
+              >
+                {word.text}
+              </span>{' '}
+            </React.Fragment>
+          ))
+        ) : (
+          // Cues without word timings seek to their start
+          <span className="cursor-pointer hover:underline" onClick={() => onSeek(cue.start)}>
+            {cue.text || ' '}
+          </span>
+        )}
+      </p>
+    </div>
+  );
+});
+
+const MediaPlayer: React.FC<MediaPlayerProps> = ({
+  file,
+  cues,
+  onMediaElement,
+  onActiveCueChange,
+  onSeek,
+  speakerNames = {}
+}) => {
+  const listRef = useRef<HTMLDivElement>(null);
+  const [media, setMedia] = useState<HTMLMediaElement | null>(null);
+  const { currentTime, playing } = usePlaybackTime(media);
+  const mediaUrl = useMemo(() => URL.createObjectURL(file), [file]);
+  const isVideo = isVideoFile(file);
+
+  useEffect(() => () => URL.revokeObjectURL(mediaUrl), [mediaUrl]);
+
+  useEffect(() => {
+    onMediaElement?.(media);
+  }, [media, onMediaElement]);
+
+  const activeIndex = findCueIndexAt(cues, currentTime);
+  const activeCue = cues[activeIndex];
+  const activeWordIndex = activeCue ? findWordIndexAt(activeCue.words, currentTime) : -1;
+
+  useEffect(() => {
+    onActiveCueChange?.(activeCue?.id);
+  }, [activeCue?.id, onActiveCueChange]);
+
+  // Keep the active cue in view while playing, without scrolling the page
+  useEffect(() => {
+    const list = listRef.current;
+    if (!playing || !list || activeIndex === -1) return;
+    const row = list.children[activeIndex] as HTMLElement | undefined;
+    if (!row) return;
+    if (row.offsetTop < list.scrollTop || row.offsetTop + row.offsetHeight > list.scrollTop + list.clientHeight) {
+      list.scrollTop = row.offsetTop - list.clientHeight / 3;
+    }
+  }, [activeIndex, playing]);
+
+  return (
+    <Card className="mb-6 w-full">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <PlayCircle className="h-5 w-5" />
+          Review playback
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isVideo ? (
+          <div className="relative overflow-hidden rounded-md bg-black">
+            <video ref={setMedia} src={mediaUrl} controls className="max-h-[28rem] w-full" />
+            {activeCue?.text && (
+              <div className="pointer-events-none absolute inset-x-0 bottom-12 flex justify-center px-4">
+                <span className="whitespace-pre-line rounded bg-black/75 px-2 py-1 text-center text-lg text-white">
+                  {activeCue.text}
+                </span>
+              </div>
+            )}
+          </div>
+        ) : (
+          <audio ref={setMedia} src={mediaUrl} controls className="w-full" />
+        )}
+
+        <div ref={listRef} className="relative max-h-64 space-y-1 overflow-y-auto pr-1 text-sm">
+          {cues.map((cue, index) => (
+            <CueRow
+              key={cue.id}
+              cue={cue}
+              activeWordIndex={index === activeIndex ? activeWordIndex : null}
+              onSeek={onSeek}
+              speakerNames={speakerNames}
+            />
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MediaPlayer;
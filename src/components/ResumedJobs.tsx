@@ -0,0 +1,153 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { History, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { isAbortError, resumeTranscription, type TranscribeResult } from '@/lib/transcription';
+import { listPersistedJobs, removePersistedJob, type PersistedJob } from '@/lib/transcription-jobs';
+import type { SegmentationOptions } from '@/lib/segmentation';
+
+interface ResumedJobsProps {
+  segmentation: SegmentationOptions;
+  onResult: (job: PersistedJob, result: TranscribeResult) => void;
+}
+
+interface ResumedJobState {
+  job: PersistedJob;
+  progress: number;
+  stage: string;
+  error?: string;
+}
+
+// Reattaches to jobs that were still running in AWS when the page was last closed
+const ResumedJobs: React.FC<ResumedJobsProps> = ({ segmentation, onResult }) => {
+  const [jobs, setJobs] = useState<ResumedJobState[]>([]);
+  const controllers = useRef(new Map<string, AbortController>());
+  const started = useRef(false);
+  const latest = useRef({ segmentation, onResult });
+
+  useEffect(() => {
+    latest.current = { segmentation, onResult };
+  }, [segmentation, onResult]);
+
+  const updateJob = (jobName: string, patch: Partial<ResumedJobState>) => {
+    setJobs(prev => prev.map(state => (state.job.jobName === jobName ? { ...state, ...patch } : state)));
+  };
+
+  const removeJob = (jobName: string) => {
+    controllers.current.delete(jobName);
+    setJobs(prev => prev.filter(state => state.job.jobName !== jobName));
+  };
+
+  useEffect(() => {
+    // Resume once per page load; aborting on unmount would delete the jobs in AWS
+    if (started.current) return;
+    started.current = true;
+
+    const persisted = listPersistedJobs();
+    if (persisted.length === 0) return;
+
+    setJobs(persisted.map(job => ({ job, progress: 0, stage: job.status.toLowerCase() })));
+    toast.info(`Reattaching to ${persisted.length} transcription job${persisted.length === 1 ? '' : 's'}`);
+
+    persisted.forEach(async job => {
+      const controller = new AbortController();
+      controllers.current.set(job.jobName, controller);
+
+      try {
+        const result = await resumeTranscription(job, {
+          segmentation: latest.current.segmentation,
+          signal: controller.signal,
+          quiet: true,
+          onProgress: ({ stage, percent }) => updateJob(job.jobName, { stage, progress: percent })
+        });
+        removeJob(job.jobName);
+        latest.current.onResult(job, result);
+        toast.success(`Transcription of ${job.fileName} completed`);
+      } catch (error) {
+        if (isAbortError(error)) return;
+        console.error('Error resuming transcription job:', error);
+        updateJob(job.jobName, {
+          stage: 'failed',
+          error: error instanceof Error ? error.message : 'Failed to resume transcription job'
+        });
+      }
+    });
+  }, []);
+
+  const handleCancel = (jobName: string) => {
+    controllers.current.get(jobName)?.abort();
+    removeJob(jobName);
+    toast.info('Transcription job cancelled');
+  };
+
+  const handleDismiss = (jobName: string) => {
+    removePersistedJob(jobName);
+    removeJob(jobName);
+  };
+
+  if (jobs.length === 0) return null;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5 }}
+      className="w-full"
+    >
+      <Card className="w-full">
+        <CardHeader>
+          <CardTitle className="flex items-center text-base">
+            <History className="mr-2 h-4 w-4" />
+            Jobs from a previous session
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>File</TableHead>
+                <TableHead>Language</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="w-32">Progress</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {jobs.map(({ job, progress, stage, error }) => (
+                <TableRow key={job.jobName}>
+                  <TableCell className="max-w-[200px] truncate" title={job.fileName}>{job.fileName}</TableCell>
+                  <TableCell>{job.language}</TableCell>
+                  <TableCell>
+                    <Badge variant={error ? 'destructive' : 'secondary'} title={error}>{stage}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    <Progress value={progress} className="h-2" />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {error ? (
+                      <Button variant="ghost" size="sm" onClick={() => handleDismiss(job.jobName)}>
+                        Dismiss
+                      </Button>
+                    ) : (
+                      <Button variant="ghost" size="sm" onClick={() => handleCancel(job.jobName)}>
+                        <X className="mr-1 h-4 w-4" />
+                        Cancel
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+};
+
+export default ResumedJobs;
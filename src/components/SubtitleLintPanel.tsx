@@ -0,0 +1,74 @@
+import React from 'react';
+import { AlertCircle, AlertTriangle, CheckCircle, Wand2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { LINT_RULE_LABELS, type LintIssue } from '@/lib/subtitle-lint';
+
+interface SubtitleLintPanelProps {
+  issues: LintIssue[];
+  onFix: (issues: LintIssue[]) => void;
+  onFixAll: () => void;
+  // Jumps to the cue, e.g. by seeking the player
+  onSelectCue?: (cueIndex: number) => void;
+}
+
+const SubtitleLintPanel: React.FC<SubtitleLintPanelProps> = ({ issues, onFix, onFixAll, onSelectCue }) => {
+  const errors = issues.filter(issue => issue.severity === 'error').length;
+  const fixable = issues.filter(issue => issue.fixable);
+
+  if (issues.length === 0) {
+    return (
+      <div className="flex items-center justify-center gap-2 py-8 text-sm text-muted-foreground">
+        <CheckCircle className="h-4 w-4 text-green-600" />
+        No problems found
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex gap-2 text-sm">
+          <Badge variant={errors > 0 ? 'destructive' : 'outline'}>{errors} errors</Badge>
+          <Badge variant="outline">{issues.length - errors} warnings</Badge>
+        </div>
+        <Button variant="outline" size="sm" onClick={onFixAll} disabled={fixable.length === 0}>
+          <Wand2 className="mr-2 h-4 w-4" />
+          Fix all
+        </Button>
+      </div>
+
+      <div className="max-h-96 divide-y overflow-y-auto rounded-md border">
+        {issues.map((issue, index) => (
+          <div key={index} className="flex items-center gap-3 px-3 py-2 text-sm">
+            {issue.severity === 'error' ? (
+              <AlertCircle className="h-4 w-4 shrink-0 text-destructive" />
+            ) : (
+              <AlertTriangle className="h-4 w-4 shrink-0 text-amber-500" />
+            )}
+            {onSelectCue ? (
+              <button
+                type="button"
+                className="w-12 shrink-0 text-left text-muted-foreground hover:text-foreground hover:underline"
+                onClick={() => onSelectCue(issue.cueIndex)}
+              >
+                #{issue.cueIndex + 1}
+              </button>
+            ) : (
+              <span className="w-12 shrink-0 text-muted-foreground">#{issue.cueIndex + 1}</span>
+            )}
+            <span className="w-28 shrink-0 font-medium">{LINT_RULE_LABELS[issue.rule]}</span>
+            <span className="flex-1 text-muted-foreground">{issue.message}</span>
+            {issue.fixable && (
+              <Button variant="ghost" size="sm" className="h-7" onClick={() => onFix([issue])}>
+                Fix
+              </Button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SubtitleLintPanel;
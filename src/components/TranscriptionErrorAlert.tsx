@@ -0,0 +1,54 @@
+import React from 'react';
+import { AlertCircle, RotateCcw, X } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { TranscriptionError } from '@/lib/transcription-errors';
+
+interface TranscriptionErrorAlertProps {
+  error: unknown;
+  onRetry?: () => void;
+  onDismiss: () => void;
+}
+
+const TITLES: Record<TranscriptionError['kind'], string> = {
+  credentials: 'AWS credentials problem',
+  media: 'Unsupported file',
+  upload: 'Upload failed',
+  'job-start': 'Could not start transcription',
+  'job-failed': 'Transcription failed',
+  timeout: 'Transcription timed out',
+  fetch: 'Could not fetch the transcript',
+  parse: 'Unexpected transcript format'
+};
+
+const TranscriptionErrorAlert: React.FC<TranscriptionErrorAlertProps> = ({ error, onRetry, onDismiss }) => {
+  const typed = error instanceof TranscriptionError ? error : null;
+  const message = error instanceof Error ? error.message : 'Failed to transcribe audio file';
+  // Errors from outside the pipeline carry no retry information, so allow a retry
+  const canRetry = onRetry && (!typed || typed.retryable);
+
+  return (
+    <Alert variant="destructive">
+      <AlertCircle className="h-4 w-4" />
+      <AlertTitle>{typed ? TITLES[typed.kind] : 'Transcription failed'}</AlertTitle>
+      <AlertDescription>
+        <p>{message}</p>
+        {typed?.hint && <p className="mt-1 text-muted-foreground">{typed.hint}</p>}
+        <div className="mt-3 flex gap-2">
+          {canRetry && (
+            <Button size="sm" variant="outline" onClick={onRetry}>
+              <RotateCcw className="mr-2 h-4 w-4" />
+              Retry
+            </Button>
+          )}
+          <Button size="sm" variant="ghost" onClick={onDismiss}>
+            <X className="mr-2 h-4 w-4" />
+            Dismiss
+          </Button>
+        </div>
+      </AlertDescription>
+    </Alert>
+  );
+};
+
+export default TranscriptionErrorAlert;
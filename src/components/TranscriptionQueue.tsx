@@ -0,0 +1,212 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Archive, Eye, RotateCcw, Trash2, X } from 'lucide-react';
+import JSZip from 'jszip';
+import { toast } from 'sonner';
+import { formatFileSize } from '@/lib/utils';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { formatCues, SUBTITLE_FORMATS, type SubtitleFormat } from '@/lib/subtitle-formats';
+import type { QueueItem, QueueItemStatus } from '@/hooks/use-transcription-queue';
+
+interface TranscriptionQueueProps {
+  items: QueueItem[];
+  concurrency: number;
+  onConcurrencyChange: (concurrency: number) => void;
+  onRetry: (id: string) => void;
+  onCancel: (id: string) => void;
+  onRemove: (id: string) => void;
+  onClearFinished: () => void;
+  onView: (item: QueueItem) => void;
+}
+
+const STATUS_VARIANTS: Record<QueueItemStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  queued: 'outline',
+  processing: 'secondary',
+  completed: 'default',
+  failed: 'destructive',
+  cancelled: 'outline'
+};
+
+// While transcribing, show whether AWS has actually picked the job up
+function describeProgress(item: QueueItem): string {
+  if (!item.stage) return item.status;
+  if (item.stage === 'transcribing' && item.jobStatus) {
+    return item.jobStatus === 'QUEUED' ? 'queued in AWS' : 'transcribing';
+  }
+  return item.stage;
+}
+
+const TranscriptionQueue: React.FC<TranscriptionQueueProps> = ({
+  items,
+  concurrency,
+  onConcurrencyChange,
+  onRetry,
+  onCancel,
+  onRemove,
+  onClearFinished,
+  onView
+}) => {
+  const [format, setFormat] = useState<SubtitleFormat>('srt');
+  const [isZipping, setIsZipping] = useState(false);
+
+  const completed = items.filter(item => item.status === 'completed' && item.result);
+
+  const downloadZip = async () => {
+    setIsZipping(true);
+    try {
+      const zip = new JSZip();
+      const info = SUBTITLE_FORMATS[format];
+      const usedNames = new Set<string>();
+
+      for (const item of completed) {
+        // Lecture series often reuse names across folders, so keep entries unique
+        const baseName = item.file.name.replace(/\.[^/.]+$/, '');
+        let name = `${baseName}.${info.extension}`;
+        for (let n = 2; usedNames.has(name); n++) {
+          name = `${baseName} (${n}).${info.extension}`;
+        }
+        usedNames.add(name);
+        zip.file(name, formatCues(item.result.cues, format, { title: baseName }));
+      }
+
+      const blob = await zip.generateAsync({ type: 'blob' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `subtitles-${format}.zip`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+
+      toast.success('ZIP file downloaded successfully');
+    } catch (error) {
+      console.error('Error creating ZIP file:', error);
+      toast.error('Failed to create ZIP file');
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5 }}
+      className="w-full"
+    >
+      <Card className="w-full">
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span>Transcription Queue</span>
+            <div className="flex items-center gap-2 text-sm font-normal text-muted-foreground">
+              <span>Parallel jobs</span>
+              <Select value={String(concurrency)} onValueChange={(value) => onConcurrencyChange(Number(value))}>
+                <SelectTrigger className="h-8 w-16">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {[1, 2, 3, 4, 5].map(count => (
+                    <SelectItem key={count} value={String(count)}>{count}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>File</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="w-40">Progress</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.map(item => (
+                <TableRow key={item.id}>
+                  <TableCell className="max-w-[220px]">
+                    <p className="truncate font-medium" title={item.file.name}>{item.file.name}</p>
+                    <p className="text-xs text-muted-foreground">{formatFileSize(item.file.size)}</p>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={STATUS_VARIANTS[item.status]} title={item.error}>
+                      {item.status === 'processing' ? describeProgress(item) : item.status}
+                    </Badge>
+                    {item.error && (
+                      <p
+                        className="mt-1 max-w-[200px] truncate text-xs text-destructive"
+                        title={item.errorHint ? `${item.error}\n${item.errorHint}` : item.error}
+                      >
+                        {item.error}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Progress value={item.progress} className="h-2" />
+                  </TableCell>
+                  <TableCell className="flex justify-end gap-1">
+                    {item.status === 'completed' && (
+                      <Button variant="ghost" size="icon" onClick={() => onView(item)} aria-label="View result">
+                        <Eye className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {(item.status === 'failed' || item.status === 'cancelled') && (
+                      <Button variant="ghost" size="icon" onClick={() => onRetry(item.id)} aria-label="Retry">
+                        <RotateCcw className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {(item.status === 'queued' || item.status === 'processing') ? (
+                      <Button variant="ghost" size="icon" onClick={() => onCancel(item.id)} aria-label="Cancel">
+                        <X className="h-4 w-4" />
+                      </Button>
+                    ) : (
+                      <Button variant="ghost" size="icon" onClick={() => onRemove(item.id)} aria-label="Remove">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+        <CardFooter className="flex justify-between">
+          <div className="text-sm text-muted-foreground">
+            {completed.length} of {items.length} files transcribed
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={onClearFinished}>
+              Clear finished
+            </Button>
+            <Select value={format} onValueChange={(value) => setFormat(value as SubtitleFormat)}>
+              <SelectTrigger className="h-9 w-[200px]" aria-label="Subtitle format">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(SUBTITLE_FORMATS).map(([id, info]) => (
+                  <SelectItem key={id} value={id}>
+                    {info.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button size="sm" onClick={downloadZip} disabled={completed.length === 0 || isZipping}>
+              <Archive className="mr-2 h-4 w-4" />
+              Download all as ZIP
+            </Button>
+          </div>
+        </CardFooter>
+      </Card>
+    </motion.div>
+  );
+};
+
+export default TranscriptionQueue;
@@ -1,45 +1,177 @@
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { motion } from 'framer-motion';
-import { FileText, CheckCircle, Download, Copy, Clock, FileJson } from 'lucide-react';
+import { FileText, CheckCircle, Download, Copy, Clock, FileJson, Languages } from 'lucide-react';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
+import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import CueEditor from '@/components/CueEditor';
+import MediaPlayer from '@/components/MediaPlayer';
+import WaveformTimeline from '@/components/WaveformTimeline';
+import SubtitleLintPanel from '@/components/SubtitleLintPanel';
+import TranslationPanel from '@/components/TranslationPanel';
+import { useUndoHistory } from '@/hooks/use-undo-history';
+import { createEditableCues, toSubtitleCues } from '@/lib/cue-editor';
+import type { SegmentationOptions, SubtitleCue } from '@/lib/segmentation';
+import { fixAllLintIssues, fixLintIssues, lintCues, lintOptionsFromSegmentation, type LintIssue } from '@/lib/subtitle-lint';
+import { buildTranscriptModel, type TranscribeOutput } from '@/lib/transcribe-output';
+import { AUTO_LANGUAGE, languageName } from '@/lib/languages';
+import {
+  cuesToSrt,
+  formatCues,
+  speakerDisplayName,
+  SUBTITLE_FORMATS,
+  type SubtitleExportOptions,
+  type SubtitleFormat
+} from '@/lib/subtitle-formats';
+import { defaultSpeakerName } from '@/lib/transcribe-output';
 
 interface TranscriptionResultProps {
-  srtContent: string;
+  cues: SubtitleCue[];
+  // Separate cue lists keyed by channel label for channel-identified jobs
+  channelTracks?: Record<string, SubtitleCue[]>;
   fileName: string;
   duration: string;
-  rawTranscriptData?: any;
+  language?: string;
+  rawTranscriptData?: TranscribeOutput;
+  // Placeholder output from demo mode rather than a real transcript
+  isDemo?: boolean;
+  // The transcribed file, when still available, for reviewing against playback
+  media?: File;
+  // Audio taken from a video media file, which is quicker to draw a waveform from
+  extractedAudio?: File;
+  // Style limits the quality checks hold the cues to
+  segmentation?: SegmentationOptions;
 }
 
+type VttPlacement = 'default' | 'bottom' | 'top' | 'bottom-left' | 'bottom-right';
+
+// WebVTT cue settings offered with the VTT format
+const VTT_PLACEMENTS: Record<VttPlacement, { label: string; settings?: string }> = {
+  default: { label: 'Player default' },
+  bottom: { label: 'Bottom, centred', settings: 'line:90% align:center' },
+  top: { label: 'Top, centred', settings: 'line:10% align:center' },
+  'bottom-left': { label: 'Bottom left', settings: 'line:90% position:10% align:start' },
+  'bottom-right': { label: 'Bottom right', settings: 'line:90% position:90% align:end' }
+};
+
 const TranscriptionResult: React.FC<TranscriptionResultProps> = ({
-  srtContent,
+  cues,
+  channelTracks = {},
   fileName,
   duration,
-  rawTranscriptData
+  language,
+  rawTranscriptData,
+  isDemo = false,
+  media,
+  extractedAudio,
+  segmentation
 }) => {
   const [copied, setCopied] = useState(false);
+  const [format, setFormat] = useState<SubtitleFormat>('srt');
+  const [vttPlacement, setVttPlacement] = useState<VttPlacement>('default');
+
+  const [speakerNames, setSpeakerNames] = useState<Record<string, string>>({});
+
+  const model = useMemo(
+    () => (rawTranscriptData ? buildTranscriptModel(rawTranscriptData) : null),
+    [rawTranscriptData]
+  );
+  // The editor starts from the segmented cues with their recognised word timings
+  const words = useMemo(() => model?.words ?? [], [model]);
+  // Identified jobs are exported in the language Transcribe found
+  const outputLanguage = model?.languageCode ?? (language !== AUTO_LANGUAGE ? language : undefined);
+  const totalLanguageDuration = model?.languageDurations.reduce((sum, entry) => sum + entry.duration, 0) ?? 0;
+  const initialCues = useMemo(() => createEditableCues(cues, words), [cues, words]);
+  const history = useUndoHistory(initialCues);
+  const { reset } = history;
+  const hasEdits = useRef(false);
+  hasEdits.current = history.canUndo;
+
+  // A new result or segmentation preset replaces the document being edited
+  useEffect(() => {
+    if (hasEdits.current) toast.info('Subtitles were re-segmented, so earlier edits were discarded');
+    reset(initialCues);
+  }, [initialCues, reset]);
+
+  // Everything below previews and exports the edited cues
+  const editedCues = useMemo(() => toSubtitleCues(history.state), [history.state]);
+
+  const [mediaElement, setMediaElement] = useState<HTMLMediaElement | null>(null);
+  const [activeCueId, setActiveCueId] = useState<string>();
+  const seek = useCallback((seconds: number) => {
+    if (mediaElement) mediaElement.currentTime = seconds;
+  }, [mediaElement]);
+
+  const lintOptions = useMemo(() => lintOptionsFromSegmentation(segmentation), [segmentation]);
+  const lintIssues = useMemo(() => lintCues(history.state, lintOptions), [history.state, lintOptions]);
+  const fixIssues = (issues: LintIssue[]) => {
+    history.set(prev => fixLintIssues(prev, issues, lintOptions));
+  };
+  const fixAllIssues = () => {
+    history.set(prev => fixAllLintIssues(prev, lintOptions));
+  };
+
+  const baseName = fileName.replace(/\.[^/.]+$/, '');
+  const speakers = useMemo(
+    () => Array.from(new Set(editedCues.map(cue => cue.speaker || cue.channel).filter(Boolean))),
+    [editedCues]
+  );
+  const exportOptions: SubtitleExportOptions = {
+    language: outputLanguage,
+    title: baseName,
+    speakerNames,
+    vttCueSettings: VTT_PLACEMENTS[vttPlacement].settings
+  };
+  const srtContent = useMemo(() => cuesToSrt(editedCues, { speakerNames }), [editedCues, speakerNames]);
 
-  const downloadSrt = () => {
+  const saveSubtitles = (
+    trackCues: SubtitleCue[],
+    trackFormat: SubtitleFormat,
+    name: string,
+    options: SubtitleExportOptions
+  ) => {
+    const info = SUBTITLE_FORMATS[trackFormat];
     try {
-      const blob = new Blob([srtContent], { type: 'text/plain' });
+      const content = formatCues(trackCues, trackFormat, options);
+      const blob = new Blob([content], { type: info.mimeType });
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `${fileName.split('.')[0]}.srt`;
+      a.download = `${name}.${info.extension}`;
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
       URL.revokeObjectURL(url);
       
-      toast.success('SRT file downloaded successfully');
+      toast.success(`${trackFormat.toUpperCase()} file downloaded successfully`);
     } catch (error) {
-      console.error('Error downloading SRT file:', error);
-      toast.error('Failed to download SRT file');
+      console.error(`Error downloading ${trackFormat.toUpperCase()} file:`, error);
+      toast.error(`Failed to download ${trackFormat.toUpperCase()} file`);
     }
   };
 
+  const downloadSubtitles = () => saveSubtitles(editedCues, format, baseName, exportOptions);
+
+  // Per-channel tracks leave out the channel tag since the whole file is one channel.
+  // They are segmented per channel, so edits to the combined track don't apply to them.
+  const downloadChannelTrack = (channel: string, trackFormat: SubtitleFormat) => {
+    const suffix = speakerDisplayName(channel, speakerNames).toLowerCase().replace(/[^a-z0-9]+/g, '-');
+    saveSubtitles(channelTracks[channel], trackFormat, `${baseName}-${suffix}`, {
+      ...exportOptions,
+      includeSpeakers: false
+    });
+  };
+
+  // Translations keep the speaker names and are tagged with their own language
+  const downloadTranslation = (trackCues: SubtitleCue[], trackFormat: SubtitleFormat, suffix: string, trackLanguage: string) => {
+    saveSubtitles(trackCues, trackFormat, `${baseName}-${suffix}`, { ...exportOptions, language: trackLanguage });
+  };
+
   const copyToClipboard = () => {
     navigator.clipboard.writeText(srtContent)
       .then(() => {
@@ -62,16 +194,13 @@ const TranscriptionResult: React.FC<TranscriptionResultProps> = ({
     const element = document.createElement('a');
     const file = new Blob([JSON.stringify(rawTranscriptData, null, 2)], { type: 'application/json' });
     element.href = URL.createObjectURL(file);
-    element.download = `${fileName.replace(/\.[^/.]+$/, '')}.json`;
+    element.download = `${baseName}.json`;
     document.body.appendChild(element);
     element.click();
     document.body.removeChild(element);
     toast.success('JSON file downloaded successfully');
   };
 
-  // Extract the first few lines to preview
-  const previewLines = srtContent.split('\n').slice(0, 15).join('\n');
-
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -79,10 +208,23 @@ const TranscriptionResult: React.FC<TranscriptionResultProps> = ({
       transition={{ duration: 0.5, delay: 0.2 }}
       className="w-full"
     >
+      {media && (
+        <MediaPlayer
+          file={media}
+          cues={history.state}
+          onMediaElement={setMediaElement}
+          onActiveCueChange={setActiveCueId}
+          onSeek={seek}
+          speakerNames={speakerNames}
+        />
+      )}
       <Card className="w-full">
         <CardHeader>
           <CardTitle className="flex items-center justify-between">
-            <span>Transcription Result</span>
+            <span className="flex items-center gap-2">
+              Transcription Result
+              {isDemo && <Badge variant="outline">Demo output</Badge>}
+            </span>
             <div className="flex items-center text-sm font-normal text-muted-foreground">
               <Clock className="mr-1 h-4 w-4" />
               <span>Duration: {duration}</span>
@@ -90,17 +232,121 @@ const TranscriptionResult: React.FC<TranscriptionResultProps> = ({
           </CardTitle>
         </CardHeader>
         <CardContent>
-          <div className="max-h-96 overflow-y-auto rounded-md bg-muted p-4 font-mono text-sm">
-            {srtContent.split('\n').map((line, index) => (
-              <div key={index} className={index % 4 === 1 ? 'text-muted-foreground' : ''}>
-                {line || '\u00A0'}
-              </div>
-            ))}
-          </div>
+          {model && (model.languageDurations.length > 0 || model.languageScores.length > 0) && (
+            <div className="mb-4 flex flex-wrap items-center gap-2 text-sm">
+              <Languages className="h-4 w-4 text-muted-foreground" />
+              <span className="text-muted-foreground">Detected</span>
+              {model.languageDurations.length > 0
+                ? model.languageDurations.map(({ code, duration }) => (
+                  <Badge key={code} variant="secondary" title={`${Math.round(duration)}s of speech`}>
+                    {languageName(code)} · {Math.round((duration / (totalLanguageDuration || 1)) * 100)}% of speech
+                  </Badge>
+                ))
+                : model.languageScores.map(({ code, score }, index) => (
+                  <Badge key={code} variant={index === 0 ? 'secondary' : 'outline'}>
+                    {languageName(code)} · {Math.round(score * 100)}% confidence
+                  </Badge>
+                ))}
+            </div>
+          )}
+          {speakers.length > 0 && (
+            <div className="mb-4 grid gap-2 sm:grid-cols-2">
+              {speakers.map(label => (
+                <div key={label} className="flex items-center gap-2">
+                  <span className="w-24 shrink-0 text-sm text-muted-foreground">
+                    {defaultSpeakerName(label)}
+                  </span>
+                  <Input
+                    value={speakerNames[label] ?? ''}
+                    placeholder="Speaker name"
+                    onChange={(e) => setSpeakerNames(prev => ({ ...prev, [label]: e.target.value }))}
+                    className="h-8"
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+          {Object.keys(channelTracks).length > 0 && (
+            <div className="mb-4 space-y-2">
+              {Object.keys(channelTracks).map(channel => (
+                <div key={channel} className="flex items-center justify-between gap-2 text-sm">
+                  <span>
+                    {speakerDisplayName(channel, speakerNames)}
+                    <span className="ml-2 text-muted-foreground">
+                      {channelTracks[channel].length} subtitles
+                    </span>
+                  </span>
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={() => downloadChannelTrack(channel, 'srt')}>
+                      <Download className="mr-2 h-4 w-4" />
+                      SRT
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => downloadChannelTrack(channel, 'vtt')}>
+                      <Download className="mr-2 h-4 w-4" />
+                      VTT
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+          <Tabs defaultValue="timeline">
+            <TabsList className="mb-2">
+              <TabsTrigger value="timeline">Timeline</TabsTrigger>
+              <TabsTrigger value="edit">Edit</TabsTrigger>
+              <TabsTrigger value="checks">
+                Checks
+                {lintIssues.length > 0 && (
+                  <Badge variant="secondary" className="ml-2 px-1.5 py-0">{lintIssues.length}</Badge>
+                )}
+              </TabsTrigger>
+              <TabsTrigger value="translate">Translate</TabsTrigger>
+            </TabsList>
+            <TabsContent value="timeline">
+              <WaveformTimeline
+                cues={history.state}
+                onEdit={history.set}
+                file={extractedAudio ?? media}
+                media={mediaElement}
+                onSeek={media ? seek : undefined}
+                activeCueId={media ? activeCueId : undefined}
+              />
+            </TabsContent>
+            <TabsContent value="edit">
+              <CueEditor
+                cues={history.state}
+                onEdit={history.set}
+                onUndo={history.undo}
+                onRedo={history.redo}
+                canUndo={history.canUndo}
+                canRedo={history.canRedo}
+                speakerNames={speakerNames}
+                activeCueId={media ? activeCueId : undefined}
+                onSeek={media ? seek : undefined}
+              />
+            </TabsContent>
+            <TabsContent value="checks">
+              <SubtitleLintPanel
+                issues={lintIssues}
+                onFix={fixIssues}
+                onFixAll={fixAllIssues}
+                onSelectCue={media ? (index) => seek(history.state[index].start) : undefined}
+              />
+            </TabsContent>
+            {/* Kept mounted so finished translations survive switching tabs */}
+            <TabsContent value="translate" forceMount className="data-[state=inactive]:hidden">
+              <TranslationPanel
+                cues={editedCues}
+                language={outputLanguage}
+                maxCharsPerLine={segmentation?.maxCharsPerLine}
+                onDownload={downloadTranslation}
+              />
+            </TabsContent>
+          </Tabs>
         </CardContent>
         <CardFooter className="flex justify-between">
           <div className="text-sm text-muted-foreground">
-            {srtContent.split('\n\n').length - 1} subtitles generated
+            {editedCues.length} subtitles{history.canUndo ? ' (edited)' : ' generated'}
           </div>
           <div className="flex gap-2">
             {rawTranscriptData && (
@@ -109,9 +355,35 @@ const TranscriptionResult: React.FC<TranscriptionResultProps> = ({
                 Export JSON
               </Button>
             )}
-            <Button variant="default" size="sm" onClick={downloadSrt}>
+            <Select value={format} onValueChange={(value) => setFormat(value as SubtitleFormat)}>
+              <SelectTrigger className="h-9 w-[200px]" aria-label="Subtitle format">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(SUBTITLE_FORMATS).map(([id, info]) => (
+                  <SelectItem key={id} value={id}>
+                    {info.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {format === 'vtt' && (
+              <Select value={vttPlacement} onValueChange={(value) => setVttPlacement(value as VttPlacement)}>
+                <SelectTrigger className="h-9 w-[170px]" aria-label="WebVTT cue placement">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(VTT_PLACEMENTS).map(([id, placement]) => (
+                    <SelectItem key={id} value={id}>
+                      {placement.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Button variant="default" size="sm" onClick={downloadSubtitles}>
               <Download className="mr-2 h-4 w-4" />
-              Download SRT
+              Download {format.toUpperCase()}
             </Button>
           </div>
         </CardFooter>
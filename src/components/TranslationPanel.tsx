@@ -0,0 +1,231 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Check, ChevronsUpDown, Download, Languages, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList
+} from '@/components/ui/command';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import type { SubtitleCue } from '@/lib/segmentation';
+import type { SubtitleFormat } from '@/lib/subtitle-formats';
+import { isAbortError } from '@/lib/transcription';
+import { bilingualCues, parseGlossary, translateCues, type TranslatedTrack } from '@/lib/translation';
+import {
+  AUTO_SOURCE_LANGUAGE,
+  toTranslationLanguage,
+  TRANSLATION_LANGUAGES,
+  translationLanguageName
+} from '@/lib/translation-languages';
+import { getTranslator } from '@/lib/translators';
+
+interface TranslationPanelProps {
+  cues: SubtitleCue[];
+  // Transcribe locale of the transcript, when known
+  language?: string;
+  maxCharsPerLine?: number;
+  // Saves a track with the file name suffix, e.g. "en" or "ta-en"
+  onDownload: (cues: SubtitleCue[], format: SubtitleFormat, suffix: string, language: string) => void;
+}
+
+const GLOSSARY_STORAGE_KEY = 'translationGlossary';
+// Distribution targets the app was asked for first
+const DEFAULT_TARGETS = ['en', 'hi'];
+
+function readGlossary(): string {
+  try {
+    return localStorage.getItem(GLOSSARY_STORAGE_KEY) || '';
+  } catch {
+    return '';
+  }
+}
+
+const TranslationPanel: React.FC<TranslationPanelProps> = ({ cues, language, maxCharsPerLine, onDownload }) => {
+  const sourceLanguage = (language && toTranslationLanguage(language)) || AUTO_SOURCE_LANGUAGE;
+  const [targets, setTargets] = useState<string[]>(() => DEFAULT_TARGETS.filter(code => code !== sourceLanguage));
+  const [pickerOpen, setPickerOpen] = useState(false);
+  const [glossary, setGlossary] = useState(readGlossary);
+  const [tracks, setTracks] = useState<TranslatedTrack[]>([]);
+  // The cues the tracks were translated from, to notice later edits
+  const [translatedFrom, setTranslatedFrom] = useState<SubtitleCue[] | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const translator = getTranslator();
+
+  useEffect(() => {
+    localStorage.setItem(GLOSSARY_STORAGE_KEY, glossary);
+  }, [glossary]);
+
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const toggleTarget = (code: string) => {
+    setTargets(prev => (prev.includes(code) ? prev.filter(target => target !== code) : [...prev, code]));
+  };
+
+  const translate = async () => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const doNotTranslate = parseGlossary(glossary);
+    const translated: TranslatedTrack[] = [];
+    setProgress(0);
+
+    try {
+      for (const [index, targetLanguage] of targets.entries()) {
+        translated.push(await translateCues(cues, translator, {
+          sourceLanguage,
+          targetLanguage,
+          doNotTranslate,
+          maxCharsPerLine,
+          signal: controller.signal,
+          onProgress: (done, total) => setProgress(Math.round(((index + done / total) / targets.length) * 100))
+        }));
+      }
+      setTracks(translated);
+      setTranslatedFrom(cues);
+      toast.success(`Translated ${cues.length} subtitles into ${targets.map(translationLanguageName).join(' and ')}`);
+    } catch (error) {
+      if (isAbortError(error)) {
+        toast.info('Translation cancelled');
+        return;
+      }
+      console.error('Translation error:', error);
+      toast.error(error instanceof Error ? error.message : 'Translation failed');
+    } finally {
+      abortControllerRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const translating = progress !== null;
+  const stale = translatedFrom !== null && translatedFrom !== cues;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <label className="block text-sm font-medium">Translate into</label>
+          <Popover open={pickerOpen} onOpenChange={setPickerOpen}>
+            <PopoverTrigger asChild>
+              <Button
+                variant="outline"
+                role="combobox"
+                aria-expanded={pickerOpen}
+                className="w-full justify-between font-normal"
+                disabled={translating}
+              >
+                <span className="truncate">
+                  {targets.length === 0 ? 'Select languages' : targets.map(translationLanguageName).join(', ')}
+                </span>
+                <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+              <Command>
+                <CommandInput placeholder="Search languages..." />
+                <CommandList>
+                  <CommandEmpty>No language found.</CommandEmpty>
+                  <CommandGroup>
+                    {TRANSLATION_LANGUAGES.filter(option => option.code !== sourceLanguage).map(option => (
+                      <CommandItem
+                        key={option.code}
+                        value={`${option.name} ${option.code}`}
+                        onSelect={() => toggleTarget(option.code)}
+                      >
+                        <Check className={cn('mr-2 h-4 w-4', targets.includes(option.code) ? 'opacity-100' : 'opacity-0')} />
+                        {option.name}
+                        <span className="ml-auto text-xs text-muted-foreground">{option.code}</span>
+                      </CommandItem>
+                    ))}
+                  </CommandGroup>
+                </CommandList>
+              </Command>
+            </PopoverContent>
+          </Popover>
+          <p className="text-xs text-muted-foreground">
+            From {sourceLanguage === AUTO_SOURCE_LANGUAGE ? 'the detected language' : translationLanguageName(sourceLanguage)}
+            {' '}with {translator.label}
+          </p>
+        </div>
+        <div className="space-y-2">
+          <label htmlFor="translation-glossary" className="block text-sm font-medium">Do not translate</label>
+          <Textarea
+            id="translation-glossary"
+            value={glossary}
+            onChange={event => setGlossary(event.target.value)}
+            placeholder="Names, brands and terms, one per line"
+            className="min-h-[76px]"
+            disabled={translating}
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        {translating ? (
+          <>
+            <Progress value={progress} className="h-2 flex-1" aria-label="Translation progress" />
+            <Button variant="ghost" size="sm" onClick={() => abortControllerRef.current?.abort()}>
+              <X className="mr-1.5 h-4 w-4" />
+              Cancel
+            </Button>
+          </>
+        ) : (
+          <Button size="sm" onClick={translate} disabled={targets.length === 0 || cues.length === 0}>
+            <Languages className="mr-2 h-4 w-4" />
+            Translate {cues.length} subtitles
+          </Button>
+        )}
+      </div>
+
+      {stale && (
+        <p className="text-sm text-muted-foreground">
+          The subtitles changed after they were translated. Translate again to include the edits.
+        </p>
+      )}
+
+      {tracks.length > 0 && translatedFrom && (
+        <div className="space-y-2">
+          {tracks.map(track => {
+            const bilingual = bilingualCues(translatedFrom, track.cues);
+            const pair = `${track.sourceLanguage}-${track.language}`;
+            return (
+              <div key={track.language} className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                <span className="flex items-center gap-2">
+                  {translationLanguageName(track.language)}
+                  <Badge variant="outline">{track.cues.length} subtitles</Badge>
+                </span>
+                <div className="flex flex-wrap gap-2">
+                  <Button variant="outline" size="sm" onClick={() => onDownload(track.cues, 'srt', track.language, track.language)}>
+                    <Download className="mr-2 h-4 w-4" />
+                    SRT
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => onDownload(track.cues, 'vtt', track.language, track.language)}>
+                    <Download className="mr-2 h-4 w-4" />
+                    VTT
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => onDownload(bilingual, 'srt', pair, track.language)}>
+                    <Download className="mr-2 h-4 w-4" />
+                    Bilingual SRT
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => onDownload(bilingual, 'vtt', pair, track.language)}>
+                    <Download className="mr-2 h-4 w-4" />
+                    Bilingual VTT
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TranslationPanel;
@@ -0,0 +1,476 @@
+import React, { useRef, useState } from 'react';
+import { BookText, Pencil, Plus, RefreshCw, Trash2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger
+} from '@/components/ui/sheet';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import type { VocabularyStore } from '@/hooks/use-vocabularies';
+import {
+  resourceNameSchema,
+  type VocabularyPhrase,
+  type VocabularyState
+} from '@/lib/transcription-api-contract';
+import {
+  MAX_VOCABULARY_FILE_BYTES,
+  parseVocabularyCsv,
+  parseWordList,
+  toVocabularyTable,
+  validateVocabularyPhrase,
+  vocabularyFileBytes
+} from '@/lib/vocabulary';
+
+interface VocabularyManagerProps {
+  store: VocabularyStore;
+  // Language for new vocabularies and filters
+  defaultLanguage: string;
+}
+
+interface VocabularyDraft {
+  name: string;
+  languageCode: string;
+  phrases: VocabularyPhrase[];
+  isNew: boolean;
+}
+
+interface FilterDraft {
+  name: string;
+  languageCode: string;
+  words: string;
+  isNew: boolean;
+}
+
+const STATE_VARIANTS: Record<VocabularyState, 'default' | 'secondary' | 'destructive'> = {
+  READY: 'default',
+  PENDING: 'secondary',
+  FAILED: 'destructive'
+};
+
+const PHRASE_COLUMNS: { key: keyof VocabularyPhrase; label: string; placeholder: string }[] = [
+  { key: 'phrase', label: 'Phrase', placeholder: 'Los Angeles' },
+  { key: 'soundsLike', label: 'Sounds like', placeholder: 'los an-juh-luhs' },
+  { key: 'ipa', label: 'IPA', placeholder: 'l ɔ s æ n dʒ ə l ə s' },
+  { key: 'displayAs', label: 'Display as', placeholder: 'LA' }
+];
+
+const formatModified = (value?: string) => (value ? new Date(value).toLocaleString() : '—');
+
+function nameError(name: string): string | null {
+  const result = resourceNameSchema.safeParse(name);
+  return result.success ? null : result.error.issues[0].message;
+}
+
+const VocabularyManager: React.FC<VocabularyManagerProps> = ({ store, defaultLanguage }) => {
+  const { api, vocabularies, filters, error, loading, refresh } = store;
+  const [open, setOpen] = useState(false);
+  const [vocabularyDraft, setVocabularyDraft] = useState<VocabularyDraft | null>(null);
+  const [filterDraft, setFilterDraft] = useState<FilterDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const csvInputRef = useRef<HTMLInputElement>(null);
+  const wordsInputRef = useRef<HTMLInputElement>(null);
+
+  const editVocabulary = async (name: string) => {
+    try {
+      const { languageCode, phrases } = await api.getVocabulary(name);
+      setVocabularyDraft({ name, languageCode, phrases: phrases.length > 0 ? phrases : [{ phrase: '' }], isNew: false });
+    } catch (error) {
+      console.error('Could not load vocabulary:', error);
+      toast.error(`Could not load vocabulary ${name}`);
+    }
+  };
+
+  const editFilter = async (name: string) => {
+    try {
+      const { languageCode, words } = await api.getVocabularyFilter(name);
+      setFilterDraft({ name, languageCode, words: words.join('\n'), isNew: false });
+    } catch (error) {
+      console.error('Could not load vocabulary filter:', error);
+      toast.error(`Could not load vocabulary filter ${name}`);
+    }
+  };
+
+  const updatePhrase = (index: number, key: keyof VocabularyPhrase, value: string) => {
+    setVocabularyDraft(draft => draft && {
+      ...draft,
+      // Optional columns are left out when cleared
+      phrases: draft.phrases.map((phrase, i) =>
+        i === index ? { ...phrase, [key]: key === 'phrase' ? value : value || undefined } : phrase)
+    });
+  };
+
+  const removePhrase = (index: number) => {
+    setVocabularyDraft(draft => draft && { ...draft, phrases: draft.phrases.filter((_, i) => i !== index) });
+  };
+
+  // Imported rows are added after the existing ones, skipping phrases already in the table
+  const handleCsvImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !vocabularyDraft) return;
+
+    const { phrases, errors } = parseVocabularyCsv(await file.text());
+    const existing = new Set(vocabularyDraft.phrases.map(phrase => phrase.phrase.trim().toLowerCase()));
+    const added = phrases.filter(phrase => !existing.has(phrase.phrase.trim().toLowerCase()));
+    setVocabularyDraft({
+      ...vocabularyDraft,
+      phrases: [...vocabularyDraft.phrases.filter(phrase => phrase.phrase.trim()), ...added]
+    });
+    toast.success(`Imported ${added.length} phrases from ${file.name}`);
+    if (errors.length > 0) {
+      toast.warning(`Skipped ${errors.length} rows. ${errors[0]}`);
+    }
+  };
+
+  const handleWordsImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !filterDraft) return;
+
+    const words = parseWordList(`${filterDraft.words}\n${await file.text()}`);
+    setFilterDraft({ ...filterDraft, words: words.join('\n') });
+    toast.success(`Word list now has ${words.length} words`);
+  };
+
+  const saveVocabulary = async () => {
+    if (!vocabularyDraft) return;
+    const phrases = vocabularyDraft.phrases.filter(phrase => phrase.phrase.trim());
+    const problem = nameError(vocabularyDraft.name)
+      || (phrases.length === 0 ? 'Add at least one phrase' : null)
+      || phrases.map(validateVocabularyPhrase).find(Boolean);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await api.saveVocabulary(vocabularyDraft.name, { languageCode: vocabularyDraft.languageCode, phrases });
+      toast.success(`Saved ${vocabularyDraft.name}. Transcribe is processing it, which can take a few minutes.`);
+      setVocabularyDraft(null);
+      refresh();
+    } catch (error) {
+      console.error('Could not save vocabulary:', error);
+      toast.error(error instanceof Error ? error.message : 'Could not save the vocabulary');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const saveFilter = async () => {
+    if (!filterDraft) return;
+    const words = parseWordList(filterDraft.words);
+    const problem = nameError(filterDraft.name) || (words.length === 0 ? 'Add at least one word' : null);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await api.saveVocabularyFilter(filterDraft.name, { languageCode: filterDraft.languageCode, words });
+      toast.success(`Saved ${filterDraft.name}`);
+      setFilterDraft(null);
+      refresh();
+    } catch (error) {
+      console.error('Could not save vocabulary filter:', error);
+      toast.error(error instanceof Error ? error.message : 'Could not save the vocabulary filter');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const vocabularyBytes = vocabularyDraft
+    ? vocabularyFileBytes(toVocabularyTable(vocabularyDraft.phrases.filter(phrase => phrase.phrase.trim())))
+    : 0;
+  const filterWordCount = filterDraft ? parseWordList(filterDraft.words).length : 0;
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm">
+          <BookText className="mr-2 h-4 w-4" />
+          Vocabularies
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-xl overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Vocabularies</SheetTitle>
+          <SheetDescription>
+            Custom vocabularies teach Transcribe names and terms it gets wrong. Vocabulary filters mask, remove or tag
+            words such as profanity.
+          </SheetDescription>
+        </SheetHeader>
+
+        {error && <p className="mt-4 text-sm text-destructive">{error}</p>}
+
+        <Tabs defaultValue="vocabularies" className="mt-6">
+          <div className="flex items-center justify-between gap-2">
+            <TabsList>
+              <TabsTrigger value="vocabularies">Vocabularies</TabsTrigger>
+              <TabsTrigger value="filters">Filters</TabsTrigger>
+            </TabsList>
+            <Button variant="ghost" size="icon" onClick={() => refresh()} disabled={loading} aria-label="Refresh">
+              <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+
+          <TabsContent value="vocabularies" className="space-y-3">
+            <Button
+              size="sm"
+              onClick={() => setVocabularyDraft({ name: '', languageCode: defaultLanguage, phrases: [{ phrase: '' }], isNew: true })}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              New vocabulary
+            </Button>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Language</TableHead>
+                  <TableHead>State</TableHead>
+                  <TableHead>Modified</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {vocabularies.map(vocabulary => (
+                  <TableRow key={vocabulary.name}>
+                    <TableCell className="max-w-[140px] truncate" title={vocabulary.name}>{vocabulary.name}</TableCell>
+                    <TableCell>{vocabulary.languageCode}</TableCell>
+                    <TableCell>
+                      <Badge variant={STATE_VARIANTS[vocabulary.state]} title={vocabulary.failureReason}>
+                        {vocabulary.state.toLowerCase()}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{formatModified(vocabulary.lastModified)}</TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => editVocabulary(vocabulary.name)}
+                        disabled={vocabulary.state === 'PENDING'}
+                        aria-label={`Edit ${vocabulary.name}`}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {vocabularies.length === 0 && !loading && (
+              <p className="text-center text-sm text-muted-foreground">No custom vocabularies yet</p>
+            )}
+          </TabsContent>
+
+          <TabsContent value="filters" className="space-y-3">
+            <Button
+              size="sm"
+              onClick={() => setFilterDraft({ name: '', languageCode: defaultLanguage, words: '', isNew: true })}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              New filter
+            </Button>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Language</TableHead>
+                  <TableHead>Modified</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filters.map(filter => (
+                  <TableRow key={filter.name}>
+                    <TableCell className="max-w-[160px] truncate" title={filter.name}>{filter.name}</TableCell>
+                    <TableCell>{filter.languageCode}</TableCell>
+                    <TableCell>{formatModified(filter.lastModified)}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="icon" onClick={() => editFilter(filter.name)} aria-label={`Edit ${filter.name}`}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {filters.length === 0 && !loading && (
+              <p className="text-center text-sm text-muted-foreground">No vocabulary filters yet</p>
+            )}
+          </TabsContent>
+        </Tabs>
+
+        <Dialog open={!!vocabularyDraft} onOpenChange={(isOpen) => !isOpen && setVocabularyDraft(null)}>
+          <DialogContent className="max-w-4xl">
+            <DialogHeader>
+              <DialogTitle>{vocabularyDraft?.isNew ? 'New vocabulary' : vocabularyDraft?.name}</DialogTitle>
+              <DialogDescription>
+                Write phrases with spaces between words and spell out numbers; use Display as for digits or
+                abbreviations. Give either Sounds like or IPA, not both. CSV files can have the columns Phrase, IPA,
+                SoundsLike and DisplayAs.
+              </DialogDescription>
+            </DialogHeader>
+            {vocabularyDraft && (
+              <div className="space-y-3">
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-xs text-muted-foreground mb-1">Name</label>
+                    <Input
+                      value={vocabularyDraft.name}
+                      disabled={!vocabularyDraft.isNew}
+                      placeholder="product-names"
+                      onChange={(e) => setVocabularyDraft({ ...vocabularyDraft, name: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-muted-foreground mb-1">Language code</label>
+                    <Input
+                      value={vocabularyDraft.languageCode}
+                      placeholder="en-US"
+                      onChange={(e) => setVocabularyDraft({ ...vocabularyDraft, languageCode: e.target.value.trim() })}
+                    />
+                  </div>
+                </div>
+
+                <div className="max-h-[50vh] overflow-y-auto rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        {PHRASE_COLUMNS.map(column => <TableHead key={column.key}>{column.label}</TableHead>)}
+                        <TableHead />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {vocabularyDraft.phrases.map((phrase, index) => {
+                        const problem = phrase.phrase.trim() ? validateVocabularyPhrase(phrase) : null;
+                        return (
+                          <TableRow key={index} className={problem ? 'bg-destructive/5' : undefined} title={problem ?? undefined}>
+                            {PHRASE_COLUMNS.map(column => (
+                              <TableCell key={column.key} className="p-1">
+                                <Input
+                                  className="h-8"
+                                  value={phrase[column.key] ?? ''}
+                                  placeholder={index === 0 ? column.placeholder : undefined}
+                                  onChange={(e) => updatePhrase(index, column.key, e.target.value)}
+                                />
+                              </TableCell>
+                            ))}
+                            <TableCell className="p-1">
+                              <Button variant="ghost" size="icon" onClick={() => removePhrase(index)} aria-label="Remove phrase">
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setVocabularyDraft({ ...vocabularyDraft, phrases: [...vocabularyDraft.phrases, { phrase: '' }] })}
+                  >
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add phrase
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => csvInputRef.current?.click()}>
+                    <Upload className="mr-2 h-4 w-4" />
+                    Import CSV
+                  </Button>
+                  <input
+                    ref={csvInputRef}
+                    type="file"
+                    accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values,text/plain"
+                    className="hidden"
+                    onChange={handleCsvImport}
+                  />
+                  <span className={`ml-auto text-xs ${vocabularyBytes > MAX_VOCABULARY_FILE_BYTES ? 'text-destructive' : 'text-muted-foreground'}`}>
+                    {(vocabularyBytes / 1024).toFixed(1)} of {MAX_VOCABULARY_FILE_BYTES / 1024} KB
+                  </span>
+                </div>
+              </div>
+            )}
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setVocabularyDraft(null)}>Cancel</Button>
+              <Button onClick={saveVocabulary} disabled={saving}>{saving ? 'Saving...' : 'Save'}</Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={!!filterDraft} onOpenChange={(isOpen) => !isOpen && setFilterDraft(null)}>
+          <DialogContent className="max-w-lg">
+            <DialogHeader>
+              <DialogTitle>{filterDraft?.isNew ? 'New vocabulary filter' : filterDraft?.name}</DialogTitle>
+              <DialogDescription>
+                One word per line. Jobs that use the filter mask, remove or tag these words in the transcript.
+              </DialogDescription>
+            </DialogHeader>
+            {filterDraft && (
+              <div className="space-y-3">
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-xs text-muted-foreground mb-1">Name</label>
+                    <Input
+                      value={filterDraft.name}
+                      disabled={!filterDraft.isNew}
+                      placeholder="profanity"
+                      onChange={(e) => setFilterDraft({ ...filterDraft, name: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-muted-foreground mb-1">Language code</label>
+                    <Input
+                      value={filterDraft.languageCode}
+                      placeholder="en-US"
+                      onChange={(e) => setFilterDraft({ ...filterDraft, languageCode: e.target.value.trim() })}
+                    />
+                  </div>
+                </div>
+                <Textarea
+                  rows={10}
+                  value={filterDraft.words}
+                  onChange={(e) => setFilterDraft({ ...filterDraft, words: e.target.value })}
+                />
+                <div className="flex items-center gap-2">
+                  <Button variant="outline" size="sm" onClick={() => wordsInputRef.current?.click()}>
+                    <Upload className="mr-2 h-4 w-4" />
+                    Import word list
+                  </Button>
+                  <input
+                    ref={wordsInputRef}
+                    type="file"
+                    accept=".csv,.txt,text/csv,text/plain"
+                    className="hidden"
+                    onChange={handleWordsImport}
+                  />
+                  <span className="ml-auto text-xs text-muted-foreground">{filterWordCount} words</span>
+                </div>
+              </div>
+            )}
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setFilterDraft(null)}>Cancel</Button>
+              <Button onClick={saveFilter} disabled={saving}>{saving ? 'Saving...' : 'Save'}</Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default VocabularyManager;
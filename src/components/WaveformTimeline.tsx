@@ -0,0 +1,295 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Loader2, ZoomIn, ZoomOut } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { usePlaybackTime } from '@/hooks/use-playback-time';
+import { moveCue, nudgeCue, type EditableCue } from '@/lib/cue-editor';
+import { probeMediaDuration } from '@/lib/media-probe';
+import { decodeWaveform, peakBetween, type Waveform } from '@/lib/waveform';
+
+// Pixels per second at each zoom step
+const ZOOM_LEVELS = [5, 10, 20, 50, 100, 200, 400];
+const DEFAULT_ZOOM_INDEX = 3;
+const TRACK_HEIGHT = 128;
+const RULER_HEIGHT = 18;
+// Decoding longer recordings would hold too much PCM in memory
+const MAX_WAVEFORM_SECONDS = 2 * 60 * 60;
+// Pointer movement below this many pixels is a click, not a drag
+const DRAG_THRESHOLD_PX = 3;
+// Regions this far outside the viewport are still rendered, so scrolling stays smooth
+const RENDER_MARGIN_PX = 500;
+const TICK_INTERVALS = [0.5, 1, 2, 5, 10, 15, 30, 60, 120, 300, 600];
+
+type WaveformStatus = 'idle' | 'decoding' | 'ready' | 'too-long' | 'failed';
+type DragMode = 'move' | 'start' | 'end';
+
+interface DragState {
+  cueId: string;
+  mode: DragMode;
+  originX: number;
+  deltaPx: number;
+}
+
+interface WaveformTimelineProps {
+  cues: EditableCue[];
+  onEdit: (update: (cues: EditableCue[]) => EditableCue[]) => void;
+  // Source of the waveform; without it only the cues are shown
+  file?: File;
+  media?: HTMLMediaElement | null;
+  onSeek?: (seconds: number) => void;
+  activeCueId?: string;
+}
+
+function applyDrag(cues: EditableCue[], drag: DragState, pixelsPerSecond: number): EditableCue[] {
+  // Snap to whole milliseconds
+  const delta = Math.round((drag.deltaPx / pixelsPerSecond) * 1000) / 1000;
+  if (drag.mode === 'move') return moveCue(cues, drag.cueId, delta);
+  return nudgeCue(cues, drag.cueId, drag.mode, delta);
+}
+
+function formatTick(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  return `${minutes}:${rest < 10 ? '0' : ''}${Number.isInteger(rest) ? rest : rest.toFixed(1)}`;
+}
+
+function cssColor(element: Element, variable: string, alpha = 1): string {
+  return `hsl(${getComputedStyle(element).getPropertyValue(variable).trim()} / ${alpha})`;
+}
+
+interface PlayheadProps {
+  media: HTMLMediaElement;
+  pixelsPerSecond: number;
+  scroller: HTMLDivElement | null;
+}
+
+// Separate component so following playback re-renders only the playhead
+const Playhead: React.FC<PlayheadProps> = ({ media, pixelsPerSecond, scroller }) => {
+  const { currentTime, playing } = usePlaybackTime(media);
+  const x = currentTime * pixelsPerSecond;
+
+  useEffect(() => {
+    if (!playing || !scroller) return;
+    if (x < scroller.scrollLeft || x > scroller.scrollLeft + scroller.clientWidth) {
+      scroller.scrollLeft = x - scroller.clientWidth * 0.1;
+    }
+  }, [x, playing, scroller]);
+
+  return <div className="pointer-events-none absolute inset-y-0 w-px bg-destructive" style={{ left: x }} />;
+};
+
+const WaveformTimeline: React.FC<WaveformTimelineProps> = ({
+  cues,
+  onEdit,
+  file,
+  media,
+  onSeek,
+  activeCueId
+}) => {
+  const scrollerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [waveform, setWaveform] = useState<Waveform | null>(null);
+  const [status, setStatus] = useState<WaveformStatus>('idle');
+  const [zoomIndex, setZoomIndex] = useState(DEFAULT_ZOOM_INDEX);
+  const [scrollLeft, setScrollLeft] = useState(0);
+  const [viewportWidth, setViewportWidth] = useState(0);
+  const [drag, setDrag] = useState<DragState | null>(null);
+
+  const pixelsPerSecond = ZOOM_LEVELS[zoomIndex];
+  const shownCues = drag ? applyDrag(cues, drag, pixelsPerSecond) : cues;
+  const duration = Math.max(waveform?.duration ?? 0, ...cues.map(cue => cue.end)) + 1;
+  const totalWidth = Math.ceil(duration * pixelsPerSecond);
+
+  useEffect(() => {
+    setWaveform(null);
+    if (!file) {
+      setStatus('idle');
+      return;
+    }
+
+    let cancelled = false;
+    setStatus('decoding');
+    (async () => {
+      const seconds = await probeMediaDuration(file);
+      if (seconds !== null && seconds > MAX_WAVEFORM_SECONDS) {
+        if (!cancelled) setStatus('too-long');
+        return;
+      }
+      const decoded = await decodeWaveform(file);
+      if (cancelled) return;
+      setWaveform(decoded);
+      setStatus('ready');
+    })().catch(error => {
+      console.warn('Could not decode audio for the waveform:', error);
+      if (!cancelled) setStatus('failed');
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  useEffect(() => {
+    const scroller = scrollerRef.current;
+    if (!scroller) return;
+    const observer = new ResizeObserver(() => setViewportWidth(scroller.clientWidth));
+    observer.observe(scroller);
+    return () => observer.disconnect();
+  }, []);
+
+  // Only the visible slice is drawn, since a full-length canvas would exceed
+  // the browser's canvas size limit at high zoom
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || viewportWidth === 0) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = viewportWidth * ratio;
+    canvas.height = TRACK_HEIGHT * ratio;
+    const context = canvas.getContext('2d');
+    if (!context) return;
+    context.scale(ratio, ratio);
+    context.clearRect(0, 0, viewportWidth, TRACK_HEIGHT);
+
+    const tickInterval = TICK_INTERVALS.find(interval => interval * pixelsPerSecond >= 80) ?? 600;
+    context.fillStyle = cssColor(canvas, '--muted-foreground');
+    context.font = '10px sans-serif';
+    const firstTick = Math.ceil(scrollLeft / pixelsPerSecond / tickInterval) * tickInterval;
+    for (let time = firstTick; time * pixelsPerSecond <= scrollLeft + viewportWidth; time += tickInterval) {
+      const x = Math.round(time * pixelsPerSecond - scrollLeft);
+      context.fillRect(x, 0, 1, 6);
+      context.fillText(formatTick(time), x + 3, 12);
+    }
+
+    if (!waveform) return;
+    const middle = RULER_HEIGHT + (TRACK_HEIGHT - RULER_HEIGHT) / 2;
+    const amplitude = (TRACK_HEIGHT - RULER_HEIGHT) / 2;
+    context.fillStyle = cssColor(canvas, '--primary', 0.6);
+    for (let x = 0; x < viewportWidth; x++) {
+      const from = (scrollLeft + x) / pixelsPerSecond;
+      const height = Math.max(1, peakBetween(waveform, from, from + 1 / pixelsPerSecond) * amplitude);
+      context.fillRect(x, middle - height, 1, height * 2);
+    }
+  }, [waveform, pixelsPerSecond, scrollLeft, viewportWidth]);
+
+  // Keep the time under the viewport centre in place while zooming
+  const zoom = (step: 1 | -1) => {
+    const scroller = scrollerRef.current;
+    const next = Math.min(Math.max(zoomIndex + step, 0), ZOOM_LEVELS.length - 1);
+    if (!scroller || next === zoomIndex) return;
+    const centre = (scroller.scrollLeft + scroller.clientWidth / 2) / pixelsPerSecond;
+    setZoomIndex(next);
+    requestAnimationFrame(() => {
+      scroller.scrollLeft = centre * ZOOM_LEVELS[next] - scroller.clientWidth / 2;
+    });
+  };
+
+  const handlePointerDown = (cueId: string, mode: DragMode) => (e: React.PointerEvent) => {
+    if (e.button !== 0) return;
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDrag({ cueId, mode, originX: e.clientX, deltaPx: 0 });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag) return;
+    setDrag({ ...drag, deltaPx: e.clientX - drag.originX });
+  };
+
+  const handlePointerUp = () => {
+    if (!drag) return;
+    const finished = drag;
+    setDrag(null);
+    if (Math.abs(finished.deltaPx) < DRAG_THRESHOLD_PX) {
+      const cue = cues.find(candidate => candidate.id === finished.cueId);
+      if (cue) onSeek?.(cue.start);
+      return;
+    }
+    onEdit(prev => applyDrag(prev, finished, pixelsPerSecond));
+  };
+
+  const handleTrackClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!onSeek) return;
+    const bounds = e.currentTarget.getBoundingClientRect();
+    onSeek(Math.max(0, (e.clientX - bounds.left) / pixelsPerSecond));
+  };
+
+  const visibleFrom = (scrollLeft - RENDER_MARGIN_PX) / pixelsPerSecond;
+  const visibleTo = (scrollLeft + viewportWidth + RENDER_MARGIN_PX) / pixelsPerSecond;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2 text-sm text-muted-foreground">
+        <span className="flex items-center gap-2">
+          {status === 'decoding' && (
+            <>
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Decoding audio...
+            </>
+          )}
+          {status === 'idle' && 'The waveform needs the original media file'}
+          {status === 'too-long' && 'The recording is too long to draw a waveform'}
+          {status === 'failed' && 'This browser could not decode the audio for a waveform'}
+          {status === 'ready' && 'Drag a cue to move it, or drag its edges to change its timing'}
+        </span>
+        <div className="flex gap-1">
+          <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => zoom(-1)} title="Zoom out">
+            <ZoomOut className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => zoom(1)} title="Zoom in">
+            <ZoomIn className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div
+        ref={scrollerRef}
+        className="overflow-x-auto rounded-md border bg-muted"
+        onScroll={(e) => setScrollLeft(e.currentTarget.scrollLeft)}
+      >
+        <div
+          className="relative"
+          style={{ width: totalWidth, height: TRACK_HEIGHT }}
+          onClick={handleTrackClick}
+        >
+          <canvas
+            ref={canvasRef}
+            className="pointer-events-none sticky left-0 top-0 block"
+            style={{ width: viewportWidth, height: TRACK_HEIGHT }}
+          />
+          {shownCues
+            .filter(cue => cue.end >= visibleFrom && cue.start <= visibleTo)
+            .map(cue => (
+              <div
+                key={cue.id}
+                className={cn(
+                  'absolute bottom-2 top-6 cursor-grab touch-none select-none overflow-hidden rounded border border-primary/60 bg-primary/15 px-1 text-xs leading-tight',
+                  cue.id === activeCueId && 'border-primary bg-primary/30',
+                  drag?.cueId === cue.id && 'cursor-grabbing'
+                )}
+                style={{ left: cue.start * pixelsPerSecond, width: Math.max(2, (cue.end - cue.start) * pixelsPerSecond) }}
+                title={cue.text}
+                onPointerDown={handlePointerDown(cue.id, 'move')}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={() => setDrag(null)}
+                onClick={(e) => e.stopPropagation()}
+              >
+                <div
+                  className="absolute inset-y-0 left-0 w-1.5 cursor-ew-resize hover:bg-primary/50"
+                  onPointerDown={handlePointerDown(cue.id, 'start')}
+                />
+                <span className="pointer-events-none line-clamp-3 whitespace-pre-line">{cue.text}</span>
+                <div
+                  className="absolute inset-y-0 right-0 w-1.5 cursor-ew-resize hover:bg-primary/50"
+                  onPointerDown={handlePointerDown(cue.id, 'end')}
+                />
+              </div>
+            ))}
+          {media && <Playhead media={media} pixelsPerSecond={pixelsPerSecond} scroller={scrollerRef.current} />}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WaveformTimeline;
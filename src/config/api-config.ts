@@ -0,0 +1,6 @@
+// Transcription server configuration. AWS credentials live on the server (see
+// server/index.ts); the browser only needs to know where to reach it.
+export const apiConfig = {
+  // The Vite dev server proxies /api to the server on port 8787
+  baseUrl: (import.meta.env.VITE_TRANSCRIPTION_API_URL || '/api').replace(/\/+$/, '')
+};
@@ -0,0 +1,47 @@
+import type { TranscriptionProviderId } from '@/lib/providers/types';
+import type { TranslatorId } from '@/lib/translators/types';
+
+const PROVIDERS: TranscriptionProviderId[] = ['aws', 'mock', 'local-file'];
+
+// Which backend transcribes files (VITE_TRANSCRIPTION_PROVIDER):
+//   aws         AWS Transcribe through the transcription server (default)
+//   mock        replays recorded Transcribe output offline
+//   local-file  reads Transcribe output JSON files chosen by the user
+const configured = import.meta.env.VITE_TRANSCRIPTION_PROVIDER || 'aws';
+
+if (!PROVIDERS.includes(configured)) {
+  console.warn(`Unknown transcription provider "${configured}", using aws`);
+}
+
+const env = import.meta.env;
+const provider = (PROVIDERS.includes(configured) ? configured : 'aws') as TranscriptionProviderId;
+
+const TRANSLATORS: TranslatorId[] = ['aws', 'dictionary'];
+
+// Which service translates subtitles (VITE_TRANSLATOR):
+//   aws         Amazon Translate through the transcription server
+//   dictionary  built-in word lists, offline
+// Defaults to aws with the aws provider and to dictionary otherwise.
+const configuredTranslator = env.VITE_TRANSLATOR || (provider === 'aws' ? 'aws' : 'dictionary');
+
+if (!TRANSLATORS.includes(configuredTranslator)) {
+  console.warn(`Unknown translator "${configuredTranslator}", using dictionary`);
+}
+
+export const transcriptionConfig = {
+  provider,
+  translator: (TRANSLATORS.includes(configuredTranslator) ? configuredTranslator : 'dictionary') as TranslatorId,
+  upload: {
+    // Transcribe refuses media files over 2 GB
+    maxFileSizeMB: Number(env.VITE_UPLOAD_MAX_FILE_SIZE_MB) || 2048,
+    // Files at least this large are uploaded in resumable parts
+    multipartThresholdMB: Number(env.VITE_UPLOAD_MULTIPART_THRESHOLD_MB) || 64,
+    partSizeMB: Number(env.VITE_UPLOAD_PART_SIZE_MB) || 16,
+    // Parts uploaded at the same time
+    concurrency: Number(env.VITE_UPLOAD_CONCURRENCY) || 4
+  },
+  recording: {
+    // Microphone recordings stop by themselves at this length
+    maxMinutes: Number(env.VITE_RECORDING_MAX_MINUTES) || 60
+  }
+};
@@ -0,0 +1,239 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+export type RecorderState = 'idle' | 'starting' | 'recording' | 'paused' | 'stopped';
+
+export interface AudioInputDevice {
+  deviceId: string;
+  label: string;
+}
+
+// Formats browsers record in that Transcribe also takes: WebM or Ogg Opus in
+// Chrome and Firefox, AAC in MP4 in Safari
+const RECORDING_TYPES = [
+  { mimeType: 'audio/webm;codecs=opus', extension: 'webm' },
+  { mimeType: 'audio/ogg;codecs=opus', extension: 'ogg' },
+  { mimeType: 'audio/mp4', extension: 'm4a' }
+];
+
+// MediaRecorder hands over data this often, so a crash loses little
+const TIMESLICE_MS = 1000;
+const ELAPSED_INTERVAL_MS = 200;
+// Quietest level shown on the meter, in dBFS
+const METER_FLOOR_DB = -60;
+
+function pickRecordingType() {
+  return RECORDING_TYPES.find(type => MediaRecorder.isTypeSupported(type.mimeType)) ?? null;
+}
+
+function recordingFileName(startedAt: Date, extension: string): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const date = `${startedAt.getFullYear()}-${pad(startedAt.getMonth() + 1)}-${pad(startedAt.getDate())}`;
+  const time = `${pad(startedAt.getHours())}-${pad(startedAt.getMinutes())}-${pad(startedAt.getSeconds())}`;
+  return `recording-${date}-${time}.${extension}`;
+}
+
+function describeMicrophoneError(error: unknown): string {
+  if (error instanceof DOMException) {
+    if (error.name === 'NotAllowedError') return 'Microphone access was denied. Allow it in the browser to record.';
+    if (error.name === 'NotFoundError') return 'No microphone was found';
+    if (error.name === 'NotReadableError') return 'The microphone is in use by another application';
+  }
+  return error instanceof Error ? error.message : 'Could not start recording';
+}
+
+interface Session {
+  stream: MediaStream;
+  recorder: MediaRecorder;
+  context: AudioContext;
+  frame: number;
+  timer: number;
+}
+
+// Records from a microphone with MediaRecorder. The take excludes paused time
+// and stops by itself at the maximum length.
+export function useAudioRecorder(maxDurationSeconds: number) {
+  const [devices, setDevices] = useState<AudioInputDevice[]>([]);
+  const [deviceId, setDeviceId] = useState<string>('');
+  const [state, setState] = useState<RecorderState>('idle');
+  const [elapsed, setElapsed] = useState(0);
+  // Input level, 0-1 on a decibel scale
+  const [level, setLevel] = useState(0);
+  const [recording, setRecording] = useState<File | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [reachedLimit, setReachedLimit] = useState(false);
+  const sessionRef = useRef<Session | null>(null);
+  // Recorded time before the current run, and when the current run started
+  const recordedMsRef = useRef(0);
+  const runStartedRef = useRef(0);
+
+  const supported = typeof navigator !== 'undefined'
+    && !!navigator.mediaDevices?.getUserMedia
+    && typeof MediaRecorder !== 'undefined';
+
+  // Labels stay empty until the user has allowed microphone access
+  const refreshDevices = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+    const inputs = (await navigator.mediaDevices.enumerateDevices())
+      .filter(device => device.kind === 'audioinput')
+      .map((device, index) => ({ deviceId: device.deviceId, label: device.label || `Microphone ${index + 1}` }));
+    setDevices(inputs);
+  }, []);
+
+  useEffect(() => {
+    if (!supported) return;
+    refreshDevices();
+    navigator.mediaDevices.addEventListener('devicechange', refreshDevices);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', refreshDevices);
+  }, [supported, refreshDevices]);
+
+  const release = useCallback(() => {
+    const session = sessionRef.current;
+    if (!session) return;
+    sessionRef.current = null;
+    cancelAnimationFrame(session.frame);
+    window.clearInterval(session.timer);
+    session.stream.getTracks().forEach(track => track.stop());
+    session.context.close().catch(() => undefined);
+    setLevel(0);
+  }, []);
+
+  // Stop the microphone if the component goes away mid-recording
+  useEffect(() => () => {
+    const recorder = sessionRef.current?.recorder;
+    if (recorder && recorder.state !== 'inactive') {
+      recorder.onstop = null;
+      recorder.stop();
+    }
+    release();
+  }, [release]);
+
+  const currentElapsedMs = useCallback(() => {
+    const running = sessionRef.current?.recorder.state === 'recording';
+    return recordedMsRef.current + (running ? performance.now() - runStartedRef.current : 0);
+  }, []);
+
+  const stop = useCallback(() => {
+    const recorder = sessionRef.current?.recorder;
+    if (!recorder || recorder.state === 'inactive') return;
+    recordedMsRef.current = currentElapsedMs();
+    recorder.stop();
+  }, [currentElapsedMs]);
+
+  const start = useCallback(async () => {
+    if (sessionRef.current) return;
+    const type = pickRecordingType();
+    if (!type) {
+      setError('This browser cannot record audio in a format Transcribe takes');
+      return;
+    }
+
+    setError(null);
+    setRecording(null);
+    setReachedLimit(false);
+    setState('starting');
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({
+        audio: deviceId ? { deviceId: { exact: deviceId } } : true
+      });
+    } catch (error) {
+      console.error('Could not open the microphone:', error);
+      setError(describeMicrophoneError(error));
+      setState('idle');
+      return;
+    }
+    refreshDevices();
+
+    const context = new AudioContext();
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 2048;
+    context.createMediaStreamSource(stream).connect(analyser);
+    const samples = new Float32Array(analyser.fftSize);
+
+    const recorder = new MediaRecorder(stream, { mimeType: type.mimeType });
+    const chunks: Blob[] = [];
+    const startedAt = new Date();
+    recorder.ondataavailable = event => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    recorder.onstop = () => {
+      // Drop the codec parameters, which upload as part of the content type
+      const mimeType = (recorder.mimeType || type.mimeType).split(';')[0];
+      setRecording(new File(chunks, recordingFileName(startedAt, type.extension), { type: mimeType }));
+      setElapsed(recordedMsRef.current / 1000);
+      setState('stopped');
+      release();
+    };
+    recorder.onerror = event => {
+      console.error('Recording failed:', event);
+      setError('Recording failed');
+    };
+
+    const session: Session = { stream, recorder, context, frame: 0, timer: 0 };
+    const meter = () => {
+      analyser.getFloatTimeDomainData(samples);
+      let sum = 0;
+      for (const sample of samples) sum += sample * sample;
+      const db = 10 * Math.log10(sum / samples.length || 1e-12);
+      setLevel(Math.min(1, Math.max(0, 1 - db / METER_FLOOR_DB)));
+      session.frame = requestAnimationFrame(meter);
+    };
+    session.frame = requestAnimationFrame(meter);
+    session.timer = window.setInterval(() => {
+      const ms = currentElapsedMs();
+      setElapsed(ms / 1000);
+      if (ms >= maxDurationSeconds * 1000) {
+        setReachedLimit(true);
+        stop();
+      }
+    }, ELAPSED_INTERVAL_MS);
+    sessionRef.current = session;
+
+    recordedMsRef.current = 0;
+    runStartedRef.current = performance.now();
+    setElapsed(0);
+    recorder.start(TIMESLICE_MS);
+    setState('recording');
+  }, [currentElapsedMs, deviceId, maxDurationSeconds, refreshDevices, release, stop]);
+
+  const pause = useCallback(() => {
+    const recorder = sessionRef.current?.recorder;
+    if (recorder?.state !== 'recording') return;
+    recordedMsRef.current = currentElapsedMs();
+    recorder.pause();
+    setState('paused');
+  }, [currentElapsedMs]);
+
+  const resume = useCallback(() => {
+    const recorder = sessionRef.current?.recorder;
+    if (recorder?.state !== 'paused') return;
+    runStartedRef.current = performance.now();
+    recorder.resume();
+    setState('recording');
+  }, []);
+
+  const discard = useCallback(() => {
+    setRecording(null);
+    setElapsed(0);
+    setReachedLimit(false);
+    setState('idle');
+  }, []);
+
+  return {
+    supported,
+    devices,
+    deviceId,
+    setDeviceId,
+    state,
+    elapsed,
+    level,
+    recording,
+    error,
+    reachedLimit,
+    start,
+    pause,
+    resume,
+    stop,
+    discard
+  };
+}
@@ -0,0 +1,40 @@
+import { useCallback, useSyncExternalStore } from 'react';
+
+const STORAGE_KEY = 'favouriteLanguages';
+
+// The languages the selector offered before the full catalogue existed
+const DEFAULT_FAVOURITES = ['ta-IN', 'en-US', 'hi-IN', 'te-IN', 'kn-IN', 'ml-IN'];
+
+const listeners = new Set<() => void>();
+let favourites = readFavourites();
+
+function readFavourites(): string[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    return Array.isArray(stored) ? stored.filter(code => typeof code === 'string') : DEFAULT_FAVOURITES;
+  } catch {
+    return DEFAULT_FAVOURITES;
+  }
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Favourite languages, shared by every language picker on the page and kept in localStorage
+export function useFavouriteLanguages() {
+  const current = useSyncExternalStore(subscribe, () => favourites);
+
+  const toggleFavourite = useCallback((code: string) => {
+    favourites = favourites.includes(code)
+      ? favourites.filter(favourite => favourite !== code)
+      : [...favourites, code];
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(favourites));
+    listeners.forEach(listener => listener());
+  }, []);
+
+  return { favourites: current, toggleFavourite };
+}
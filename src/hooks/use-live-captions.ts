@@ -0,0 +1,114 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  LiveTranscriptionError,
+  startLiveTranscription,
+  type LiveTranscriptResult,
+  type LiveTranscriptionOptions,
+  type LiveTranscriptionSession
+} from '@/lib/live-transcription';
+
+export type LiveCaptionsState = 'idle' | 'connecting' | 'live' | 'stopping' | 'ended';
+
+export type LiveCaptionsSettings = Omit<LiveTranscriptionOptions, 'onResult' | 'onLevel'>;
+
+function describeLiveError(error: unknown): string {
+  if (error instanceof DOMException) {
+    if (error.name === 'NotAllowedError') return 'Microphone access was denied. Allow it in the browser to caption.';
+    if (error.name === 'NotFoundError') return 'No microphone was found';
+    if (error.name === 'NotReadableError') return 'The microphone is in use by another application';
+  }
+  if (error instanceof LiveTranscriptionError) return `${error.message} (${error.exceptionType})`;
+  return error instanceof Error ? error.message : 'Live captions failed';
+}
+
+// Streams the microphone to Transcribe and keeps the captions: final results
+// in order, and the partial result still being recognised
+export function useLiveCaptions() {
+  const [state, setState] = useState<LiveCaptionsState>('idle');
+  const [finals, setFinals] = useState<LiveTranscriptResult[]>([]);
+  const [partial, setPartial] = useState<LiveTranscriptResult | null>(null);
+  const [level, setLevel] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [startedAt, setStartedAt] = useState<Date | null>(null);
+  const sessionRef = useRef<LiveTranscriptionSession | null>(null);
+
+  const supported = typeof navigator !== 'undefined'
+    && !!navigator.mediaDevices?.getUserMedia
+    && typeof AudioWorkletNode !== 'undefined'
+    && typeof WebSocket !== 'undefined';
+
+  // Close the connection if the component goes away mid-session
+  useEffect(() => () => sessionRef.current?.abort(), []);
+
+  const handleResult = useCallback((result: LiveTranscriptResult) => {
+    if (result.isPartial) {
+      setPartial(result);
+      return;
+    }
+    setPartial(current => (current?.id === result.id ? null : current));
+    if (result.text.trim()) setFinals(current => [...current, result]);
+  }, []);
+
+  const start = useCallback(async (settings: LiveCaptionsSettings) => {
+    if (sessionRef.current) return;
+    setError(null);
+    setFinals([]);
+    setPartial(null);
+    setState('connecting');
+
+    let session: LiveTranscriptionSession;
+    try {
+      session = await startLiveTranscription({ ...settings, onResult: handleResult, onLevel: setLevel });
+    } catch (error) {
+      console.error('Could not start live captions:', error);
+      setError(describeLiveError(error));
+      setState('idle');
+      return;
+    }
+    sessionRef.current = session;
+    setStartedAt(new Date());
+    setState('live');
+
+    session.done
+      .catch(error => {
+        console.error('Live captions ended with an error:', error);
+        setError(describeLiveError(error));
+      })
+      .finally(() => {
+        if (sessionRef.current !== session) return;
+        sessionRef.current = null;
+        setPartial(null);
+        setState('ended');
+      });
+  }, [handleResult]);
+
+  const stop = useCallback(async () => {
+    const session = sessionRef.current;
+    if (!session) return;
+    setState('stopping');
+    await session.stop().catch(() => undefined);
+  }, []);
+
+  const reset = useCallback(() => {
+    sessionRef.current?.abort();
+    sessionRef.current = null;
+    setFinals([]);
+    setPartial(null);
+    setError(null);
+    setStartedAt(null);
+    setState('idle');
+  }, []);
+
+  return {
+    supported,
+    state,
+    finals,
+    partial,
+    level,
+    error,
+    startedAt,
+    start,
+    stop,
+    reset
+  };
+}
@@ -0,0 +1,48 @@
+import { useEffect, useState } from 'react';
+
+// Current position of a media element. `timeupdate` only fires a few times a
+// second, which is too coarse to follow individual words, so the position is
+// read every animation frame while the media plays.
+export function usePlaybackTime(media: HTMLMediaElement | null) {
+  const [currentTime, setCurrentTime] = useState(0);
+  const [playing, setPlaying] = useState(false);
+
+  useEffect(() => {
+    if (!media) return;
+    let frame = 0;
+
+    const tick = () => {
+      setCurrentTime(media.currentTime);
+      frame = requestAnimationFrame(tick);
+    };
+    const onPlay = () => {
+      setPlaying(true);
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(tick);
+    };
+    const onPause = () => {
+      setPlaying(false);
+      cancelAnimationFrame(frame);
+      setCurrentTime(media.currentTime);
+    };
+    // Seeking while paused still has to move the highlight
+    const onSeeked = () => setCurrentTime(media.currentTime);
+
+    media.addEventListener('play', onPlay);
+    media.addEventListener('pause', onPause);
+    media.addEventListener('ended', onPause);
+    media.addEventListener('seeked', onSeeked);
+    setCurrentTime(media.currentTime);
+    if (!media.paused) onPlay();
+
+    return () => {
+      cancelAnimationFrame(frame);
+      media.removeEventListener('play', onPlay);
+      media.removeEventListener('pause', onPause);
+      media.removeEventListener('ended', onPause);
+      media.removeEventListener('seeked', onSeeked);
+    };
+  }, [media]);
+
+  return { currentTime, playing };
+}
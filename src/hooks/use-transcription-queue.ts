@@ -0,0 +1,122 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  isAbortError,
+  type TranscribeResult,
+  type TranscriptionJobStatus,
+  type TranscriptionProgress,
+  type TranscriptionStage
+} from '@/lib/transcription';
+import { TranscriptionError } from '@/lib/transcription-errors';
+
+export type QueueItemStatus = 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled';
+
+export interface QueueItem {
+  id: string;
+  file: File;
+  status: QueueItemStatus;
+  stage?: TranscriptionStage;
+  jobStatus?: TranscriptionJobStatus;
+  progress: number;
+  result?: TranscribeResult;
+  error?: string;
+  errorHint?: string;
+}
+
+export type QueueTranscriber = (
+  file: File,
+  onProgress: (progress: TranscriptionProgress) => void,
+  signal: AbortSignal
+) => Promise<TranscribeResult>;
+
+// Runs transcriptions for a list of files, at most `concurrency` at a time
+export function useTranscriptionQueue(transcribe: QueueTranscriber, concurrency = 2) {
+  const [items, setItems] = useState<QueueItem[]>([]);
+  const transcribeRef = useRef(transcribe);
+  const controllers = useRef(new Map<string, AbortController>());
+
+  useEffect(() => {
+    transcribeRef.current = transcribe;
+  }, [transcribe]);
+
+  // Updates are ignored once an item has left the processing state (e.g. it was cancelled)
+  const updateProcessing = useCallback((id: string, patch: Partial<QueueItem>) => {
+    setItems(prev => prev.map(item =>
+      item.id === id && item.status === 'processing' ? { ...item, ...patch } : item
+    ));
+  }, []);
+
+  const runItem = useCallback(async (item: QueueItem) => {
+    const controller = new AbortController();
+    controllers.current.set(item.id, controller);
+    try {
+      const result = await transcribeRef.current(
+        item.file,
+        ({ stage, percent, jobStatus }) => updateProcessing(item.id, { stage, jobStatus, progress: percent }),
+        controller.signal
+      );
+      updateProcessing(item.id, { status: 'completed', stage: 'completed', progress: 100, result });
+    } catch (error) {
+      if (isAbortError(error)) return;
+      updateProcessing(item.id, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Failed to transcribe audio file',
+        errorHint: error instanceof TranscriptionError ? error.hint : undefined
+      });
+    } finally {
+      controllers.current.delete(item.id);
+    }
+  }, [updateProcessing]);
+
+  useEffect(() => {
+    const active = items.filter(item => item.status === 'processing').length;
+    const next = items
+      .filter(item => item.status === 'queued')
+      .slice(0, Math.max(0, concurrency - active));
+    if (next.length === 0) return;
+
+    const startIds = new Set(next.map(item => item.id));
+    setItems(prev => prev.map(item =>
+      startIds.has(item.id) ? { ...item, status: 'processing', progress: 0, error: undefined, errorHint: undefined } : item
+    ));
+    next.forEach(runItem);
+  }, [items, concurrency, runItem]);
+
+  const addFiles = useCallback((files: File[]) => {
+    setItems(prev => [
+      ...prev,
+      ...files.map(file => ({
+        id: crypto.randomUUID(),
+        file,
+        status: 'queued' as const,
+        progress: 0
+      }))
+    ]);
+  }, []);
+
+  const retry = useCallback((id: string) => {
+    setItems(prev => prev.map(item =>
+      item.id === id && (item.status === 'failed' || item.status === 'cancelled')
+        ? { ...item, status: 'queued', progress: 0, stage: undefined, jobStatus: undefined, error: undefined, errorHint: undefined }
+        : item
+    ));
+  }, []);
+
+  const cancel = useCallback((id: string) => {
+    controllers.current.get(id)?.abort();
+    setItems(prev => prev.map(item =>
+      item.id === id && (item.status === 'queued' || item.status === 'processing')
+        ? { ...item, status: 'cancelled' }
+        : item
+    ));
+  }, []);
+
+  const remove = useCallback((id: string) => {
+    setItems(prev => prev.filter(item => item.id !== id || item.status === 'processing'));
+  }, []);
+
+  const clearFinished = useCallback(() => {
+    setItems(prev => prev.filter(item => item.status === 'queued' || item.status === 'processing'));
+  }, []);
+
+  return { items, addFiles, retry, cancel, remove, clearFinished };
+}
@@ -0,0 +1,76 @@
+import { useCallback, useRef, useState } from 'react';
+
+interface History<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+export interface SetHistoryOptions {
+  // Consecutive changes with the same key collapse into one undo step,
+  // so typing a sentence is undone in one go rather than letter by letter
+  coalesceKey?: string;
+}
+
+const MAX_HISTORY = 100;
+
+// State with undo and redo. `reset` starts a new history, e.g. when the
+// underlying document is replaced.
+export function useUndoHistory<T>(initial: T) {
+  const [history, setHistory] = useState<History<T>>({ past: [], present: initial, future: [] });
+  const lastKey = useRef<string | undefined>(undefined);
+
+  const set = useCallback((update: (present: T) => T, options: SetHistoryOptions = {}) => {
+    // Decided here because the updater runs later, after lastKey has moved on
+    const coalesce = options.coalesceKey !== undefined && options.coalesceKey === lastKey.current;
+    lastKey.current = options.coalesceKey;
+    setHistory(prev => {
+      const next = update(prev.present);
+      if (next === prev.present) return prev;
+      return {
+        past: coalesce ? prev.past : [...prev.past, prev.present].slice(-MAX_HISTORY),
+        present: next,
+        future: []
+      };
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    lastKey.current = undefined;
+    setHistory(prev => {
+      if (prev.past.length === 0) return prev;
+      return {
+        past: prev.past.slice(0, -1),
+        present: prev.past[prev.past.length - 1],
+        future: [prev.present, ...prev.future]
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    lastKey.current = undefined;
+    setHistory(prev => {
+      if (prev.future.length === 0) return prev;
+      return {
+        past: [...prev.past, prev.present],
+        present: prev.future[0],
+        future: prev.future.slice(1)
+      };
+    });
+  }, []);
+
+  const reset = useCallback((value: T) => {
+    lastKey.current = undefined;
+    setHistory({ past: [], present: value, future: [] });
+  }, []);
+
+  return {
+    state: history.present,
+    set,
+    undo,
+    redo,
+    reset,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0
+  };
+}
@@ -0,0 +1,53 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { createTranscriptionApi } from '@/lib/transcription-api';
+import type { VocabularyFilterSummary, VocabularySummary } from '@/lib/transcription-api-contract';
+
+// Transcribe takes a few minutes to process a saved vocabulary
+const PENDING_POLL_INTERVAL_MS = 10_000;
+
+// Custom vocabularies and vocabulary filters stored on the transcription
+// server. Lists refresh on their own while a vocabulary is still processing.
+export function useVocabularies(enabled: boolean) {
+  const api = useMemo(() => createTranscriptionApi(), []);
+  const [vocabularies, setVocabularies] = useState<VocabularySummary[]>([]);
+  const [filters, setFilters] = useState<VocabularyFilterSummary[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const refresh = useCallback(async (signal?: AbortSignal) => {
+    setLoading(true);
+    try {
+      const [vocabularyList, filterList] = await Promise.all([
+        api.listVocabularies(signal),
+        api.listVocabularyFilters(signal)
+      ]);
+      setVocabularies(vocabularyList.vocabularies.sort((a, b) => a.name.localeCompare(b.name)));
+      setFilters(filterList.filters.sort((a, b) => a.name.localeCompare(b.name)));
+      setError(null);
+    } catch (error) {
+      if (signal?.aborted) return;
+      console.error('Could not list vocabularies:', error);
+      setError(error instanceof Error ? error.message : 'Could not list vocabularies');
+    } finally {
+      if (!signal?.aborted) setLoading(false);
+    }
+  }, [api]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const controller = new AbortController();
+    refresh(controller.signal);
+    return () => controller.abort();
+  }, [enabled, refresh]);
+
+  const hasPending = vocabularies.some(vocabulary => vocabulary.state === 'PENDING');
+  useEffect(() => {
+    if (!enabled || !hasPending) return;
+    const timer = window.setInterval(() => refresh(), PENDING_POLL_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [enabled, hasPending, refresh]);
+
+  return { api, vocabularies, filters, error, loading, refresh };
+}
+
+export type VocabularyStore = ReturnType<typeof useVocabularies>;
@@ -0,0 +1,477 @@
+import {
+  ascii,
+  EBML_AUDIO,
+  EBML_BLOCK,
+  EBML_BLOCK_GROUP,
+  EBML_CHANNELS,
+  EBML_CLUSTER,
+  EBML_CLUSTER_TIMECODE,
+  EBML_CODEC_ID,
+  EBML_CODEC_PRIVATE,
+  EBML_DOC_TYPE,
+  EBML_HEADER,
+  EBML_INFO,
+  EBML_SAMPLING_FREQUENCY,
+  EBML_SEGMENT,
+  EBML_SIMPLE_BLOCK,
+  EBML_TIMECODE_SCALE,
+  EBML_TRACK_ENTRY,
+  EBML_TRACK_NUMBER,
+  EBML_TRACK_TYPE,
+  EBML_TRACK_TYPE_AUDIO,
+  EBML_TRACKS,
+  ebmlChildren,
+  type EbmlElement,
+  findBox,
+  type Mp4Box,
+  mp4Boxes,
+  readBytes,
+  readEbmlElement,
+  readEbmlFloat,
+  readEbmlString,
+  readEbmlUint,
+  readEbmlVint,
+  readTopLevelBox,
+  viewOf
+} from '@/lib/media-containers';
+
+// Pulls the encoded audio track out of MP4/MOV and WebM/Matroska files one
+// packet at a time, so it can be decoded without reading the video into memory.
+
+export interface AudioPacket {
+  data: Uint8Array;
+  timestamp: number; // microseconds
+  // How far through the file the packet lies, 0-1, for progress
+  position: number;
+}
+
+export interface DemuxedAudioTrack {
+  // WebCodecs codec string, e.g. 'mp4a.40.2' or 'opus'
+  codec: string;
+  sampleRate: number;
+  channels: number;
+  // Codec setup the decoder needs, e.g. the AAC AudioSpecificConfig
+  description?: Uint8Array;
+  packets(): AsyncGenerator<AudioPacket>;
+}
+
+// Larger movie headers belong to files too long to extract in a browser anyway
+const MAX_MOOV_BYTES = 64 * 1024 * 1024;
+const EBML_WINDOW_BYTES = 4 * 1024 * 1024;
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+// --- MP4, M4A and QuickTime ---
+
+interface SampleTables {
+  sizes: Uint32Array;
+  chunkOffsets: number[];
+  // Samples in each chunk, expanded from the sample-to-chunk runs
+  samplesPerChunk: number[];
+  // Runs of equal sample durations, in media timescale units
+  durations: { count: number; delta: number }[];
+}
+
+// Descriptor lengths are stored in up to four 7-bit groups
+function readDescriptorLength(bytes: Uint8Array, offset: number): { length: number; size: number } {
+  let length = 0;
+  let size = 0;
+  while (size < 4) {
+    const byte = bytes[offset + size++];
+    length = (length << 7) | (byte & 0x7f);
+    if (!(byte & 0x80)) break;
+  }
+  return { length, size };
+}
+
+// The object type and decoder setup from an ES descriptor box
+function readEsds(bytes: Uint8Array, esds: Mp4Box): { objectType: number; config?: Uint8Array } | null {
+  // Skip the full box header
+  let offset = esds.dataStart + 4;
+  if (bytes[offset] !== 0x03) return null;
+  offset += 1 + readDescriptorLength(bytes, offset + 1).size;
+  const flags = bytes[offset + 2];
+  offset += 3;
+  if (flags & 0x80) offset += 2; // depends on ES_ID
+  if (flags & 0x40) offset += 1 + bytes[offset]; // URL
+  if (flags & 0x20) offset += 2; // OCR ES_ID
+
+  if (bytes[offset] !== 0x04) return null;
+  const decoderConfig = readDescriptorLength(bytes, offset + 1);
+  offset += 1 + decoderConfig.size;
+  const objectType = bytes[offset];
+  offset += 13;
+
+  if (bytes[offset] !== 0x05) return { objectType };
+  const specific = readDescriptorLength(bytes, offset + 1);
+  const start = offset + 1 + specific.size;
+  return { objectType, config: bytes.slice(start, start + specific.length) };
+}
+
+function aacCodecString(config?: Uint8Array): string {
+  if (!config?.length) return 'mp4a.40.2';
+  let objectType = config[0] >> 3;
+  // Object types past 30 continue into the next byte
+  if (objectType === 31) objectType = 32 + (((config[0] & 0x07) << 3) | (config[1] >> 5));
+  return `mp4a.40.${objectType}`;
+}
+
+interface Mp4AudioSetup {
+  codec: string;
+  sampleRate: number;
+  channels: number;
+  description?: Uint8Array;
+}
+
+function readMp4AudioSetup(bytes: Uint8Array, stsd: Mp4Box, timescale: number): Mp4AudioSetup {
+  const view = viewOf(bytes);
+  // The first sample entry follows the full box header and entry count
+  const entry = stsd.dataStart + 8;
+  const entryEnd = entry + view.getUint32(entry);
+  const format = ascii(bytes, entry + 4, 4);
+
+  // QuickTime sound descriptions grow with their version; ISO files always use version 0
+  const version = view.getUint16(entry + 16);
+  let channels = view.getUint16(entry + 24);
+  let sampleRate = view.getUint16(entry + 32) || timescale;
+  let childStart = entry + 36;
+  if (version === 1) childStart += 16;
+  if (version === 2) {
+    sampleRate = Math.round(view.getFloat64(entry + 40));
+    channels = view.getUint32(entry + 48);
+    childStart += 36;
+  }
+  const children = { dataStart: childStart, end: entryEnd };
+
+  if (format === 'mp4a') {
+    // QuickTime wraps the descriptor in a 'wave' box
+    const esds = findBox(bytes, children, ['esds']) ?? findBox(bytes, children, ['wave', 'esds']);
+    const descriptor = esds ? readEsds(bytes, esds) : null;
+    // MP3 carried in an MP4 sample entry
+    if (descriptor && (descriptor.objectType === 0x69 || descriptor.objectType === 0x6b)) {
+      return { codec: 'mp3', sampleRate, channels };
+    }
+    return { codec: aacCodecString(descriptor?.config), sampleRate, channels, description: descriptor?.config };
+  }
+  if (format === '.mp3' || format === 'ms\u0000U') return { codec: 'mp3', sampleRate, channels };
+  if (format === 'Opus') return { codec: 'opus', sampleRate: 48000, channels };
+  if (format === 'fLaC') {
+    const dfla = findBox(bytes, children, ['dfLa']);
+    // WebCodecs wants the 'fLaC' marker followed by the metadata blocks
+    const description = dfla ? concatBytes([new Uint8Array([0x66, 0x4c, 0x61, 0x43]), bytes.slice(dfla.dataStart + 4, dfla.end)]) : undefined;
+    return { codec: 'flac', sampleRate, channels, description };
+  }
+  throw new Error(`Audio in '${format.trim()}' format can't be extracted in the browser`);
+}
+
+function readSampleTables(bytes: Uint8Array, stbl: Mp4Box): SampleTables {
+  const view = viewOf(bytes);
+  const stsz = findBox(bytes, stbl, ['stsz']);
+  const stco = findBox(bytes, stbl, ['stco']);
+  const co64 = findBox(bytes, stbl, ['co64']);
+  const stsc = findBox(bytes, stbl, ['stsc']);
+  const stts = findBox(bytes, stbl, ['stts']);
+  if (!stsz || !(stco || co64) || !stsc || !stts) {
+    throw new Error('The audio track has no sample table; fragmented MP4 files can\'t be extracted');
+  }
+
+  const fixedSize = view.getUint32(stsz.dataStart + 4);
+  const sampleCount = view.getUint32(stsz.dataStart + 8);
+  const sizes = new Uint32Array(sampleCount);
+  for (let i = 0; i < sampleCount; i++) {
+    sizes[i] = fixedSize || view.getUint32(stsz.dataStart + 12 + i * 4);
+  }
+
+  const chunkOffsets: number[] = [];
+  if (co64) {
+    const count = view.getUint32(co64.dataStart + 4);
+    for (let i = 0; i < count; i++) chunkOffsets.push(Number(view.getBigUint64(co64.dataStart + 8 + i * 8)));
+  } else if (stco) {
+    const count = view.getUint32(stco.dataStart + 4);
+    for (let i = 0; i < count; i++) chunkOffsets.push(view.getUint32(stco.dataStart + 8 + i * 4));
+  }
+
+  // Each run gives the first chunk (1-based) it applies to and its samples per chunk
+  const samplesPerChunk: number[] = new Array(chunkOffsets.length).fill(0);
+  const runs = view.getUint32(stsc.dataStart + 4);
+  for (let i = 0; i < runs; i++) {
+    const firstChunk = view.getUint32(stsc.dataStart + 8 + i * 12) - 1;
+    const lastChunk = i + 1 < runs ? view.getUint32(stsc.dataStart + 8 + (i + 1) * 12) - 1 : chunkOffsets.length;
+    const samples = view.getUint32(stsc.dataStart + 12 + i * 12);
+    for (let chunk = firstChunk; chunk < Math.min(lastChunk, chunkOffsets.length); chunk++) samplesPerChunk[chunk] = samples;
+  }
+
+  const durations: SampleTables['durations'] = [];
+  const timeRuns = view.getUint32(stts.dataStart + 4);
+  for (let i = 0; i < timeRuns; i++) {
+    durations.push({
+      count: view.getUint32(stts.dataStart + 8 + i * 8),
+      delta: view.getUint32(stts.dataStart + 12 + i * 8)
+    });
+  }
+
+  if (sampleCount === 0) throw new Error('The audio track is empty; fragmented MP4 files can\'t be extracted');
+  return { sizes, chunkOffsets, samplesPerChunk, durations };
+}
+
+async function demuxIsoMedia(file: Blob): Promise<DemuxedAudioTrack> {
+  const moovBox = await readTopLevelBox(file, 'moov', MAX_MOOV_BYTES);
+  const moov = moovBox?.bytes;
+  if (!moov) throw new Error('The movie header is missing or too large to read');
+  const movie = findBox(moov, { dataStart: 0, end: moov.length }, ['moov']);
+
+  let trak: Mp4Box | null = null;
+  for (const box of movie ? mp4Boxes(moov, movie.dataStart, movie.end) : []) {
+    const hdlr = box.type === 'trak' ? findBox(moov, box, ['mdia', 'hdlr']) : null;
+    // Full box header and pre_defined come before the handler type
+    if (hdlr && ascii(moov, hdlr.dataStart + 8, 4) === 'soun') {
+      trak = box;
+      break;
+    }
+  }
+  if (!trak) throw new Error('The file has no audio track');
+
+  const view = viewOf(moov);
+  const mdhd = findBox(moov, trak, ['mdia', 'mdhd']);
+  const stbl = findBox(moov, trak, ['mdia', 'minf', 'stbl']);
+  const stsd = stbl && findBox(moov, stbl, ['stsd']);
+  if (!mdhd || !stbl || !stsd) throw new Error('The audio track header is incomplete');
+  // Version 1 headers use 64-bit creation and modification times
+  const timescale = view.getUint32(mdhd.dataStart + (moov[mdhd.dataStart] === 1 ? 20 : 12));
+
+  const setup = readMp4AudioSetup(moov, stsd, timescale);
+  const tables = readSampleTables(moov, stbl);
+
+  return {
+    ...setup,
+    async *packets() {
+      let sample = 0;
+      let time = 0;
+      let run = 0;
+      let runLeft = tables.durations[0]?.count ?? 0;
+      for (let chunk = 0; chunk < tables.chunkOffsets.length; chunk++) {
+        const count = Math.min(tables.samplesPerChunk[chunk], tables.sizes.length - sample);
+        let chunkSize = 0;
+        for (let i = 0; i < count; i++) chunkSize += tables.sizes[sample + i];
+        // A chunk is stored contiguously, so it takes one read
+        const bytes = await readBytes(file, tables.chunkOffsets[chunk], chunkSize);
+        let offset = 0;
+        for (let i = 0; i < count; i++, sample++) {
+          const size = tables.sizes[sample];
+          yield {
+            data: bytes.subarray(offset, offset + size),
+            timestamp: Math.round((time * 1e6) / timescale),
+            position: (chunk + 1) / tables.chunkOffsets.length
+          };
+          offset += size;
+          while (runLeft === 0 && run + 1 < tables.durations.length) runLeft = tables.durations[++run].count;
+          time += tables.durations[run]?.delta ?? 0;
+          runLeft--;
+        }
+      }
+    }
+  };
+}
+
+// --- WebM and Matroska ---
+
+const MATROSKA_CODECS: Record<string, string> = {
+  A_OPUS: 'opus',
+  A_VORBIS: 'vorbis',
+  A_FLAC: 'flac',
+  'A_MPEG/L3': 'mp3'
+};
+
+// Reads a file front to back through a large window, since block headers are
+// spread through the whole file
+function createWindowedReader(file: Blob) {
+  let windowStart = 0;
+  let window = new Uint8Array(0);
+
+  return async (offset: number, length: number): Promise<Uint8Array> => {
+    if (offset < windowStart || offset + length > windowStart + window.length) {
+      windowStart = offset;
+      window = await readBytes(file, offset, Math.max(length, EBML_WINDOW_BYTES));
+    }
+    return window.subarray(offset - windowStart, offset - windowStart + length);
+  };
+}
+
+// Frame sizes of a laced block; 'data' starts at the frame count
+function splitLacedFrames(data: Uint8Array, lacing: number): Uint8Array[] {
+  const count = data[0] + 1;
+  let offset = 1;
+  const sizes: number[] = [];
+
+  if (lacing === 0x02) {
+    // Xiph lacing: each size is a run of 255s and a final smaller byte
+    for (let i = 0; i < count - 1; i++) {
+      let size = 0;
+      let byte: number;
+      do {
+        byte = data[offset++];
+        size += byte;
+      } while (byte === 255);
+      sizes.push(size);
+    }
+  } else if (lacing === 0x06) {
+    // EBML lacing: the first size, then signed differences from the previous one
+    const first = readEbmlVint(data, offset);
+    if (!first) throw new Error('Damaged block lacing');
+    sizes.push(first.value);
+    offset += first.length;
+    for (let i = 1; i < count - 1; i++) {
+      const difference = readEbmlVint(data, offset);
+      if (!difference) throw new Error('Damaged block lacing');
+      sizes.push(sizes[i - 1] + difference.value - (2 ** (7 * difference.length - 1) - 1));
+      offset += difference.length;
+    }
+  } else {
+    // Fixed-size lacing
+    const size = (data.length - offset) / count;
+    for (let i = 0; i < count - 1; i++) sizes.push(size);
+  }
+
+  const frames: Uint8Array[] = [];
+  for (const size of sizes) {
+    frames.push(data.subarray(offset, offset + size));
+    offset += size;
+  }
+  frames.push(data.subarray(offset));
+  return frames;
+}
+
+interface MatroskaAudioTrack {
+  number: number;
+  codecId: string;
+  codecPrivate?: Uint8Array;
+  sampleRate: number;
+  channels: number;
+}
+
+function readMatroskaAudioTrack(bytes: Uint8Array, tracks: EbmlElement): MatroskaAudioTrack | null {
+  for (const entry of ebmlChildren(bytes, tracks.dataStart, tracks.dataEnd)) {
+    if (entry.id !== EBML_TRACK_ENTRY) continue;
+    const track: Partial<MatroskaAudioTrack> & { type?: number } = { sampleRate: 8000, channels: 1 };
+    for (const child of ebmlChildren(bytes, entry.dataStart, entry.dataEnd)) {
+      if (child.id === EBML_TRACK_NUMBER) track.number = readEbmlUint(bytes, child);
+      if (child.id === EBML_TRACK_TYPE) track.type = readEbmlUint(bytes, child);
+      if (child.id === EBML_CODEC_ID) track.codecId = readEbmlString(bytes, child);
+      if (child.id === EBML_CODEC_PRIVATE) track.codecPrivate = bytes.slice(child.dataStart, child.dataEnd);
+      if (child.id !== EBML_AUDIO) continue;
+      for (const audio of ebmlChildren(bytes, child.dataStart, child.dataEnd)) {
+        if (audio.id === EBML_SAMPLING_FREQUENCY) track.sampleRate = Math.round(readEbmlFloat(bytes, audio) ?? 8000);
+        if (audio.id === EBML_CHANNELS) track.channels = readEbmlUint(bytes, audio);
+      }
+    }
+    if (track.type === EBML_TRACK_TYPE_AUDIO && track.number && track.codecId) return track as MatroskaAudioTrack;
+  }
+  return null;
+}
+
+function matroskaCodec(track: MatroskaAudioTrack): string {
+  if (track.codecId.startsWith('A_AAC')) return aacCodecString(track.codecPrivate);
+  const codec = MATROSKA_CODECS[track.codecId];
+  if (!codec) throw new Error(`${track.codecId} audio can't be extracted in the browser`);
+  return codec;
+}
+
+async function demuxMatroska(file: Blob): Promise<DemuxedAudioTrack> {
+  const read = createWindowedReader(file);
+  const head = await read(0, Math.min(file.size, EBML_WINDOW_BYTES));
+
+  // The segment holds everything; its info and track list come before the first cluster
+  let segment: EbmlElement | null = null;
+  for (const element of ebmlChildren(head, 0, head.length)) {
+    if (element.id === EBML_HEADER) {
+      const docType = [...ebmlChildren(head, element.dataStart, element.dataEnd)].find(child => child.id === EBML_DOC_TYPE);
+      if (docType && !['webm', 'matroska'].includes(readEbmlString(head, docType))) {
+        throw new Error('Not a WebM or Matroska file');
+      }
+    }
+    if (element.id === EBML_SEGMENT) {
+      segment = element;
+      break;
+    }
+  }
+  if (!segment) throw new Error('The file has no Matroska segment');
+
+  let timecodeScale = 1_000_000; // nanoseconds per timecode unit
+  let track: MatroskaAudioTrack | null = null;
+  let firstCluster = -1;
+  for (const child of ebmlChildren(head, segment.dataStart, segment.dataEnd)) {
+    if (child.id === EBML_CLUSTER) {
+      firstCluster = child.start;
+      break;
+    }
+    if (child.id === EBML_INFO) {
+      const scale = [...ebmlChildren(head, child.dataStart, child.dataEnd)].find(info => info.id === EBML_TIMECODE_SCALE);
+      if (scale) timecodeScale = readEbmlUint(head, scale);
+    }
+    if (child.id === EBML_TRACKS) track = readMatroskaAudioTrack(head, child);
+  }
+  if (!track) throw new Error('The file has no audio track, or its track list lies beyond the first 4 MB');
+
+  const audio = track;
+  const segmentEnd = Math.min(segment.dataEnd, file.size);
+  return {
+    codec: matroskaCodec(audio),
+    sampleRate: audio.codecId === 'A_OPUS' ? 48000 : audio.sampleRate,
+    channels: audio.channels,
+    description: audio.codecPrivate,
+    async *packets() {
+      let offset = firstCluster >= 0 ? firstCluster : segment.dataStart;
+      let clusterTime = 0;
+      while (offset < segmentEnd) {
+        const element = readEbmlElement(await read(offset, Math.min(12, segmentEnd - offset)), 0);
+        if (!element) return;
+        const dataStart = offset + element.dataStart;
+        const dataEnd = element.dataEnd === Infinity ? Infinity : offset + element.dataEnd;
+
+        // Step into clusters and block groups; skip everything else
+        if (element.id === EBML_CLUSTER || element.id === EBML_BLOCK_GROUP) {
+          offset = dataStart;
+          continue;
+        }
+        if (dataEnd === Infinity) return;
+
+        if (element.id === EBML_CLUSTER_TIMECODE) {
+          const bytes = await read(dataStart, dataEnd - dataStart);
+          clusterTime = readEbmlUint(bytes, { id: element.id, start: 0, dataStart: 0, dataEnd: bytes.length });
+        } else if (element.id === EBML_SIMPLE_BLOCK || element.id === EBML_BLOCK) {
+          const header = await read(dataStart, Math.min(12, dataEnd - dataStart));
+          const trackNumber = readEbmlVint(header, 0);
+          if (trackNumber?.value === audio.number) {
+            const block = await read(dataStart, dataEnd - dataStart);
+            const relativeTime = viewOf(block).getInt16(trackNumber.length);
+            const flags = block[trackNumber.length + 2];
+            const payload = block.subarray(trackNumber.length + 3);
+            const lacing = flags & 0x06;
+            const timestamp = Math.round(((clusterTime + relativeTime) * timecodeScale) / 1000);
+            for (const data of lacing ? splitLacedFrames(payload, lacing) : [payload]) {
+              // Copy out of the read window, which the next read replaces
+              yield { data: data.slice(), timestamp, position: dataEnd / file.size };
+            }
+          }
+        }
+        offset = dataEnd;
+      }
+    }
+  };
+}
+
+// Find the audio track of a video (or audio-only MP4/Matroska) file
+export async function demuxAudioTrack(file: Blob): Promise<DemuxedAudioTrack> {
+  const head = await readBytes(file, 0, 12);
+  if (ascii(head, 4, 4) === 'ftyp') return demuxIsoMedia(file);
+  if (readEbmlElement(head, 0)?.id === EBML_HEADER) return demuxMatroska(file);
+  throw new Error('Audio can only be extracted from MP4, MOV, WebM and Matroska files');
+}
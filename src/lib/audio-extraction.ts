@@ -0,0 +1,326 @@
+import type { MediaInfo } from '@/lib/media-format';
+import { demuxAudioTrack, type DemuxedAudioTrack } from '@/lib/audio-demux';
+import { createOggOpusWriter, readOpusPreSkip } from '@/lib/ogg-opus';
+import { createResampler } from '@/lib/resampler';
+
+// Transcribe only needs the speech, so videos are uploaded as a compact mono
+// audio track extracted in the browser. The original stays local for the
+// player. WebCodecs decodes the track and encodes it to Opus; browsers
+// without it decode smaller files whole with the Web Audio API into WAV.
+
+// Minimal WebCodecs typings; TypeScript's DOM library doesn't ship them yet
+interface CodecAudioData {
+  readonly numberOfFrames: number;
+  readonly numberOfChannels: number;
+  readonly sampleRate: number;
+  copyTo(destination: Float32Array, options: { planeIndex: number; format: 'f32-planar' }): void;
+  close(): void;
+}
+
+interface CodecEncodedChunk {
+  readonly byteLength: number;
+  readonly duration: number | null;
+  copyTo(destination: Uint8Array): void;
+}
+
+interface CodecAudioConfig {
+  codec: string;
+  sampleRate: number;
+  numberOfChannels: number;
+  description?: Uint8Array;
+  bitrate?: number;
+}
+
+interface CodecConstructor<Init, Instance> {
+  new (init: Init): Instance;
+  isConfigSupported(config: CodecAudioConfig): Promise<{ supported?: boolean }>;
+}
+
+interface AudioCodec {
+  readonly state: 'unconfigured' | 'configured' | 'closed';
+  configure(config: CodecAudioConfig): void;
+  flush(): Promise<void>;
+  close(): void;
+}
+
+interface AudioDecoderInstance extends AudioCodec {
+  readonly decodeQueueSize: number;
+  decode(chunk: unknown): void;
+}
+
+interface AudioEncoderInstance extends AudioCodec {
+  readonly encodeQueueSize: number;
+  encode(data: CodecAudioData): void;
+}
+
+interface WebCodecs {
+  AudioDecoder: CodecConstructor<{
+    output: (data: CodecAudioData) => void;
+    error: (error: DOMException) => void;
+  }, AudioDecoderInstance>;
+  AudioEncoder: CodecConstructor<{
+    output: (chunk: CodecEncodedChunk, metadata?: { decoderConfig?: { description?: ArrayBuffer | ArrayBufferView } }) => void;
+    error: (error: DOMException) => void;
+  }, AudioEncoderInstance>;
+  EncodedAudioChunk: new (init: { type: 'key' | 'delta'; timestamp: number; data: Uint8Array }) => unknown;
+  AudioData: new (init: {
+    format: 'f32-planar';
+    sampleRate: number;
+    numberOfFrames: number;
+    numberOfChannels: number;
+    timestamp: number;
+    data: Float32Array;
+  }) => CodecAudioData;
+}
+
+export interface ExtractAudioOptions {
+  // Share of the file processed so far, 0-1
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+}
+
+// Speech recognition gains nothing above 16 kHz, and the upload stays small
+const TARGET_SAMPLE_RATE = 16000;
+// Opus encoders that refuse 16 kHz input all take 48 kHz
+const FALLBACK_SAMPLE_RATE = 48000;
+const OPUS_BITRATE = 32000;
+// decodeAudioData holds the whole file and its decoded audio in memory
+const MAX_WHOLE_FILE_DECODE_BYTES = 512 * 1024 * 1024;
+// Work queued in the decoder or encoder before reading more of the file
+const MAX_QUEUED_CHUNKS = 32;
+const PROGRESS_STEP = 0.01;
+
+const EXTRACTABLE_CONTAINERS = ['MP4', 'M4A', '3GP', 'QuickTime', 'WebM', 'Matroska'];
+
+export const EXTRACTABLE_VIDEO_DESCRIPTION = 'MP4, MOV, MKV and WebM video';
+
+// Videos, and audio in containers Transcribe won't take as they are
+export function shouldExtractAudio(media: MediaInfo): boolean {
+  return media.hasAudio && EXTRACTABLE_CONTAINERS.includes(media.container) && (media.hasVideo || !media.mediaFormat);
+}
+
+function createAbortError(): DOMException {
+  return new DOMException('Audio extraction cancelled', 'AbortError');
+}
+
+function getWebCodecs(): WebCodecs | null {
+  const scope = globalThis as unknown as Partial<WebCodecs>;
+  return scope.AudioDecoder && scope.AudioEncoder && scope.EncodedAudioChunk && scope.AudioData
+    ? scope as WebCodecs
+    : null;
+}
+
+function audioFileName(file: File, extension: string): string {
+  return `${file.name.replace(/\.[^.]+$/, '')}.${extension}`;
+}
+
+function toBytes(source?: ArrayBuffer | ArrayBufferView): Uint8Array | undefined {
+  if (!source) return undefined;
+  return source instanceof ArrayBuffer
+    ? new Uint8Array(source)
+    : new Uint8Array(source.buffer, source.byteOffset, source.byteLength);
+}
+
+function downmix(data: CodecAudioData): Float32Array {
+  const mono = new Float32Array(data.numberOfFrames);
+  const plane = new Float32Array(data.numberOfFrames);
+  for (let channel = 0; channel < data.numberOfChannels; channel++) {
+    data.copyTo(plane, { planeIndex: channel, format: 'f32-planar' });
+    for (let i = 0; i < plane.length; i++) mono[i] += plane[i] / data.numberOfChannels;
+  }
+  return mono;
+}
+
+async function findOpusConfig(webCodecs: WebCodecs): Promise<CodecAudioConfig | null> {
+  for (const sampleRate of [TARGET_SAMPLE_RATE, FALLBACK_SAMPLE_RATE]) {
+    const config = { codec: 'opus', sampleRate, numberOfChannels: 1, bitrate: OPUS_BITRATE };
+    const { supported } = await webCodecs.AudioEncoder.isConfigSupported(config).catch(() => ({ supported: false }));
+    if (supported) return config;
+  }
+  return null;
+}
+
+async function transcodeToOpus(
+  webCodecs: WebCodecs,
+  file: File,
+  track: DemuxedAudioTrack,
+  encoderConfig: CodecAudioConfig,
+  { onProgress, signal }: ExtractAudioOptions
+): Promise<File> {
+  const outputRate = encoderConfig.sampleRate;
+  let failure: unknown = null;
+  let writer: ReturnType<typeof createOggOpusWriter> | null = null;
+  let resample: ((input: Float32Array) => Float32Array) | null = null;
+  let framesEncoded = 0;
+
+  const encoder = new webCodecs.AudioEncoder({
+    output: (chunk, metadata) => {
+      // The first chunk comes with the encoder's OpusHead, which gives its lookahead
+      writer ??= createOggOpusWriter({
+        channels: 1,
+        inputSampleRate: outputRate,
+        preSkip: readOpusPreSkip(toBytes(metadata?.decoderConfig?.description))
+      });
+      const packet = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(packet);
+      writer.addPacket(packet, chunk.duration ?? 20_000);
+    },
+    error: error => {
+      failure ??= error;
+    }
+  });
+
+  const decoder = new webCodecs.AudioDecoder({
+    output: data => {
+      try {
+        // HE-AAC decodes at twice the rate its container states, so go by the data
+        resample ??= createResampler(data.sampleRate, outputRate);
+        const samples = resample(downmix(data));
+        if (samples.length === 0) return;
+        const audio = new webCodecs.AudioData({
+          format: 'f32-planar',
+          sampleRate: outputRate,
+          numberOfFrames: samples.length,
+          numberOfChannels: 1,
+          timestamp: Math.round((framesEncoded * 1e6) / outputRate),
+          data: samples
+        });
+        encoder.encode(audio);
+        audio.close();
+        framesEncoded += samples.length;
+      } catch (error) {
+        failure ??= error;
+      } finally {
+        data.close();
+      }
+    },
+    error: error => {
+      failure ??= error;
+    }
+  });
+
+  try {
+    encoder.configure(encoderConfig);
+    decoder.configure({
+      codec: track.codec,
+      sampleRate: track.sampleRate,
+      numberOfChannels: track.channels,
+      description: track.description
+    });
+
+    let reported = 0;
+    for await (const packet of track.packets()) {
+      if (signal?.aborted) throw createAbortError();
+      if (failure) throw failure;
+      decoder.decode(new webCodecs.EncodedAudioChunk({ type: 'key', timestamp: packet.timestamp, data: packet.data }));
+      if (packet.position - reported >= PROGRESS_STEP) {
+        reported = packet.position;
+        onProgress?.(reported);
+      }
+      // Let the codecs catch up rather than queueing the whole file
+      while (decoder.decodeQueueSize > MAX_QUEUED_CHUNKS || encoder.encodeQueueSize > MAX_QUEUED_CHUNKS) {
+        await new Promise(resolve => setTimeout(resolve, 0));
+        if (failure) throw failure;
+      }
+    }
+
+    await decoder.flush();
+    await encoder.flush();
+    if (failure) throw failure;
+  } finally {
+    if (decoder.state !== 'closed') decoder.close();
+    if (encoder.state !== 'closed') encoder.close();
+  }
+
+  if (!writer || framesEncoded === 0) throw new Error('The audio track holds no audio');
+  onProgress?.(1);
+  return writer.finish(framesEncoded, audioFileName(file, 'ogg'));
+}
+
+function encodeWav(samples: Float32Array, sampleRate: number, name: string): File {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeAscii = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeAscii(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeAscii(8, 'WAVE');
+  writeAscii(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeAscii(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+  }
+  return new File([buffer], name, { type: 'audio/wav' });
+}
+
+// Decode the whole file with the Web Audio API, resampled on the way
+async function decodeToWav(file: File, { onProgress, signal }: ExtractAudioOptions): Promise<File> {
+  onProgress?.(0);
+  const context = new OfflineAudioContext(1, 1, TARGET_SAMPLE_RATE);
+  const buffer = await context.decodeAudioData(await file.arrayBuffer());
+  if (signal?.aborted) throw createAbortError();
+
+  const mono = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) mono[i] += data[i] / buffer.numberOfChannels;
+  }
+  onProgress?.(1);
+  return encodeWav(mono, buffer.sampleRate, audioFileName(file, 'wav'));
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Extract the audio track of a video (or of audio in a container Transcribe
+// doesn't take) as a mono Ogg Opus file, or WAV without WebCodecs
+export async function extractAudio(file: File, options: ExtractAudioOptions = {}): Promise<File> {
+  const webCodecs = getWebCodecs();
+  let reason = 'This browser can\'t encode audio';
+
+  if (webCodecs) {
+    let track: DemuxedAudioTrack | null = null;
+    try {
+      track = await demuxAudioTrack(file);
+    } catch (error) {
+      reason = describeError(error);
+    }
+
+    if (track) {
+      const encoderConfig = await findOpusConfig(webCodecs);
+      const { supported } = await webCodecs.AudioDecoder.isConfigSupported({
+        codec: track.codec,
+        sampleRate: track.sampleRate,
+        numberOfChannels: track.channels,
+        description: track.description
+      }).catch(() => ({ supported: false }));
+
+      if (encoderConfig && supported) {
+        return transcodeToOpus(webCodecs, file, track, encoderConfig, options);
+      }
+      reason = supported ? 'This browser can\'t encode Opus audio' : `This browser can't decode ${track.codec} audio`;
+    }
+  }
+
+  if (file.size > MAX_WHOLE_FILE_DECODE_BYTES) {
+    throw new Error(`${reason}, and the file is too large to decode in one piece`);
+  }
+  try {
+    return await decodeToWav(file, options);
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') throw error;
+    throw new Error(`${reason}, and the browser couldn't decode the file: ${describeError(error)}`);
+  }
+}
@@ -0,0 +1,307 @@
+import { DEFAULT_SEGMENTATION_OPTIONS, wrapLines, type SubtitleCue, type TimedWord } from '@/lib/segmentation';
+
+// Editable subtitle model. Every cue keeps the timed words it was built from,
+// so edits can carry the recognised word timings along: splitting a cue uses
+// real word boundaries instead of guessing, and retyping a few words keeps the
+// timing of the ones that did not change.
+
+export interface EditableCue extends SubtitleCue {
+  id: string;
+  // Empty for cues typed in by hand or imported without word timings
+  words: TimedWord[];
+}
+
+// Shortest cue any edit may produce, in seconds
+export const MIN_EDIT_DURATION = 0.2;
+// Length of a newly inserted cue when there is room for it
+const NEW_CUE_DURATION = 2;
+
+let nextId = 0;
+function createCueId(): string {
+  nextId += 1;
+  return `cue-${Date.now().toString(36)}-${nextId}`;
+}
+
+function tokenize(text: string): string[] {
+  return text.split(/\s+/).filter(Boolean);
+}
+
+// Compare words without case or surrounding punctuation, so "hello," matches "Hello"
+function normalizeToken(token: string): string {
+  return token.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+}
+
+function round(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000;
+}
+
+function wrapText(text: string): string {
+  return wrapLines(text, DEFAULT_SEGMENTATION_OPTIONS.maxCharsPerLine).join('\n');
+}
+
+// Attach the words each cue was segmented from. Cues built by segmentWords
+// consume the words in order, so walking both lists together is enough; once
+// the tokens stop matching (e.g. the fallback single cue) the remaining cues
+// get no words rather than wrong ones.
+export function createEditableCues(cues: SubtitleCue[], words: TimedWord[] = []): EditableCue[] {
+  let position = 0;
+  let aligned = true;
+
+  return cues.map(cue => {
+    const tokens = tokenize(cue.text);
+    const cueWords = aligned ? words.slice(position, position + tokens.length) : [];
+    aligned = aligned &&
+      cueWords.length === tokens.length &&
+      cueWords.every((word, index) => word.text === tokens[index]);
+
+    if (!aligned) return { ...cue, id: createCueId(), words: [] };
+    position += tokens.length;
+    return { ...cue, id: createCueId(), words: cueWords.map(word => ({ ...word })) };
+  });
+}
+
+export function toSubtitleCues(cues: EditableCue[]): SubtitleCue[] {
+  return cues.map(({ start, end, text, speaker, channel }) => ({ start, end, text, speaker, channel }));
+}
+
+// Longest common subsequence of two token lists, as index pairs
+function matchTokens(previous: string[], next: string[]): [number, number][] {
+  const lengths = Array.from({ length: previous.length + 1 }, () => new Array<number>(next.length + 1).fill(0));
+  for (let i = previous.length - 1; i >= 0; i--) {
+    for (let j = next.length - 1; j >= 0; j--) {
+      lengths[i][j] = previous[i] === next[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const pairs: [number, number][] = [];
+  let i = 0;
+  let j = 0;
+  while (i < previous.length && j < next.length) {
+    if (previous[i] === next[j]) {
+      pairs.push([i, j]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+}
+
+// Give the words of edited text timings: words that survived the edit keep
+// their recognised timing, new words share the time between their neighbours
+export function retimeWords(words: TimedWord[], text: string, start: number, end: number): TimedWord[] {
+  const tokens = tokenize(text);
+  if (words.length === 0 || tokens.length === 0) return [];
+
+  const matches = new Map(
+    matchTokens(words.map(word => normalizeToken(word.text)), tokens.map(normalizeToken))
+      .map(([from, to]) => [to, words[from]])
+  );
+  const template = words[0];
+  const result: TimedWord[] = [];
+
+  for (let index = 0; index < tokens.length; ) {
+    const matched = matches.get(index);
+    if (matched) {
+      result.push({ ...matched, text: tokens[index] });
+      index++;
+      continue;
+    }
+
+    // Spread a run of new words evenly over the gap they sit in
+    let runEnd = index;
+    while (runEnd < tokens.length && !matches.has(runEnd)) runEnd++;
+    const gapStart = result.length > 0 ? result[result.length - 1].end : start;
+    const gapEnd = runEnd < tokens.length ? (matches.get(runEnd) as TimedWord).start : end;
+    const step = Math.max(0, gapEnd - gapStart) / (runEnd - index);
+    for (let k = index; k < runEnd; k++) {
+      const offset = k - index;
+      result.push({
+        text: tokens[k],
+        start: round(gapStart + step * offset),
+        end: round(gapStart + step * (offset + 1)),
+        speaker: template.speaker,
+        channel: template.channel
+      });
+    }
+    index = runEnd;
+  }
+
+  return result;
+}
+
+function updateCue(cues: EditableCue[], id: string, update: (cue: EditableCue, index: number) => EditableCue) {
+  const index = cues.findIndex(cue => cue.id === id);
+  if (index === -1) return cues;
+  const updated = update(cues[index], index);
+  // Returning the same list lets the history skip edits that changed nothing
+  if (updated === cues[index]) return cues;
+  const next = [...cues];
+  next[index] = updated;
+  return next;
+}
+
+export function updateCueText(cues: EditableCue[], id: string, text: string): EditableCue[] {
+  return updateCue(cues, id, cue => ({
+    ...cue,
+    text,
+    words: retimeWords(cue.words, text, cue.start, cue.end)
+  }));
+}
+
+// Keep words inside the cue after its times change
+function clampWords(words: TimedWord[], start: number, end: number): TimedWord[] {
+  return words.map(word => ({
+    ...word,
+    start: Math.min(Math.max(word.start, start), end),
+    end: Math.min(Math.max(word.end, start), end)
+  }));
+}
+
+// Move one edge of a cue, never past its neighbours or its other edge
+export function nudgeCue(
+  cues: EditableCue[],
+  id: string,
+  edge: 'start' | 'end',
+  deltaSeconds: number
+): EditableCue[] {
+  return updateCue(cues, id, (cue, index) => {
+    let { start, end } = cue;
+    if (edge === 'start') {
+      const floor = index > 0 ? Math.min(cues[index - 1].end, start) : 0;
+      start = round(Math.min(Math.max(start + deltaSeconds, floor), end - MIN_EDIT_DURATION));
+    } else {
+      const next = cues[index + 1];
+      const ceiling = next ? Math.max(next.start, end) : Infinity;
+      end = round(Math.max(Math.min(end + deltaSeconds, ceiling), start + MIN_EDIT_DURATION));
+    }
+    return { ...cue, start, end, words: clampWords(cue.words, start, end) };
+  });
+}
+
+// Shift a whole cue in time, words included, stopping at its neighbours
+export function moveCue(cues: EditableCue[], id: string, deltaSeconds: number): EditableCue[] {
+  return updateCue(cues, id, (cue, index) => {
+    const previous = cues[index - 1];
+    const next = cues[index + 1];
+    const floor = previous ? Math.min(previous.end, cue.start) : 0;
+    const ceiling = next ? Math.max(next.start, cue.end) : Infinity;
+    const delta = Math.min(Math.max(deltaSeconds, floor - cue.start), ceiling - cue.end);
+    if (delta === 0) return cue;
+
+    const shift = (seconds: number) => round(seconds + delta);
+    return {
+      ...cue,
+      start: shift(cue.start),
+      end: shift(cue.end),
+      words: cue.words.map(word => ({ ...word, start: shift(word.start), end: shift(word.end) }))
+    };
+  });
+}
+
+// Split a cue at a character offset in its text (e.g. the caret position),
+// snapped to a word boundary. Without an offset the cue is split
+// in the middle of its text.
+export function splitCue(cues: EditableCue[], id: string, offset?: number): EditableCue[] {
+  const index = cues.findIndex(cue => cue.id === id);
+  if (index === -1) return cues;
+  const cue = cues[index];
+  const tokens = tokenize(cue.text);
+  if (tokens.length < 2) return cues;
+
+  // Number of words that go into the first cue; a word cut by the offset stays in it
+  const before = tokenize(cue.text.slice(0, offset ?? Math.floor(cue.text.length / 2)));
+  const splitAt = Math.min(Math.max(before.length, 1), tokens.length - 1);
+
+  const firstText = tokens.slice(0, splitAt).join(' ');
+  const secondText = tokens.slice(splitAt).join(' ');
+  let boundary: number;
+  let firstWords: TimedWord[] = [];
+  let secondWords: TimedWord[] = [];
+
+  if (cue.words.length === tokens.length) {
+    firstWords = cue.words.slice(0, splitAt);
+    secondWords = cue.words.slice(splitAt);
+    boundary = round((firstWords[firstWords.length - 1].end + secondWords[0].start) / 2);
+  } else {
+    // No word timings: divide the time by the share of the text
+    boundary = round(cue.start + (cue.end - cue.start) * (firstText.length / (firstText.length + secondText.length)));
+  }
+  boundary = Math.min(Math.max(boundary, cue.start + MIN_EDIT_DURATION / 2), cue.end - MIN_EDIT_DURATION / 2);
+
+  const first: EditableCue = { ...cue, end: boundary, text: wrapText(firstText), words: clampWords(firstWords, cue.start, boundary) };
+  const second: EditableCue = {
+    ...cue,
+    id: createCueId(),
+    start: boundary,
+    text: wrapText(secondText),
+    words: clampWords(secondWords, boundary, cue.end)
+  };
+  return [...cues.slice(0, index), first, second, ...cues.slice(index + 1)];
+}
+
+// Merge a cue with the one after it
+export function mergeWithNext(cues: EditableCue[], id: string): EditableCue[] {
+  const index = cues.findIndex(cue => cue.id === id);
+  if (index === -1 || index === cues.length - 1) return cues;
+  const cue = cues[index];
+  const next = cues[index + 1];
+  const text = [cue.text, next.text].flatMap(tokenize).join(' ');
+  // Word timings only stay meaningful when both halves have them
+  const words = cue.words.length > 0 && next.words.length > 0 ? [...cue.words, ...next.words] : [];
+
+  const merged: EditableCue = {
+    ...cue,
+    end: Math.max(cue.end, next.end),
+    text: wrapText(text),
+    words,
+    speaker: cue.speaker === next.speaker ? cue.speaker : cue.speaker ?? next.speaker
+  };
+  return [...cues.slice(0, index), merged, ...cues.slice(index + 2)];
+}
+
+// Insert an empty cue after the given one, or at the start when id is null.
+// It fills the gap to the next cue, or takes NEW_CUE_DURATION when the gap is
+// larger, and may overlap the next cue when there is no gap at all.
+export function insertCueAfter(cues: EditableCue[], id: string | null): EditableCue[] {
+  const index = id === null ? -1 : cues.findIndex(cue => cue.id === id);
+  if (id !== null && index === -1) return cues;
+  const previous = cues[index];
+  const next = cues[index + 1];
+
+  const start = previous ? previous.end : 0;
+  const room = next ? next.start - start : Infinity;
+  const end = round(start + (room >= MIN_EDIT_DURATION ? Math.min(room, NEW_CUE_DURATION) : NEW_CUE_DURATION));
+  const cue: EditableCue = {
+    id: createCueId(),
+    start,
+    end,
+    text: '',
+    words: [],
+    speaker: previous?.speaker,
+    channel: previous?.channel
+  };
+  return [...cues.slice(0, index + 1), cue, ...cues.slice(index + 1)];
+}
+
+export function deleteCue(cues: EditableCue[], id: string): EditableCue[] {
+  return cues.filter(cue => cue.id !== id);
+}
+
+// Index of the cue shown at the given playback time, or -1 between cues
+export function findCueIndexAt(cues: SubtitleCue[], time: number): number {
+  return cues.findIndex(cue => cue.start <= time && time < cue.end);
+}
+
+// Index of the word being spoken at the given time, or of the last word
+// already spoken during a pause inside the cue
+export function findWordIndexAt(words: TimedWord[], time: number): number {
+  let index = -1;
+  for (let i = 0; i < words.length && words[i].start <= time; i++) index = i;
+  return index;
+}
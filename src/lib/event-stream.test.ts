@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { decodeEventStreamMessage, encodeEventStreamMessage, EventStreamError } from '@/lib/event-stream';
+
+const headers = { ':message-type': 'event', ':event-type': 'AudioEvent', ':content-type': 'application/octet-stream' };
+const payload = new Uint8Array([0, 1, 2, 250, 255]);
+
+describe('event stream messages', () => {
+  it('decodes what it encodes', () => {
+    const decoded = decodeEventStreamMessage(encodeEventStreamMessage({ headers, payload }));
+    expect(decoded.headers).toEqual(headers);
+    expect([...decoded.payload]).toEqual([...payload]);
+  });
+
+  it('frames messages with their lengths and a known checksum', () => {
+    // The empty message AWS sends to end an audio stream
+    const bytes = encodeEventStreamMessage({ headers: {}, payload: new Uint8Array() });
+    expect([...bytes]).toEqual([0, 0, 0, 16, 0, 0, 0, 0, 0x05, 0xc2, 0x48, 0xeb, 0x7d, 0x98, 0xc8, 0xff]);
+  });
+
+  it('decodes messages in the middle of a larger buffer', () => {
+    const bytes = encodeEventStreamMessage({ headers, payload });
+    const buffer = new Uint8Array(bytes.length + 8);
+    buffer.set(bytes, 4);
+    expect(decodeEventStreamMessage(buffer.subarray(4, 4 + bytes.length)).headers).toEqual(headers);
+  });
+
+  it('rejects corrupt messages', () => {
+    const bytes = encodeEventStreamMessage({ headers, payload });
+
+    const payloadFlipped = bytes.slice();
+    payloadFlipped[payloadFlipped.length - 6] ^= 0xff;
+    expect(() => decodeEventStreamMessage(payloadFlipped)).toThrow('Event stream message checksum does not match');
+
+    const preludeFlipped = bytes.slice();
+    preludeFlipped[9] ^= 0xff;
+    expect(() => decodeEventStreamMessage(preludeFlipped)).toThrow('Event stream prelude checksum does not match');
+
+    expect(() => decodeEventStreamMessage(bytes.subarray(0, bytes.length - 1))).toThrow('wrong length');
+    expect(() => decodeEventStreamMessage(new Uint8Array(8))).toThrow(EventStreamError);
+  });
+});
@@ -0,0 +1,107 @@
+// AWS event stream encoding, the binary framing Transcribe Streaming uses in
+// both directions over its WebSocket. The server compiles this file too, for
+// the fake streaming server, so it only uses relative imports.
+//
+// Each message is: total length, headers length and a CRC of those two (the
+// prelude), then the headers, the payload and a CRC of everything before it.
+
+export interface EventStreamMessage {
+  // String-valued headers such as ':message-type' and ':event-type'
+  headers: Record<string, string>;
+  payload: Uint8Array;
+}
+
+const PRELUDE_BYTES = 12;
+const CHECKSUM_BYTES = 4;
+const HEADER_TYPE_STRING = 7;
+
+// Value sizes of the fixed-width header types; the others carry a length
+const FIXED_HEADER_SIZES: Record<number, number> = { 0: 0, 1: 0, 2: 1, 3: 2, 4: 4, 5: 8, 8: 8, 9: 16 };
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i;
+    for (let bit = 0; bit < 8; bit++) crc = crc & 1 ? (crc >>> 1) ^ 0xedb88320 : crc >>> 1;
+    table[i] = crc >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = (crc >>> 8) ^ CRC32_TABLE[(crc ^ byte) & 0xff];
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+export class EventStreamError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EventStreamError';
+  }
+}
+
+export function encodeEventStreamMessage({ headers, payload }: EventStreamMessage): Uint8Array {
+  const encoder = new TextEncoder();
+  const encodedHeaders = Object.entries(headers).map(([name, value]) => [encoder.encode(name), encoder.encode(value)]);
+  const headersLength = encodedHeaders.reduce((total, [name, value]) => total + 1 + name.length + 3 + value.length, 0);
+  const totalLength = PRELUDE_BYTES + headersLength + payload.length + CHECKSUM_BYTES;
+
+  const message = new Uint8Array(totalLength);
+  const view = new DataView(message.buffer);
+  view.setUint32(0, totalLength);
+  view.setUint32(4, headersLength);
+  view.setUint32(8, crc32(message.subarray(0, 8)));
+
+  let offset = PRELUDE_BYTES;
+  for (const [name, value] of encodedHeaders) {
+    message[offset++] = name.length;
+    message.set(name, offset);
+    offset += name.length;
+    message[offset++] = HEADER_TYPE_STRING;
+    view.setUint16(offset, value.length);
+    message.set(value, offset + 2);
+    offset += 2 + value.length;
+  }
+  message.set(payload, offset);
+  view.setUint32(totalLength - CHECKSUM_BYTES, crc32(message.subarray(0, totalLength - CHECKSUM_BYTES)));
+  return message;
+}
+
+// Decode one message. Headers of types other than string are skipped.
+export function decodeEventStreamMessage(bytes: Uint8Array): EventStreamMessage {
+  if (bytes.length < PRELUDE_BYTES + CHECKSUM_BYTES) throw new EventStreamError('Event stream message is too short');
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const totalLength = view.getUint32(0);
+  const headersLength = view.getUint32(4);
+  if (totalLength !== bytes.length || PRELUDE_BYTES + headersLength + CHECKSUM_BYTES > totalLength) {
+    throw new EventStreamError('Event stream message has the wrong length');
+  }
+  if (view.getUint32(8) !== crc32(bytes.subarray(0, 8))) {
+    throw new EventStreamError('Event stream prelude checksum does not match');
+  }
+  if (view.getUint32(totalLength - CHECKSUM_BYTES) !== crc32(bytes.subarray(0, totalLength - CHECKSUM_BYTES))) {
+    throw new EventStreamError('Event stream message checksum does not match');
+  }
+
+  const decoder = new TextDecoder();
+  const headers: Record<string, string> = {};
+  const headersEnd = PRELUDE_BYTES + headersLength;
+  let offset = PRELUDE_BYTES;
+  while (offset < headersEnd) {
+    const nameLength = bytes[offset++];
+    const name = decoder.decode(bytes.subarray(offset, offset + nameLength));
+    offset += nameLength;
+    const type = bytes[offset++];
+    if (type in FIXED_HEADER_SIZES) {
+      offset += FIXED_HEADER_SIZES[type];
+      continue;
+    }
+    const valueLength = view.getUint16(offset);
+    offset += 2;
+    if (type === HEADER_TYPE_STRING) headers[name] = decoder.decode(bytes.subarray(offset, offset + valueLength));
+    offset += valueLength;
+  }
+
+  return { headers, payload: bytes.subarray(headersEnd, totalLength - CHECKSUM_BYTES) };
+}
@@ -0,0 +1,72 @@
+// Polling policy for AWS Transcribe batch jobs. The timeout and progress
+// estimate scale with the media duration; delays back off with jitter so
+// many parallel jobs don't poll in lockstep.
+
+export interface PollingPolicy {
+  initialDelayMs: number;
+  maxDelayMs: number;
+  multiplier: number;
+  // Transient errors tolerated in a row before polling gives up
+  maxConsecutiveErrors: number;
+}
+
+export const DEFAULT_POLLING_POLICY: PollingPolicy = {
+  initialDelayMs: 2000,
+  maxDelayMs: 30000,
+  multiplier: 1.5,
+  maxConsecutiveErrors: 5
+};
+
+// Used when the duration could not be probed
+const UNKNOWN_DURATION_TIMEOUT_MS = 2 * 60 * 60 * 1000;
+const MIN_TIMEOUT_MS = 15 * 60 * 1000;
+
+// Transcribe typically finishes in well under real time, but queueing can add minutes
+export function getPollingTimeoutMs(mediaDurationSeconds?: number | null): number {
+  if (!mediaDurationSeconds) return UNKNOWN_DURATION_TIMEOUT_MS;
+  return Math.max(MIN_TIMEOUT_MS, 10 * 60 * 1000 + mediaDurationSeconds * 2 * 1000);
+}
+
+// Rough processing time used only for the progress bar
+export function estimateProcessingMs(mediaDurationSeconds?: number | null): number {
+  if (!mediaDurationSeconds) return 5 * 60 * 1000;
+  return Math.max(30 * 1000, mediaDurationSeconds * 0.5 * 1000);
+}
+
+// Exponential backoff with "equal jitter": half the delay is fixed, half random
+export function getPollDelayMs(attempt: number, policy: PollingPolicy = DEFAULT_POLLING_POLICY): number {
+  const base = Math.min(policy.maxDelayMs, policy.initialDelayMs * Math.pow(policy.multiplier, attempt));
+  return Math.round(base / 2 + Math.random() * (base / 2));
+}
+
+const TRANSIENT_ERROR_CODES = new Set([
+  'ThrottlingException',
+  'LimitExceededException',
+  'InternalFailureException',
+  'ServiceUnavailableException',
+  'RequestTimeout',
+  'RequestTimeoutException',
+  'TimeoutError',
+  'NetworkingError',
+  'UnknownEndpoint'
+]);
+
+// AWS SDK errors carry a code, an HTTP status and sometimes a retryable flag
+interface AwsErrorLike {
+  code?: string;
+  statusCode?: number;
+  retryable?: boolean;
+}
+
+// Network hiccups, throttling and 5xx responses are worth retrying; anything
+// else (bad credentials, unknown job, validation errors) will not fix itself
+export function isTransientError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') return false;
+  const { code, statusCode, retryable } = error as AwsErrorLike;
+
+  if (retryable) return true;
+  if (code && TRANSIENT_ERROR_CODES.has(code)) return true;
+  if (statusCode === 429 || (statusCode !== undefined && statusCode >= 500)) return true;
+  // fetch-style network failures
+  return error instanceof TypeError;
+}
@@ -0,0 +1,148 @@
+// Every locale AWS Transcribe can transcribe in batch jobs. The server
+// compiles this file too, so it only uses relative imports.
+
+export interface TranscribeLanguage {
+  code: string;
+  name: string;
+}
+
+export const TRANSCRIBE_LANGUAGES = [
+  { code: 'ab-GE', name: 'Abkhaz' },
+  { code: 'af-ZA', name: 'Afrikaans' },
+  { code: 'ar-AE', name: 'Arabic (Gulf)' },
+  { code: 'ar-SA', name: 'Arabic (Modern Standard)' },
+  { code: 'hy-AM', name: 'Armenian' },
+  { code: 'ast-ES', name: 'Asturian' },
+  { code: 'az-AZ', name: 'Azerbaijani' },
+  { code: 'ba-RU', name: 'Bashkir' },
+  { code: 'eu-ES', name: 'Basque' },
+  { code: 'be-BY', name: 'Belarusian' },
+  { code: 'bn-IN', name: 'Bengali (India)' },
+  { code: 'bs-BA', name: 'Bosnian' },
+  { code: 'bg-BG', name: 'Bulgarian' },
+  { code: 'ca-ES', name: 'Catalan' },
+  { code: 'ckb-IR', name: 'Central Kurdish (Iran)' },
+  { code: 'ckb-IQ', name: 'Central Kurdish (Iraq)' },
+  { code: 'zh-HK', name: 'Chinese (Cantonese)' },
+  { code: 'zh-CN', name: 'Chinese (Simplified)' },
+  { code: 'zh-TW', name: 'Chinese (Traditional)' },
+  { code: 'hr-HR', name: 'Croatian' },
+  { code: 'cs-CZ', name: 'Czech' },
+  { code: 'da-DK', name: 'Danish' },
+  { code: 'nl-NL', name: 'Dutch' },
+  { code: 'en-AU', name: 'English (Australia)' },
+  { code: 'en-IN', name: 'English (India)' },
+  { code: 'en-IE', name: 'English (Ireland)' },
+  { code: 'en-NZ', name: 'English (New Zealand)' },
+  { code: 'en-AB', name: 'English (Scotland)' },
+  { code: 'en-ZA', name: 'English (South Africa)' },
+  { code: 'en-GB', name: 'English (UK)' },
+  { code: 'en-US', name: 'English (US)' },
+  { code: 'en-WL', name: 'English (Wales)' },
+  { code: 'et-ET', name: 'Estonian' },
+  { code: 'fa-IR', name: 'Farsi' },
+  { code: 'fi-FI', name: 'Finnish' },
+  { code: 'fr-CA', name: 'French (Canada)' },
+  { code: 'fr-FR', name: 'French (France)' },
+  { code: 'gl-ES', name: 'Galician' },
+  { code: 'lg-IN', name: 'Ganda' },
+  { code: 'ka-GE', name: 'Georgian' },
+  { code: 'de-DE', name: 'German (Germany)' },
+  { code: 'de-CH', name: 'German (Switzerland)' },
+  { code: 'el-GR', name: 'Greek' },
+  { code: 'gu-IN', name: 'Gujarati (India)' },
+  { code: 'ha-NG', name: 'Hausa' },
+  { code: 'he-IL', name: 'Hebrew' },
+  { code: 'hi-IN', name: 'Hindi (India)' },
+  { code: 'hu-HU', name: 'Hungarian' },
+  { code: 'is-IS', name: 'Icelandic' },
+  { code: 'id-ID', name: 'Indonesian' },
+  { code: 'it-IT', name: 'Italian' },
+  { code: 'ja-JP', name: 'Japanese' },
+  { code: 'kab-DZ', name: 'Kabyle' },
+  { code: 'kn-IN', name: 'Kannada (India)' },
+  { code: 'kk-KZ', name: 'Kazakh' },
+  { code: 'rw-RW', name: 'Kinyarwanda' },
+  { code: 'ko-KR', name: 'Korean' },
+  { code: 'ky-KG', name: 'Kyrgyz' },
+  { code: 'lv-LV', name: 'Latvian' },
+  { code: 'lt-LT', name: 'Lithuanian' },
+  { code: 'mk-MK', name: 'Macedonian' },
+  { code: 'ms-MY', name: 'Malay' },
+  { code: 'ml-IN', name: 'Malayalam (India)' },
+  { code: 'mt-MT', name: 'Maltese' },
+  { code: 'mi-NZ', name: 'Maori' },
+  { code: 'mr-IN', name: 'Marathi (India)' },
+  { code: 'mhr-RU', name: 'Meadow Mari' },
+  { code: 'mn-MN', name: 'Mongolian' },
+  { code: 'no-NO', name: 'Norwegian Bokmål' },
+  { code: 'or-IN', name: 'Odia (India)' },
+  { code: 'ps-AF', name: 'Pashto' },
+  { code: 'pl-PL', name: 'Polish' },
+  { code: 'pt-BR', name: 'Portuguese (Brazil)' },
+  { code: 'pt-PT', name: 'Portuguese (Portugal)' },
+  { code: 'pa-IN', name: 'Punjabi (India)' },
+  { code: 'ro-RO', name: 'Romanian' },
+  { code: 'ru-RU', name: 'Russian' },
+  { code: 'sr-RS', name: 'Serbian' },
+  { code: 'si-LK', name: 'Sinhala' },
+  { code: 'sk-SK', name: 'Slovak' },
+  { code: 'sl-SI', name: 'Slovenian' },
+  { code: 'so-SO', name: 'Somali' },
+  { code: 'es-ES', name: 'Spanish (Spain)' },
+  { code: 'es-US', name: 'Spanish (US)' },
+  { code: 'su-ID', name: 'Sundanese' },
+  { code: 'sw-BI', name: 'Swahili (Burundi)' },
+  { code: 'sw-KE', name: 'Swahili (Kenya)' },
+  { code: 'sw-RW', name: 'Swahili (Rwanda)' },
+  { code: 'sw-TZ', name: 'Swahili (Tanzania)' },
+  { code: 'sw-UG', name: 'Swahili (Uganda)' },
+  { code: 'sv-SE', name: 'Swedish' },
+  { code: 'tl-PH', name: 'Tagalog' },
+  { code: 'ta-IN', name: 'Tamil (India)' },
+  { code: 'tt-RU', name: 'Tatar' },
+  { code: 'te-IN', name: 'Telugu (India)' },
+  { code: 'th-TH', name: 'Thai' },
+  { code: 'tr-TR', name: 'Turkish' },
+  { code: 'uk-UA', name: 'Ukrainian' },
+  { code: 'ug-CN', name: 'Uyghur' },
+  { code: 'uz-UZ', name: 'Uzbek' },
+  { code: 'vi-VN', name: 'Vietnamese' },
+  { code: 'cy-WL', name: 'Welsh' },
+  { code: 'wo-SN', name: 'Wolof' },
+  { code: 'zu-ZA', name: 'Zulu' }
+] as const satisfies readonly TranscribeLanguage[];
+
+export type TranscribeLanguageCode = (typeof TRANSCRIBE_LANGUAGES)[number]['code'];
+
+// Language value that asks Transcribe to identify the language
+export const AUTO_LANGUAGE = 'auto';
+
+const LANGUAGES_BY_CODE = new Map<string, TranscribeLanguage>(TRANSCRIBE_LANGUAGES.map(language => [language.code, language]));
+
+export function isTranscribeLanguage(code: string): code is TranscribeLanguageCode {
+  return LANGUAGES_BY_CODE.has(code);
+}
+
+// Display name for a locale, falling back to the code for ones not in the catalogue
+export function languageName(code: string): string {
+  return LANGUAGES_BY_CODE.get(code)?.name ?? code;
+}
+
+// Reason Transcribe would refuse these language identification candidates, or
+// null if it accepts them. It needs at least two, all from the catalogue, and
+// at most one variant of each language (en-US or en-IN, not both).
+export function languageOptionsProblem(codes: string[]): string | null {
+  if (codes.length < 2) return 'Choose at least two languages to identify from';
+  const unknown = codes.find(code => !isTranscribeLanguage(code));
+  if (unknown) return `${unknown} is not a language Transcribe supports`;
+
+  const seen = new Map<string, string>();
+  for (const code of codes) {
+    const base = code.split('-')[0];
+    const other = seen.get(base);
+    if (other) return `${languageName(other)} and ${languageName(code)} are variants of the same language; choose one`;
+    seen.set(base, code);
+  }
+  return null;
+}
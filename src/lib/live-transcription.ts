@@ -0,0 +1,322 @@
+import { z } from 'zod';
+import { apiConfig } from '@/config/api-config';
+import { decodeEventStreamMessage, encodeEventStreamMessage } from '@/lib/event-stream';
+import { createResampler } from '@/lib/resampler';
+import { createTranscriptionApi } from '@/lib/transcription-api';
+import type { CreateStreamingSessionRequest } from '@/lib/transcription-api-contract';
+import type { TranscribeItem, TranscribeOutput } from '@/lib/transcribe-output';
+
+// Live captions with Transcribe Streaming. Microphone audio is resampled to
+// 16 kHz, 16-bit PCM and sent over a WebSocket the server has signed, framed
+// as event stream AudioEvents. Transcribe answers with TranscriptEvents whose
+// results are partial until a pause, then final.
+
+const SAMPLE_RATE = 16000;
+// Transcribe recommends sending 50-200 ms of audio per event
+const CHUNK_SAMPLES = SAMPLE_RATE / 10;
+// Time Transcribe gets to send its last results after the audio ends
+const CLOSE_TIMEOUT_MS = 5000;
+// Quietest level reported to onLevel, in dBFS
+const METER_FLOOR_DB = -60;
+
+// Collects the microphone's first channel and hands it over in blocks, which
+// is far fewer messages than one per 128-frame render quantum
+const CAPTURE_WORKLET = `
+class CaptureProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.block = new Float32Array(2048);
+    this.length = 0;
+  }
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+    for (let i = 0; i < channel.length; i++) {
+      this.block[this.length++] = channel[i];
+      if (this.length === this.block.length) {
+        this.port.postMessage(this.block.slice());
+        this.length = 0;
+      }
+    }
+    return true;
+  }
+}
+registerProcessor('live-capture', CaptureProcessor);
+`;
+
+const streamItemSchema = z
+  .object({
+    Type: z.enum(['pronunciation', 'punctuation']),
+    Content: z.string(),
+    StartTime: z.number(),
+    EndTime: z.number(),
+    Confidence: z.number().optional(),
+    Speaker: z.string().optional(),
+    VocabularyFilterMatch: z.boolean().optional()
+  })
+  .passthrough();
+
+const transcriptEventSchema = z.object({
+  Transcript: z.object({
+    Results: z.array(
+      z
+        .object({
+          ResultId: z.string(),
+          StartTime: z.number(),
+          EndTime: z.number(),
+          IsPartial: z.boolean(),
+          ChannelId: z.string().optional(),
+          LanguageCode: z.string().optional(),
+          Alternatives: z.array(
+            z.object({ Transcript: z.string(), Items: z.array(streamItemSchema).default([]) }).passthrough()
+          )
+        })
+        .passthrough()
+    )
+  })
+});
+
+export interface LiveTranscriptItem {
+  type: 'pronunciation' | 'punctuation';
+  content: string;
+  startTime: number;
+  endTime: number;
+  confidence?: number;
+  // Transcribe's speaker number, e.g. "0"
+  speaker?: string;
+  vocabularyFilterMatch?: boolean;
+}
+
+// One stretch of speech. Partial results for the same id replace each other
+// until the final one arrives.
+export interface LiveTranscriptResult {
+  id: string;
+  startTime: number;
+  endTime: number;
+  isPartial: boolean;
+  text: string;
+  items: LiveTranscriptItem[];
+  languageCode?: string;
+}
+
+// A failure reported by Transcribe Streaming, or a dropped connection
+export class LiveTranscriptionError extends Error {
+  readonly exceptionType: string;
+
+  constructor(exceptionType: string, message: string) {
+    super(message);
+    this.name = 'LiveTranscriptionError';
+    this.exceptionType = exceptionType;
+  }
+}
+
+export function parseTranscriptEvent(payload: unknown): LiveTranscriptResult[] {
+  const { Transcript } = transcriptEventSchema.parse(payload);
+  return Transcript.Results.flatMap(result => {
+    const alternative = result.Alternatives[0];
+    if (!alternative) return [];
+    return [{
+      id: result.ResultId,
+      startTime: result.StartTime,
+      endTime: result.EndTime,
+      isPartial: result.IsPartial,
+      text: alternative.Transcript,
+      languageCode: result.LanguageCode,
+      items: alternative.Items.map(item => ({
+        type: item.Type,
+        content: item.Content,
+        startTime: item.StartTime,
+        endTime: item.EndTime,
+        confidence: item.Confidence,
+        speaker: item.Speaker,
+        vocabularyFilterMatch: item.VocabularyFilterMatch
+      }))
+    }];
+  });
+}
+
+// Final results of a session as a batch job's output document, so a live
+// session goes through the same cue building, editing and export
+export function liveResultsToTranscript(results: LiveTranscriptResult[], languageCode?: string): TranscribeOutput {
+  const items: TranscribeItem[] = results.flatMap(result => result.items.map(item => ({
+    type: item.type,
+    ...(item.type === 'pronunciation' && { start_time: item.startTime.toFixed(3), end_time: item.endTime.toFixed(3) }),
+    alternatives: [{ content: item.content, ...(item.confidence !== undefined && { confidence: item.confidence.toFixed(3) }) }],
+    ...(item.speaker !== undefined && { speaker_label: `spk_${item.speaker}` }),
+    ...(item.vocabularyFilterMatch && { vocabulary_filter_match: true })
+  })));
+
+  return {
+    jobName: 'live-session',
+    status: 'COMPLETED',
+    results: {
+      language_code: languageCode ?? results.find(result => result.languageCode)?.languageCode,
+      transcripts: [{ transcript: results.map(result => result.text).join(' ') }],
+      items
+    }
+  };
+}
+
+function toWebSocketUrl(url: string): string {
+  if (/^wss?:\/\//.test(url)) return url;
+  // The mock server answers with a path under the API base URL
+  const resolved = new URL(`${apiConfig.baseUrl}${url}`, window.location.href);
+  resolved.protocol = resolved.protocol === 'https:' ? 'wss:' : 'ws:';
+  return resolved.toString();
+}
+
+function audioEvent(samples: Int16Array): Uint8Array {
+  return encodeEventStreamMessage({
+    headers: {
+      ':message-type': 'event',
+      ':event-type': 'AudioEvent',
+      ':content-type': 'application/octet-stream'
+    },
+    payload: new Uint8Array(samples.buffer, samples.byteOffset, samples.byteLength)
+  });
+}
+
+function openSocket(url: string): Promise<WebSocket> {
+  return new Promise((resolve, reject) => {
+    const socket = new WebSocket(url);
+    socket.binaryType = 'arraybuffer';
+    socket.onopen = () => resolve(socket);
+    socket.onerror = () => reject(new LiveTranscriptionError('ConnectionFailed', 'Could not connect to the streaming service'));
+  });
+}
+
+export interface LiveTranscriptionOptions extends Omit<CreateStreamingSessionRequest, 'sampleRate'> {
+  deviceId?: string;
+  onResult: (result: LiveTranscriptResult) => void;
+  // Microphone level, 0-1 on a decibel scale
+  onLevel?: (level: number) => void;
+}
+
+export interface LiveTranscriptionSession {
+  // Settles when the session ends, rejecting if Transcribe or the connection failed
+  done: Promise<void>;
+  // Ends the audio and waits for Transcribe's last results
+  stop(): Promise<void>;
+  // Ends at once, dropping results still on their way
+  abort(): void;
+}
+
+export async function startLiveTranscription({
+  deviceId,
+  onResult,
+  onLevel,
+  ...request
+}: LiveTranscriptionOptions): Promise<LiveTranscriptionSession> {
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: deviceId ? { deviceId: { exact: deviceId } } : true
+  });
+  let socket: WebSocket;
+  let context: AudioContext;
+  try {
+    const session = await createTranscriptionApi().createStreamingSession({ ...request, sampleRate: SAMPLE_RATE });
+    socket = await openSocket(toWebSocketUrl(session.url));
+    context = new AudioContext();
+    const workletUrl = URL.createObjectURL(new Blob([CAPTURE_WORKLET], { type: 'text/javascript' }));
+    try {
+      await context.audioWorklet.addModule(workletUrl);
+    } finally {
+      URL.revokeObjectURL(workletUrl);
+    }
+  } catch (error) {
+    // Release whatever was opened before the failure
+    stream.getTracks().forEach(track => track.stop());
+    socket?.close();
+    context?.close().catch(() => undefined);
+    throw error;
+  }
+
+  const source = context.createMediaStreamSource(stream);
+  const capture = new AudioWorkletNode(context, 'live-capture');
+  source.connect(capture);
+
+  const resample = createResampler(context.sampleRate, SAMPLE_RATE);
+  let pending = new Int16Array(CHUNK_SAMPLES);
+  let pendingLength = 0;
+  let ending = false;
+
+  const sendPending = () => {
+    if (pendingLength === 0 || socket.readyState !== WebSocket.OPEN) return;
+    socket.send(audioEvent(pending.subarray(0, pendingLength)));
+    pending = new Int16Array(CHUNK_SAMPLES);
+    pendingLength = 0;
+  };
+
+  capture.port.onmessage = (event: MessageEvent<Float32Array>) => {
+    const block = event.data;
+    if (onLevel) {
+      let sum = 0;
+      for (const sample of block) sum += sample * sample;
+      const db = 10 * Math.log10(sum / block.length || 1e-12);
+      onLevel(Math.min(1, Math.max(0, 1 - db / METER_FLOOR_DB)));
+    }
+
+    for (const sample of resample(block)) {
+      pending[pendingLength++] = Math.max(-32768, Math.min(32767, Math.round(sample * 32767)));
+      if (pendingLength === CHUNK_SAMPLES) sendPending();
+    }
+  };
+
+  const releaseMicrophone = () => {
+    capture.port.onmessage = null;
+    source.disconnect();
+    stream.getTracks().forEach(track => track.stop());
+    context.close().catch(() => undefined);
+    onLevel?.(0);
+  };
+
+  const done = new Promise<void>((resolve, reject) => {
+    let failure: LiveTranscriptionError | null = null;
+    socket.onmessage = event => {
+      try {
+        const message = decodeEventStreamMessage(new Uint8Array(event.data as ArrayBuffer));
+        const body = JSON.parse(new TextDecoder().decode(message.payload));
+        if (message.headers[':message-type'] === 'exception') {
+          failure ??= new LiveTranscriptionError(message.headers[':exception-type'] || 'Exception', body.Message || 'Live transcription failed');
+          return;
+        }
+        if (message.headers[':event-type'] === 'TranscriptEvent') {
+          parseTranscriptEvent(body).forEach(onResult);
+        }
+      } catch (error) {
+        console.error('Unreadable message from the streaming service:', error);
+      }
+    };
+    socket.onclose = event => {
+      releaseMicrophone();
+      if (failure) reject(failure);
+      else if (event.code === 1000 || ending) resolve();
+      else reject(new LiveTranscriptionError('ConnectionClosed', `The streaming connection closed unexpectedly (${event.code})`));
+    };
+  });
+  // Callers that only stop or abort shouldn't see an unhandled rejection
+  done.catch(() => undefined);
+
+  return {
+    done,
+
+    async stop() {
+      if (ending) return done;
+      ending = true;
+      releaseMicrophone();
+      sendPending();
+      if (socket.readyState === WebSocket.OPEN) socket.send(audioEvent(new Int16Array(0)));
+      const timer = window.setTimeout(() => socket.close(), CLOSE_TIMEOUT_MS);
+      try {
+        await done;
+      } finally {
+        window.clearTimeout(timer);
+      }
+    },
+
+    abort() {
+      ending = true;
+      releaseMicrophone();
+      socket.close();
+    }
+  };
+}
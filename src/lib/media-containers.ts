@@ -0,0 +1,172 @@
+// Readers for the container formats media files come in: ISO base media (MP4,
+// M4A, MOV) boxes and EBML (WebM, Matroska) elements. They work on byte
+// ranges read from a Blob, so large files are never loaded whole.
+
+export async function readBytes(file: Blob, start: number, length: number): Promise<Uint8Array> {
+  return new Uint8Array(await file.slice(start, start + length).arrayBuffer());
+}
+
+export function ascii(bytes: Uint8Array, start: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(start, start + length));
+}
+
+export function viewOf(bytes: Uint8Array): DataView {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
+// --- ISO base media ---
+
+export interface Mp4Box {
+  type: string;
+  start: number;
+  dataStart: number;
+  end: number;
+}
+
+const MAX_TOP_LEVEL_BOXES = 1000;
+
+export function* mp4Boxes(bytes: Uint8Array, start: number, end: number): Generator<Mp4Box> {
+  const view = viewOf(bytes);
+  let offset = start;
+  while (offset + 8 <= Math.min(end, bytes.length)) {
+    let size = view.getUint32(offset);
+    let dataStart = offset + 8;
+    if (size === 1 && offset + 16 <= bytes.length) {
+      size = Number(view.getBigUint64(offset + 8));
+      dataStart += 8;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < dataStart - offset) return;
+    yield { type: ascii(bytes, offset + 4, 4), start: offset, dataStart, end: Math.min(offset + size, end) };
+    offset += size;
+  }
+}
+
+export function findBox(bytes: Uint8Array, parent: Pick<Mp4Box, 'dataStart' | 'end'>, path: string[]): Mp4Box | null {
+  let current: Pick<Mp4Box, 'dataStart' | 'end'> | null = parent;
+  let found: Mp4Box | null = null;
+  for (const type of path) {
+    found = null;
+    for (const box of mp4Boxes(bytes, current.dataStart, current.end)) {
+      if (box.type === type) {
+        found = box;
+        break;
+      }
+    }
+    if (!found) return null;
+    current = found;
+  }
+  return found;
+}
+
+export interface TopLevelBox {
+  offset: number;
+  size: number;
+  // Null when the box is larger than the caller is willing to read
+  bytes: Uint8Array | null;
+}
+
+// Find a top-level box by walking the box headers, without reading the media
+// data in between. The movie header may come before or after the media.
+export async function readTopLevelBox(file: Blob, type: string, maxBytes: number): Promise<TopLevelBox | null> {
+  let offset = 0;
+  for (let i = 0; i < MAX_TOP_LEVEL_BOXES && offset + 8 <= file.size; i++) {
+    const header = await readBytes(file, offset, 16);
+    const box = mp4Boxes(header, 0, Infinity).next().value;
+    if (!box) return null;
+    const size = box.end === Infinity ? file.size - offset : box.end;
+    if (box.type === type) {
+      return { offset, size, bytes: size <= maxBytes ? await readBytes(file, offset, size) : null };
+    }
+    offset += size;
+  }
+  return null;
+}
+
+// --- EBML ---
+
+export const EBML_HEADER = 0x1a45dfa3;
+export const EBML_DOC_TYPE = 0x4282;
+export const EBML_SEGMENT = 0x18538067;
+export const EBML_INFO = 0x1549a966;
+export const EBML_TIMECODE_SCALE = 0x2ad7b1;
+export const EBML_CLUSTER = 0x1f43b675;
+export const EBML_CLUSTER_TIMECODE = 0xe7;
+export const EBML_SIMPLE_BLOCK = 0xa3;
+export const EBML_BLOCK_GROUP = 0xa0;
+export const EBML_BLOCK = 0xa1;
+export const EBML_TRACKS = 0x1654ae6b;
+export const EBML_TRACK_ENTRY = 0xae;
+export const EBML_TRACK_NUMBER = 0xd7;
+export const EBML_TRACK_TYPE = 0x83;
+export const EBML_CODEC_ID = 0x86;
+export const EBML_CODEC_PRIVATE = 0x63a2;
+export const EBML_AUDIO = 0xe1;
+export const EBML_SAMPLING_FREQUENCY = 0xb5;
+export const EBML_CHANNELS = 0x9f;
+
+export const EBML_TRACK_TYPE_VIDEO = 1;
+export const EBML_TRACK_TYPE_AUDIO = 2;
+
+export interface EbmlElement {
+  id: number;
+  start: number;
+  dataStart: number;
+  // Past the end of the bytes when the size is unknown
+  dataEnd: number;
+}
+
+// Variable-length integer with its length marker removed, e.g. a track number
+export function readEbmlVint(bytes: Uint8Array, offset: number): { value: number; length: number } | null {
+  const length = Math.clz32(bytes[offset] ?? 0) - 23;
+  if (length < 1 || length > 8 || offset + length > bytes.length) return null;
+  let value = bytes[offset] & (0xff >> length);
+  for (let i = 1; i < length; i++) value = value * 256 + bytes[offset + i];
+  return { value, length };
+}
+
+export function readEbmlElement(bytes: Uint8Array, offset: number): EbmlElement | null {
+  const idLength = Math.clz32(bytes[offset] ?? 0) - 23;
+  if (idLength < 1 || idLength > 4 || offset + idLength > bytes.length) return null;
+  let id = 0;
+  for (let i = 0; i < idLength; i++) id = id * 256 + bytes[offset + i];
+
+  const sizeOffset = offset + idLength;
+  const size = readEbmlVint(bytes, sizeOffset);
+  if (!size) return null;
+  // All ones marks a size that isn't known up front, as in live recordings
+  const unknown = size.value === 2 ** (7 * size.length) - 1;
+
+  const dataStart = sizeOffset + size.length;
+  return { id, start: offset, dataStart, dataEnd: unknown ? Infinity : dataStart + size.value };
+}
+
+export function readEbmlUint(bytes: Uint8Array, element: EbmlElement): number {
+  let value = 0;
+  for (let i = element.dataStart; i < Math.min(element.dataEnd, bytes.length); i++) value = value * 256 + bytes[i];
+  return value;
+}
+
+export function readEbmlString(bytes: Uint8Array, element: EbmlElement): string {
+  return ascii(bytes, element.dataStart, element.dataEnd - element.dataStart).replace(/\0+$/, '');
+}
+
+export function readEbmlFloat(bytes: Uint8Array, element: EbmlElement): number | undefined {
+  const view = viewOf(bytes);
+  const length = element.dataEnd - element.dataStart;
+  if (length === 4) return view.getFloat32(element.dataStart);
+  if (length === 8) return view.getFloat64(element.dataStart);
+  return undefined;
+}
+
+export function* ebmlChildren(bytes: Uint8Array, start: number, end: number): Generator<EbmlElement> {
+  let offset = start;
+  while (offset < Math.min(end, bytes.length)) {
+    const element = readEbmlElement(bytes, offset);
+    if (!element) return;
+    yield element;
+    if (element.dataEnd === Infinity) return;
+    offset = element.dataEnd;
+  }
+}
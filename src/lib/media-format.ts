@@ -0,0 +1,474 @@
+import type { TranscribeMediaFormat } from '@/lib/transcription-api-contract';
+import {
+  ascii,
+  EBML_AUDIO,
+  EBML_CHANNELS,
+  EBML_CLUSTER,
+  EBML_CODEC_ID,
+  EBML_DOC_TYPE,
+  EBML_HEADER,
+  EBML_SAMPLING_FREQUENCY,
+  EBML_SEGMENT,
+  EBML_TRACK_ENTRY,
+  EBML_TRACK_TYPE,
+  EBML_TRACK_TYPE_AUDIO,
+  EBML_TRACK_TYPE_VIDEO,
+  EBML_TRACKS,
+  ebmlChildren,
+  type EbmlElement,
+  findBox,
+  type Mp4Box,
+  mp4Boxes,
+  readBytes,
+  readEbmlElement,
+  readEbmlFloat,
+  readEbmlString,
+  readEbmlUint,
+  readTopLevelBox,
+  viewOf
+} from '@/lib/media-containers';
+
+// Identifies audio and video files from their bytes rather than their name or
+// MIME type, and works out what AWS Transcribe should be told about them.
+
+export interface MediaInfo {
+  // Container as shown to the user, e.g. 'M4A' or 'WAV'
+  container: string;
+  // Format to start the Transcribe job with; null when Transcribe can't take the file
+  mediaFormat: TranscribeMediaFormat | null;
+  // Audio codec, when the container says
+  codec?: string;
+  sampleRate?: number;
+  channels?: number;
+  hasVideo: boolean;
+  // False when the container was read and holds no audio
+  hasAudio: boolean;
+  // Why Transcribe can't take the file, or null if it can
+  problem: string | null;
+}
+
+// Values for <input accept>, covering the types browsers report and the extensions they don't
+export const MEDIA_FILE_ACCEPT = [
+  'audio/*',
+  'video/mp4',
+  'video/webm',
+  'video/quicktime',
+  'video/x-matroska',
+  '.mp3', '.m4a', '.mp4', '.wav', '.flac', '.ogg', '.opus', '.oga', '.webm', '.amr',
+  '.m4v', '.mov', '.mkv'
+];
+
+export const SUPPORTED_MEDIA_DESCRIPTION = 'MP3, M4A/MP4 (AAC), WAV (PCM), FLAC, Ogg, WebM and AMR';
+
+const MIN_SAMPLE_RATE = 8000;
+const MAX_SAMPLE_RATE = 48000;
+
+const HEAD_BYTES = 64 * 1024;
+// Matroska puts its track list after the seek index and segment info
+const EBML_HEAD_BYTES = 512 * 1024;
+// Larger movie headers are skipped rather than read into memory
+const MAX_MOOV_BYTES = 32 * 1024 * 1024;
+
+const DAMAGED_HEADERS = 'The file\'s headers are damaged or cut off';
+const QUICKTIME_PROBLEM = 'QuickTime (.mov) files aren\'t supported; convert to MP4';
+
+type MediaDetails = Pick<MediaInfo, 'codec' | 'sampleRate' | 'channels'> & Partial<Pick<MediaInfo, 'hasVideo' | 'hasAudio'>>;
+
+function startsWith(bytes: Uint8Array, signature: number[], offset = 0): boolean {
+  return signature.every((byte, i) => bytes[offset + i] === byte);
+}
+
+function unsupported(container: string, problem: string, details: MediaDetails = {}): MediaInfo {
+  return { container, mediaFormat: null, hasVideo: false, hasAudio: true, ...details, problem };
+}
+
+// A format Transcribe takes, as long as the details are within its limits
+function accepted(container: string, mediaFormat: TranscribeMediaFormat, details: MediaDetails = {}): MediaInfo {
+  const info: MediaInfo = { container, mediaFormat, hasVideo: false, hasAudio: true, ...details, problem: null };
+  if (info.channels === 0) {
+    return { ...info, mediaFormat: null, hasAudio: false, problem: `This ${container} file has no audio` };
+  }
+  if (info.sampleRate !== undefined && (info.sampleRate < MIN_SAMPLE_RATE || info.sampleRate > MAX_SAMPLE_RATE)) {
+    return {
+      ...info,
+      mediaFormat: null,
+      problem: `${container} audio at ${info.sampleRate.toLocaleString()} Hz isn't supported; Transcribe takes ${MIN_SAMPLE_RATE.toLocaleString()} to ${MAX_SAMPLE_RATE.toLocaleString()} Hz`
+    };
+  }
+  return info;
+}
+
+// --- WAV ---
+
+const WAV_CODECS: Record<number, string> = {
+  0x0001: 'PCM',
+  0x0002: 'MS ADPCM',
+  0x0003: 'IEEE float',
+  0x0006: 'A-law',
+  0x0007: 'µ-law',
+  0x0011: 'IMA ADPCM',
+  0x0055: 'MP3'
+};
+
+function inspectWav(bytes: Uint8Array): MediaInfo {
+  const view = viewOf(bytes);
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const id = ascii(bytes, offset, 4);
+    const size = view.getUint32(offset + 4, true);
+    if (id === 'fmt ' && offset + 24 <= bytes.length) {
+      let format = view.getUint16(offset + 8, true);
+      // WAVE_FORMAT_EXTENSIBLE keeps the real format at the start of its sub-format GUID
+      if (format === 0xfffe && size >= 40 && offset + 34 <= bytes.length) {
+        format = view.getUint16(offset + 32, true);
+      }
+      const details: MediaDetails = {
+        codec: WAV_CODECS[format] ?? `format 0x${format.toString(16).padStart(4, '0')}`,
+        channels: view.getUint16(offset + 10, true),
+        sampleRate: view.getUint32(offset + 12, true)
+      };
+      if (format !== 0x0001) {
+        return unsupported('WAV', `WAV files must hold PCM audio; this one is ${details.codec}`, details);
+      }
+      return accepted('WAV', 'wav', details);
+    }
+    offset += 8 + size + (size % 2);
+  }
+  // The format chunk sits beyond the bytes read; let Transcribe read it
+  return accepted('WAV', 'wav');
+}
+
+// --- MP3 and ADTS ---
+
+const MPEG_SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000], // MPEG-1
+  2: [22050, 24000, 16000], // MPEG-2
+  0: [11025, 12000, 8000] // MPEG-2.5
+};
+
+// Size of the ID3v2 tag at the start of the bytes, or 0 without one
+function id3Size(bytes: Uint8Array): number {
+  if (ascii(bytes, 0, 3) !== 'ID3' || bytes.length < 10) return 0;
+  const size = ((bytes[6] & 0x7f) << 21) | ((bytes[7] & 0x7f) << 14) | ((bytes[8] & 0x7f) << 7) | (bytes[9] & 0x7f);
+  const hasFooter = (bytes[5] & 0x10) !== 0;
+  return 10 + size + (hasFooter ? 10 : 0);
+}
+
+function isFrameSync(bytes: Uint8Array, offset: number): boolean {
+  return bytes[offset] === 0xff && (bytes[offset + 1] & 0xe0) === 0xe0;
+}
+
+// MPEG audio frame header; also recognises ADTS, which uses the reserved layer bits
+function inspectMpegFrame(bytes: Uint8Array, offset: number): MediaInfo | null {
+  if (!isFrameSync(bytes, offset) || offset + 4 > bytes.length) return null;
+  const version = (bytes[offset + 1] >> 3) & 0x03;
+  const layer = (bytes[offset + 1] >> 1) & 0x03;
+
+  if (layer === 0) {
+    return unsupported('AAC', 'Raw AAC (ADTS) streams aren\'t supported; put the audio in an M4A container', { codec: 'AAC' });
+  }
+
+  const rateIndex = (bytes[offset + 2] >> 2) & 0x03;
+  const bitrateIndex = bytes[offset + 2] >> 4;
+  if (version === 1 || rateIndex === 3 || bitrateIndex === 0x0f) return null;
+
+  const details: MediaDetails = {
+    codec: `MPEG layer ${4 - layer}`,
+    sampleRate: MPEG_SAMPLE_RATES[version][rateIndex],
+    channels: ((bytes[offset + 3] >> 6) & 0x03) === 3 ? 1 : 2
+  };
+  if (layer !== 1) {
+    return unsupported('MPEG audio', `MPEG layer ${4 - layer} audio isn't supported; Transcribe takes layer III (MP3)`, details);
+  }
+  return accepted('MP3', 'mp3', { ...details, codec: 'MP3' });
+}
+
+// --- FLAC ---
+
+function inspectFlacStreamInfo(bytes: Uint8Array, offset: number, container: string, mediaFormat: TranscribeMediaFormat): MediaInfo {
+  // STREAMINFO: block sizes (4 bytes), frame sizes (6 bytes), then a 20-bit sample rate and 3-bit channel count
+  const fields = offset + 10;
+  if (fields + 3 > bytes.length) return accepted(container, mediaFormat, { codec: 'FLAC' });
+  return accepted(container, mediaFormat, {
+    codec: 'FLAC',
+    sampleRate: (bytes[fields] << 12) | (bytes[fields + 1] << 4) | (bytes[fields + 2] >> 4),
+    channels: ((bytes[fields + 2] >> 1) & 0x07) + 1
+  });
+}
+
+// --- Ogg ---
+
+function inspectOgg(bytes: Uint8Array): MediaInfo {
+  // The first page holds the identification header of the first stream
+  const segments = bytes[26] ?? 0;
+  const packet = 27 + segments;
+  const view = viewOf(bytes);
+
+  if (ascii(bytes, packet, 8) === 'OpusHead') {
+    // Opus always decodes at 48 kHz, whatever rate the source had
+    return accepted('Ogg', 'ogg', { codec: 'Opus', sampleRate: 48000, channels: bytes[packet + 9] });
+  }
+  if (ascii(bytes, packet, 7) === '\x01vorbis' && packet + 16 <= bytes.length) {
+    return accepted('Ogg', 'ogg', {
+      codec: 'Vorbis',
+      channels: bytes[packet + 11],
+      sampleRate: view.getUint32(packet + 12, true)
+    });
+  }
+  if (ascii(bytes, packet, 5) === '\x7fFLAC') {
+    // Mapping header (9 bytes), 'fLaC' and the STREAMINFO block header precede the fields
+    return inspectFlacStreamInfo(bytes, packet + 17, 'Ogg', 'ogg');
+  }
+  if (ascii(bytes, packet, 8) === 'Speex   ') {
+    return unsupported('Ogg', 'Speex audio in Ogg isn\'t supported; use Opus or Vorbis', { codec: 'Speex' });
+  }
+  if (ascii(bytes, packet, 7) === '\x80theora') {
+    return unsupported('Ogg', 'Ogg video (Theora) isn\'t supported; use MP4 or WebM', { hasVideo: true });
+  }
+  return unsupported('Ogg', 'This Ogg file holds no audio codec Transcribe recognises');
+}
+
+// --- WebM and Matroska ---
+
+const MATROSKA_AUDIO_CODECS: Record<string, string> = {
+  A_OPUS: 'Opus',
+  A_VORBIS: 'Vorbis',
+  A_AAC: 'AAC',
+  'A_MPEG/L3': 'MP3',
+  A_FLAC: 'FLAC',
+  A_AC3: 'AC-3',
+  A_EAC3: 'E-AC-3',
+  A_DTS: 'DTS',
+  'A_PCM/INT/LIT': 'PCM',
+  'A_PCM/FLOAT/IEEE': 'IEEE float'
+};
+
+interface EbmlTrack {
+  type?: number;
+  codecId?: string;
+  sampleRate?: number;
+  channels?: number;
+}
+
+function readEbmlTrack(bytes: Uint8Array, entry: EbmlElement): EbmlTrack {
+  const track: EbmlTrack = {};
+  for (const child of ebmlChildren(bytes, entry.dataStart, entry.dataEnd)) {
+    if (child.id === EBML_TRACK_TYPE) track.type = readEbmlUint(bytes, child);
+    if (child.id === EBML_CODEC_ID) track.codecId = readEbmlString(bytes, child);
+    if (child.id !== EBML_AUDIO) continue;
+    for (const audio of ebmlChildren(bytes, child.dataStart, child.dataEnd)) {
+      if (audio.id === EBML_CHANNELS) track.channels = readEbmlUint(bytes, audio);
+      if (audio.id === EBML_SAMPLING_FREQUENCY) {
+        const rate = readEbmlFloat(bytes, audio);
+        if (rate !== undefined) track.sampleRate = Math.round(rate);
+      }
+    }
+  }
+  return track;
+}
+
+function inspectEbml(bytes: Uint8Array): MediaInfo {
+  let docType = 'matroska';
+  let tracks: EbmlTrack[] | null = null;
+
+  for (const element of ebmlChildren(bytes, 0, bytes.length)) {
+    if (element.id === EBML_HEADER) {
+      for (const child of ebmlChildren(bytes, element.dataStart, element.dataEnd)) {
+        if (child.id === EBML_DOC_TYPE) docType = readEbmlString(bytes, child);
+      }
+    }
+    if (element.id !== EBML_SEGMENT) continue;
+    for (const child of ebmlChildren(bytes, element.dataStart, element.dataEnd)) {
+      if (child.id === EBML_CLUSTER) break;
+      if (child.id !== EBML_TRACKS) continue;
+      tracks = [];
+      for (const entry of ebmlChildren(bytes, child.dataStart, child.dataEnd)) {
+        if (entry.id === EBML_TRACK_ENTRY) tracks.push(readEbmlTrack(bytes, entry));
+      }
+      break;
+    }
+    break;
+  }
+
+  const container = docType === 'webm' ? 'WebM' : 'Matroska';
+  const hasVideo = tracks?.some(track => track.type === EBML_TRACK_TYPE_VIDEO) ?? false;
+  // Without a track list in the bytes read, the details are left to Transcribe
+  const audio = tracks?.find(track => track.type === EBML_TRACK_TYPE_AUDIO);
+  if (tracks && !audio) {
+    return unsupported(container, `This ${container} file has no audio track`, { hasVideo, hasAudio: false });
+  }
+
+  const codec = audio?.codecId ? MATROSKA_AUDIO_CODECS[audio.codecId] ?? audio.codecId : undefined;
+  const details: MediaDetails = {
+    codec,
+    // Opus always decodes at 48 kHz, whatever rate the source had
+    sampleRate: codec === 'Opus' ? 48000 : audio?.sampleRate,
+    channels: audio?.channels,
+    hasVideo
+  };
+  if (docType !== 'webm') {
+    return unsupported(container, 'Matroska (.mkv) files aren\'t supported; use MP4 or WebM', details);
+  }
+  if (codec && codec !== 'Opus' && codec !== 'Vorbis') {
+    return unsupported(container, `${codec} audio in WebM isn't supported; use Opus or Vorbis`, details);
+  }
+  return accepted(container, 'webm', details);
+}
+
+// --- MP4, M4A and QuickTime ---
+
+const MP4_AUDIO_CODECS: Record<string, string> = {
+  mp4a: 'AAC',
+  alac: 'ALAC',
+  'ac-3': 'AC-3',
+  'ec-3': 'E-AC-3',
+  Opus: 'Opus',
+  fLaC: 'FLAC',
+  samr: 'AMR',
+  sawb: 'AMR-WB',
+  '.mp3': 'MP3',
+  lpcm: 'PCM',
+  sowt: 'PCM',
+  twos: 'PCM',
+  ulaw: 'µ-law',
+  alaw: 'A-law'
+};
+
+interface Mp4Track {
+  handler: string;
+  format?: string;
+  timescale?: number;
+  sampleRate?: number;
+  channels?: number;
+}
+
+function readMp4Track(bytes: Uint8Array, trak: Mp4Box): Mp4Track | null {
+  const view = viewOf(bytes);
+  const hdlr = findBox(bytes, trak, ['mdia', 'hdlr']);
+  if (!hdlr) return null;
+  // Full box header (4 bytes) and pre_defined (4 bytes) come before the handler type
+  const track: Mp4Track = { handler: ascii(bytes, hdlr.dataStart + 8, 4) };
+
+  const mdhd = findBox(bytes, trak, ['mdia', 'mdhd']);
+  if (mdhd) {
+    // Version 1 headers use 64-bit creation and modification times
+    track.timescale = view.getUint32(mdhd.dataStart + (bytes[mdhd.dataStart] === 1 ? 20 : 12));
+  }
+
+  const stsd = findBox(bytes, trak, ['mdia', 'minf', 'stbl', 'stsd']);
+  // The first sample entry follows the full box header and entry count
+  const entry = stsd ? stsd.dataStart + 8 : -1;
+  if (stsd && entry + 36 <= stsd.end) {
+    track.format = ascii(bytes, entry + 4, 4);
+    if (track.handler === 'soun') {
+      track.channels = view.getUint16(entry + 24);
+      // 16.16 fixed point; zero when the rate doesn't fit, leaving it to the media timescale
+      track.sampleRate = view.getUint16(entry + 32) || track.timescale;
+    }
+  }
+  return track;
+}
+
+async function inspectIsoMedia(file: Blob, head: Uint8Array): Promise<MediaInfo> {
+  const brand = ascii(head, 8, 4);
+  const container = brand === 'qt  ' ? 'QuickTime' : brand.startsWith('M4') ? 'M4A' : brand.startsWith('3g') ? '3GP' : 'MP4';
+
+  const moovBox = await readTopLevelBox(file, 'moov', MAX_MOOV_BYTES);
+  const moov = moovBox?.bytes;
+  if (moovBox && moov && moov.length < moovBox.size) return unsupported(container, DAMAGED_HEADERS);
+  // Movie header missing or too large to read; let Transcribe read it
+  if (!moov) {
+    return container === 'QuickTime' ? unsupported(container, QUICKTIME_PROBLEM, { hasVideo: true }) : accepted(container, 'mp4');
+  }
+
+  const tracks: Mp4Track[] = [];
+  const root = { dataStart: 0, end: moov.length };
+  const movie = findBox(moov, root, ['moov']);
+  for (const box of movie ? mp4Boxes(moov, movie.dataStart, movie.end) : []) {
+    if (box.type !== 'trak') continue;
+    const track = readMp4Track(moov, box);
+    if (track) tracks.push(track);
+  }
+
+  const hasVideo = tracks.some(track => track.handler === 'vide');
+  const audio = tracks.find(track => track.handler === 'soun');
+  if (!audio) return unsupported(container, `This ${container} file has no audio track`, { hasVideo, hasAudio: false });
+
+  const codec = audio.format ? MP4_AUDIO_CODECS[audio.format] ?? audio.format.trim() : undefined;
+  const details: MediaDetails = { codec, sampleRate: audio.sampleRate, channels: audio.channels, hasVideo };
+  if (container === 'QuickTime') return unsupported(container, QUICKTIME_PROBLEM, details);
+  if (codec && codec !== 'AAC') {
+    return unsupported(container, `${codec} audio in ${container} isn't supported; Transcribe takes AAC`, details);
+  }
+  // Transcribe has no separate M4A format; it reads them as MP4
+  return accepted(container, 'mp4', details);
+}
+
+// --- Files Transcribe doesn't take ---
+
+const ASF_GUID = [0x30, 0x26, 0xb2, 0x75, 0x8e, 0x66, 0xcf, 0x11, 0xa6, 0xd9, 0x00, 0xaa, 0x00, 0x62, 0xce, 0x6c];
+
+function recogniseUnsupported(bytes: Uint8Array): MediaInfo | null {
+  const magic = ascii(bytes, 0, 4);
+  if (magic === 'FORM' && /^AIF[FC]$/.test(ascii(bytes, 8, 4))) {
+    return unsupported('AIFF', 'AIFF files aren\'t supported; convert to WAV or FLAC');
+  }
+  if (magic === 'RIFF' && ascii(bytes, 8, 4) === 'AVI ') {
+    return unsupported('AVI', 'AVI files aren\'t supported; convert to MP4', { hasVideo: true });
+  }
+  if (startsWith(bytes, ASF_GUID)) {
+    return unsupported('Windows Media', 'Windows Media (WMA/WMV) files aren\'t supported; convert to MP3 or MP4');
+  }
+  if (magic === '#!AM' && ascii(bytes, 0, 8) === '#!AMR_MC') {
+    return unsupported('AMR', 'Multichannel AMR isn\'t supported; use mono AMR', { codec: 'AMR' });
+  }
+  if (magic === 'MThd') return unsupported('MIDI', 'MIDI files hold notes, not recorded audio');
+  if (magic === '.snd') return unsupported('AU', 'Sun AU files aren\'t supported; convert to WAV');
+  if (magic === '%PDF' || magic === 'PK\x03\x04' || magic === '\x89PNG' || magic === 'GIF8' || startsWith(bytes, [0xff, 0xd8, 0xff])) {
+    return unsupported('Not media', 'This is a document or image, not an audio or video file');
+  }
+  return null;
+}
+
+async function identify(file: Blob, head: Uint8Array): Promise<MediaInfo> {
+  const magic = ascii(head, 0, 4);
+
+  const rejected = recogniseUnsupported(head);
+  if (rejected) return rejected;
+
+  if ((magic === 'RIFF' || magic === 'RF64') && ascii(head, 8, 4) === 'WAVE') return inspectWav(head);
+  if (magic === 'fLaC') return inspectFlacStreamInfo(head, 8, 'FLAC', 'flac');
+  if (magic === 'OggS') return inspectOgg(head);
+  if (ascii(head, 0, 6) === '#!AMR\n') return accepted('AMR', 'amr', { codec: 'AMR', sampleRate: 8000, channels: 1 });
+  if (ascii(head, 0, 9) === '#!AMR-WB\n') return accepted('AMR', 'amr', { codec: 'AMR-WB', sampleRate: 16000, channels: 1 });
+  if (ascii(head, 4, 4) === 'ftyp') return inspectIsoMedia(file, head);
+  if (readEbmlElement(head, 0)?.id === EBML_HEADER) {
+    return inspectEbml(await readBytes(file, 0, EBML_HEAD_BYTES));
+  }
+
+  // MP3s may start with an ID3 tag, which can be larger than the bytes read when it holds cover art
+  const tagSize = id3Size(head);
+  const frames = tagSize > 0 ? await readBytes(file, tagSize, 4096) : head;
+  if (ascii(frames, 0, 4) === 'fLaC') return inspectFlacStreamInfo(frames, 8, 'FLAC', 'flac');
+  // Encoders may pad the tag, so look a little way past it for the first frame
+  const searchLimit = tagSize > 0 ? frames.length - 4 : 1;
+  for (let offset = 0; offset < searchLimit; offset++) {
+    const frame = inspectMpegFrame(frames, offset);
+    if (frame) return frame;
+  }
+
+  return unsupported('Unknown', `Not a recognised audio or video file. Transcribe takes ${SUPPORTED_MEDIA_DESCRIPTION}`);
+}
+
+// Identify a media file from its contents. Only the headers are read, so it's
+// quick even for large files.
+export async function inspectMedia(file: Blob): Promise<MediaInfo> {
+  const head = await readBytes(file, 0, HEAD_BYTES);
+  try {
+    return await identify(file, head);
+  } catch (error) {
+    // Header fields pointing past the end of the file
+    if (error instanceof RangeError) return unsupported('Unknown', DAMAGED_HEADERS);
+    throw error;
+  }
+}
@@ -0,0 +1,31 @@
+// Whether a file should play in a <video> element rather than <audio>
+export function isVideoFile(file: File): boolean {
+  // Audio-only WebM and MP4, e.g. microphone recordings, share video extensions
+  if (file.type.startsWith('audio/')) return false;
+  return file.type.startsWith('video/') || /\.(mp4|m4v|mov|mkv|webm)$/i.test(file.name);
+}
+
+// Read the duration of an audio or video file from its metadata, without
+// uploading it. Resolves to null when the browser cannot decode the file.
+export function probeMediaDuration(file: File, timeoutMs = 10000): Promise<number | null> {
+  return new Promise(resolve => {
+    const url = URL.createObjectURL(file);
+    const media = document.createElement(isVideoFile(file) ? 'video' : 'audio');
+    let settled = false;
+
+    const finish = (duration: number | null) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      media.removeAttribute('src');
+      URL.revokeObjectURL(url);
+      resolve(duration !== null && Number.isFinite(duration) && duration > 0 ? duration : null);
+    };
+
+    const timer = setTimeout(() => finish(null), timeoutMs);
+    media.preload = 'metadata';
+    media.onloadedmetadata = () => finish(media.duration);
+    media.onerror = () => finish(null);
+    media.src = url;
+  });
+}
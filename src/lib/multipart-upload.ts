@@ -0,0 +1,207 @@
+import { isTransientError } from '@/lib/job-polling';
+import { ApiError, type TranscriptionApi } from '@/lib/transcription-api';
+
+// Multipart uploads for large recordings. Each part is retried on its own and
+// the upload ID is kept in localStorage, so a failed upload, or one interrupted
+// by a reload, continues from the parts S3 already has.
+
+const STORAGE_KEY = 'multipartUploads';
+// S3 limits: every part but the last is at least 5 MB, and there are at most 10,000 parts
+const MIN_PART_SIZE = 5 * 1024 * 1024;
+const MAX_PARTS = 10000;
+const PART_ATTEMPTS = 4;
+// Incomplete uploads older than this are assumed to be cleaned up by the bucket lifecycle
+const MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface MultipartUploadOptions {
+  partSize: number; // bytes
+  concurrency: number;
+  onProgress?: (loaded: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+interface StoredMultipartUpload {
+  fingerprint: string;
+  key: string;
+  uploadId: string;
+  partSize: number;
+  createdAt: number;
+}
+
+// Identifies the same file selected again after a reload
+function fileFingerprint(file: File): string {
+  return `${file.name}:${file.size}:${file.lastModified}`;
+}
+
+function readStoredUploads(): StoredMultipartUpload[] {
+  try {
+    const uploads = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(uploads) ? uploads.filter(upload => Date.now() - upload.createdAt < MAX_AGE_MS) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeStoredUploads(uploads: StoredMultipartUpload[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(uploads));
+}
+
+function removeStoredUpload(fingerprint: string) {
+  writeStoredUploads(readStoredUploads().filter(upload => upload.fingerprint !== fingerprint));
+}
+
+function createAbortError(): DOMException {
+  return new DOMException('Upload cancelled', 'AbortError');
+}
+
+function delay(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    if (signal.aborted) onAbort();
+    else signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function partBounds(fileSize: number, partSize: number, partNumber: number) {
+  const start = (partNumber - 1) * partSize;
+  return { start, end: Math.min(start + partSize, fileSize) };
+}
+
+// Reuse a stored upload for this file when S3 still has it
+async function findResumableUpload(
+  api: TranscriptionApi,
+  file: File,
+  signal?: AbortSignal
+): Promise<{ upload: StoredMultipartUpload; completed: Map<number, string> } | null> {
+  const fingerprint = fileFingerprint(file);
+  const upload = readStoredUploads().find(stored => stored.fingerprint === fingerprint);
+  if (!upload) return null;
+
+  try {
+    const { parts } = await api.listUploadedParts(upload.uploadId, upload.key, signal);
+    const completed = new Map<number, string>();
+    for (const part of parts) {
+      const { start, end } = partBounds(file.size, upload.partSize, part.partNumber);
+      // A part with an unexpected size was cut short and must be sent again
+      if (part.size === end - start) completed.set(part.partNumber, part.etag);
+    }
+    console.log(`Resuming multipart upload of ${file.name}: ${completed.size} parts already uploaded`);
+    return { upload, completed };
+  } catch (error) {
+    // Anything but a missing upload is worth another try later, so keep the record
+    if (!(error instanceof ApiError && error.statusCode === 404)) throw error;
+    console.warn('Stored multipart upload no longer exists, starting over:', error);
+    removeStoredUpload(fingerprint);
+    return null;
+  }
+}
+
+export async function uploadMultipart(
+  api: TranscriptionApi,
+  file: File,
+  options: MultipartUploadOptions
+): Promise<{ key: string }> {
+  const { onProgress, signal } = options;
+  const fingerprint = fileFingerprint(file);
+
+  let resumable = await findResumableUpload(api, file, signal);
+  if (!resumable) {
+    const partSize = Math.max(options.partSize, MIN_PART_SIZE, Math.ceil(file.size / MAX_PARTS));
+    const { key, uploadId } = await api.createMultipartUpload(
+      { fileName: file.name, contentType: file.type, size: file.size },
+      signal
+    );
+    const upload = { fingerprint, key, uploadId, partSize, createdAt: Date.now() };
+    writeStoredUploads([...readStoredUploads(), upload]);
+    resumable = { upload, completed: new Map() };
+  }
+
+  const { upload: { key, uploadId, partSize }, completed } = resumable;
+  const partCount = Math.max(1, Math.ceil(file.size / partSize));
+  const pending = Array.from({ length: partCount }, (_, index) => index + 1)
+    .filter(partNumber => !completed.has(partNumber));
+
+  let completedBytes = [...completed.keys()].reduce((sum, partNumber) => {
+    const { start, end } = partBounds(file.size, partSize, partNumber);
+    return sum + end - start;
+  }, 0);
+  const inFlight = new Map<number, number>();
+  const report = () => {
+    let loaded = completedBytes;
+    inFlight.forEach(bytes => { loaded += bytes; });
+    onProgress?.(loaded, file.size);
+  };
+  report();
+
+  // One part failing for good stops the others; the parts already stored stay for a resume
+  const controller = new AbortController();
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  const uploadPart = async (partNumber: number) => {
+    const { start, end } = partBounds(file.size, partSize, partNumber);
+    const blob = file.slice(start, end);
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const { urls } = await api.signUploadParts(uploadId, { key, partNumbers: [partNumber] }, controller.signal);
+        const etag = await api.uploadPart(urls[0].url, blob, {}, {
+          signal: controller.signal,
+          onProgress: ({ loaded }) => {
+            inFlight.set(partNumber, loaded);
+            report();
+          }
+        });
+        if (!etag) {
+          throw new Error('The ETag header of the uploaded part is not readable. Add ETag to ExposeHeaders in the bucket CORS configuration.');
+        }
+        inFlight.delete(partNumber);
+        completed.set(partNumber, etag);
+        completedBytes += blob.size;
+        report();
+        return;
+      } catch (error) {
+        inFlight.delete(partNumber);
+        report();
+        if (controller.signal.aborted || !isTransientError(error) || attempt >= PART_ATTEMPTS) throw error;
+        console.warn(`Upload of part ${partNumber} failed (attempt ${attempt}/${PART_ATTEMPTS}), retrying:`, error);
+        await delay(1000 * 2 ** (attempt - 1), controller.signal);
+      }
+    }
+  };
+
+  const worker = async () => {
+    while (pending.length > 0) {
+      await uploadPart(pending.shift() as number);
+    }
+  };
+
+  try {
+    await Promise.all(Array.from({ length: Math.min(options.concurrency, pending.length) }, worker));
+    await api.completeMultipartUpload(uploadId, {
+      key,
+      parts: [...completed].map(([partNumber, etag]) => ({ partNumber, etag }))
+    }, signal);
+    removeStoredUpload(fingerprint);
+    return { key };
+  } catch (error) {
+    controller.abort();
+    // Cancelling is final, so the stored parts are discarded instead of kept for a resume
+    if (signal?.aborted) {
+      removeStoredUpload(fingerprint);
+      api.abortMultipartUpload(uploadId, key)
+        .catch(abortError => console.warn('Could not abort multipart upload:', abortError));
+      throw createAbortError();
+    }
+    throw error;
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
@@ -0,0 +1,143 @@
+// Writes Opus packets into an Ogg file (RFC 7845), the container Transcribe
+// takes Opus audio in. WebCodecs encodes the packets but leaves the container
+// to us.
+
+// Opus granule positions always count 48 kHz samples
+const GRANULE_RATE = 48000;
+// Encoder lookahead to drop at the start when the encoder doesn't report its own
+const DEFAULT_PRE_SKIP = 312;
+const MAX_PAGE_SEGMENTS = 255;
+const TARGET_PAGE_BYTES = 8 * 1024;
+const STREAM_SERIAL = 0x54524e53;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i << 24;
+    for (let bit = 0; bit < 8; bit++) crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+    table[i] = crc >>> 0;
+  }
+  return table;
+})();
+
+function oggCrc(bytes: Uint8Array): number {
+  let crc = 0;
+  for (const byte of bytes) crc = ((crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ byte) & 0xff]) >>> 0;
+  return crc;
+}
+
+const HEADER_FLAG_FIRST = 0x02;
+const HEADER_FLAG_LAST = 0x04;
+
+function buildPage(packets: Uint8Array[], granule: number, sequence: number, flags: number): Uint8Array {
+  const lacing: number[] = [];
+  for (const packet of packets) {
+    for (let left = packet.length; ; left -= 255) {
+      lacing.push(Math.min(left, 255));
+      if (left < 255) break;
+    }
+  }
+
+  const bodyLength = packets.reduce((total, packet) => total + packet.length, 0);
+  const page = new Uint8Array(27 + lacing.length + bodyLength);
+  const view = new DataView(page.buffer);
+  page.set([0x4f, 0x67, 0x67, 0x53]); // 'OggS'
+  page[5] = flags;
+  view.setBigUint64(6, BigInt(granule), true);
+  view.setUint32(14, STREAM_SERIAL, true);
+  view.setUint32(18, sequence, true);
+  page[26] = lacing.length;
+  page.set(lacing, 27);
+  let offset = 27 + lacing.length;
+  for (const packet of packets) {
+    page.set(packet, offset);
+    offset += packet.length;
+  }
+  view.setUint32(22, oggCrc(page), true);
+  return page;
+}
+
+function segmentCount(packet: Uint8Array): number {
+  return Math.floor(packet.length / 255) + 1;
+}
+
+function buildOpusHead(channels: number, inputSampleRate: number, preSkip: number): Uint8Array {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set([0x4f, 0x70, 0x75, 0x73, 0x48, 0x65, 0x61, 0x64]); // 'OpusHead'
+  head[8] = 1; // version
+  head[9] = channels;
+  view.setUint16(10, preSkip, true);
+  view.setUint32(12, inputSampleRate, true);
+  // Output gain 0 and channel mapping family 0 (mono or stereo) stay zero
+  return head;
+}
+
+function buildOpusTags(vendor: string): Uint8Array {
+  const vendorBytes = new TextEncoder().encode(vendor);
+  const tags = new Uint8Array(8 + 4 + vendorBytes.length + 4);
+  const view = new DataView(tags.buffer);
+  tags.set([0x4f, 0x70, 0x75, 0x73, 0x54, 0x61, 0x67, 0x73]); // 'OpusTags'
+  view.setUint32(8, vendorBytes.length, true);
+  tags.set(vendorBytes, 12);
+  // No user comments
+  return tags;
+}
+
+// Pre-skip from an OpusHead, e.g. the one WebCodecs reports as the decoder description
+export function readOpusPreSkip(description?: Uint8Array): number {
+  if (!description || description.length < 19) return DEFAULT_PRE_SKIP;
+  const magic = String.fromCharCode(...description.subarray(0, 8));
+  return magic === 'OpusHead' ? new DataView(description.buffer, description.byteOffset).getUint16(10, true) : DEFAULT_PRE_SKIP;
+}
+
+export interface OggOpusWriterOptions {
+  channels: number;
+  // Rate of the audio before encoding, recorded for players
+  inputSampleRate: number;
+  preSkip?: number;
+}
+
+export function createOggOpusWriter({ channels, inputSampleRate, preSkip = DEFAULT_PRE_SKIP }: OggOpusWriterOptions) {
+  const pages: Uint8Array[] = [];
+  let sequence = 0;
+  let pending: Uint8Array[] = [];
+  let pendingSegments = 0;
+  let pendingBytes = 0;
+  // 48 kHz samples in the packets added so far, counting the pre-skip
+  let granule = 0;
+  let writtenGranule = 0;
+
+  pages.push(buildPage([buildOpusHead(channels, inputSampleRate, preSkip)], 0, sequence++, HEADER_FLAG_FIRST));
+  pages.push(buildPage([buildOpusTags('sound-echo-quest')], 0, sequence++, 0));
+
+  const flush = (flags = 0, finalGranule = granule) => {
+    if (pending.length === 0 && !(flags & HEADER_FLAG_LAST)) return;
+    pages.push(buildPage(pending, finalGranule, sequence++, flags));
+    writtenGranule = finalGranule;
+    pending = [];
+    pendingSegments = 0;
+    pendingBytes = 0;
+  };
+
+  return {
+    // Add one encoded packet covering the given duration in microseconds
+    addPacket(packet: Uint8Array, durationMicros: number) {
+      if (pendingSegments + segmentCount(packet) > MAX_PAGE_SEGMENTS) flush();
+      pending.push(packet);
+      pendingSegments += segmentCount(packet);
+      pendingBytes += packet.length;
+      granule += Math.round((durationMicros * GRANULE_RATE) / 1e6);
+      if (pendingBytes >= TARGET_PAGE_BYTES) flush();
+    },
+
+    // Close the stream. The last granule trims the encoder's padding, given the
+    // number of samples (at the input rate) that went into the encoder.
+    finish(inputFrames: number, name: string): File {
+      const end = preSkip + Math.round((inputFrames * GRANULE_RATE) / inputSampleRate);
+      // Granules never go back, so padding already on an earlier page stays
+      flush(HEADER_FLAG_LAST, Math.max(writtenGranule, Math.min(granule, end)));
+      return new File(pages, name, { type: 'audio/ogg' });
+    }
+  };
+}
@@ -0,0 +1,40 @@
+import { transcriptionConfig } from '@/config/transcription-config';
+import { uploadMultipart } from '@/lib/multipart-upload';
+import { createTranscriptionApi } from '@/lib/transcription-api';
+import type { TranscriptionProvider } from '@/lib/providers/types';
+
+// AWS S3 and Transcribe, reached through the transcription server in server/
+export function createAwsProvider(api = createTranscriptionApi()): TranscriptionProvider {
+  return {
+    id: 'aws',
+    label: 'AWS Transcribe',
+    cacheResults: true,
+    supportsVocabularies: true,
+    supportsStreaming: true,
+
+    async upload(file, { onProgress, signal } = {}) {
+      const { multipartThresholdMB, partSizeMB, concurrency } = transcriptionConfig.upload;
+      if (file.size >= multipartThresholdMB * 1024 * 1024) {
+        return uploadMultipart(api, file, { partSize: partSizeMB * 1024 * 1024, concurrency, onProgress, signal });
+      }
+
+      const target = await api.createUpload({ fileName: file.name, contentType: file.type, size: file.size }, signal);
+      await api.uploadFile(target, file, {
+        signal,
+        onProgress: ({ loaded, total }) => onProgress?.(loaded, total)
+      });
+      return { key: target.key };
+    },
+
+    deleteUpload: key => api.deleteUpload(key),
+
+    async startJob(request, signal) {
+      const { jobName } = await api.startJob(request, signal);
+      return jobName;
+    },
+
+    getJobStatus: (jobName, signal) => api.getJob(jobName, signal),
+    fetchTranscript: (jobName, signal) => api.getTranscript(jobName, signal),
+    cancelJob: jobName => api.cancelJob(jobName)
+  };
+}
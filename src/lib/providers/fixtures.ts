@@ -0,0 +1,88 @@
+import type { StartJobRequest } from '../transcription-api-contract';
+import singleSpeaker from './fixtures/single-speaker.json';
+import twoChannels from './fixtures/two-channels.json';
+import twoSpeakers from './fixtures/two-speakers.json';
+
+// Recorded AWS Transcribe output, replayed by the mock provider and the mock
+// server. Imported with relative paths because the server compiles this file too.
+
+export const TRANSCRIBE_FIXTURES = {
+  'single-speaker': singleSpeaker,
+  'two-speakers': twoSpeakers,
+  'two-channels': twoChannels
+};
+
+export type TranscribeFixtureId = keyof typeof TRANSCRIBE_FIXTURES;
+
+// Pick the recording that matches the identification options of a job
+export function selectFixture(request: Pick<StartJobRequest, 'maxSpeakers' | 'channelIdentification'>): TranscribeFixtureId {
+  if (request.channelIdentification) return 'two-channels';
+  if (request.maxSpeakers) return 'two-speakers';
+  return 'single-speaker';
+}
+
+interface FixtureItem {
+  type: string;
+  alternatives: readonly { content: string }[];
+  start_time?: string;
+  end_time?: string;
+}
+
+// The recordings are in one language, so a multi-language job switches
+// between the first two candidates at every sentence
+function tagLanguages(items: readonly FixtureItem[], codes: string[]) {
+  const durations = new Map<string, number>();
+  let sentence = 0;
+  const tagged = items.map(item => {
+    const code = codes[sentence % codes.length];
+    if (item.type === 'pronunciation') {
+      durations.set(code, (durations.get(code) ?? 0) + Number(item.end_time) - Number(item.start_time));
+    } else if (/[.?!]/.test(item.alternatives[0].content)) {
+      sentence++;
+    }
+    return { ...item, language_code: code };
+  });
+  const languageCodes = [...durations].map(([code, seconds]) => ({
+    language_code: code,
+    duration_in_seconds: Math.round(seconds * 100) / 100
+  }));
+  return { items: tagged, languageCodes };
+}
+
+// Serialised fixture as a finished job would return it
+export function renderFixture(
+  fixtureId: TranscribeFixtureId,
+  jobName: string,
+  request: Pick<StartJobRequest, 'language' | 'languageOptions' | 'identifyMultipleLanguages'>
+): string {
+  const fixture = TRANSCRIBE_FIXTURES[fixtureId];
+  if (request.language !== 'auto') {
+    return JSON.stringify({ ...fixture, jobName, results: { ...fixture.results, language_code: request.language } });
+  }
+
+  // The recording's own language wins when it is one of the candidates
+  const recorded = fixture.results.language_code;
+  const candidates = request.languageOptions ?? [recorded];
+  const detected = candidates.includes(recorded) ? recorded : candidates[0];
+  const others = candidates.filter(code => code !== detected);
+
+  if (request.identifyMultipleLanguages) {
+    const { items, languageCodes } = tagLanguages(fixture.results.items, [detected, ...others].slice(0, 2));
+    const dominant = [...languageCodes].sort((a, b) => b.duration_in_seconds - a.duration_in_seconds)[0];
+    return JSON.stringify({
+      ...fixture,
+      jobName,
+      results: { ...fixture.results, language_code: dominant.language_code, language_codes: languageCodes, items }
+    });
+  }
+
+  const scores = [
+    { code: detected, score: '0.9612' },
+    ...others.map(code => ({ code, score: (0.0388 / others.length).toFixed(4) }))
+  ];
+  return JSON.stringify({
+    ...fixture,
+    jobName,
+    results: { ...fixture.results, language_code: detected, language_identification: scores }
+  });
+}
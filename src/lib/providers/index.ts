@@ -0,0 +1,26 @@
+import { transcriptionConfig } from '@/config/transcription-config';
+import { createAwsProvider } from '@/lib/providers/aws-provider';
+import { createLocalFileProvider } from '@/lib/providers/local-file-provider';
+import { createMockProvider } from '@/lib/providers/mock-provider';
+import type { TranscriptionProvider, TranscriptionProviderId } from '@/lib/providers/types';
+
+export type { TranscriptionProvider, TranscriptionProviderId, UploadedMedia } from '@/lib/providers/types';
+
+const PROVIDER_FACTORIES: Record<TranscriptionProviderId, () => TranscriptionProvider> = {
+  aws: createAwsProvider,
+  mock: createMockProvider,
+  'local-file': createLocalFileProvider
+};
+
+// Providers keep in-memory job state, so each one is created once per page load
+const instances = new Map<TranscriptionProviderId, TranscriptionProvider>();
+
+// The configured provider, or a specific one such as the provider that started a persisted job
+export function getTranscriptionProvider(id: TranscriptionProviderId = transcriptionConfig.provider): TranscriptionProvider {
+  let provider = instances.get(id);
+  if (!provider) {
+    provider = PROVIDER_FACTORIES[id]();
+    instances.set(id, provider);
+  }
+  return provider;
+}
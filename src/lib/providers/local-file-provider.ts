@@ -0,0 +1,53 @@
+import type { TranscriptionProvider } from '@/lib/providers/types';
+
+// Treats the selected file as a finished AWS Transcribe output document, e.g.
+// one downloaded from the output bucket, so its subtitles can be rebuilt offline.
+export function createLocalFileProvider(): TranscriptionProvider {
+  const uploads = new Map<string, string>();
+  const jobs = new Map<string, string>();
+  let sequence = 0;
+
+  return {
+    id: 'local-file',
+    label: 'Local Transcribe JSON',
+    cacheResults: false,
+    acceptedFileTypes: ['application/json'],
+    takesTranscripts: true,
+
+    async upload(file, { onProgress } = {}) {
+      const content = await file.text();
+      onProgress?.(file.size, file.size);
+      const key = `local/${++sequence}-${file.name}`;
+      uploads.set(key, content);
+      return { key };
+    },
+
+    async deleteUpload(key) {
+      uploads.delete(key);
+    },
+
+    async startJob({ key }) {
+      if (!uploads.has(key)) throw new Error(`Nothing was read as ${key}`);
+      const jobName = `local-job-${++sequence}`;
+      jobs.set(jobName, key);
+      return jobName;
+    },
+
+    async getJobStatus(jobName) {
+      return jobs.has(jobName)
+        ? { jobName, status: 'COMPLETED' }
+        : { jobName, status: 'FAILED', failureReason: 'The local file is no longer loaded; select it again' };
+    },
+
+    async fetchTranscript(jobName) {
+      const content = uploads.get(jobs.get(jobName));
+      if (content === undefined) throw new Error(`Transcription job ${jobName} does not exist`);
+      return content;
+    },
+
+    async cancelJob(jobName) {
+      uploads.delete(jobs.get(jobName));
+      jobs.delete(jobName);
+    }
+  };
+}
@@ -0,0 +1,108 @@
+import type { StartJobRequest } from '@/lib/transcription-api-contract';
+import { renderFixture, selectFixture, type TranscribeFixtureId } from '@/lib/providers/fixtures';
+import type { TranscriptionProvider } from '@/lib/providers/types';
+
+export interface MockProviderOptions {
+  // Status polls answered with QUEUED, then IN_PROGRESS, before the job completes
+  queuedPolls: number;
+  inProgressPolls: number;
+  // Simulated upload time, reported in a few progress steps
+  uploadMs: number;
+}
+
+const DEFAULT_MOCK_OPTIONS: MockProviderOptions = {
+  queuedPolls: 1,
+  inProgressPolls: 2,
+  uploadMs: 400
+};
+
+interface MockJob {
+  request: StartJobRequest;
+  fixtureId: TranscribeFixtureId;
+  fileName: string;
+  polls: number;
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Upload cancelled', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    if (signal?.aborted) onAbort();
+    else signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Replays recorded Transcribe output without any network access. Every run
+// takes the same steps, so flows built on it behave the same each time.
+// Files with "fail" in their name produce a failed job.
+export function createMockProvider(options: Partial<MockProviderOptions> = {}): TranscriptionProvider {
+  const { queuedPolls, inProgressPolls, uploadMs } = { ...DEFAULT_MOCK_OPTIONS, ...options };
+  const uploads = new Map<string, string>();
+  const jobs = new Map<string, MockJob>();
+  let sequence = 0;
+
+  const findJob = (jobName: string): MockJob | undefined => jobs.get(jobName);
+
+  return {
+    id: 'mock',
+    label: 'Mock (recorded fixtures)',
+    cacheResults: false,
+
+    async upload(file, { onProgress, signal } = {}) {
+      const steps = 4;
+      for (let step = 1; step <= steps; step++) {
+        await wait(uploadMs / steps, signal);
+        onProgress?.(Math.round((file.size * step) / steps), file.size);
+      }
+      const key = `mock-uploads/${++sequence}-${file.name}`;
+      uploads.set(key, file.name);
+      return { key };
+    },
+
+    async deleteUpload(key) {
+      uploads.delete(key);
+    },
+
+    async startJob(request) {
+      const fileName = uploads.get(request.key);
+      if (fileName === undefined) throw new Error(`Nothing was uploaded as ${request.key}`);
+      const jobName = `mock-job-${++sequence}`;
+      jobs.set(jobName, { request, fixtureId: selectFixture(request), fileName, polls: 0 });
+      return jobName;
+    },
+
+    async getJobStatus(jobName) {
+      const job = findJob(jobName);
+      // Jobs only live in memory, so a reload loses them
+      if (!job) {
+        return { jobName, status: 'FAILED', failureReason: 'Mock jobs do not survive a page reload' };
+      }
+
+      job.polls++;
+      if (job.polls <= queuedPolls) return { jobName, status: 'QUEUED' };
+      if (job.polls <= queuedPolls + inProgressPolls) return { jobName, status: 'IN_PROGRESS' };
+      if (job.fileName.toLowerCase().includes('fail')) {
+        return { jobName, status: 'FAILED', failureReason: 'The mock provider fails files with "fail" in their name.' };
+      }
+      return { jobName, status: 'COMPLETED' };
+    },
+
+    async fetchTranscript(jobName) {
+      const job = findJob(jobName);
+      if (!job) throw new Error(`Transcription job ${jobName} does not exist`);
+      return renderFixture(job.fixtureId, jobName, job.request);
+    },
+
+    async cancelJob(jobName) {
+      const job = findJob(jobName);
+      if (job) uploads.delete(job.request.key);
+      jobs.delete(jobName);
+    }
+  };
+}
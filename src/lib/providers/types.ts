@@ -0,0 +1,38 @@
+import type { JobStatusResponse, StartJobRequest } from '@/lib/transcription-api-contract';
+
+export type TranscriptionProviderId = 'aws' | 'mock' | 'local-file';
+
+export interface UploadedMedia {
+  key: string;
+}
+
+export interface ProviderUploadOptions {
+  onProgress?: (loaded: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+// The steps of a batch transcription. transcribeAudio drives them in order and
+// owns retries, polling cadence, caching and job persistence.
+export interface TranscriptionProvider {
+  readonly id: TranscriptionProviderId;
+  readonly label: string;
+  // Results from placeholder backends must not end up in the transcription cache
+  readonly cacheResults: boolean;
+  // MIME types the provider can take, when it differs from the uploader's audio defaults
+  readonly acceptedFileTypes?: string[];
+  // Takes finished transcript documents rather than media, so files aren't inspected as audio
+  readonly takesTranscripts?: boolean;
+  // Whether jobs can use custom vocabularies and vocabulary filters stored with the provider
+  readonly supportsVocabularies?: boolean;
+  // Whether live captions can stream microphone audio through the transcription server
+  readonly supportsStreaming?: boolean;
+  upload(file: File, options?: ProviderUploadOptions): Promise<UploadedMedia>;
+  // Removes uploaded media that no job was started for
+  deleteUpload(key: string): Promise<void>;
+  startJob(request: StartJobRequest, signal?: AbortSignal): Promise<string>;
+  getJobStatus(jobName: string, signal?: AbortSignal): Promise<JobStatusResponse>;
+  // Raw AWS Transcribe output JSON
+  fetchTranscript(jobName: string, signal?: AbortSignal): Promise<string>;
+  // Stops the job and removes its uploaded media
+  cancelJob(jobName: string): Promise<void>;
+}
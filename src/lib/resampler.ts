@@ -0,0 +1,36 @@
+// Streaming linear resampler. A moving average first keeps frequencies the
+// lower rate can't carry from folding back as noise.
+export function createResampler(fromRate: number, toRate: number) {
+  const step = fromRate / toRate;
+  const width = Math.max(1, Math.round(step));
+  const history = new Float32Array(width);
+  let historyIndex = 0;
+  let sum = 0;
+  let carry = new Float32Array(0);
+  let position = 0;
+
+  return (input: Float32Array): Float32Array => {
+    const smoothed = new Float32Array(carry.length + input.length);
+    smoothed.set(carry);
+    for (let i = 0; i < input.length; i++) {
+      sum += input[i] - history[historyIndex];
+      history[historyIndex] = input[i];
+      historyIndex = (historyIndex + 1) % width;
+      smoothed[carry.length + i] = sum / width;
+    }
+
+    const output = new Float32Array(Math.max(0, Math.ceil((smoothed.length - 1 - position) / step)));
+    let count = 0;
+    while (position + 1 < smoothed.length && count < output.length) {
+      const index = Math.floor(position);
+      const fraction = position - index;
+      output[count++] = smoothed[index] + (smoothed[index + 1] - smoothed[index]) * fraction;
+      position += step;
+    }
+
+    const consumed = Math.floor(position);
+    carry = smoothed.slice(consumed);
+    position -= consumed;
+    return output.subarray(0, count);
+  };
+}
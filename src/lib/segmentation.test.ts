@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import {
+  readableLength,
+  SEGMENTATION_PRESETS,
+  segmentWords,
+  wrapLines,
+  type SegmentationOptions,
+  type TimedWord
+} from '@/lib/segmentation';
+import { lintCues, lintOptionsFromSegmentation } from '@/lib/subtitle-lint';
+
+const SPEECH =
+  'we started this project as a weekend experiment without any plan and then it grew into something ' +
+  'much larger than we expected because people kept asking for more features every single week';
+
+// Continuous speech at a steady number of characters per second, with no pauses
+function speak(text: string, charsPerSecond: number, start = 0, speaker?: string): TimedWord[] {
+  let time = start;
+  return text.split(' ').map(word => {
+    const duration = (word.length + 1) / charsPerSecond;
+    const timed = { text: word, start: time, end: time + duration, speaker };
+    time += duration;
+    return timed;
+  });
+}
+
+const netflix = SEGMENTATION_PRESETS.netflix.options;
+const durationIssues = (options: SegmentationOptions, words: TimedWord[]) =>
+  lintCues(segmentWords(words, options), lintOptionsFromSegmentation(options)).filter(issue => issue.rule === 'duration');
+
+describe('wrapLines', () => {
+  it('balances two lines', () => {
+    expect(wrapLines('one two three four five six seven eight nine ten eleven', 42)).toEqual([
+      'one two three four five six',
+      'seven eight nine ten eleven'
+    ]);
+  });
+
+  it('keeps short text on one line', () => {
+    expect(wrapLines('hello there', 42)).toEqual(['hello there']);
+  });
+});
+
+describe('segmentWords', () => {
+  it('keeps every word in order', () => {
+    const words = speak(SPEECH, 12);
+    const cues = segmentWords(words, netflix);
+    expect(cues.map(cue => cue.text.replace(/\n/g, ' ')).join(' ')).toBe(SPEECH);
+  });
+
+  it('respects the line length and line count', () => {
+    for (const options of Object.values(SEGMENTATION_PRESETS).map(preset => preset.options)) {
+      for (const cue of segmentWords(speak(SPEECH, 12), options)) {
+        const lines = cue.text.split('\n');
+        expect(lines.length).toBeLessThanOrEqual(options.maxLinesPerCue);
+        lines.forEach(line => expect(line.length).toBeLessThanOrEqual(options.maxCharsPerLine));
+      }
+    }
+  });
+
+  it('starts a new cue after a pause and on a speaker change', () => {
+    const first = speak('hello there', 12);
+    const afterPause = speak('after the pause', 12, first[first.length - 1].end + 2);
+    const otherSpeaker = speak('and someone else', 12, afterPause[afterPause.length - 1].end, 'spk_1');
+    const cues = segmentWords([...first, ...afterPause, ...otherSpeaker], netflix);
+    expect(cues.map(cue => cue.text)).toEqual(['hello there', 'after the pause', 'and someone else']);
+    expect(cues[2].speaker).toBe('spk_1');
+  });
+
+  it('extends short cues to the minimum duration when there is room', () => {
+    const [cue] = segmentWords([{ text: 'Hi.', start: 1, end: 1.2 }], netflix);
+    expect(cue.end - cue.start).toBeCloseTo(netflix.minCueDuration);
+  });
+
+  it('keeps slow speech in long cues', () => {
+    const cues = segmentWords(speak(SPEECH, 12), netflix);
+    cues.forEach(cue => expect(readableLength(cue.text) / (cue.end - cue.start)).toBeLessThanOrEqual(netflix.maxCharsPerSecond));
+    expect(cues.length).toBeLessThanOrEqual(4);
+  });
+
+  it('splits off speech that gets faster than the reading speed', () => {
+    const slow = speak('welcome to this short lecture on subtitles', 10);
+    const fast = speak(SPEECH, 30, slow[slow.length - 1].end);
+    const [first] = segmentWords([...slow, ...fast], netflix);
+    expect(first.text.replace(/\n/g, ' ')).toMatch(/^welcome to this short lecture on subtitles/);
+    expect(readableLength(first.text) / (first.end - first.start)).toBeLessThanOrEqual(netflix.maxCharsPerSecond);
+  });
+
+  describe('fast continuous speech', () => {
+    for (const charsPerSecond of [19, 25]) {
+      it(`never makes cues shorter than the minimum duration at ${charsPerSecond} CPS`, () => {
+        const cues = segmentWords(speak(SPEECH, charsPerSecond), netflix);
+        cues.forEach(cue => expect(cue.end - cue.start).toBeGreaterThanOrEqual(netflix.minCueDuration - 0.001));
+        expect(durationIssues(netflix, speak(SPEECH, charsPerSecond))).toEqual([]);
+      });
+    }
+
+    it('does not leave a one-word cue between two others', () => {
+      const cues = segmentWords(speak(SPEECH, 19), netflix);
+      cues.slice(0, -1).forEach(cue => expect(cue.text.split(/\s+/).length).toBeGreaterThan(1));
+    });
+
+    it('breaks cues close to the reading speed rather than far over it', () => {
+      const cues = segmentWords(speak(SPEECH, 19), netflix);
+      // Each cue ends at most one word after it reached the reading speed
+      cues.forEach(cue => {
+        const words = cue.text.split(/\s+/);
+        const withoutLast = words.slice(0, -1).join(' ');
+        const duration = cue.end - cue.start;
+        expect(withoutLast.length / duration).toBeLessThanOrEqual(netflix.maxCharsPerSecond);
+      });
+    });
+
+    it('holds the same limits for the other presets', () => {
+      for (const options of Object.values(SEGMENTATION_PRESETS).map(preset => preset.options)) {
+        expect(durationIssues(options, speak(SPEECH, 22))).toEqual([]);
+      }
+    });
+  });
+});
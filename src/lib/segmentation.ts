@@ -0,0 +1,224 @@
+// A single recognised word with its timing in seconds.
+// Punctuation is folded into the preceding word's text.
+export interface TimedWord {
+  text: string;
+  start: number;
+  end: number;
+  speaker?: string; // Transcribe speaker label, e.g. "spk_0"
+  channel?: string; // Transcribe channel label, e.g. "ch_0"
+}
+
+// A subtitle cue. Line breaks inside a cue are encoded as '\n' in `text`.
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  text: string;
+  speaker?: string;
+  channel?: string;
+}
+
+// Limits that control how words are grouped into cues
+export interface SegmentationOptions {
+  maxCharsPerLine: number;
+  maxLinesPerCue: number;
+  minCueDuration: number; // seconds
+  maxCueDuration: number; // seconds
+  maxCharsPerSecond: number;
+  pauseThreshold: number; // seconds of silence that force a new cue
+}
+
+export type SegmentationPresetId = 'default' | 'netflix' | 'bbc' | 'social';
+
+export interface SegmentationPreset {
+  label: string;
+  description: string;
+  options: SegmentationOptions;
+}
+
+export const SEGMENTATION_PRESETS: Record<SegmentationPresetId, SegmentationPreset> = {
+  default: {
+    label: 'Standard',
+    description: '42 chars/line, 2 lines, up to 20 CPS',
+    options: {
+      maxCharsPerLine: 42,
+      maxLinesPerCue: 2,
+      minCueDuration: 1,
+      maxCueDuration: 7,
+      maxCharsPerSecond: 20,
+      pauseThreshold: 0.8
+    }
+  },
+  netflix: {
+    label: 'Netflix-like',
+    description: '42 chars/line, 2 lines, 17 CPS, 5/6s – 7s',
+    options: {
+      maxCharsPerLine: 42,
+      maxLinesPerCue: 2,
+      minCueDuration: 5 / 6,
+      maxCueDuration: 7,
+      maxCharsPerSecond: 17,
+      pauseThreshold: 0.6
+    }
+  },
+  bbc: {
+    label: 'BBC-like',
+    description: '37 chars/line, 2 lines, 15 CPS',
+    options: {
+      maxCharsPerLine: 37,
+      maxLinesPerCue: 2,
+      minCueDuration: 1.2,
+      maxCueDuration: 6,
+      maxCharsPerSecond: 15,
+      pauseThreshold: 0.6
+    }
+  },
+  social: {
+    label: 'Social video',
+    description: '32 chars, single line, short cues',
+    options: {
+      maxCharsPerLine: 32,
+      maxLinesPerCue: 1,
+      minCueDuration: 0.7,
+      maxCueDuration: 3,
+      maxCharsPerSecond: 20,
+      pauseThreshold: 0.4
+    }
+  }
+};
+
+export const DEFAULT_SEGMENTATION_OPTIONS: SegmentationOptions = SEGMENTATION_PRESETS.default.options;
+
+const SENTENCE_END = /[.?!।]["')\]]*$/;
+
+// Wrap text into lines of at most `maxChars`. Two-line results are balanced
+// so the lines have similar lengths, as most style guides prefer.
+export function wrapLines(text: string, maxChars: number): string[] {
+  const words = text.split(/\s+/).filter(Boolean);
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of words) {
+    if (current === '') {
+      current = word;
+    } else if (current.length + 1 + word.length <= maxChars) {
+      current += ' ' + word;
+    } else {
+      lines.push(current);
+      current = word;
+    }
+  }
+  if (current) lines.push(current);
+
+  if (lines.length === 2) {
+    return balanceTwoLines(words, maxChars) || lines;
+  }
+  return lines;
+}
+
+function balanceTwoLines(words: string[], maxChars: number): string[] | null {
+  let best: string[] | null = null;
+  let bestLongest = Infinity;
+
+  for (let i = 1; i < words.length; i++) {
+    const first = words.slice(0, i).join(' ');
+    const second = words.slice(i).join(' ');
+    const longest = Math.max(first.length, second.length);
+    if (first.length <= maxChars && second.length <= maxChars && longest < bestLongest) {
+      best = [first, second];
+      bestLongest = longest;
+    }
+  }
+
+  return best;
+}
+
+// Characters counted for reading speed: line breaks don't count
+export function readableLength(text: string): number {
+  return text.replace(/\n/g, '').length;
+}
+
+function fitsInCue(text: string, options: SegmentationOptions): boolean {
+  const lines = wrapLines(text, options.maxCharsPerLine);
+  if (lines.length > options.maxLinesPerCue) return false;
+  // A single word longer than a line is allowed only when it stands alone
+  return lines.every(line => line.length <= options.maxCharsPerLine || !line.includes(' '));
+}
+
+// Group timed words into subtitle cues honouring the given limits
+export function segmentWords(
+  words: TimedWord[],
+  options: SegmentationOptions = DEFAULT_SEGMENTATION_OPTIONS
+): SubtitleCue[] {
+  const groups: TimedWord[][] = [];
+  let current: TimedWord[] = [];
+
+  for (const word of words) {
+    if (current.length === 0) {
+      current.push(word);
+      continue;
+    }
+
+    const first = current[0];
+    const last = current[current.length - 1];
+    const text = current.map(w => w.text).join(' ');
+    const candidate = text + ' ' + word.text;
+    const elapsed = last.end - first.start;
+
+    const isPause = word.start - last.end >= options.pauseThreshold;
+    const isSpeakerChange = word.speaker !== last.speaker || word.channel !== last.channel;
+    const isSentenceBreak = SENTENCE_END.test(last.text) && elapsed >= options.minCueDuration;
+    const overflowsText = !fitsInCue(candidate, options);
+    const overflowsDuration = word.end - first.start > options.maxCueDuration;
+    // Text that cannot be read within the max duration must be split, even if it fits on screen.
+    // So must a word that takes the cue over the reading speed for the time it is spoken, once
+    // the cue has its minimum duration; a shorter cue couldn't be extended before the next one.
+    const readingTime = (length: number) => length / options.maxCharsPerSecond;
+    const overflowsReadingSpeed =
+      readingTime(readableLength(candidate)) > options.maxCueDuration ||
+      (elapsed >= options.minCueDuration && readingTime(readableLength(candidate)) > word.end - first.start);
+
+    const shouldBreak =
+      isPause || isSpeakerChange || isSentenceBreak ||
+      overflowsText || overflowsDuration || overflowsReadingSpeed;
+
+    if (shouldBreak) {
+      groups.push(current);
+      current = [word];
+    } else {
+      current.push(word);
+    }
+  }
+  if (current.length > 0) groups.push(current);
+
+  const cues: SubtitleCue[] = groups.map(group => ({
+    start: group[0].start,
+    end: group[group.length - 1].end,
+    text: wrapLines(group.map(w => w.text).join(' '), options.maxCharsPerLine).join('\n'),
+    speaker: group[0].speaker,
+    channel: group[0].channel
+  }));
+
+  return adjustTimings(cues, options);
+}
+
+// Extend cues to respect minimum duration and reading speed without
+// overlapping the next cue or exceeding the maximum duration
+function adjustTimings(cues: SubtitleCue[], options: SegmentationOptions): SubtitleCue[] {
+  return cues.map((cue, i) => {
+    const next = cues[i + 1];
+    const required = Math.max(
+      options.minCueDuration,
+      readableLength(cue.text) / options.maxCharsPerSecond
+    );
+    const limit = Math.min(
+      next ? next.start : Infinity,
+      cue.start + options.maxCueDuration
+    );
+    const desiredEnd = Math.max(cue.end, cue.start + required);
+
+    return {
+      ...cue,
+      end: Math.max(cue.end, Math.min(desiredEnd, limit))
+    };
+  });
+}
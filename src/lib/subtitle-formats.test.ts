@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import type { SubtitleCue } from '@/lib/segmentation';
+import {
+  cuesToAss,
+  cuesToSbv,
+  cuesToSrt,
+  cuesToTtml,
+  cuesToVtt,
+  formatCues,
+  formatSrtTime,
+  formatVttTime,
+  SUBTITLE_FORMATS
+} from '@/lib/subtitle-formats';
+import { parseSubtitles } from '@/lib/subtitle-import';
+
+const cues: SubtitleCue[] = [
+  { start: 0.5, end: 2.25, text: 'Hello & welcome\nto the <show>', speaker: 'spk_0' },
+  { start: 3661.0005, end: 3662.9999, text: 'Goodbye {for now}', speaker: 'spk_1' }
+];
+
+describe('timestamps', () => {
+  it('formats SRT and WebVTT times to the millisecond', () => {
+    expect(formatSrtTime(0)).toBe('00:00:00,000');
+    expect(formatSrtTime(3661.0005)).toBe('01:01:01,001');
+    expect(formatVttTime(59.9996)).toBe('00:01:00.000');
+    expect(formatVttTime(-1)).toBe('00:00:00.000');
+  });
+});
+
+describe('cuesToSrt', () => {
+  it('numbers cues and prefixes speakers', () => {
+    expect(cuesToSrt(cues, { speakerNames: { spk_0: 'Priya' } })).toBe(
+      '1\n00:00:00,500 --> 00:00:02,250\nPriya: Hello & welcome\nto the <show>\n\n' +
+      '2\n01:01:01,001 --> 01:01:03,000\nSPEAKER 2: Goodbye {for now}\n\n'
+    );
+  });
+
+  it('leaves speakers out when asked to', () => {
+    expect(cuesToSrt(cues.slice(0, 1), { includeSpeakers: false })).toContain('\nHello & welcome\n');
+  });
+});
+
+describe('cuesToVtt', () => {
+  it('writes voice spans and escapes markup', () => {
+    const vtt = cuesToVtt(cues.slice(0, 1));
+    expect(vtt).toBe('WEBVTT\n\n1\n00:00:00.500 --> 00:00:02.250\n<v SPEAKER 1>Hello &amp; welcome\nto the &lt;show&gt;\n\n');
+  });
+
+  it('appends cue settings to every timing line', () => {
+    const vtt = cuesToVtt(cues, { vttCueSettings: ' line:10% align:center ' });
+    const timings = vtt.split('\n').filter(line => line.includes('-->'));
+    expect(timings).toEqual([
+      '00:00:00.500 --> 00:00:02.250 line:10% align:center',
+      '01:01:01.001 --> 01:01:03.000 line:10% align:center'
+    ]);
+  });
+
+  it('reads back to the same cues', () => {
+    const parsed = parseSubtitles(cuesToVtt(cues, { vttCueSettings: 'line:90%' }));
+    expect(parsed.cues.map(cue => cue.text)).toEqual(cues.map(cue => cue.text));
+    expect(parsed.cues.map(cue => cue.speaker)).toEqual(['SPEAKER 1', 'SPEAKER 2']);
+    expect(parsed.cues[1].start).toBeCloseTo(3661.001);
+  });
+});
+
+describe('other formats', () => {
+  it('writes TTML with the language and line breaks', () => {
+    const ttml = cuesToTtml(cues, { language: 'ta-IN' });
+    expect(ttml).toContain('xml:lang="ta-IN"');
+    expect(ttml).toContain('<p xml:id="c1" begin="00:00:00.500" end="00:00:02.250">SPEAKER 1: Hello &amp; welcome<br/>to the &lt;show&gt;</p>');
+  });
+
+  it('writes SBV', () => {
+    expect(cuesToSbv(cues.slice(0, 1), { includeSpeakers: false })).toBe('0:00:00.500,0:00:02.250\nHello & welcome\nto the <show>\n\n');
+  });
+
+  it('writes ASS without override braces', () => {
+    const ass = cuesToAss(cues, { title: 'Lecture' });
+    expect(ass).toContain('Title: Lecture');
+    expect(ass).toContain('Dialogue: 0,1:01:01.00,1:01:03.00,Default,SPEAKER 2,0,0,0,,SPEAKER 2: Goodbye for now');
+    expect(ass).toContain('Hello & welcome\\Nto the <show>');
+  });
+
+  it('has a writer for every format it lists', () => {
+    for (const format of Object.keys(SUBTITLE_FORMATS) as (keyof typeof SUBTITLE_FORMATS)[]) {
+      expect(formatCues(cues, format).length).toBeGreaterThan(0);
+    }
+  });
+});
@@ -0,0 +1,206 @@
+import type { SubtitleCue } from '@/lib/segmentation';
+import { defaultSpeakerName } from '@/lib/transcribe-output';
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'ttml' | 'sbv' | 'ass';
+
+export interface SubtitleFormatInfo {
+  label: string;
+  extension: string;
+  mimeType: string;
+}
+
+export const SUBTITLE_FORMATS: Record<SubtitleFormat, SubtitleFormatInfo> = {
+  srt: { label: 'SubRip (SRT)', extension: 'srt', mimeType: 'application/x-subrip' },
+  vtt: { label: 'WebVTT', extension: 'vtt', mimeType: 'text/vtt' },
+  ttml: { label: 'TTML / DFXP', extension: 'ttml', mimeType: 'application/ttml+xml' },
+  sbv: { label: 'YouTube SBV', extension: 'sbv', mimeType: 'text/plain' },
+  ass: { label: 'Advanced SubStation (ASS)', extension: 'ass', mimeType: 'text/x-ssa' }
+};
+
+export interface SubtitleExportOptions {
+  // WebVTT cue settings appended to every timing line, e.g. "line:90% align:center"
+  vttCueSettings?: string;
+  // BCP-47 language tag written to TTML
+  language?: string;
+  // Title written to the ASS script header
+  title?: string;
+  // Display names keyed by speaker or channel label; unnamed ones fall back to "SPEAKER n"/"CHANNEL n"
+  speakerNames?: Record<string, string>;
+  // Set to false to leave speaker and channel names out of the output
+  includeSpeakers?: boolean;
+}
+
+export function speakerDisplayName(label: string, speakerNames: Record<string, string> = {}): string {
+  return speakerNames[label]?.trim() || defaultSpeakerName(label);
+}
+
+// Channel labels stand in for speakers on channel-identified transcripts
+function cueSpeaker(cue: SubtitleCue, options: SubtitleExportOptions): string | null {
+  const label = cue.speaker || cue.channel;
+  if (!label || options.includeSpeakers === false) return null;
+  return speakerDisplayName(label, options.speakerNames);
+}
+
+// Cue text prefixed with the speaker name, e.g. "Priya: Hello"
+export function labelledCueText(cue: SubtitleCue, options: SubtitleExportOptions = {}): string {
+  const speaker = cueSpeaker(cue, options);
+  return speaker ? `${speaker}: ${cue.text}` : cue.text;
+}
+
+// Split seconds into clock parts, rounding to the nearest millisecond
+function clockParts(seconds: number) {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  return {
+    hours: Math.floor(totalMs / 3600000),
+    minutes: Math.floor((totalMs % 3600000) / 60000),
+    seconds: Math.floor((totalMs % 60000) / 1000),
+    milliseconds: totalMs % 1000
+  };
+}
+
+const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+
+// 00:00:00,000
+export function formatSrtTime(seconds: number): string {
+  const t = clockParts(seconds);
+  return `${pad(t.hours)}:${pad(t.minutes)}:${pad(t.seconds)},${pad(t.milliseconds, 3)}`;
+}
+
+// 00:00:00.000
+export function formatVttTime(seconds: number): string {
+  const t = clockParts(seconds);
+  return `${pad(t.hours)}:${pad(t.minutes)}:${pad(t.seconds)}.${pad(t.milliseconds, 3)}`;
+}
+
+// 0:00:00.000
+function formatSbvTime(seconds: number): string {
+  const t = clockParts(seconds);
+  return `${t.hours}:${pad(t.minutes)}:${pad(t.seconds)}.${pad(t.milliseconds, 3)}`;
+}
+
+// 0:00:00.00 (centiseconds)
+function formatAssTime(seconds: number): string {
+  const totalCs = Math.max(0, Math.round(seconds * 100));
+  const hours = Math.floor(totalCs / 360000);
+  const minutes = Math.floor((totalCs % 360000) / 6000);
+  const secs = Math.floor((totalCs % 6000) / 100);
+  return `${hours}:${pad(minutes)}:${pad(secs)}.${pad(totalCs % 100)}`;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function escapeVtt(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+export function cuesToSrt(cues: SubtitleCue[], options: SubtitleExportOptions = {}): string {
+  return cues
+    .map((cue, i) =>
+      `${i + 1}\n${formatSrtTime(cue.start)} --> ${formatSrtTime(cue.end)}\n${labelledCueText(cue, options)}\n\n`
+    )
+    .join('');
+}
+
+export function cuesToVtt(cues: SubtitleCue[], options: SubtitleExportOptions = {}): string {
+  const settings = options.vttCueSettings ? ` ${options.vttCueSettings.trim()}` : '';
+  const body = cues
+    .map((cue, i) => {
+      const speaker = cueSpeaker(cue, options);
+      // Speakers are marked with voice spans so players can style or announce them
+      const text = speaker ? `<v ${escapeVtt(speaker)}>${escapeVtt(cue.text)}` : escapeVtt(cue.text);
+      return `${i + 1}\n${formatVttTime(cue.start)} --> ${formatVttTime(cue.end)}${settings}\n${text}\n\n`;
+    })
+    .join('');
+  return `WEBVTT\n\n${body}`;
+}
+
+export function cuesToTtml(cues: SubtitleCue[], options: SubtitleExportOptions = {}): string {
+  const lang = escapeXml(options.language || 'en');
+  const paragraphs = cues
+    .map((cue, i) => {
+      const text = labelledCueText(cue, options).split('\n').map(escapeXml).join('<br/>');
+      return `      <p xml:id="c${i + 1}" begin="${formatVttTime(cue.start)}" end="${formatVttTime(cue.end)}">${text}</p>`;
+    })
+    .join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<tt xmlns="http://www.w3.org/ns/ttml" xmlns:tts="http://www.w3.org/ns/ttml#styling" xml:lang="${lang}">
+  <head>
+    <styling>
+      <style xml:id="default" tts:fontFamily="sansSerif" tts:fontSize="100%" tts:textAlign="center" tts:color="white"/>
+    </styling>
+    <layout>
+      <region xml:id="bottom" tts:origin="10% 80%" tts:extent="80% 15%" tts:displayAlign="after"/>
+    </layout>
+  </head>
+  <body style="default" region="bottom">
+    <div>
+${paragraphs}
+    </div>
+  </body>
+</tt>
+`;
+}
+
+export function cuesToSbv(cues: SubtitleCue[], options: SubtitleExportOptions = {}): string {
+  return cues
+    .map(cue => `${formatSbvTime(cue.start)},${formatSbvTime(cue.end)}\n${labelledCueText(cue, options)}\n\n`)
+    .join('');
+}
+
+export function cuesToAss(cues: SubtitleCue[], options: SubtitleExportOptions = {}): string {
+  const header = `[Script Info]
+Title: ${options.title || 'Transcription'}
+ScriptType: v4.00+
+WrapStyle: 0
+ScaledBorderAndShadow: yes
+PlayResX: 1920
+PlayResY: 1080
+
+[V4+ Styles]
+Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding
+Style: Default,Arial,56,&H00FFFFFF,&H000000FF,&H00000000,&H80000000,0,0,0,0,100,100,0,0,1,2,1,2,60,60,50,1
+
+[Events]
+Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text
+`;
+  const events = cues
+    .map(cue => {
+      // Braces start override blocks in ASS, so they can't appear literally
+      const text = labelledCueText(cue, options).replace(/[{}]/g, '').split('\n').join('\\N');
+      const name = (cueSpeaker(cue, options) || '').replace(/,/g, ' ');
+      return `Dialogue: 0,${formatAssTime(cue.start)},${formatAssTime(cue.end)},Default,${name},0,0,0,,${text}`;
+    })
+    .join('\n');
+
+  return `${header}${events}\n`;
+}
+
+// Serialise cues into the requested subtitle format
+export function formatCues(
+  cues: SubtitleCue[],
+  format: SubtitleFormat,
+  options: SubtitleExportOptions = {}
+): string {
+  switch (format) {
+    case 'srt':
+      return cuesToSrt(cues, options);
+    case 'vtt':
+      return cuesToVtt(cues, options);
+    case 'ttml':
+      return cuesToTtml(cues, options);
+    case 'sbv':
+      return cuesToSbv(cues, options);
+    case 'ass':
+      return cuesToAss(cues, options);
+  }
+}
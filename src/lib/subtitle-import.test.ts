@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { parseSubtitles, parseSubtitleTime, SubtitleParseError } from '@/lib/subtitle-import';
+
+describe('parseSubtitleTime', () => {
+  it('reads SRT and WebVTT timestamps', () => {
+    expect(parseSubtitleTime('01:02:03,456')).toBeCloseTo(3723.456);
+    expect(parseSubtitleTime('02:03.5')).toBeCloseTo(123.5);
+    expect(parseSubtitleTime('00:00:01')).toBe(1);
+  });
+
+  it('refuses impossible times', () => {
+    expect(parseSubtitleTime('00:61:00,000')).toBeNull();
+    expect(parseSubtitleTime('later')).toBeNull();
+  });
+});
+
+describe('parseSubtitles', () => {
+  it('reads hand-edited SRT files', () => {
+    const srt = '﻿1\r\n00:00:01,000 --> 00:00:02,500\r\nFirst <i>line</i>\r\nsecond line\r\n\r\n' +
+      '7\r\n00:00:03.000 --> 00:00:04,000\r\n{\\an8}Top &amp; centre\r\n' +
+      '3\r\n00:00:05,000 --> 00:00:06,000\r\nNo blank line before\r\n';
+    const { format, cues, skippedBlocks } = parseSubtitles(srt, 'episode.srt');
+    expect(format).toBe('srt');
+    expect(skippedBlocks).toBe(0);
+    expect(cues).toEqual([
+      { start: 1, end: 2.5, text: 'First line\nsecond line' },
+      { start: 3, end: 4, text: 'Top & centre' },
+      { start: 5, end: 6, text: 'No blank line before' }
+    ]);
+  });
+
+  it('reads WebVTT voices, settings and metadata blocks', () => {
+    const vtt = 'WEBVTT - lecture\n\nNOTE written by hand\nspanning lines\n\nSTYLE\n::cue { color: white }\n\n' +
+      'intro\n00:01.000 --> 00:02.000 line:10% align:center\n<v.loud Priya>Hello there\n\n' +
+      '00:03.000 --> 00:04.000\n<v Speaker 2>Hi\n';
+    const { format, cues } = parseSubtitles(vtt);
+    expect(format).toBe('vtt');
+    expect(cues).toEqual([
+      { start: 1, end: 2, text: 'Hello there', speaker: 'Priya' },
+      { start: 3, end: 4, text: 'Hi', speaker: 'Speaker 2' }
+    ]);
+  });
+
+  it('skips cues with unreadable timings and counts them', () => {
+    const srt = '1\n00:00:01,000 --> soon\nLost\n\n2\n00:00:02,000 --> 00:00:03,000\nKept\n';
+    const { cues, skippedBlocks } = parseSubtitles(srt);
+    expect(cues.map(cue => cue.text)).toEqual(['Kept']);
+    expect(skippedBlocks).toBe(1);
+  });
+
+  it('refuses files without cues', () => {
+    expect(() => parseSubtitles('just some text')).toThrow(SubtitleParseError);
+    expect(() => parseSubtitles('1\nsoon --> later\nText\n')).toThrow('None of the subtitle timings could be read');
+  });
+});
@@ -0,0 +1,145 @@
+import type { SubtitleCue } from '@/lib/segmentation';
+
+// Parses SRT and WebVTT files made elsewhere into the cue model, so they can
+// be edited, checked and exported like generated transcripts. Real-world files
+// are often hand-edited, so the parser accepts byte order marks, any line
+// ending, missing or wrong cue numbers, missing blank lines between cues and
+// either ',' or '.' before the milliseconds.
+
+export type ImportedSubtitleFormat = 'srt' | 'vtt';
+
+export interface ParsedSubtitles {
+  format: ImportedSubtitleFormat;
+  cues: SubtitleCue[];
+  // Blocks that looked like cues but had unreadable timings
+  skippedBlocks: number;
+}
+
+export class SubtitleParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SubtitleParseError';
+  }
+}
+
+export const SUBTITLE_FILE_EXTENSIONS = ['.srt', '.vtt'];
+
+const TIMING_LINE = /^\s*(\S+)\s*-->\s*(\S+)(.*)$/;
+// [hh:]mm:ss followed by ',' or '.' and 1-3 digits of milliseconds
+const TIMESTAMP = /^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[,.](\d{1,3}))?$/;
+// Blocks of WebVTT metadata that are not cues
+const VTT_METADATA_BLOCK = /^(WEBVTT|NOTE|STYLE|REGION)\b/;
+
+export function isSubtitleFile(file: File): boolean {
+  const name = file.name.toLowerCase();
+  return SUBTITLE_FILE_EXTENSIONS.some(extension => name.endsWith(extension));
+}
+
+// Seconds for an SRT or WebVTT timestamp, or null when it can't be read
+export function parseSubtitleTime(value: string): number | null {
+  const match = TIMESTAMP.exec(value.trim());
+  if (!match) return null;
+  const [, hours = '0', minutes, seconds, fraction = '0'] = match;
+  if (Number(minutes) >= 60 || Number(seconds) >= 60) return null;
+  // "1,5" means 500 ms, not 5 ms
+  const milliseconds = Number(fraction.padEnd(3, '0'));
+  return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds) + milliseconds / 1000;
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+// Plain cue text plus the WebVTT voice (<v Name>) if there is one. Styling
+// tags such as <i> and ASS overrides such as {\an8} are dropped.
+function cleanCueText(lines: string[]): { text: string; speaker?: string } {
+  let speaker: string | undefined;
+  const cleaned = lines
+    .map(line => line
+      .replace(/<v(?:\.[^\s>]*)?\s+([^>]+)>/g, (_, name: string) => {
+        speaker ??= name.trim();
+        return '';
+      })
+      .replace(/<[^>]*>/g, '')
+      .replace(/\{\\[^}]*\}/g, ''))
+    .map(line => decodeEntities(line).trim())
+    .filter(Boolean);
+  return { text: cleaned.join('\n'), speaker };
+}
+
+export function parseSubtitles(content: string, fileName = ''): ParsedSubtitles {
+  const lines = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split('\n');
+  const firstLine = lines.find(line => line.trim() !== '') ?? '';
+  const format: ImportedSubtitleFormat =
+    firstLine.trim().startsWith('WEBVTT') || fileName.toLowerCase().endsWith('.vtt') ? 'vtt' : 'srt';
+
+  const cues: SubtitleCue[] = [];
+  let skippedBlocks = 0;
+  let current: { start: number; end: number; lines: string[] } | null = null;
+  // Inside a NOTE, STYLE or REGION block, which lasts until the next blank line
+  let inMetadata = false;
+
+  const finishCue = () => {
+    if (!current) return;
+    const textLines = [...current.lines];
+    while (textLines.length > 0 && textLines[textLines.length - 1].trim() === '') textLines.pop();
+    const { text, speaker } = cleanCueText(textLines);
+    cues.push({ start: current.start, end: current.end, text, ...(speaker ? { speaker } : {}) });
+    current = null;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (line.trim() === '') {
+      inMetadata = false;
+      finishCue();
+      continue;
+    }
+    if (inMetadata) continue;
+
+    const timing = line.includes('-->') ? TIMING_LINE.exec(line) : null;
+    if (timing) {
+      // Drop a cue number or identifier that ended up at the end of the previous cue
+      if (current && current.lines.length > 0 && /^\d+$/.test(current.lines[current.lines.length - 1].trim())) {
+        current.lines.pop();
+      }
+      finishCue();
+      const start = parseSubtitleTime(timing[1]);
+      const end = parseSubtitleTime(timing[2]);
+      if (start === null || end === null) {
+        skippedBlocks++;
+        // Skip the text of the unreadable cue
+        while (i + 1 < lines.length && lines[i + 1].trim() !== '' && !lines[i + 1].includes('-->')) i++;
+        continue;
+      }
+      current = { start, end, lines: [] };
+      continue;
+    }
+
+    if (current) {
+      current.lines.push(line);
+    } else if (format === 'vtt' && VTT_METADATA_BLOCK.test(line.trim())) {
+      inMetadata = true;
+    }
+    // Anything else outside a cue is a cue number or identifier
+  }
+  finishCue();
+
+  if (cues.length === 0) {
+    throw new SubtitleParseError(
+      skippedBlocks > 0
+        ? 'None of the subtitle timings could be read'
+        : `No subtitle cues found. Is this a valid ${format.toUpperCase()} file?`
+    );
+  }
+  return { format, cues, skippedBlocks };
+}
+
+export async function readSubtitleFile(file: File): Promise<ParsedSubtitles> {
+  return parseSubtitles(await file.text(), file.name);
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import type { SubtitleCue } from '@/lib/segmentation';
+import { fixAllLintIssues, fixLintIssues, lintCues, type LintOptions } from '@/lib/subtitle-lint';
+
+const options: LintOptions = {
+  maxCharsPerLine: 20,
+  maxLinesPerCue: 2,
+  maxCharsPerSecond: 20,
+  minCueDuration: 1,
+  minGap: 0.1
+};
+
+const rules = (cues: SubtitleCue[]) => lintCues(cues, options).map(({ rule, cueIndex, fixable }) => ({ rule, cueIndex, fixable }));
+
+describe('lintCues', () => {
+  it('finds nothing wrong with well-timed cues', () => {
+    expect(lintCues([
+      { start: 0, end: 2, text: 'Hello there' },
+      { start: 2.1, end: 4, text: 'General Kenobi' }
+    ], options)).toEqual([]);
+  });
+
+  it('reports each rule', () => {
+    expect(rules([
+      { start: 0, end: 1.5, text: 'Overlapping text' },
+      { start: 1, end: 1.3, text: 'Short' },
+      { start: 1.35, end: 3, text: '  ' },
+      { start: 3, end: 4, text: 'Far too much\nto read in time' },
+      { start: 6, end: 9, text: 'A line that is longer than twenty' },
+      { start: 10, end: 15, text: 'one\ntwo\nthree' },
+      { start: 9.5, end: 16, text: 'Out of order' }
+    ])).toEqual([
+      { rule: 'overlap', cueIndex: 0, fixable: true },
+      { rule: 'min-gap', cueIndex: 1, fixable: true },
+      { rule: 'duration', cueIndex: 1, fixable: false },
+      { rule: 'empty', cueIndex: 2, fixable: true },
+      { rule: 'reading-speed', cueIndex: 3, fixable: true },
+      { rule: 'line-length', cueIndex: 4, fixable: true },
+      { rule: 'line-count', cueIndex: 5, fixable: true },
+      { rule: 'order', cueIndex: 6, fixable: true }
+    ]);
+  });
+
+  it('ignores millisecond rounding noise', () => {
+    expect(lintCues([
+      { start: 0, end: 1.0004, text: 'Hi' },
+      { start: 1.1, end: 2.0999, text: 'there' }
+    ], { ...options, minCueDuration: 1 })).toEqual([]);
+  });
+
+  it('marks a fix unavailable when the next cue leaves no room', () => {
+    expect(rules([
+      { start: 0, end: 1, text: 'Twenty five\ncharacters!!' },
+      { start: 1.2, end: 3, text: 'Next' }
+    ])).toEqual([{ rule: 'reading-speed', cueIndex: 0, fixable: false }]);
+  });
+});
+
+describe('fixLintIssues', () => {
+  it('trims overlaps and extends short cues up to the next one', () => {
+    const cues = [
+      { start: 0, end: 2.5, text: 'First cue' },
+      { start: 2, end: 2.4, text: 'Second' },
+      { start: 3.2, end: 5, text: 'Third cue' }
+    ];
+    expect(fixLintIssues(cues, lintCues(cues, options), options).map(({ start, end }) => [start, end])).toEqual([
+      [0, 1.9],
+      [2, 3],
+      [3.2, 5]
+    ]);
+  });
+
+  it('rewraps long lines and keeps other fields', () => {
+    const cues = [{ start: 0, end: 5, text: 'A line that is longer\nthan twenty', speaker: 'spk_1' }];
+    expect(fixLintIssues(cues, lintCues(cues, options), options)).toEqual([
+      { start: 0, end: 5, text: 'A line that is\nlonger than twenty', speaker: 'spk_1' }
+    ]);
+  });
+
+  it('returns the same list when nothing can be fixed', () => {
+    const cues = [{ start: 0, end: 2, text: 'Fine' }];
+    expect(fixLintIssues(cues, lintCues(cues, options), options)).toBe(cues);
+  });
+});
+
+describe('fixAllLintIssues', () => {
+  it('fixes what earlier fixes uncover', () => {
+    const cues = [
+      { start: 5, end: 7, text: 'Later' },
+      { start: 0, end: 3, text: 'Earlier' },
+      { start: 2, end: 4, text: '' }
+    ];
+    const fixed = fixAllLintIssues(cues, options);
+    expect(fixed.map(cue => cue.text)).toEqual(['Earlier', 'Later']);
+    expect(lintCues(fixed, options)).toEqual([]);
+  });
+});
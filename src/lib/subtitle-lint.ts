@@ -0,0 +1,206 @@
+import {
+  DEFAULT_SEGMENTATION_OPTIONS,
+  readableLength,
+  wrapLines,
+  type SegmentationOptions,
+  type SubtitleCue
+} from '@/lib/segmentation';
+
+// Quality checks for a finished cue list: the problems that make subtitles
+// hard to read or that players reject, each with an automatic fix where one
+// exists without rewriting the text.
+
+export type LintRule =
+  | 'empty'
+  | 'order'
+  | 'overlap'
+  | 'duration'
+  | 'min-gap'
+  | 'reading-speed'
+  | 'line-length'
+  | 'line-count';
+
+export type LintSeverity = 'error' | 'warning';
+
+export interface LintIssue {
+  rule: LintRule;
+  severity: LintSeverity;
+  cueIndex: number;
+  message: string;
+  fixable: boolean;
+}
+
+export interface LintOptions {
+  maxCharsPerLine: number;
+  maxLinesPerCue: number;
+  maxCharsPerSecond: number;
+  minCueDuration: number; // seconds
+  // Smallest gap between consecutive cues, in seconds; two frames at 24 fps by default
+  minGap: number;
+}
+
+export const LINT_RULE_LABELS: Record<LintRule, string> = {
+  empty: 'Empty cue',
+  order: 'Out of order',
+  overlap: 'Overlap',
+  duration: 'Too short',
+  'min-gap': 'Gap too small',
+  'reading-speed': 'Reading speed',
+  'line-length': 'Line too long',
+  'line-count': 'Too many lines'
+};
+
+const DEFAULT_MIN_GAP = 2 / 24;
+
+export function lintOptionsFromSegmentation(
+  options: SegmentationOptions = DEFAULT_SEGMENTATION_OPTIONS,
+  minGap = DEFAULT_MIN_GAP
+): LintOptions {
+  return {
+    maxCharsPerLine: options.maxCharsPerLine,
+    maxLinesPerCue: options.maxLinesPerCue,
+    maxCharsPerSecond: options.maxCharsPerSecond,
+    minCueDuration: options.minCueDuration,
+    minGap
+  };
+}
+
+// Floating point noise from millisecond timings shouldn't count as a violation
+const EPSILON = 0.0005;
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+const seconds = (value: number) => `${round(value)}s`;
+
+// Latest end a cue can take without crowding the next one
+function endLimit(cues: SubtitleCue[], index: number, options: LintOptions): number {
+  const next = cues[index + 1];
+  return next ? next.start - options.minGap : Infinity;
+}
+
+function rewrap(text: string, options: LintOptions): string[] {
+  return wrapLines(text.replace(/\n/g, ' '), options.maxCharsPerLine);
+}
+
+function fitsAfterRewrap(text: string, options: LintOptions): boolean {
+  const lines = rewrap(text, options);
+  return lines.length <= options.maxLinesPerCue && lines.every(line => line.length <= options.maxCharsPerLine);
+}
+
+export function lintCues(cues: SubtitleCue[], options: LintOptions): LintIssue[] {
+  const issues: LintIssue[] = [];
+  const add = (rule: LintRule, severity: LintSeverity, cueIndex: number, message: string, fixable: boolean) =>
+    issues.push({ rule, severity, cueIndex, message, fixable });
+
+  cues.forEach((cue, index) => {
+    const previous = cues[index - 1];
+    const next = cues[index + 1];
+    const duration = cue.end - cue.start;
+    const text = cue.text.trim();
+
+    if (previous && cue.start < previous.start) {
+      add('order', 'error', index, `Starts before the previous cue (${seconds(previous.start)})`, true);
+    }
+
+    if (!text) {
+      add('empty', 'error', index, 'Cue has no text', true);
+      return;
+    }
+
+    // A next cue that starts earlier is reported as out of order instead
+    if (next && next.start >= cue.start) {
+      if (cue.end > next.start + EPSILON) {
+        const trimmedEnd = next.start - options.minGap;
+        add('overlap', 'error', index, `Overlaps the next cue by ${seconds(cue.end - next.start)}`, trimmedEnd > cue.start);
+      } else if (next.start - cue.end < options.minGap - EPSILON && next.start > cue.end + EPSILON) {
+        add('min-gap', 'warning', index, `Only ${seconds(next.start - cue.end)} before the next cue`, true);
+      }
+    }
+
+    if (duration <= 0) {
+      add('duration', 'error', index, 'Cue has no duration', endLimit(cues, index, options) > cue.start);
+    } else if (duration < options.minCueDuration - EPSILON) {
+      const room = endLimit(cues, index, options) - cue.start;
+      add('duration', 'warning', index, `Shown for only ${seconds(duration)}`, room >= options.minCueDuration);
+    }
+
+    if (duration > 0) {
+      const cps = readableLength(text) / duration;
+      if (cps > options.maxCharsPerSecond + EPSILON) {
+        const needed = readableLength(text) / options.maxCharsPerSecond;
+        add(
+          'reading-speed',
+          'warning',
+          index,
+          `${cps.toFixed(1)} characters per second (max ${options.maxCharsPerSecond})`,
+          endLimit(cues, index, options) - cue.start >= needed
+        );
+      }
+    }
+
+    const lines = text.split('\n');
+    const longest = Math.max(...lines.map(line => line.length));
+    if (longest > options.maxCharsPerLine) {
+      add('line-length', 'warning', index, `Line of ${longest} characters (max ${options.maxCharsPerLine})`, fitsAfterRewrap(text, options));
+    }
+    if (lines.length > options.maxLinesPerCue) {
+      add('line-count', 'warning', index, `${lines.length} lines (max ${options.maxLinesPerCue})`, fitsAfterRewrap(text, options));
+    }
+  });
+
+  return issues;
+}
+
+function fixCue<T extends SubtitleCue>(cues: T[], issue: LintIssue, options: LintOptions): T {
+  const cue = cues[issue.cueIndex];
+  const limit = endLimit(cues, issue.cueIndex, options);
+
+  switch (issue.rule) {
+    case 'overlap':
+    case 'min-gap':
+      return { ...cue, end: round(Math.max(cue.start, limit)) };
+    case 'duration':
+      return { ...cue, end: round(Math.min(cue.start + options.minCueDuration, limit)) };
+    case 'reading-speed': {
+      const needed = readableLength(cue.text.trim()) / options.maxCharsPerSecond;
+      return { ...cue, end: round(Math.min(Math.max(cue.end, cue.start + needed), limit)) };
+    }
+    case 'line-length':
+    case 'line-count':
+      return { ...cue, text: rewrap(cue.text, options).join('\n') };
+    default:
+      return cue;
+  }
+}
+
+// Apply the fixes for the given issues, found by lintCues on the same list.
+// Timing and text fixes go first since removing empty cues and sorting move
+// the indices the issues refer to.
+export function fixLintIssues<T extends SubtitleCue>(cues: T[], issues: LintIssue[], options: LintOptions): T[] {
+  const fixable = issues.filter(issue => issue.fixable && cues[issue.cueIndex]);
+  if (fixable.length === 0) return cues;
+
+  let fixed = [...cues];
+  for (const issue of fixable) {
+    fixed[issue.cueIndex] = fixCue(fixed, issue, options);
+  }
+
+  const emptyIndices = new Set(fixable.filter(issue => issue.rule === 'empty').map(issue => issue.cueIndex));
+  fixed = fixed.filter((_, index) => !emptyIndices.has(index));
+
+  if (fixable.some(issue => issue.rule === 'order')) {
+    fixed = [...fixed].sort((a, b) => a.start - b.start);
+  }
+  return fixed;
+}
+
+// Fixes can uncover new issues, e.g. removing an empty cue leaves its
+// neighbours overlapping, so fix everything over a few passes
+export function fixAllLintIssues<T extends SubtitleCue>(cues: T[], options: LintOptions, maxPasses = 3): T[] {
+  let fixed = cues;
+  for (let pass = 0; pass < maxPasses; pass++) {
+    const next = fixLintIssues(fixed, lintCues(fixed, options), options);
+    if (next === fixed) break;
+    fixed = next;
+  }
+  return fixed;
+}
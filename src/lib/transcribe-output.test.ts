@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { TRANSCRIBE_FIXTURES } from '@/lib/providers/fixtures';
+import {
+  buildTranscriptModel,
+  defaultSpeakerName,
+  extractWords,
+  formatDuration,
+  parseTranscribeOutput,
+  TranscriptParseError
+} from '@/lib/transcribe-output';
+
+const word = (content: string, start: string, end: string, extra: Record<string, unknown> = {}) => ({
+  type: 'pronunciation' as const,
+  start_time: start,
+  end_time: end,
+  alternatives: [{ content, confidence: '0.9' }],
+  ...extra
+});
+const punctuation = (content: string) => ({ type: 'punctuation' as const, alternatives: [{ content }] });
+
+describe('parseTranscribeOutput', () => {
+  it('keeps fields it does not know about', () => {
+    const output = parseTranscribeOutput({
+      jobName: 'job-1',
+      results: { transcripts: [{ transcript: 'Hi.' }], items: [word('Hi', '0.1', '0.4')], newField: true }
+    });
+    expect(output.results.items).toHaveLength(1);
+    expect((output.results as Record<string, unknown>).newField).toBe(true);
+  });
+
+  it('lists every problem it finds', () => {
+    let error: unknown;
+    try {
+      parseTranscribeOutput({
+        results: {
+          transcripts: [],
+          items: [{ type: 'pronunciation', alternatives: [{ content: 'Hi' }] }, word('there', 'soon', '1')]
+        }
+      });
+    } catch (caught) {
+      error = caught;
+    }
+    expect(error).toBeInstanceOf(TranscriptParseError);
+    const paths = (error as TranscriptParseError).issues.map(issue => issue.path);
+    expect(paths).toEqual(expect.arrayContaining(['results.transcripts', 'results.items.0', 'results.items.1.start_time']));
+    expect((error as TranscriptParseError).retryable).toBe(false);
+  });
+
+  it('refuses values that are not documents', () => {
+    expect(() => parseTranscribeOutput(null)).toThrow(TranscriptParseError);
+    expect(() => parseTranscribeOutput({ status: 'COMPLETED' })).toThrow(/results/);
+  });
+});
+
+describe('extractWords', () => {
+  it('attaches punctuation to the word before it', () => {
+    const words = extractWords(parseTranscribeOutput({
+      results: {
+        transcripts: [{ transcript: 'Hello, world.' }],
+        items: [punctuation('¿'), word('Hello', '0', '0.5'), punctuation(','), word('world', '0.6', '1'), punctuation('.')]
+      }
+    }).results.items);
+    expect(words.map(({ text, start, end, confidence }) => ({ text, start, end, confidence }))).toEqual([
+      { text: 'Hello,', start: 0, end: 0.5, confidence: 0.9 },
+      { text: 'world.', start: 0.6, end: 1, confidence: 0.9 }
+    ]);
+  });
+});
+
+describe('buildTranscriptModel', () => {
+  it('lists speakers in order of first appearance', () => {
+    const model = buildTranscriptModel(parseTranscribeOutput(TRANSCRIBE_FIXTURES['two-speakers']));
+    expect(model.speakers).toEqual(['spk_0', 'spk_1']);
+    expect(model.words.every(({ speaker }) => speaker)).toBe(true);
+    expect(model.channels).toEqual([]);
+  });
+
+  it('takes words from the channel lists in time order', () => {
+    const model = buildTranscriptModel(parseTranscribeOutput(TRANSCRIBE_FIXTURES['two-channels']));
+    expect(model.channels).toEqual(['ch_0', 'ch_1']);
+    model.words.slice(1).forEach((current, index) => expect(current.start).toBeGreaterThanOrEqual(model.words[index].start));
+  });
+
+  it('fills in speakers from the segments of older outputs', () => {
+    const model = buildTranscriptModel(parseTranscribeOutput({
+      results: {
+        transcripts: [{ transcript: 'Hi there' }],
+        items: [word('Hi', '0.1', '0.4'), word('there', '2.05', '2.5')],
+        speaker_labels: {
+          speakers: 2,
+          segments: [
+            { start_time: '0.1', end_time: '0.4', speaker_label: 'spk_0', items: [{ start_time: '0.1', end_time: '0.4', speaker_label: 'spk_0' }] },
+            { start_time: '2.0', end_time: '2.6', speaker_label: 'spk_1', items: [] }
+          ]
+        }
+      }
+    }));
+    expect(model.words.map(({ speaker }) => speaker)).toEqual(['spk_0', 'spk_1']);
+  });
+
+  it('orders the identified languages', () => {
+    const model = buildTranscriptModel(parseTranscribeOutput({
+      results: {
+        transcripts: [{ transcript: 'namaste hello' }],
+        items: [word('namaste', '0', '0.5'), word('hello', '0.6', '1.2')],
+        language_identification: [{ code: 'en-IN', score: '0.3' }, { code: 'hi-IN', score: '0.7' }],
+        language_codes: [{ language_code: 'en-IN', duration_in_seconds: 0.6 }, { language_code: 'hi-IN', duration_in_seconds: '0.9' }]
+      }
+    }));
+    expect(model.languageScores.map(({ code }) => code)).toEqual(['hi-IN', 'en-IN']);
+    expect(model.languageCode).toBe('hi-IN');
+    expect(model.duration).toBe(1.2);
+  });
+});
+
+describe('display helpers', () => {
+  it('names Transcribe labels and keeps other names', () => {
+    expect(defaultSpeakerName('spk_0')).toBe('SPEAKER 1');
+    expect(defaultSpeakerName('ch_1')).toBe('CHANNEL 2');
+    expect(defaultSpeakerName('Priya')).toBe('Priya');
+  });
+
+  it('formats durations as m:ss', () => {
+    expect(formatDuration(0)).toBe('0:00');
+    expect(formatDuration(125.9)).toBe('2:05');
+  });
+});
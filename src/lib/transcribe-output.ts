@@ -0,0 +1,296 @@
+import { z } from 'zod';
+import type { TimedWord } from '@/lib/segmentation';
+import { TranscriptionError } from '@/lib/transcription-errors';
+
+// Schema for the JSON document AWS Transcribe writes for a batch job.
+// Times and scores are decimals encoded as strings, exactly as AWS returns them.
+// Unknown keys are kept so newer AWS fields survive a round trip.
+
+const numericString = z
+  .string()
+  .refine(value => value.trim() !== '' && !Number.isNaN(Number(value)), 'Expected a numeric string');
+
+const alternativeSchema = z
+  .object({
+    content: z.string(),
+    confidence: z.string().optional()
+  })
+  .passthrough();
+
+const itemSchema = z
+  .object({
+    id: z.number().optional(),
+    type: z.enum(['pronunciation', 'punctuation']),
+    start_time: numericString.optional(),
+    end_time: numericString.optional(),
+    alternatives: z.array(alternativeSchema).min(1),
+    speaker_label: z.string().optional(),
+    channel_label: z.string().optional(),
+    language_code: z.string().optional(),
+    vocabulary_filter_match: z.boolean().optional()
+  })
+  .passthrough()
+  .superRefine((item, ctx) => {
+    if (item.type === 'pronunciation' && (item.start_time === undefined || item.end_time === undefined)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Pronunciation items must have start_time and end_time'
+      });
+    }
+  });
+
+const speakerSegmentSchema = z
+  .object({
+    start_time: numericString,
+    end_time: numericString,
+    speaker_label: z.string(),
+    items: z
+      .array(
+        z
+          .object({
+            start_time: numericString,
+            end_time: numericString,
+            speaker_label: z.string()
+          })
+          .passthrough()
+      )
+      .default([])
+  })
+  .passthrough();
+
+const speakerLabelsSchema = z
+  .object({
+    speakers: z.number().int().nonnegative(),
+    channel_label: z.string().optional(),
+    segments: z.array(speakerSegmentSchema)
+  })
+  .passthrough();
+
+const channelLabelsSchema = z
+  .object({
+    number_of_channels: z.number().int().positive(),
+    channels: z.array(
+      z
+        .object({
+          channel_label: z.string(),
+          items: z.array(itemSchema)
+        })
+        .passthrough()
+    )
+  })
+  .passthrough();
+
+const languageIdentificationSchema = z
+  .object({
+    code: z.string(),
+    score: numericString
+  })
+  .passthrough();
+
+// Time spoken in each language, for jobs that identify multiple languages
+const languageCodeSchema = z
+  .object({
+    language_code: z.string(),
+    duration_in_seconds: z.union([z.number(), numericString])
+  })
+  .passthrough();
+
+const audioSegmentSchema = z
+  .object({
+    id: z.number(),
+    transcript: z.string(),
+    start_time: numericString,
+    end_time: numericString,
+    items: z.array(z.number()).default([]),
+    speaker_label: z.string().optional(),
+    channel_label: z.string().optional(),
+    language_code: z.string().optional()
+  })
+  .passthrough();
+
+export const transcribeOutputSchema = z
+  .object({
+    jobName: z.string().optional(),
+    accountId: z.string().optional(),
+    status: z.string().optional(),
+    results: z
+      .object({
+        language_code: z.string().optional(),
+        transcripts: z.array(z.object({ transcript: z.string() }).passthrough()).min(1),
+        items: z.array(itemSchema).default([]),
+        speaker_labels: speakerLabelsSchema.optional(),
+        channel_labels: channelLabelsSchema.optional(),
+        language_identification: z.array(languageIdentificationSchema).optional(),
+        language_codes: z.array(languageCodeSchema).optional(),
+        audio_segments: z.array(audioSegmentSchema).optional()
+      })
+      .passthrough()
+  })
+  .passthrough();
+
+export type TranscribeOutput = z.infer<typeof transcribeOutputSchema>;
+export type TranscribeItem = z.infer<typeof itemSchema>;
+export type TranscribeSpeakerLabels = z.infer<typeof speakerLabelsSchema>;
+export type TranscribeChannelLabels = z.infer<typeof channelLabelsSchema>;
+export type TranscribeAudioSegment = z.infer<typeof audioSegmentSchema>;
+
+export interface TranscriptParseIssue {
+  path: string;
+  message: string;
+}
+
+// Raised when a document does not match the Transcribe output schema
+export class TranscriptParseError extends TranscriptionError {
+  readonly issues: TranscriptParseIssue[];
+
+  constructor(issues: TranscriptParseIssue[]) {
+    const summary = issues
+      .slice(0, 3)
+      .map(issue => (issue.path ? `${issue.path}: ${issue.message}` : issue.message))
+      .join('; ');
+    super('parse', `Invalid transcript data (${issues.length} issue${issues.length === 1 ? '' : 's'}): ${summary}`, {
+      hint: 'The transcript file was not in the expected AWS Transcribe format. The browser console lists the validation issues.',
+      retryable: false
+    });
+    this.name = 'TranscriptParseError';
+    this.issues = issues;
+  }
+}
+
+// Validate an unknown value (usually parsed JSON) as a Transcribe output document
+export function parseTranscribeOutput(data: unknown): TranscribeOutput {
+  const result = transcribeOutputSchema.safeParse(data);
+  if (!result.success) {
+    throw new TranscriptParseError(
+      result.error.issues.map(issue => ({
+        path: issue.path.join('.'),
+        message: issue.message
+      }))
+    );
+  }
+  return result.data;
+}
+
+// A recognised word with everything the subtitle pipeline needs
+export interface TranscriptWord extends TimedWord {
+  confidence?: number;
+}
+
+// Typed, time-ordered view of a Transcribe output document
+export interface TranscriptModel {
+  text: string;
+  words: TranscriptWord[];
+  duration: number; // seconds
+  languageCode?: string;
+  // Candidates scored by language identification, most likely first
+  languageScores: { code: string; score: number }[];
+  // Seconds spoken in each language when several were identified, longest first
+  languageDurations: { code: string; duration: number }[];
+  speakers: string[]; // speaker labels in order of first appearance
+  channels: string[]; // channel labels, empty unless channel identification was used
+}
+
+// Flatten items into words, attaching punctuation to the preceding word
+export function extractWords(items: TranscribeItem[]): TranscriptWord[] {
+  const words: TranscriptWord[] = [];
+
+  for (const item of items) {
+    const alternative = item.alternatives[0];
+
+    if (item.type === 'pronunciation') {
+      words.push({
+        text: alternative.content,
+        start: Number(item.start_time),
+        end: Number(item.end_time),
+        confidence: alternative.confidence !== undefined ? Number(alternative.confidence) : undefined,
+        speaker: item.speaker_label,
+        channel: item.channel_label
+      });
+    } else if (words.length > 0) {
+      words[words.length - 1].text += alternative.content;
+    }
+  }
+
+  return words;
+}
+
+// Older Transcribe outputs only carry speakers in speaker_labels.segments,
+// so fill in any word that has no speaker_label of its own from there
+function assignSpeakers(words: TranscriptWord[], speakerLabels: TranscribeSpeakerLabels) {
+  const byStart = new Map<string, string>();
+  for (const segment of speakerLabels.segments) {
+    for (const item of segment.items) {
+      byStart.set(Number(item.start_time).toFixed(3), item.speaker_label);
+    }
+  }
+
+  for (const word of words) {
+    if (word.speaker) continue;
+    const midpoint = (word.start + word.end) / 2;
+    word.speaker =
+      byStart.get(word.start.toFixed(3)) ??
+      speakerLabels.segments.find(
+        segment => Number(segment.start_time) <= midpoint && midpoint <= Number(segment.end_time)
+      )?.speaker_label;
+  }
+}
+
+// Channel-identified outputs always list items per channel, while the merged
+// results.items may lack channel_label, so prefer the per-channel lists
+function extractChannelWords(channelLabels: TranscribeChannelLabels): TranscriptWord[] {
+  return channelLabels.channels
+    .flatMap(channel =>
+      extractWords(channel.items).map(word => ({ ...word, channel: channel.channel_label }))
+    )
+    .sort((a, b) => a.start - b.start);
+}
+
+export function buildTranscriptModel(output: TranscribeOutput): TranscriptModel {
+  const channelLabels = output.results.channel_labels;
+  const words = channelLabels
+    ? extractChannelWords(channelLabels)
+    : extractWords(output.results.items);
+  if (output.results.speaker_labels) {
+    assignSpeakers(words, output.results.speaker_labels);
+  }
+
+  const speakers: string[] = [];
+  for (const word of words) {
+    if (word.speaker && !speakers.includes(word.speaker)) speakers.push(word.speaker);
+  }
+
+  const languageScores = (output.results.language_identification ?? [])
+    .map(({ code, score }) => ({ code, score: Number(score) }))
+    .sort((a, b) => b.score - a.score);
+  const languageDurations = (output.results.language_codes ?? [])
+    .map(({ language_code, duration_in_seconds }) => ({ code: language_code, duration: Number(duration_in_seconds) }))
+    .sort((a, b) => b.duration - a.duration);
+
+  return {
+    text: output.results.transcripts.map(t => t.transcript).join(' ').trim(),
+    words,
+    duration: words.reduce((max, word) => Math.max(max, word.end), 0),
+    languageCode: output.results.language_code ?? languageDurations[0]?.code,
+    languageScores,
+    languageDurations,
+    speakers,
+    channels: channelLabels ? channelLabels.channels.map(channel => channel.channel_label) : []
+  };
+}
+
+// Default display name for a Transcribe speaker or channel label:
+// "spk_0" -> "SPEAKER 1", "ch_1" -> "CHANNEL 2". Other labels, such as the
+// voice names of imported WebVTT files, are already names and stay as they are.
+export function defaultSpeakerName(label: string): string {
+  const match = /^(spk|ch)_(\d+)$/.exec(label);
+  if (!match) return label;
+  const kind = match[1] === 'ch' ? 'CHANNEL' : 'SPEAKER';
+  return `${kind} ${Number(match[2]) + 1}`;
+}
+
+// Format seconds as m:ss for display
+export function formatDuration(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${minutes}:${secs.toString().padStart(2, '0')}`;
+}
@@ -0,0 +1,243 @@
+import { z } from 'zod';
+
+// Requests and responses exchanged between the browser and the transcription
+// server in server/. Both sides compile this file, so it must not import
+// anything browser- or Node-specific.
+
+export const createUploadRequestSchema = z.object({
+  fileName: z.string().min(1).max(255),
+  contentType: z.string().max(255),
+  size: z.number().int().nonnegative()
+});
+
+export type CreateUploadRequest = z.infer<typeof createUploadRequestSchema>;
+
+export interface CreateUploadResponse {
+  key: string;
+  // Presigned S3 URL, or a path relative to the API base URL for the mock server
+  uploadUrl: string;
+  // Headers the PUT request must send for the signature to match
+  headers: Record<string, string>;
+}
+
+// Large files are uploaded in parts that can be retried, and resumed after a
+// reload, one part at a time
+export interface CreateMultipartUploadResponse {
+  key: string;
+  uploadId: string;
+}
+
+const uploadKeySchema = z.string().min(1);
+const partNumberSchema = z.number().int().min(1).max(10000);
+
+export const signPartsRequestSchema = z.object({
+  key: uploadKeySchema,
+  partNumbers: z.array(partNumberSchema).min(1).max(100)
+});
+
+export type SignPartsRequest = z.infer<typeof signPartsRequestSchema>;
+
+export interface SignPartsResponse {
+  // Presigned S3 URLs, or paths relative to the API base URL for the mock server
+  urls: { partNumber: number; url: string }[];
+}
+
+export interface UploadedPart {
+  partNumber: number;
+  etag: string;
+  size: number;
+}
+
+export interface ListPartsResponse {
+  parts: UploadedPart[];
+}
+
+export const completeMultipartUploadRequestSchema = z.object({
+  key: uploadKeySchema,
+  parts: z.array(z.object({ partNumber: partNumberSchema, etag: z.string().min(1) })).min(1)
+});
+
+export type CompleteMultipartUploadRequest = z.infer<typeof completeMultipartUploadRequestSchema>;
+
+// Custom vocabularies and vocabulary filters are named Transcribe resources
+export const resourceNameSchema = z.string().min(1).max(200)
+  .regex(/^[0-9a-zA-Z._-]+$/, 'Use only letters, digits, ".", "_" and "-"');
+
+export const vocabularyFilterMethods = ['mask', 'remove', 'tag'] as const;
+export type VocabularyFilterMethod = (typeof vocabularyFilterMethods)[number];
+
+// Media formats Transcribe accepts; M4A files are sent as 'mp4'
+export const transcribeMediaFormats = ['mp3', 'mp4', 'wav', 'flac', 'ogg', 'amr', 'webm'] as const;
+export type TranscribeMediaFormat = (typeof transcribeMediaFormats)[number];
+
+export const startJobRequestSchema = z.object({
+  key: z.string().min(1),
+  // 'auto' lets Transcribe identify the language
+  language: z.string().min(1),
+  // Candidates to identify the language from; the server's defaults when left out
+  languageOptions: z.array(z.string().min(2)).min(2).optional(),
+  // Identify every language spoken, for code-switched audio, rather than the main one
+  identifyMultipleLanguages: z.boolean().optional(),
+  mediaFormat: z.enum(transcribeMediaFormats),
+  // Left out when unknown, so Transcribe reads it from the file
+  mediaSampleRateHertz: z.number().int().min(8000).max(48000).optional(),
+  maxSpeakers: z.number().int().min(2).max(30).optional(),
+  channelIdentification: z.boolean().optional(),
+  vocabularyName: resourceNameSchema.optional(),
+  vocabularyFilterName: resourceNameSchema.optional(),
+  // How filtered words appear in the transcript; Transcribe's default is 'mask'
+  vocabularyFilterMethod: z.enum(vocabularyFilterMethods).optional()
+});
+
+export type StartJobRequest = z.infer<typeof startJobRequestSchema>;
+
+export interface StartJobResponse {
+  jobName: string;
+}
+
+export type ApiJobStatus = 'QUEUED' | 'IN_PROGRESS' | 'COMPLETED' | 'FAILED';
+
+export interface JobStatusResponse {
+  jobName: string;
+  status: ApiJobStatus;
+  failureReason?: string;
+}
+
+// One row of a custom vocabulary table. Multi-word phrases and sounds-like
+// spellings are written with spaces here and hyphenated for Transcribe.
+export const vocabularyPhraseSchema = z.object({
+  phrase: z.string().trim().min(1).max(256),
+  ipa: z.string().trim().max(256).optional(),
+  soundsLike: z.string().trim().max(256).optional(),
+  displayAs: z.string().trim().max(256).optional()
+});
+
+export type VocabularyPhrase = z.infer<typeof vocabularyPhraseSchema>;
+
+export const saveVocabularyRequestSchema = z.object({
+  languageCode: z.string().min(2),
+  phrases: z.array(vocabularyPhraseSchema).min(1).max(50000)
+});
+
+export type SaveVocabularyRequest = z.infer<typeof saveVocabularyRequestSchema>;
+
+export const saveVocabularyFilterRequestSchema = z.object({
+  languageCode: z.string().min(2),
+  words: z.array(z.string().trim().min(1).max(256)).min(1).max(50000)
+});
+
+export type SaveVocabularyFilterRequest = z.infer<typeof saveVocabularyFilterRequestSchema>;
+
+// Transcribe processes a vocabulary for a few minutes before jobs can use it
+export type VocabularyState = 'PENDING' | 'READY' | 'FAILED';
+
+export interface VocabularySummary {
+  name: string;
+  languageCode: string;
+  state: VocabularyState;
+  lastModified?: string; // ISO 8601
+  failureReason?: string;
+}
+
+export interface VocabularyDetail extends VocabularySummary {
+  phrases: VocabularyPhrase[];
+}
+
+export interface VocabularyFilterSummary {
+  name: string;
+  languageCode: string;
+  lastModified?: string; // ISO 8601
+}
+
+export interface VocabularyFilterDetail extends VocabularyFilterSummary {
+  words: string[];
+}
+
+export interface ListVocabulariesResponse {
+  vocabularies: VocabularySummary[];
+}
+
+export interface ListVocabularyFiltersResponse {
+  filters: VocabularyFilterSummary[];
+}
+
+// Live captions stream 16-bit PCM from the browser to Transcribe Streaming
+// over a WebSocket, using a URL the server signs for a single session
+export const createStreamingSessionRequestSchema = z.object({
+  // 'auto' lets Transcribe identify the language
+  language: z.string().min(1),
+  languageOptions: z.array(z.string().min(2)).min(2).optional(),
+  sampleRate: z.number().int().min(8000).max(48000),
+  showSpeakerLabels: z.boolean().optional(),
+  vocabularyName: resourceNameSchema.optional(),
+  vocabularyFilterName: resourceNameSchema.optional(),
+  vocabularyFilterMethod: z.enum(vocabularyFilterMethods).optional()
+});
+
+export type CreateStreamingSessionRequest = z.infer<typeof createStreamingSessionRequestSchema>;
+
+export interface CreateStreamingSessionResponse {
+  // Presigned wss:// URL, or a path relative to the API base URL for the mock server
+  url: string;
+  expiresAt: string; // ISO 8601
+}
+
+// Subtitle text is translated one cue at a time so timings carry over unchanged
+export const MAX_TRANSLATION_TEXTS = 50;
+
+export const translateRequestSchema = z.object({
+  // Amazon Translate language codes; 'auto' lets Translate detect the source
+  sourceLanguage: z.string().min(2).max(5),
+  targetLanguage: z.string().min(2).max(5),
+  texts: z.array(z.string().max(2000)).min(1).max(MAX_TRANSLATION_TEXTS),
+  // Terms left as they are in the translation, such as names and brands
+  doNotTranslate: z.array(z.string().trim().min(1).max(100)).max(200).optional()
+});
+
+export type TranslateRequest = z.infer<typeof translateRequestSchema>;
+
+export interface TranslateResponse {
+  // In the order of the request's texts
+  translations: string[];
+  // The detected language when the request asked for 'auto'
+  sourceLanguage: string;
+}
+
+// Body of every non-2xx response
+export interface ApiErrorBody {
+  error: {
+    code: string;
+    message: string;
+    retryable?: boolean;
+  };
+}
+
+export const API_ROUTES = {
+  // DELETE takes the object key as a ?key= query parameter and removes media no job was started for
+  uploads: '/uploads',
+  mockUploads: '/mock-uploads',
+  mockParts: '/mock-parts',
+  multipartUploads: '/multipart-uploads',
+  // Deleting an upload and listing its parts take the object key as a ?key= query parameter
+  multipartUpload: (uploadId: string) => `/multipart-uploads/${encodeURIComponent(uploadId)}`,
+  multipartParts: (uploadId: string) => `/multipart-uploads/${encodeURIComponent(uploadId)}/parts`,
+  multipartComplete: (uploadId: string) => `/multipart-uploads/${encodeURIComponent(uploadId)}/complete`,
+  jobs: '/jobs',
+  job: (jobName: string) => `/jobs/${encodeURIComponent(jobName)}`,
+  transcript: (jobName: string) => `/jobs/${encodeURIComponent(jobName)}/transcript`,
+  vocabularies: '/vocabularies',
+  // PUT creates the vocabulary or replaces its phrases
+  vocabulary: (name: string) => `/vocabularies/${encodeURIComponent(name)}`,
+  vocabularyFilters: '/vocabulary-filters',
+  vocabularyFilter: (name: string) => `/vocabulary-filters/${encodeURIComponent(name)}`,
+  streamingSessions: '/streaming-sessions',
+  // WebSocket endpoint of the fake streaming server that runs with the mock backend
+  mockStreaming: '/mock-streaming',
+  translations: '/translations'
+};
+
+// Media is only ever uploaded under this prefix, so the server can refuse other keys
+export const UPLOAD_KEY_PREFIX = 'transcription-inputs/';
+
+// Transcribe writes job output under this prefix
+export const TRANSCRIPT_KEY_PREFIX = 'transcription-outputs/';
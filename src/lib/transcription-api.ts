@@ -0,0 +1,174 @@
+import { apiConfig } from '@/config/api-config';
+import {
+  API_ROUTES,
+  type ApiErrorBody,
+  type CompleteMultipartUploadRequest,
+  type CreateMultipartUploadResponse,
+  type CreateStreamingSessionRequest,
+  type CreateStreamingSessionResponse,
+  type CreateUploadRequest,
+  type CreateUploadResponse,
+  type JobStatusResponse,
+  type ListPartsResponse,
+  type ListVocabulariesResponse,
+  type ListVocabularyFiltersResponse,
+  type SaveVocabularyFilterRequest,
+  type SaveVocabularyRequest,
+  type SignPartsRequest,
+  type SignPartsResponse,
+  type StartJobRequest,
+  type StartJobResponse,
+  type TranslateRequest,
+  type TranslateResponse,
+  type VocabularyDetail,
+  type VocabularyFilterDetail,
+  type VocabularyFilterSummary,
+  type VocabularySummary
+} from '@/lib/transcription-api-contract';
+
+// Error response from the transcription server. Shaped like an AWS SDK error
+// (code, statusCode, retryable) so the polling and error helpers treat both alike.
+export class ApiError extends Error {
+  readonly code: string;
+  readonly statusCode: number;
+  readonly retryable?: boolean;
+
+  constructor(statusCode: number, code: string, message: string, retryable?: boolean) {
+    super(message);
+    this.name = 'ApiError';
+    this.statusCode = statusCode;
+    this.code = code;
+    this.retryable = retryable;
+  }
+}
+
+async function toApiError(response: Response): Promise<ApiError> {
+  try {
+    const { error } = (await response.json()) as ApiErrorBody;
+    return new ApiError(response.status, error.code, error.message, error.retryable);
+  } catch {
+    return new ApiError(response.status, 'HttpError', `Server responded with ${response.status} ${response.statusText}`);
+  }
+}
+
+export interface UploadProgress {
+  loaded: number;
+  total: number;
+}
+
+// Typed client for the transcription server in server/
+export function createTranscriptionApi(baseUrl = apiConfig.baseUrl) {
+  const send = async (method: string, path: string, body?: unknown, signal?: AbortSignal): Promise<Response> => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal
+    });
+    if (!response.ok) throw await toApiError(response);
+    return response;
+  };
+
+  const request = async <T>(method: string, path: string, body?: unknown, signal?: AbortSignal): Promise<T> => {
+    const response = await send(method, path, body, signal);
+    return (response.status === 204 ? undefined : await response.json()) as T;
+  };
+
+  const resolveUrl = (url: string) => (/^https?:\/\//.test(url) ? url : `${baseUrl}${url}`);
+
+  // fetch cannot report upload progress, so PUTs go through XMLHttpRequest.
+  // Resolves with the ETag response header, when the server exposes it.
+  const putBlob = (
+    url: string,
+    blob: Blob,
+    headers: Record<string, string>,
+    options: { onProgress?: (progress: UploadProgress) => void; signal?: AbortSignal } = {}
+  ): Promise<string | null> => new Promise((resolve, reject) => {
+    const { onProgress, signal } = options;
+    if (signal?.aborted) {
+      reject(new DOMException('Upload cancelled', 'AbortError'));
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    const onAbort = () => xhr.abort();
+    const cleanup = () => signal?.removeEventListener('abort', onAbort);
+
+    xhr.open('PUT', resolveUrl(url));
+    Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+    xhr.upload.onprogress = event => {
+      if (event.lengthComputable) onProgress?.({ loaded: event.loaded, total: event.total });
+    };
+    xhr.onload = () => {
+      cleanup();
+      if (xhr.status >= 200 && xhr.status < 300) resolve(xhr.getResponseHeader('ETag'));
+      else reject(new ApiError(xhr.status, 'UploadFailed', `Upload rejected with ${xhr.status} ${xhr.statusText}`));
+    };
+    // Network failures surface as TypeError, like fetch, so they count as transient
+    xhr.onerror = () => {
+      cleanup();
+      reject(new TypeError('Network error during upload'));
+    };
+    xhr.onabort = () => {
+      cleanup();
+      reject(new DOMException('Upload cancelled', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    xhr.send(blob);
+  });
+
+  const keyQuery = (key: string) => `?key=${encodeURIComponent(key)}`;
+
+  return {
+    createUpload: (body: CreateUploadRequest, signal?: AbortSignal) =>
+      request<CreateUploadResponse>('POST', API_ROUTES.uploads, body, signal),
+    uploadFile: async (
+      upload: CreateUploadResponse,
+      file: Blob,
+      options?: { onProgress?: (progress: UploadProgress) => void; signal?: AbortSignal }
+    ) => {
+      await putBlob(upload.uploadUrl, file, upload.headers, options);
+    },
+    deleteUpload: (key: string) =>
+      request<void>('DELETE', `${API_ROUTES.uploads}${keyQuery(key)}`),
+    createMultipartUpload: (body: CreateUploadRequest, signal?: AbortSignal) =>
+      request<CreateMultipartUploadResponse>('POST', API_ROUTES.multipartUploads, body, signal),
+    signUploadParts: (uploadId: string, body: SignPartsRequest, signal?: AbortSignal) =>
+      request<SignPartsResponse>('POST', API_ROUTES.multipartParts(uploadId), body, signal),
+    // Resolves with the part's ETag, which completing the upload requires
+    uploadPart: putBlob,
+    listUploadedParts: (uploadId: string, key: string, signal?: AbortSignal) =>
+      request<ListPartsResponse>('GET', `${API_ROUTES.multipartParts(uploadId)}${keyQuery(key)}`, undefined, signal),
+    completeMultipartUpload: (uploadId: string, body: CompleteMultipartUploadRequest, signal?: AbortSignal) =>
+      request<void>('POST', API_ROUTES.multipartComplete(uploadId), body, signal),
+    abortMultipartUpload: (uploadId: string, key: string) =>
+      request<void>('DELETE', `${API_ROUTES.multipartUpload(uploadId)}${keyQuery(key)}`),
+    startJob: (body: StartJobRequest, signal?: AbortSignal) =>
+      request<StartJobResponse>('POST', API_ROUTES.jobs, body, signal),
+    getJob: (jobName: string, signal?: AbortSignal) =>
+      request<JobStatusResponse>('GET', API_ROUTES.job(jobName), undefined, signal),
+    // Raw Transcribe output JSON, left unparsed so callers can report invalid documents
+    getTranscript: async (jobName: string, signal?: AbortSignal) =>
+      (await send('GET', API_ROUTES.transcript(jobName), undefined, signal)).text(),
+    cancelJob: (jobName: string) =>
+      request<void>('DELETE', API_ROUTES.job(jobName)),
+    listVocabularies: (signal?: AbortSignal) =>
+      request<ListVocabulariesResponse>('GET', API_ROUTES.vocabularies, undefined, signal),
+    getVocabulary: (name: string, signal?: AbortSignal) =>
+      request<VocabularyDetail>('GET', API_ROUTES.vocabulary(name), undefined, signal),
+    saveVocabulary: (name: string, body: SaveVocabularyRequest) =>
+      request<VocabularySummary>('PUT', API_ROUTES.vocabulary(name), body),
+    listVocabularyFilters: (signal?: AbortSignal) =>
+      request<ListVocabularyFiltersResponse>('GET', API_ROUTES.vocabularyFilters, undefined, signal),
+    getVocabularyFilter: (name: string, signal?: AbortSignal) =>
+      request<VocabularyFilterDetail>('GET', API_ROUTES.vocabularyFilter(name), undefined, signal),
+    saveVocabularyFilter: (name: string, body: SaveVocabularyFilterRequest) =>
+      request<VocabularyFilterSummary>('PUT', API_ROUTES.vocabularyFilter(name), body),
+    createStreamingSession: (body: CreateStreamingSessionRequest, signal?: AbortSignal) =>
+      request<CreateStreamingSessionResponse>('POST', API_ROUTES.streamingSessions, body, signal),
+    translate: (body: TranslateRequest, signal?: AbortSignal) =>
+      request<TranslateResponse>('POST', API_ROUTES.translations, body, signal)
+  };
+}
+
+export type TranscriptionApi = ReturnType<typeof createTranscriptionApi>;
@@ -0,0 +1,197 @@
+import type { TranscribeResult } from '@/lib/transcription';
+
+// Transcription results cached in IndexedDB, keyed by file content hash,
+// language and the job options that change what AWS returns.
+
+const DB_NAME = 'transcription-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'entries';
+const SETTINGS_KEY = 'transcriptionCacheSettings';
+const LEGACY_CACHE_KEY = 'transcriptionCache';
+
+export interface CacheSettings {
+  enabled: boolean;
+  ttlHours: number;
+  maxEntries: number;
+  maxSizeMB: number;
+}
+
+export const DEFAULT_CACHE_SETTINGS: CacheSettings = {
+  enabled: true,
+  ttlHours: 24 * 7,
+  maxEntries: 50,
+  maxSizeMB: 200
+};
+
+export interface CacheEntry {
+  key: string;
+  fileHash: string;
+  fileName: string;
+  fileSize: number;
+  language: string;
+  jobOptions: Record<string, unknown>;
+  result: TranscribeResult;
+  size: number; // approximate bytes used by the stored result
+  createdAt: number;
+  lastAccessedAt: number;
+}
+
+export function getCacheSettings(): CacheSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+    return { ...DEFAULT_CACHE_SETTINGS, ...stored };
+  } catch {
+    return DEFAULT_CACHE_SETTINGS;
+  }
+}
+
+export function saveCacheSettings(settings: CacheSettings) {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        store.createIndex('lastAccessedAt', 'lastAccessedAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+    // The old localStorage cache hit the 5 MB quota; drop it once IndexedDB is in use
+    localStorage.removeItem(LEGACY_CACHE_KEY);
+  }
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return promisify(run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+}
+
+// Large files are hashed one slice at a time so they are never held in memory whole
+const HASH_SLICE_BYTES = 16 * 1024 * 1024;
+
+const toHex = (buffer: ArrayBuffer) => Array.from(new Uint8Array(buffer))
+  .map(b => b.toString(16).padStart(2, '0'))
+  .join('');
+
+// SHA-256 of the file contents as a hex string. Files larger than one slice
+// get the SHA-256 of their slices' digests in order, which covers every byte.
+export async function generateFileHash(file: File): Promise<string> {
+  if (file.size <= HASH_SLICE_BYTES) {
+    return toHex(await crypto.subtle.digest('SHA-256', await file.arrayBuffer()));
+  }
+  const digests = new Uint8Array(Math.ceil(file.size / HASH_SLICE_BYTES) * 32);
+  for (let offset = 0; offset < file.size; offset += HASH_SLICE_BYTES) {
+    const slice = await file.slice(offset, offset + HASH_SLICE_BYTES).arrayBuffer();
+    digests.set(new Uint8Array(await crypto.subtle.digest('SHA-256', slice)), (offset / HASH_SLICE_BYTES) * 32);
+  }
+  return toHex(await crypto.subtle.digest('SHA-256', digests));
+}
+
+// Serialise with sorted keys so equal options always produce the same key
+function stableStringify(value: Record<string, unknown>): string {
+  return JSON.stringify(
+    Object.keys(value)
+      .filter(key => value[key] !== undefined)
+      .sort()
+      .reduce<Record<string, unknown>>((acc, key) => ({ ...acc, [key]: value[key] }), {})
+  );
+}
+
+export function buildCacheKey(fileHash: string, language: string, jobOptions: Record<string, unknown>): string {
+  return `${fileHash}:${language}:${stableStringify(jobOptions)}`;
+}
+
+function isExpired(entry: CacheEntry, settings: CacheSettings): boolean {
+  return Date.now() - entry.createdAt > settings.ttlHours * 60 * 60 * 1000;
+}
+
+export async function listCachedTranscriptions(): Promise<CacheEntry[]> {
+  const entries = await withStore('readonly', store => store.getAll() as IDBRequest<CacheEntry[]>);
+  return entries.sort((a, b) => b.lastAccessedAt - a.lastAccessedAt);
+}
+
+export async function deleteCachedTranscription(key: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(key));
+}
+
+export async function clearTranscriptionCache(): Promise<void> {
+  await withStore('readwrite', store => store.clear());
+}
+
+// Look up a cached result, refreshing its LRU timestamp. Expired entries are removed.
+export async function getCachedTranscription(key: string): Promise<TranscribeResult | null> {
+  const settings = getCacheSettings();
+  if (!settings.enabled) return null;
+
+  const entry = await withStore('readonly', store => store.get(key) as IDBRequest<CacheEntry | undefined>);
+  if (!entry) return null;
+
+  if (isExpired(entry, settings)) {
+    await deleteCachedTranscription(key);
+    return null;
+  }
+
+  await withStore('readwrite', store => store.put({ ...entry, lastAccessedAt: Date.now() }));
+  return entry.result;
+}
+
+export async function cacheTranscriptionResult(
+  entry: Omit<CacheEntry, 'size' | 'createdAt' | 'lastAccessedAt'>
+): Promise<void> {
+  const settings = getCacheSettings();
+  if (!settings.enabled) return;
+
+  const now = Date.now();
+  await withStore('readwrite', store =>
+    store.put({
+      ...entry,
+      size: new Blob([JSON.stringify(entry.result)]).size,
+      createdAt: now,
+      lastAccessedAt: now
+    })
+  );
+  await evictEntries(settings);
+}
+
+// Drop expired entries, then least recently used ones until both the entry
+// count and total size fit the configured limits
+export async function evictEntries(settings: CacheSettings = getCacheSettings()): Promise<void> {
+  const entries = await listCachedTranscriptions();
+  const maxBytes = settings.maxSizeMB * 1024 * 1024;
+  const kept: CacheEntry[] = [];
+  let totalSize = 0;
+
+  for (const entry of entries) {
+    const fits =
+      !isExpired(entry, settings) &&
+      kept.length < settings.maxEntries &&
+      totalSize + entry.size <= maxBytes;
+
+    if (fits) {
+      kept.push(entry);
+      totalSize += entry.size;
+    } else {
+      await deleteCachedTranscription(entry.key);
+    }
+  }
+}
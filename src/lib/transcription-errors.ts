@@ -0,0 +1,149 @@
+// Errors raised by the transcription pipeline. Each one says which step
+// failed, whether retrying can help, and what the user should do about it.
+
+export type TranscriptionErrorKind =
+  | 'credentials'
+  | 'media'
+  | 'upload'
+  | 'job-start'
+  | 'job-failed'
+  | 'timeout'
+  | 'fetch'
+  | 'parse';
+
+export class TranscriptionError extends Error {
+  readonly kind: TranscriptionErrorKind;
+  readonly retryable: boolean;
+  // Actionable next step shown to the user under the message
+  readonly hint: string;
+  readonly cause?: unknown;
+
+  constructor(
+    kind: TranscriptionErrorKind,
+    message: string,
+    options: { hint: string; retryable: boolean; cause?: unknown }
+  ) {
+    super(message);
+    this.name = 'TranscriptionError';
+    this.kind = kind;
+    this.hint = options.hint;
+    this.retryable = options.retryable;
+    this.cause = options.cause;
+  }
+}
+
+export class CredentialsError extends TranscriptionError {
+  constructor(message = 'AWS credentials are missing or invalid', cause?: unknown) {
+    super('credentials', message, {
+      hint: 'Check the AWS credentials, AWS_REGION and TRANSCRIPTION_BUCKET of the transcription server, then restart it.',
+      retryable: false,
+      cause
+    });
+    this.name = 'CredentialsError';
+  }
+}
+
+// Found before upload, from the file's contents
+export class UnsupportedMediaError extends TranscriptionError {
+  constructor(message: string, cause?: unknown) {
+    super('media', message, {
+      hint: 'Convert the file to MP3, M4A (AAC), WAV (PCM) or FLAC and try again.',
+      retryable: false,
+      cause
+    });
+    this.name = 'UnsupportedMediaError';
+  }
+}
+
+export class UploadError extends TranscriptionError {
+  constructor(message: string, cause?: unknown) {
+    super('upload', message, {
+      hint: 'Check your network connection, the bucket name and the bucket CORS configuration.',
+      retryable: true,
+      cause
+    });
+    this.name = 'UploadError';
+  }
+}
+
+export class JobStartError extends TranscriptionError {
+  constructor(message: string, cause?: unknown) {
+    super('job-start', message, {
+      hint: 'Check the selected language and file format, and that your AWS user may start Transcribe jobs.',
+      retryable: true,
+      cause
+    });
+    this.name = 'JobStartError';
+  }
+}
+
+export class JobFailedError extends TranscriptionError {
+  readonly failureReason?: string;
+
+  constructor(failureReason?: string) {
+    super('job-failed', `Transcription job failed${failureReason ? `: ${failureReason}` : ''}`, {
+      hint: 'AWS could not transcribe this file. Check that it contains audible speech in the selected language.',
+      retryable: false
+    });
+    this.name = 'JobFailedError';
+    this.failureReason = failureReason;
+  }
+}
+
+// The job is not failed in AWS and can be resumed later
+export class TranscriptionTimeoutError extends TranscriptionError {
+  readonly jobName: string;
+  readonly timeoutMs: number;
+
+  constructor(jobName: string, timeoutMs: number) {
+    super('timeout', `Transcription is taking longer than expected (over ${Math.round(timeoutMs / 60000)} minutes)`, {
+      hint: 'The job is still running in AWS and will be picked up again when you reload the page.',
+      retryable: true
+    });
+    this.name = 'TranscriptionTimeoutError';
+    this.jobName = jobName;
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+export class TranscriptFetchError extends TranscriptionError {
+  constructor(message: string, cause?: unknown) {
+    super('fetch', message, {
+      hint: 'The transcript was produced but could not be downloaded. Check that your AWS user may read from the bucket.',
+      retryable: true,
+      cause
+    });
+    this.name = 'TranscriptFetchError';
+  }
+}
+
+const CREDENTIAL_ERROR_CODES = new Set([
+  'CredentialsError',
+  'InvalidAccessKeyId',
+  'SignatureDoesNotMatch',
+  'UnrecognizedClientException',
+  'InvalidSignatureException',
+  'ExpiredToken',
+  'ExpiredTokenException',
+  'MissingAuthenticationToken'
+]);
+
+function describeCause(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Wrap an unknown error from a pipeline step, recognising credential problems
+// wherever they surface
+export function toTranscriptionError(
+  error: unknown,
+  wrap: (message: string, cause: unknown) => TranscriptionError
+): TranscriptionError {
+  if (error instanceof TranscriptionError) return error;
+
+  const code = (error as { code?: string } | null)?.code;
+  if (code && CREDENTIAL_ERROR_CODES.has(code)) {
+    return new CredentialsError(`AWS rejected the credentials: ${describeCause(error)}`, error);
+  }
+
+  return wrap(describeCause(error), error);
+}
@@ -0,0 +1,72 @@
+// Transcription jobs that have been started in AWS but whose results have not
+// been collected yet. They are kept in localStorage so a reloaded tab can
+// reattach to them instead of losing a job that keeps running (and billing).
+
+import type { TranscriptionProviderId } from '@/lib/providers/types';
+import type { VocabularyFilterMethod } from '@/lib/transcription-api-contract';
+
+const STORAGE_KEY = 'transcriptionJobs';
+
+export type PersistedJobStatus = 'QUEUED' | 'IN_PROGRESS' | 'COMPLETED' | 'FAILED';
+
+export interface PersistedJobOptions {
+  maxSpeakers?: number;
+  channelIdentification?: boolean;
+  languageOptions?: string[];
+  identifyMultipleLanguages?: boolean;
+  vocabularyName?: string;
+  vocabularyFilterName?: string;
+  vocabularyFilterMethod?: VocabularyFilterMethod;
+}
+
+export interface PersistedJob {
+  jobName: string;
+  // Records from before providers existed were all started in AWS
+  provider?: TranscriptionProviderId;
+  s3Key: string;
+  fileName: string;
+  fileSize: number;
+  language: string;
+  jobOptions: PersistedJobOptions;
+  cacheKey?: string;
+  fileHash?: string;
+  mediaDuration?: number; // seconds, when it could be probed before upload
+  status: PersistedJobStatus;
+  createdAt: number;
+  updatedAt: number;
+}
+
+function readJobs(): PersistedJob[] {
+  try {
+    const jobs = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(jobs) ? jobs : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeJobs(jobs: PersistedJob[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(jobs));
+}
+
+export function listPersistedJobs(): PersistedJob[] {
+  return readJobs().sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export function getPersistedJob(jobName: string): PersistedJob | null {
+  return readJobs().find(job => job.jobName === jobName) || null;
+}
+
+export function savePersistedJob(job: PersistedJob) {
+  writeJobs([...readJobs().filter(existing => existing.jobName !== job.jobName), job]);
+}
+
+export function updatePersistedJob(jobName: string, patch: Partial<PersistedJob>) {
+  writeJobs(readJobs().map(job =>
+    job.jobName === jobName ? { ...job, ...patch, updatedAt: Date.now() } : job
+  ));
+}
+
+export function removePersistedJob(jobName: string) {
+  writeJobs(readJobs().filter(job => job.jobName !== jobName));
+}
@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TRANSCRIBE_FIXTURES } from '@/lib/providers/fixtures';
+import { transcribeAudio, type TranscribeResult } from '@/lib/transcription';
+import { listPersistedJobs } from '@/lib/transcription-jobs';
+import { JobFailedError } from '@/lib/transcription-errors';
+import { buildTranscriptModel, parseTranscribeOutput } from '@/lib/transcribe-output';
+
+// The whole batch flow against the mock provider: media inspection, upload,
+// job start, polling, transcript parsing and segmentation, offline.
+
+vi.mock('@/config/transcription-config', async importOriginal => {
+  const { transcriptionConfig } = await importOriginal<typeof import('@/config/transcription-config')>();
+  return { transcriptionConfig: { ...transcriptionConfig, provider: 'mock' } };
+});
+
+// Node has no media elements to read a duration from
+vi.mock('@/lib/media-probe', () => ({ probeMediaDuration: async () => 12 }));
+
+// One second of 16 kHz mono PCM silence
+function wavFile(name: string): File {
+  const sampleRate = 16000;
+  const dataBytes = sampleRate * 2;
+  const buffer = new ArrayBuffer(44 + dataBytes);
+  const view = new DataView(buffer);
+  const ascii = (offset: number, text: string) => [...text].forEach((char, i) => view.setUint8(offset + i, char.charCodeAt(0)));
+  ascii(0, 'RIFF');
+  view.setUint32(4, 36 + dataBytes, true);
+  ascii(8, 'WAVE');
+  ascii(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  ascii(36, 'data');
+  view.setUint32(40, dataBytes, true);
+  return new File([buffer], name, { type: 'audio/wav' });
+}
+
+// Runs a transcription to the end with polling delays skipped
+async function run(promise: Promise<TranscribeResult>): Promise<TranscribeResult> {
+  let settled = false;
+  const tracked = promise.finally(() => {
+    settled = true;
+  });
+  tracked.catch(() => undefined);
+  while (!settled) await vi.advanceTimersByTimeAsync(1000);
+  return tracked;
+}
+
+beforeEach(() => {
+  const storage = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+    removeItem: (key: string) => storage.delete(key)
+  });
+  vi.useFakeTimers();
+  vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe('transcribeAudio with the mock provider', () => {
+  it('transcribes the single-speaker recording', async () => {
+    const result = await run(transcribeAudio(wavFile('lecture.wav'), 'en-US', { quiet: true }));
+    const expected = buildTranscriptModel(parseTranscribeOutput(TRANSCRIBE_FIXTURES['single-speaker']));
+
+    expect(result.cues.length).toBeGreaterThan(0);
+    expect(result.cues.map(cue => cue.text.replace(/\n/g, ' ')).join(' ')).toBe(expected.words.map(word => word.text).join(' '));
+    expect(result.cues.every(cue => !cue.speaker && !cue.channel)).toBe(true);
+    expect(result.srtContent).toMatch(/^1\n00:00:\d\d,\d{3} --> /);
+    expect(listPersistedJobs()).toEqual([]);
+  });
+
+  it('labels speakers with the two-speakers recording', async () => {
+    const result = await run(transcribeAudio(wavFile('call.wav'), 'en-US', { quiet: true, maxSpeakers: 2 }));
+    expect(new Set(result.cues.map(cue => cue.speaker))).toEqual(new Set(['spk_0', 'spk_1']));
+    expect(result.rawTranscriptData?.results.speaker_labels).toBeDefined();
+  });
+
+  it('keeps channels apart with the two-channels recording', async () => {
+    const result = await run(transcribeAudio(wavFile('support.wav'), 'en-US', { quiet: true, channelIdentification: true }));
+    expect(new Set(result.cues.map(cue => cue.channel))).toEqual(new Set(['ch_0', 'ch_1']));
+  });
+
+  it('fails jobs for files with "fail" in their name', async () => {
+    const failure = run(transcribeAudio(wavFile('will-fail.wav'), 'en-US', { quiet: true }));
+    await expect(failure).rejects.toBeInstanceOf(JobFailedError);
+    expect(listPersistedJobs()).toEqual([]);
+  });
+
+  it('refuses files that are not media before uploading them', async () => {
+    const text = new File(['just some notes'], 'notes.wav', { type: 'audio/wav' });
+    await expect(run(transcribeAudio(text, 'en-US', { quiet: true }))).rejects.toThrow(/can't be transcribed/);
+  });
+});
@@ -1,389 +1,659 @@
-import * as AWS from 'aws-sdk';
-import TranscribeService from 'aws-sdk/clients/transcribeservice';
 import { toast } from 'sonner';
-import { awsConfig } from '@/config/aws-config';
-
-// AWS Credentials Type
-export interface AwsCredentials {
-  accessKeyId: string;
-  secretAccessKey: string;
-  region: string;
-}
+import { transcriptionConfig } from '@/config/transcription-config';
+import {
+  DEFAULT_SEGMENTATION_OPTIONS,
+  segmentWords,
+  type SegmentationOptions,
+  type SubtitleCue
+} from '@/lib/segmentation';
+import { cuesToSrt } from '@/lib/subtitle-formats';
+import {
+  buildCacheKey,
+  cacheTranscriptionResult,
+  generateFileHash,
+  getCachedTranscription
+} from '@/lib/transcription-cache';
+import {
+  DEFAULT_POLLING_POLICY,
+  estimateProcessingMs,
+  getPollDelayMs,
+  getPollingTimeoutMs,
+  isTransientError
+} from '@/lib/job-polling';
+import { probeMediaDuration } from '@/lib/media-probe';
+import { inspectMedia, type MediaInfo } from '@/lib/media-format';
+import { extractAudio, shouldExtractAudio } from '@/lib/audio-extraction';
+import { AUTO_LANGUAGE, languageOptionsProblem } from '@/lib/languages';
+import { createTransferMeter, type UploadStats } from '@/lib/upload-progress';
+import {
+  removePersistedJob,
+  savePersistedJob,
+  updatePersistedJob,
+  type PersistedJob,
+  type PersistedJobStatus
+} from '@/lib/transcription-jobs';
+import {
+  buildTranscriptModel,
+  formatDuration,
+  parseTranscribeOutput,
+  TranscriptParseError,
+  type TranscribeOutput
+} from '@/lib/transcribe-output';
+import { getTranscriptionProvider, type TranscriptionProvider } from '@/lib/providers';
+import type { JobStatusResponse, VocabularyFilterMethod } from '@/lib/transcription-api-contract';
+import {
+  JobFailedError,
+  JobStartError,
+  TranscriptFetchError,
+  TranscriptionError,
+  TranscriptionTimeoutError,
+  UnsupportedMediaError,
+  UploadError,
+  toTranscriptionError
+} from '@/lib/transcription-errors';
 
 // Transcribe Result Type
 export interface TranscribeResult {
   srtContent: string;
+  cues: SubtitleCue[];
   duration: string;
-  rawTranscriptData?: any;
+  rawTranscriptData?: TranscribeOutput;
+  // Set for placeholder output produced in demo mode
+  isDemo?: boolean;
+  // Audio track taken from a video before upload; the video itself stays local
+  extractedAudio?: File;
 }
 
-// Configure AWS with credentials
-export function configureAws(credentials: AwsCredentials) {
-  try {
-    AWS.config.update({
-      accessKeyId: credentials.accessKeyId,
-      secretAccessKey: credentials.secretAccessKey,
-      region: credentials.region
-    });
-    console.log("AWS configured successfully with region:", credentials.region);
-  } catch (error) {
-    console.error("Error configuring AWS:", error);
-    toast.error("Error configuring AWS credentials");
-  }
+// Options for a single transcription job
+export interface TranscriptionOptions {
+  segmentation?: SegmentationOptions;
+  // Enables speaker diarization with up to this many speakers (2-30)
+  maxSpeakers?: number;
+  // Transcribes each audio channel separately, e.g. agent and customer on a stereo call
+  channelIdentification?: boolean;
+  // Candidates when the language is 'auto'; the server's defaults when left out
+  languageOptions?: string[];
+  // Identify every language spoken in code-switched audio, not just the main one
+  identifyMultipleLanguages?: boolean;
+  // Custom vocabulary and vocabulary filter stored in Transcribe, for the job's language or one of its candidates
+  vocabularyName?: string;
+  vocabularyFilterName?: string;
+  // How filtered words appear; Transcribe masks them by default
+  vocabularyFilterMethod?: VocabularyFilterMethod;
+  // Called as the job moves through its stages
+  onProgress?: (progress: TranscriptionProgress) => void;
+  // Suppresses toast notifications, e.g. when running as part of a batch
+  quiet?: boolean;
+  // Aborting stops polling, deletes the AWS job and removes the uploaded media
+  signal?: AbortSignal;
+  // Skips AWS entirely and returns placeholder subtitles
+  demoMode?: boolean;
 }
 
-// Check if AWS credentials are configured
-export function getAwsCredentials(): AwsCredentials {
-  // Import from config instead of using require
-  return awsConfig.credentials;
+export type TranscriptionStage = 'extracting' | 'hashing' | 'uploading' | 'transcribing' | 'fetching' | 'completed';
+
+// Status reported by AWS while a job is running
+export type TranscriptionJobStatus = 'QUEUED' | 'IN_PROGRESS';
+
+export interface TranscriptionProgress {
+  stage: TranscriptionStage;
+  percent: number; // overall progress, 0-100
+  jobStatus?: TranscriptionJobStatus;
+  // Bytes, throughput and time left while uploading
+  upload?: UploadStats;
 }
 
-// Add retry logic for AWS operations
-const retryOperation = async <T>(operation: () => Promise<T>, maxRetries = 3, delay = 1000): Promise<T> => {
+// Share of overall progress at which each stage starts
+const STAGE_PROGRESS: Record<TranscriptionStage, number> = {
+  extracting: 0,
+  hashing: 0,
+  uploading: 5,
+  transcribing: 40,
+  fetching: 90,
+  completed: 100
+};
+
+// Decoding and re-encoding a video's audio takes a good share of the time, while
+// the upload is small. Matches STAGE_PROGRESS once the job is transcribing.
+const EXTRACTION_STAGE_PROGRESS: Record<TranscriptionStage, number> = {
+  extracting: 0,
+  hashing: 30,
+  uploading: 32,
+  transcribing: 40,
+  fetching: 90,
+  completed: 100
+};
+
+// Toast wrapper that can be silenced for batch runs
+function createNotifier(quiet = false) {
+  return {
+    info: (message: string) => { if (!quiet) toast.info(message); },
+    success: (message: string) => { if (!quiet) toast.success(message); },
+    error: (message: string) => { if (!quiet) toast.error(message); }
+  };
+}
+
+// Add retry logic for network operations
+const retryOperation = async <T>(
+  operation: () => Promise<T>,
+  signal?: AbortSignal,
+  maxRetries = 3,
+  delay = 1000
+): Promise<T> => {
   let lastError;
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
     try {
       return await operation();
     } catch (error) {
+      // A cancelled operation must not be retried
+      throwIfAborted(signal);
       console.warn(`Operation failed (attempt ${attempt}/${maxRetries}):`, error);
       lastError = error;
       if (attempt < maxRetries) {
-        await new Promise(resolve => setTimeout(resolve, delay * attempt)); // Exponential backoff
+        await sleep(delay * attempt, signal); // Exponential backoff
       }
     }
   }
   throw lastError;
 };
 
-// Add caching for transcription results
-const cacheTranscriptionResult = (fileHash: string, result: TranscribeResult) => {
-  const cache = JSON.parse(localStorage.getItem('transcriptionCache') || '{}');
-  cache[fileHash] = {
-    result,
-    timestamp: Date.now()
-  };
-  localStorage.setItem('transcriptionCache', JSON.stringify(cache));
-};
+// Cache lookups must never block a transcription, so failures are logged and ignored
+async function readCachedResult(
+  cacheKey: string,
+  segmentation: SegmentationOptions
+): Promise<TranscribeResult | null> {
+  try {
+    const cached = await getCachedTranscription(cacheKey);
+    if (!cached) return null;
+    
+    // Re-segment so the current subtitle style applies to cached results too
+    if (!cached.rawTranscriptData) return cached;
+    const cues = transcriptToCues(cached.rawTranscriptData, segmentation);
+    return { ...cached, cues, srtContent: cuesToSrt(cues) };
+  } catch (error) {
+    console.warn('Transcription cache lookup failed:', error);
+    return null;
+  }
+}
 
-const getCachedTranscription = (fileHash: string): TranscribeResult | null => {
-  const cache = JSON.parse(localStorage.getItem('transcriptionCache') || '{}');
-  const entry = cache[fileHash];
+// Build the subtitle cue list from AWS Transcript data
+export function transcriptToCues(
+  transcript: TranscribeOutput,
+  options: SegmentationOptions = DEFAULT_SEGMENTATION_OPTIONS
+): SubtitleCue[] {
+  const model = buildTranscriptModel(transcript);
   
-  if (entry && Date.now() - entry.timestamp < 24 * 60 * 60 * 1000) { // 24 hours
-    return entry.result;
-  }
+  // If there are no items with timestamps, just use the full text as one subtitle
+  const fallback = model.text ? [{ start: 0, end: 300, text: model.text }] : [];
   
-  return null;
-};
+  const cues = segmentWords(model.words, options);
+  return cues.length > 0 ? cues : fallback;
+}
 
-// Generate a simple hash for the file
-const generateFileHash = async (file: File): Promise<string> => {
-  const buffer = await file.arrayBuffer();
-  const hashBuffer = await crypto.subtle.digest('SHA-256', buffer);
-  return Array.from(new Uint8Array(hashBuffer))
-    .map(b => b.toString(16).padStart(2, '0'))
-    .join('');
-};
+// Build one cue list per audio channel for channel-identified transcripts.
+// Returns an empty object when the job did not use channel identification.
+export function transcriptToChannelTracks(
+  transcript: TranscribeOutput,
+  options: SegmentationOptions = DEFAULT_SEGMENTATION_OPTIONS
+): Record<string, SubtitleCue[]> {
+  const model = buildTranscriptModel(transcript);
+  const tracks: Record<string, SubtitleCue[]> = {};
+  
+  for (const channel of model.channels) {
+    tracks[channel] = segmentWords(model.words.filter(word => word.channel === channel), options);
+  }
+  
+  return tracks;
+}
 
 // Helper function to convert AWS Transcript format to SRT
-function convertTranscriptToSrt(transcriptData: any): string {
-  if (!transcriptData.results || !transcriptData.results.transcripts) {
-    console.warn('Invalid transcript data format');
-    return '';
-  }
+export function convertTranscriptToSrt(
+  transcriptData: TranscribeOutput,
+  options: SegmentationOptions = DEFAULT_SEGMENTATION_OPTIONS
+): string {
+  return cuesToSrt(transcriptToCues(transcriptData, options));
+}
+
+// Placeholder transcription for demo mode. Only used when the user turns demo mode on.
+async function simulateTranscription(
+  file: File,
+  options: Pick<TranscriptionOptions, 'onProgress' | 'signal'> = {}
+): Promise<TranscribeResult> {
+  const reportProgress = createProgressReporter(options.onProgress);
   
-  console.log('Transcript data structure:', JSON.stringify({
-    hasItems: !!transcriptData.results.items,
-    itemCount: transcriptData.results.items?.length || 0,
-    hasSpeakerLabels: !!transcriptData.results.speaker_labels,
-    transcripts: transcriptData.results.transcripts
-  }));
+  // Simulate processing delay
+  reportProgress('transcribing');
+  await sleep(2000, options.signal);
+  reportProgress('completed');
   
-  // Simple approach: use the full transcript as a single subtitle
-  if (transcriptData.results.transcripts && transcriptData.results.transcripts.length > 0) {
-    const fullText = transcriptData.results.transcripts[0].transcript;
-    
-    // If there are no items with timestamps, just return the full text as one subtitle
-    if (!transcriptData.results.items || transcriptData.results.items.length === 0) {
-      return "1\n00:00:00,000 --> 00:05:00,000\n" + fullText + "\n\n";
+  // Generate a simple demo transcript
+  const fileName = file.name.replace(/\.[^/.]+$/, "");
+  const cues: SubtitleCue[] = [
+    { start: 0, end: 5, text: `[DEMO] Simulated transcription for ${fileName}.` },
+    { start: 5.5, end: 10, text: 'Demo mode is on, so no audio was sent to AWS.' },
+    { start: 10.5, end: 15, text: 'Turn demo mode off to transcribe this file for real.' }
+  ];
+
+  return {
+    srtContent: cuesToSrt(cues),
+    cues,
+    duration: "0:15",
+    isDemo: true
+  };
+}
+
+// Error thrown when a transcription is cancelled through its AbortSignal
+function createAbortError(): DOMException {
+  return new DOMException('Transcription cancelled', 'AbortError');
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) throw createAbortError();
+}
+
+// setTimeout that rejects early when the signal is aborted
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
     }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function createProgressReporter(
+  onProgress?: (progress: TranscriptionProgress) => void,
+  stages: Record<TranscriptionStage, number> = STAGE_PROGRESS
+) {
+  return (
+    stage: TranscriptionStage,
+    stageFraction = 0,
+    details: Pick<TranscriptionProgress, 'jobStatus' | 'upload'> = {}
+  ) => {
+    const start = stages[stage];
+    const next = Object.values(stages).find(value => value > start) ?? 100;
+    onProgress?.({ stage, percent: Math.round(start + (next - start) * stageFraction), ...details });
+  };
+}
+
+// Run one pipeline step, converting its failures into a typed error
+async function runStep<T>(
+  step: () => Promise<T>,
+  wrap: (message: string, cause: unknown) => TranscriptionError
+): Promise<T> {
+  try {
+    return await step();
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    throw toTranscriptionError(error, wrap);
   }
+}
+
+// Options for reattaching to a job that is already running in AWS
+export type ResumeOptions = Pick<TranscriptionOptions, 'segmentation' | 'onProgress' | 'quiet' | 'signal'>;
+
+// Poll a started job until it finishes, then fetch and convert its transcript.
+// The persisted record is kept up to date and removed once the job is done.
+async function waitForTranscriptionJob(
+  job: PersistedJob,
+  options: ResumeOptions,
+  provider: TranscriptionProvider = getTranscriptionProvider(job.provider)
+): Promise<TranscribeResult> {
+  const segmentation = options.segmentation || DEFAULT_SEGMENTATION_OPTIONS;
+  const notify = createNotifier(options.quiet);
+  const reportProgress = createProgressReporter(options.onProgress);
+  const { signal } = options;
   
-  const items = transcriptData.results.items || [];
-  let srtContent = '';
-  let index = 1;
-  let currentLine = '';
-  let startTime = '';
-  let endTime = '';
+  // Poll for job completion. The deadline counts from job creation so resumed jobs keep their budget.
+  notify.info('Processing transcription...');
+  reportProgress('transcribing');
+  const timeoutMs = getPollingTimeoutMs(job.mediaDuration);
+  const expectedMs = estimateProcessingMs(job.mediaDuration);
+  const deadline = job.createdAt + timeoutMs;
+  let lastStatus: string | undefined;
+  let attempt = 0;
+  let consecutiveErrors = 0;
   
-  for (let i = 0; i < items.length; i++) {
-    const item = items[i];
+  for (;;) {
+    if (Date.now() > deadline) {
+      throw new TranscriptionTimeoutError(job.jobName, timeoutMs);
+    }
+    await sleep(getPollDelayMs(attempt++), signal);
     
-    if (item.type === 'pronunciation') {
-      if (currentLine === '') {
-        startTime = item.start_time;
+    let jobStatus: JobStatusResponse;
+    try {
+      jobStatus = await provider.getJobStatus(job.jobName, signal);
+      consecutiveErrors = 0;
+    } catch (pollError) {
+      throwIfAborted(signal);
+      consecutiveErrors++;
+      if (!isTransientError(pollError) || consecutiveErrors >= DEFAULT_POLLING_POLICY.maxConsecutiveErrors) {
+        console.error('Error polling job status:', pollError);
+        throw toTranscriptionError(
+          pollError,
+          (message, cause) => new TranscriptFetchError(`Could not check the job status: ${message}`, cause)
+        );
       }
-      
-      currentLine += item.alternatives[0].content + ' ';
-      endTime = item.end_time;
-    } else if (item.type === 'punctuation') {
-      currentLine = currentLine.trim() + item.alternatives[0].content;
+      console.warn(`Transient error polling job status (${consecutiveErrors} in a row), retrying:`, pollError);
+      continue;
     }
     
-    // End of sentence or last item
-    const isPunctuation = item.type === 'punctuation';
-    const isEndOfSentence = isPunctuation && 
-      ['.', '?', '!'].includes(item.alternatives[0].content);
-    const isLastItem = i === items.length - 1;
+    const { status } = jobStatus;
+    if (status !== lastStatus) {
+      console.log(`Job status: ${lastStatus || 'NEW'} -> ${status}`);
+      updatePersistedJob(job.jobName, { status });
+      lastStatus = status;
+    }
     
-    if (isEndOfSentence || isLastItem) {
-      if (startTime && endTime) {
-        const srtStartTime = formatSrtTime(parseFloat(startTime));
-        const srtEndTime = formatSrtTime(parseFloat(endTime));
-        
-        srtContent += `${index}\n`;
-        srtContent += `${srtStartTime} --> ${srtEndTime}\n`;
-        srtContent += `${currentLine.trim()}\n\n`;
-        
-        index++;
-        currentLine = '';
-        startTime = '';
-      }
+    if (status === 'COMPLETED') {
+      console.log('Transcription job completed successfully');
+      break;
     }
+    if (status === 'FAILED') {
+      removePersistedJob(job.jobName);
+      throw new JobFailedError(jobStatus.failureReason);
+    }
+    
+    const elapsedFraction = Math.min(0.95, (Date.now() - job.createdAt) / expectedMs);
+    reportProgress('transcribing', elapsedFraction, { jobStatus: status });
   }
   
-  // If no SRT content was generated, use the full transcript as a fallback
-  if (srtContent === '' && transcriptData.results.transcripts && transcriptData.results.transcripts.length > 0) {
-    const fullText = transcriptData.results.transcripts[0].transcript;
-    srtContent = "1\n00:00:00,000 --> 00:05:00,000\n" + fullText + "\n\n";
-  }
+  // Get the transcript
+  console.log('Fetching transcript for job:', job.jobName);
+  reportProgress('fetching');
   
-  return srtContent;
+  try {
+    const transcriptContent = await runStep(
+      () => retryOperation(() => provider.fetchTranscript(job.jobName, signal), signal),
+      (message, cause) => new TranscriptFetchError(`Could not download the transcript: ${message}`, cause)
+    );
+    
+    // Parse and validate the JSON content returned by the provider
+    let transcriptJson: unknown;
+    try {
+      transcriptJson = JSON.parse(transcriptContent);
+    } catch {
+      throw new TranscriptParseError([{ path: '', message: 'Transcript is not valid JSON' }]);
+    }
+    const transcriptData = parseTranscribeOutput(transcriptJson);
+    const model = buildTranscriptModel(transcriptData);
+    
+    console.log('Transcript data received, converting to SRT');
+    
+    // Convert transcript to SRT format
+    const cues = transcriptToCues(transcriptData, segmentation);
+    const srtContent = cuesToSrt(cues);
+    
+    const result: TranscribeResult = {
+      srtContent,
+      cues,
+      duration: formatDuration(model.duration),
+      rawTranscriptData: transcriptData
+    };
+    
+    if (job.cacheKey) {
+      await cacheTranscriptionResult({
+        key: job.cacheKey,
+        fileHash: job.fileHash,
+        fileName: job.fileName,
+        fileSize: job.fileSize,
+        language: job.language,
+        jobOptions: { ...job.jobOptions },
+        result
+      }).catch(error => console.warn('Could not cache transcription result:', error));
+    }
+    
+    removePersistedJob(job.jobName);
+    reportProgress('completed');
+    return result;
+  } catch (fetchError) {
+    if (isAbortError(fetchError)) throw fetchError;
+    console.error('Error fetching transcript:', fetchError);
+    throw toTranscriptionError(
+      fetchError,
+      (message, cause) => new TranscriptFetchError(`Failed to fetch transcript data: ${message}`, cause)
+    );
+  }
 }
 
-// Format time for SRT (00:00:00,000)
-function formatSrtTime(seconds: number): string {
-  const hours = Math.floor(seconds / 3600);
-  const minutes = Math.floor((seconds % 3600) / 60);
-  const secs = Math.floor(seconds % 60);
-  const milliseconds = Math.floor((seconds % 1) * 1000);
+// Reattach to a job persisted by an earlier page load
+export async function resumeTranscription(job: PersistedJob, options: ResumeOptions = {}): Promise<TranscribeResult> {
+  const provider = getTranscriptionProvider(job.provider);
+  const abort = () => cancelTranscriptionJob(job, provider);
+  options.signal?.addEventListener('abort', abort, { once: true });
   
-  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')},${milliseconds.toString().padStart(3, '0')}`;
+  try {
+    return await waitForTranscriptionJob(job, options, provider);
+  } finally {
+    options.signal?.removeEventListener('abort', abort);
+  }
 }
 
-// Simulate transcription for demo/fallback purposes
-async function simulateTranscription(file: File): Promise<TranscribeResult> {
-  // Simulate processing delay
-  await new Promise(resolve => setTimeout(resolve, 2000));
+// Stop a job with its provider and remove its uploaded media and local record
+export async function cancelTranscriptionJob(
+  job: PersistedJob,
+  provider = getTranscriptionProvider(job.provider)
+): Promise<void> {
+  removePersistedJob(job.jobName);
   
-  // Generate a simple demo transcript
-  const fileName = file.name.replace(/\.[^/.]+$/, "");
-  const srtContent = `1
-00:00:00,000 --> 00:00:05,000
-This is a simulated transcription for ${fileName}.
-
-2
-00:00:05,500 --> 00:00:10,000
-The actual transcription service encountered an error.
-
-3
-00:00:10,500 --> 00:00:15,000
-Please check your AWS credentials and try again.
-
-`;
-
-  return {
-    srtContent,
-    duration: "0:15"
-  };
+  await provider.cancelJob(job.jobName)
+    .catch(error => console.warn('Could not cancel transcription job:', error));
+  console.log('Transcription job cancelled:', job.jobName);
 }
 
-// Transcribe audio file using AWS Transcribe
-export async function transcribeAudio(file: File, language: string = 'ta-IN'): Promise<TranscribeResult> {
-  const credentials = getAwsCredentials();
+// Transcribe an audio file with the configured provider
+export async function transcribeAudio(
+  file: File,
+  language: string = 'ta-IN',
+  options: TranscriptionOptions = {}
+): Promise<TranscribeResult> {
+  const segmentation = options.segmentation || DEFAULT_SEGMENTATION_OPTIONS;
+  const notify = createNotifier(options.quiet);
+  const { signal } = options;
   
-  configureAws(credentials);
+  if (options.demoMode) {
+    return simulateTranscription(file, options);
+  }
   
+  // Transcribe rejects jobs that request both kinds of identification
+  if (options.maxSpeakers && options.channelIdentification) {
+    throw new JobStartError('Speaker identification and channel identification cannot be used together');
+  }
+  const identifying = language === AUTO_LANGUAGE;
+  const languageProblem = identifying && options.languageOptions ? languageOptionsProblem(options.languageOptions) : null;
+  if (languageProblem) {
+    throw new JobStartError(languageProblem);
+  }
+  // Reuse an earlier result for the same content, language and job options
+  const jobOptions = {
+    maxSpeakers: options.maxSpeakers,
+    channelIdentification: options.channelIdentification,
+    languageOptions: identifying && options.languageOptions ? [...options.languageOptions].sort() : undefined,
+    identifyMultipleLanguages: identifying && options.identifyMultipleLanguages ? true : undefined,
+    vocabularyName: options.vocabularyName,
+    vocabularyFilterName: options.vocabularyFilterName,
+    vocabularyFilterMethod: options.vocabularyFilterName ? options.vocabularyFilterMethod : undefined
+  };
+  
+  // Check the file's contents before hashing or uploading anything, and tell
+  // Transcribe what it really is rather than what its name says
+  const provider = getTranscriptionProvider();
+  let media: MediaInfo | null = null;
+  if (!provider.takesTranscripts) {
+    media = await inspectMedia(file);
+    console.log('Inspected media:', JSON.stringify(media));
+  }
+  
+  // Videos are reduced to a small audio file in the browser, so only the audio
+  // is hashed and uploaded while the video stays local for the preview
+  const extracting = media !== null && shouldExtractAudio(media);
+  const reportProgress = createProgressReporter(
+    options.onProgress,
+    extracting ? EXTRACTION_STAGE_PROGRESS : STAGE_PROGRESS
+  );
+  let audio = file;
+  if (extracting) {
+    reportProgress('extracting');
+    audio = await runStep(
+      () => extractAudio(file, { signal, onProgress: fraction => reportProgress('extracting', fraction) }),
+      (message, cause) => new UnsupportedMediaError(`Could not extract the audio from ${file.name}: ${message}`, cause)
+    );
+    console.log('Extracted audio:', JSON.stringify({ FileName: audio.name, FileSize: audio.size }));
+    media = await inspectMedia(audio);
+  }
+  if (media && !media.mediaFormat) {
+    throw new UnsupportedMediaError(`${file.name} can't be transcribed: ${media.problem}`);
+  }
+  const extractedAudio = audio === file ? undefined : audio;
+  // The limit applies to what is uploaded, which for videos is the extracted audio
+  const { maxFileSizeMB } = transcriptionConfig.upload;
+  if (media && audio.size > maxFileSizeMB * 1024 * 1024) {
+    throw new UnsupportedMediaError(`${audio.name} is too large to transcribe. Maximum size is ${maxFileSizeMB}MB`);
+  }
+  
+  reportProgress('hashing');
+  let fileHash: string | null = null;
   try {
-    // Use the imported config instead of require
-    const s3Config = awsConfig.s3;
-    
-    // Upload file to S3
-    toast.info('Uploading audio to AWS S3...');
-    const s3 = new AWS.S3();
-    const fileKey = `transcription-inputs/${Date.now()}-${file.name}`;
-    
-    const uploadParams = {
-      Bucket: s3Config.bucket,
-      Key: fileKey,
-      Body: file,
-      ContentType: file.type
-    };
+    fileHash = await generateFileHash(audio);
+  } catch (error) {
+    console.warn('Could not hash file for the transcription cache:', error);
+  }
+  
+  const cacheKey = fileHash && provider.cacheResults ? buildCacheKey(fileHash, language, jobOptions) : null;
+  if (cacheKey) {
+    const cached = await readCachedResult(cacheKey, segmentation);
+    if (cached) {
+      notify.success('Loaded transcription from cache');
+      reportProgress('completed');
+      return { ...cached, extractedAudio };
+    }
+  }
+  
+  // Probe the duration so polling can scale its timeout to the recording length
+  const mediaDuration = await probeMediaDuration(file);
+  console.log('Probed media duration (s):', mediaDuration);
+  
+  let job: PersistedJob | null = null;
+  let uploadKey: string | null = null;
+  // Media uploaded for a job that never started is removed on its own
+  const discardUpload = () => {
+    if (!uploadKey) return;
+    provider.deleteUpload(uploadKey).catch(error => console.warn('Could not delete the uploaded media:', error));
+  };
+  // Cancelling must also stop the job, or remove the media before there is one
+  const onAbort = () => {
+    if (job) cancelTranscriptionJob(job, provider);
+    else discardUpload();
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+  
+  try {
+    throwIfAborted(signal);
     
-    console.log('Starting S3 upload with params:', JSON.stringify({
-      Bucket: uploadParams.Bucket,
-      Key: uploadParams.Key,
-      ContentType: uploadParams.ContentType,
-      FileSize: file.size
+    // Upload the file
+    notify.info('Uploading audio...');
+    reportProgress('uploading');
+    console.log('Starting upload:', JSON.stringify({
+      FileName: audio.name,
+      ContentType: audio.type,
+      FileSize: audio.size
     }));
     
-    // Use retry logic for upload
-    await retryOperation(() => s3.upload(uploadParams).promise());
-    console.log('S3 upload successful');
-    toast.success('Audio uploaded successfully');
+    // Retries resume multipart uploads from the parts that already arrived
+    const measureTransfer = createTransferMeter();
+    const upload = await runStep(
+      () => retryOperation(() => provider.upload(audio, {
+        signal,
+        onProgress: (loaded, total) => reportProgress('uploading', total ? loaded / total : 1, {
+          upload: measureTransfer(loaded, total)
+        })
+      }), signal),
+      (message, cause) => new UploadError(`Upload failed: ${message}`, cause)
+    );
+    uploadKey = upload.key;
+    console.log('Upload successful');
+    notify.success('Audio uploaded successfully');
+    throwIfAborted(signal);
     
     // Start transcription job
-    toast.info('Starting transcription job...');
-
-    const transcribeService = new TranscribeService({
-      apiVersion: '2017-10-26',
-      region: credentials.region,
-      credentials: {
-        accessKeyId: credentials.accessKeyId,
-        secretAccessKey: credentials.secretAccessKey
-      }
-    });
+    notify.info('Starting transcription job...');
     
-    const jobName = `job-${Date.now()}`;
-    const mediaUri = `s3://${uploadParams.Bucket}/${fileKey}`;
-    
-    // If language is set to auto, use language identification
-    const transcriptionParams = {
-      TranscriptionJobName: jobName,
-      // Use LanguageCode if a specific language is selected, otherwise use IdentifyLanguage
-      ...(language !== 'auto' 
-        ? { LanguageCode: language } 
-        : { IdentifyLanguage: true, LanguageOptions: ['ta-IN', 'en-US', 'hi-IN'] }),
-      MediaFormat: file.name.split('.').pop()?.toLowerCase() || 'mp3',
-      Media: {
-        MediaFileUri: mediaUri
-      },
-      OutputBucketName: uploadParams.Bucket
+    const jobRequest = {
+      key: upload.key,
+      language,
+      // Providers that take transcripts ignore the media format
+      mediaFormat: media?.mediaFormat ?? 'mp3',
+      mediaSampleRateHertz: media?.sampleRate,
+      ...jobOptions
     };
+    console.log('Starting transcription job with params:', JSON.stringify(jobRequest));
     
-    console.log('Starting transcription job with params:', JSON.stringify(transcriptionParams));
-    
-    await transcribeService.startTranscriptionJob(transcriptionParams).promise();
-    console.log('Transcription job started successfully');
+    const jobName = await runStep(
+      () => provider.startJob(jobRequest, signal),
+      (message, cause) => new JobStartError(`Could not start the transcription job: ${message}`, cause)
+    );
+    console.log('Transcription job started successfully:', jobName);
     
-    // Poll for job completion
-    toast.info('Processing transcription...');
-    let jobComplete = false;
-    let transcriptionJob;
-    let pollCount = 0;
-    const maxPolls = 60; // Maximum number of polling attempts (5 minutes at 5-second intervals)
-    
-    while (!jobComplete && pollCount < maxPolls) {
-      await new Promise(resolve => setTimeout(resolve, 5000)); // Poll every 5 seconds
-      pollCount++;
-      
-      console.log(`Polling for job status (attempt ${pollCount}/${maxPolls})...`);
-      
-      try {
-        const jobResult = await transcribeService.getTranscriptionJob({
-          TranscriptionJobName: jobName
-        }).promise();
-        
-        transcriptionJob = jobResult.TranscriptionJob;
-        console.log(`Job status: ${transcriptionJob?.TranscriptionJobStatus}`);
-        
-        if (transcriptionJob?.TranscriptionJobStatus === 'COMPLETED') {
-          jobComplete = true;
-          console.log('Transcription job completed successfully');
-        } else if (transcriptionJob?.TranscriptionJobStatus === 'FAILED') {
-          throw new Error(`Transcription job failed: ${transcriptionJob.FailureReason}`);
-        }
-      } catch (pollError) {
-        console.error('Error polling job status:', pollError);
-        // Continue polling despite errors
-      }
-    }
-    
-    if (!jobComplete) {
-      throw new Error('Transcription job timed out after 5 minutes');
-    }
-    
-    console.log('Transcription job details:', JSON.stringify(transcriptionJob));
-    
-    // Get the transcript
-    if (transcriptionJob?.Transcript?.TranscriptFileUri) {
-      console.log('Fetching transcript from:', transcriptionJob.Transcript.TranscriptFileUri);
-      
-      try {
-        // Extract the S3 key from the TranscriptFileUri
-        const transcriptUri = transcriptionJob.Transcript.TranscriptFileUri;
-        
-        // The URI format is typically: https://s3.REGION.amazonaws.com/BUCKET/KEY
-        // We need to extract just the KEY part
-        const parsedUrl = new URL(transcriptUri);
-        const pathParts = parsedUrl.pathname.split('/');
-        // Remove the first empty element and the bucket name
-        const transcriptKey = pathParts.slice(2).join('/');
-        
-        console.log('Fetching transcript with key:', transcriptKey);
-        
-        // Use S3 getObject instead of fetch
-        const transcriptObject = await s3.getObject({
-          Bucket: uploadParams.Bucket,
-          Key: transcriptKey
-        }).promise();
-        
-        // Parse the JSON content from the S3 object
-        const transcriptContent = transcriptObject.Body?.toString('utf-8') || '';
-        const transcriptData = JSON.parse(transcriptContent);
-        
-        console.log('Transcript data received, converting to SRT');
-        
-        // Convert transcript to SRT format
-        const srtContent = convertTranscriptToSrt(transcriptData);
-        
-        // Calculate duration from transcript items
-        let maxEndTime = 0;
-        if (transcriptData.results && transcriptData.results.items) {
-          transcriptData.results.items.forEach((item: any) => {
-            if (item.end_time && parseFloat(item.end_time) > maxEndTime) {
-              maxEndTime = parseFloat(item.end_time);
-            }
-          });
-        }
-        
-        const minutes = Math.floor(maxEndTime / 60);
-        const seconds = Math.floor(maxEndTime % 60);
-        
-        return {
-          srtContent,
-          duration: `${minutes}:${seconds.toString().padStart(2, '0')}`,
-          rawTranscriptData: transcriptData
-        };
-      } catch (fetchError) {
-        console.error('Error fetching transcript:', fetchError);
-        throw new Error('Failed to fetch transcript data: ' + (fetchError instanceof Error ? fetchError.message : String(fetchError)));
-      }
+    job = {
+      jobName,
+      provider: provider.id,
+      s3Key: upload.key,
+      fileName: file.name,
+      fileSize: file.size,
+      language,
+      jobOptions,
+      cacheKey: cacheKey || undefined,
+      fileHash: fileHash || undefined,
+      mediaDuration: mediaDuration || undefined,
+      status: 'QUEUED',
+      createdAt: Date.now(),
+      updatedAt: Date.now()
+    };
+    savePersistedJob(job);
+    if (signal?.aborted) {
+      onAbort();
+      throw createAbortError();
     }
     
-    throw new Error('Could not retrieve transcription results');
+    const result = await waitForTranscriptionJob(job, { ...options, segmentation }, provider);
+    return { ...result, extractedAudio };
     
   } catch (error) {
-    console.error('Transcription error:', error);
-    
-    // Provide more detailed error messages
-    let errorMessage = 'AWS Transcribe API error. Using simulation for demo.';
-    if (error instanceof Error) {
-      errorMessage += ` Error: ${error.message}`;
-      console.log('Error stack:', error.stack);
+    // Cancellation is a user decision, not a failure to paper over
+    if (isAbortError(error) || signal?.aborted) {
+      throw createAbortError();
+    }
+    // A slow job is still running in AWS, and a transcript that couldn't be
+    // fetched is still there; keep the record so the job can be resumed
+    if (job && (error instanceof TranscriptionTimeoutError || error instanceof TranscriptFetchError)) {
+      notify.error(error.message);
+      throw error;
     }
     
-    toast.error(errorMessage);
-    console.log('Falling back to simulation mode due to error:', error);
-    
-    // Log additional information that might help diagnose the issue
-    console.log('File details:', {
-      name: file.name,
-      type: file.type,
-      size: file.size,
-      lastModified: new Date(file.lastModified).toISOString()
-    });
+    console.error('Transcription error:', error);
+    if (job) removePersistedJob(job.jobName);
+    else discardUpload();
     
-    return await simulateTranscription(file);
+    const transcriptionError = toTranscriptionError(
+      error,
+      (message, cause) => new TranscriptFetchError(message, cause)
+    );
+    notify.error(transcriptionError.message);
+    throw transcriptionError;
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,206 @@
+// Languages Amazon Translate translates between, and the offline dictionaries
+// the mock translator and mock server use. The server compiles this file too,
+// so it only uses relative imports.
+
+export interface TranslationLanguage {
+  code: string;
+  name: string;
+}
+
+export const TRANSLATION_LANGUAGES = [
+  { code: 'af', name: 'Afrikaans' },
+  { code: 'sq', name: 'Albanian' },
+  { code: 'am', name: 'Amharic' },
+  { code: 'ar', name: 'Arabic' },
+  { code: 'hy', name: 'Armenian' },
+  { code: 'az', name: 'Azerbaijani' },
+  { code: 'bn', name: 'Bengali' },
+  { code: 'bs', name: 'Bosnian' },
+  { code: 'bg', name: 'Bulgarian' },
+  { code: 'ca', name: 'Catalan' },
+  { code: 'zh', name: 'Chinese (Simplified)' },
+  { code: 'zh-TW', name: 'Chinese (Traditional)' },
+  { code: 'hr', name: 'Croatian' },
+  { code: 'cs', name: 'Czech' },
+  { code: 'da', name: 'Danish' },
+  { code: 'fa-AF', name: 'Dari' },
+  { code: 'nl', name: 'Dutch' },
+  { code: 'en', name: 'English' },
+  { code: 'et', name: 'Estonian' },
+  { code: 'fa', name: 'Farsi (Persian)' },
+  { code: 'tl', name: 'Filipino, Tagalog' },
+  { code: 'fi', name: 'Finnish' },
+  { code: 'fr', name: 'French' },
+  { code: 'fr-CA', name: 'French (Canada)' },
+  { code: 'ka', name: 'Georgian' },
+  { code: 'de', name: 'German' },
+  { code: 'el', name: 'Greek' },
+  { code: 'gu', name: 'Gujarati' },
+  { code: 'ht', name: 'Haitian Creole' },
+  { code: 'ha', name: 'Hausa' },
+  { code: 'he', name: 'Hebrew' },
+  { code: 'hi', name: 'Hindi' },
+  { code: 'hu', name: 'Hungarian' },
+  { code: 'is', name: 'Icelandic' },
+  { code: 'id', name: 'Indonesian' },
+  { code: 'ga', name: 'Irish' },
+  { code: 'it', name: 'Italian' },
+  { code: 'ja', name: 'Japanese' },
+  { code: 'kn', name: 'Kannada' },
+  { code: 'kk', name: 'Kazakh' },
+  { code: 'ko', name: 'Korean' },
+  { code: 'lv', name: 'Latvian' },
+  { code: 'lt', name: 'Lithuanian' },
+  { code: 'mk', name: 'Macedonian' },
+  { code: 'ms', name: 'Malay' },
+  { code: 'ml', name: 'Malayalam' },
+  { code: 'mt', name: 'Maltese' },
+  { code: 'mr', name: 'Marathi' },
+  { code: 'mn', name: 'Mongolian' },
+  { code: 'no', name: 'Norwegian (Bokmål)' },
+  { code: 'ps', name: 'Pashto' },
+  { code: 'pl', name: 'Polish' },
+  { code: 'pt', name: 'Portuguese (Brazil)' },
+  { code: 'pt-PT', name: 'Portuguese (Portugal)' },
+  { code: 'pa', name: 'Punjabi' },
+  { code: 'ro', name: 'Romanian' },
+  { code: 'ru', name: 'Russian' },
+  { code: 'sr', name: 'Serbian' },
+  { code: 'si', name: 'Sinhala' },
+  { code: 'sk', name: 'Slovak' },
+  { code: 'sl', name: 'Slovenian' },
+  { code: 'so', name: 'Somali' },
+  { code: 'es', name: 'Spanish' },
+  { code: 'es-MX', name: 'Spanish (Mexico)' },
+  { code: 'sw', name: 'Swahili' },
+  { code: 'sv', name: 'Swedish' },
+  { code: 'ta', name: 'Tamil' },
+  { code: 'te', name: 'Telugu' },
+  { code: 'th', name: 'Thai' },
+  { code: 'tr', name: 'Turkish' },
+  { code: 'uk', name: 'Ukrainian' },
+  { code: 'ur', name: 'Urdu' },
+  { code: 'uz', name: 'Uzbek' },
+  { code: 'vi', name: 'Vietnamese' },
+  { code: 'cy', name: 'Welsh' }
+] as const satisfies readonly TranslationLanguage[];
+
+// Source language value that asks Translate to detect the language
+export const AUTO_SOURCE_LANGUAGE = 'auto';
+
+const TRANSLATION_LANGUAGES_BY_CODE = new Map<string, TranslationLanguage>(
+  TRANSLATION_LANGUAGES.map(language => [language.code, language])
+);
+
+export function isTranslationLanguage(code: string): boolean {
+  return TRANSLATION_LANGUAGES_BY_CODE.has(code);
+}
+
+export function translationLanguageName(code: string): string {
+  return TRANSLATION_LANGUAGES_BY_CODE.get(code)?.name ?? code;
+}
+
+// Translate code for a Transcribe locale: the locale itself where Translate has
+// that variant (fr-CA, zh-TW), otherwise its base language (ta-IN is ta)
+export function toTranslationLanguage(locale: string): string | null {
+  if (isTranslationLanguage(locale)) return locale;
+  const base = locale.split('-')[0];
+  return isTranslationLanguage(base) ? base : null;
+}
+
+// Word lists for translating offline, keyed "source>target". They cover the
+// recorded transcripts so mock output reads like a translation; other words
+// are kept as they are.
+export const MOCK_TRANSLATION_DICTIONARIES: Record<string, Record<string, string>> = {
+  'en>hi': {
+    welcome: 'स्वागत', to: 'को', this: 'यह', short: 'छोटा', lecture: 'व्याख्यान', on: 'पर', how: 'कैसे',
+    subtitles: 'उपशीर्षक', are: 'हैं', timed: 'समयबद्ध', each: 'हर', cue: 'संकेत', should: 'चाहिए',
+    stay: 'रहना', screen: 'स्क्रीन', long: 'लंबा', enough: 'पर्याप्त', be: 'होना', read: 'पढ़ा',
+    comfortably: 'आराम से', lines: 'पंक्तियाँ', broken: 'तोड़ी', at: 'पर', natural: 'स्वाभाविक',
+    pauses: 'विराम', never: 'कभी नहीं', in: 'में', the: '', middle: 'बीच', of: 'का', a: 'एक',
+    phrase: 'वाक्यांश', that: 'वह', is: 'है', all: 'सब', for: 'के लिए', today: 'आज', thank: 'धन्यवाद',
+    thanks: 'धन्यवाद', you: 'आप', listening: 'सुनने', calling: 'कॉल करने', can: 'सकता', i: 'मैं',
+    help: 'मदद', was: 'था', charged: 'शुल्क लिया', twice: 'दो बार', my: 'मेरा', last: 'पिछला',
+    order: 'ऑर्डर', am: 'हूँ', sorry: 'क्षमा', about: 'के बारे में', let: 'दीजिए', me: 'मुझे',
+    check: 'जाँच', your: 'आपका', account: 'खाता', sure: 'ज़रूर', number: 'संख्या', receipt: 'रसीद',
+    see: 'देख', duplicate: 'दोहरा', charge: 'शुल्क', and: 'और', have: 'है', refunded: 'वापस किया',
+    it: 'इसे', joining: 'जुड़ने', us: 'हमें', happy: 'खुश', here: 'यहाँ', having: 'बुलाने',
+    start: 'शुरू', with: 'के साथ', project: 'परियोजना', began: 'शुरू हुई', started: 'शुरू हुआ',
+    as: 'के रूप में', weekend: 'सप्ताहांत', experiment: 'प्रयोग', few: 'कुछ', old: 'पुरानी',
+    recordings: 'रिकॉर्डिंग', what: 'क्या', surprised: 'हैरान किया', most: 'सबसे अधिक',
+    along: 'साथ', way: 'रास्ते', honestly: 'सच कहूँ तो', much: 'कितना', people: 'लोग',
+    cared: 'परवाह की', accurate: 'सटीक', captions: 'कैप्शन', hi: 'नमस्ते'
+  },
+  'en>ta': {
+    welcome: 'வரவேற்கிறோம்', this: 'இந்த', short: 'சிறிய', lecture: 'விரிவுரை', how: 'எப்படி',
+    subtitles: 'வசனங்கள்', each: 'ஒவ்வொரு', screen: 'திரை', long: 'நீண்ட', read: 'படிக்க',
+    lines: 'வரிகள்', natural: 'இயல்பான', pauses: 'இடைநிறுத்தங்கள்', never: 'ஒருபோதும்',
+    phrase: 'சொற்றொடர்', all: 'அனைத்தும்', today: 'இன்று', thank: 'நன்றி', thanks: 'நன்றி',
+    you: 'நீங்கள்', listening: 'கேட்டதற்கு', help: 'உதவி', order: 'ஆர்டர்', sorry: 'மன்னிக்கவும்',
+    account: 'கணக்கு', sure: 'நிச்சயமாக', number: 'எண்', receipt: 'ரசீது', and: 'மற்றும்',
+    happy: 'மகிழ்ச்சி', here: 'இங்கே', project: 'திட்டம்', weekend: 'வார இறுதி',
+    experiment: 'சோதனை', old: 'பழைய', recordings: 'பதிவுகள்', what: 'என்ன', people: 'மக்கள்',
+    accurate: 'துல்லியமான', captions: 'தலைப்புகள்', hi: 'வணக்கம்'
+  },
+  'ta>en': {
+    'வணக்கம்': 'hello', 'நன்றி': 'thank you', 'இன்று': 'today', 'நான்': 'I', 'நீங்கள்': 'you',
+    'எப்படி': 'how', 'இருக்கிறீர்கள்': 'are you', 'ஆம்': 'yes', 'இல்லை': 'no', 'மற்றும்': 'and'
+  }
+};
+
+const hasOwn = (object: object, key: string) => Object.prototype.hasOwnProperty.call(object, key);
+
+// The mock's stand-in for language detection: Tamil script or else English
+export function mockSourceLanguage(source: string, text: string): string {
+  if (source !== AUTO_SOURCE_LANGUAGE) return source;
+  return /[\u0B80-\u0BFF]/.test(text) ? 'ta' : 'en';
+}
+
+// The offline dictionary for a language pair, or null when there is none
+export function findMockDictionary(source: string, target: string): Record<string, string> | null {
+  const key = `${source}>${target}`;
+  return hasOwn(MOCK_TRANSLATION_DICTIONARIES, key) ? MOCK_TRANSLATION_DICTIONARIES[key] : null;
+}
+
+export interface TextRun {
+  text: string;
+  // Glossary terms are kept as written
+  keep: boolean;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Splits text into glossary terms and the runs between them. Terms match whole
+// words in any case, longest first, so "Amazon Transcribe" wins over "Amazon".
+export function splitDoNotTranslate(text: string, terms: string[]): TextRun[] {
+  const sorted = terms.map(term => term.trim()).filter(Boolean).sort((a, b) => b.length - a.length);
+  if (sorted.length === 0) return [{ text, keep: false }];
+  const pattern = new RegExp(`(?<![\\p{L}\\p{M}\\p{N}])(?:${sorted.map(escapeRegExp).join('|')})(?![\\p{L}\\p{M}\\p{N}])`, 'giu');
+
+  const runs: TextRun[] = [];
+  let last = 0;
+  for (const match of text.matchAll(pattern)) {
+    const index = match.index ?? 0;
+    if (index > last) runs.push({ text: text.slice(last, index), keep: false });
+    runs.push({ text: match[0], keep: true });
+    last = index + match[0].length;
+  }
+  if (last < text.length) runs.push({ text: text.slice(last), keep: false });
+  return runs;
+}
+
+// Word-for-word translation with one of the dictionaries above
+export function translateWithDictionary(text: string, dictionary: Record<string, string>, doNotTranslate: string[] = []): string {
+  return splitDoNotTranslate(text, doNotTranslate)
+    .map(run => (run.keep ? run.text : run.text.replace(/[\p{L}\p{M}\p{N}']+/gu, word => {
+      const key = word.toLowerCase();
+      if (!hasOwn(dictionary, key)) return word;
+      const translated = dictionary[key];
+      // Keep sentence capitals where the target script has them
+      return word[0] !== word[0].toLowerCase() ? translated.charAt(0).toUpperCase() + translated.slice(1) : translated;
+    })))
+    .join('')
+    .replace(/ {2,}/g, ' ')
+    .replace(/ ([,.?!])/g, '$1')
+    .trim();
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import type { SubtitleCue } from '@/lib/segmentation';
+import { cuesToSrt, cuesToVtt } from '@/lib/subtitle-formats';
+import { bilingualCues, parseGlossary, translateCues, TranslationError } from '@/lib/translation';
+import { createDictionaryTranslator } from '@/lib/translators/dictionary-translator';
+
+const translator = createDictionaryTranslator();
+
+const cues: SubtitleCue[] = [
+  { start: 0.5, end: 2.25, text: 'Welcome to this\nshort lecture', speaker: 'spk_0' },
+  { start: 3.1, end: 4.75, text: 'Thank you for listening', speaker: 'spk_1', channel: 'ch_1' }
+];
+
+const toHindi = { sourceLanguage: 'en', targetLanguage: 'hi', maxCharsPerLine: 42 };
+
+describe('translateCues', () => {
+  it('keeps timings, speakers and channels', async () => {
+    const track = await translateCues(cues, translator, toHindi);
+    expect(track.language).toBe('hi');
+    expect(track.sourceLanguage).toBe('en');
+    expect(track.cues).toEqual([
+      { start: 0.5, end: 2.25, text: 'स्वागत को यह छोटा व्याख्यान', speaker: 'spk_0' },
+      { start: 3.1, end: 4.75, text: 'धन्यवाद आप के लिए सुनने', speaker: 'spk_1', channel: 'ch_1' }
+    ]);
+  });
+
+  it('sends long tracks in batches and keeps them in order', async () => {
+    const long = Array.from({ length: 60 }, (_, index) => ({ start: index * 2, end: index * 2 + 1.5, text: `thank you ${index}` }));
+    const progress: number[] = [];
+    const track = await translateCues(long, translator, { ...toHindi, onProgress: translated => progress.push(translated) });
+    expect(progress).toEqual([50, 60]);
+    expect(track.cues.map(cue => cue.text)).toEqual(long.map((_, index) => `धन्यवाद आप ${index}`));
+    expect(track.cues.map(({ start, end }) => [start, end])).toEqual(long.map(({ start, end }) => [start, end]));
+  });
+
+  it('passes glossary terms through unchanged', async () => {
+    const glossary = parseGlossary('Amazon Transcribe, lecture\nAmazon Transcribe');
+    expect(glossary).toEqual(['Amazon Transcribe', 'lecture']);
+
+    const track = await translateCues(
+      [{ start: 0, end: 3, text: 'Welcome to this Amazon Transcribe\nLecture' }],
+      translator,
+      { ...toHindi, doNotTranslate: glossary }
+    );
+    expect(track.cues[0].text).toBe('स्वागत को यह Amazon Transcribe Lecture');
+  });
+
+  it('detects the source language when asked to', async () => {
+    const track = await translateCues([{ start: 0, end: 2, text: 'வணக்கம் நன்றி' }], translator, {
+      sourceLanguage: 'auto',
+      targetLanguage: 'en'
+    });
+    expect(track.sourceLanguage).toBe('ta');
+    expect(track.cues[0].text).toBe('hello thank you');
+  });
+
+  it('refuses language pairs it has no dictionary for', async () => {
+    await expect(translateCues(cues, translator, { sourceLanguage: 'en', targetLanguage: 'fr' })).rejects.toBeInstanceOf(TranslationError);
+  });
+});
+
+describe('bilingualCues', () => {
+  it('stacks the original above the translation in SRT and WebVTT', async () => {
+    const { cues: translated } = await translateCues(cues, translator, toHindi);
+    const bilingual = bilingualCues(cues, translated);
+
+    expect(cuesToSrt(bilingual, { includeSpeakers: false })).toBe(
+      '1\n00:00:00,500 --> 00:00:02,250\nWelcome to this\nshort lecture\nस्वागत को यह छोटा व्याख्यान\n\n' +
+      '2\n00:00:03,100 --> 00:00:04,750\nThank you for listening\nधन्यवाद आप के लिए सुनने\n\n'
+    );
+    expect(cuesToVtt(bilingual, { speakerNames: { spk_0: 'Priya' } })).toBe(
+      'WEBVTT\n\n' +
+      '1\n00:00:00.500 --> 00:00:02.250\n<v Priya>Welcome to this\nshort lecture\nस्वागत को यह छोटा व्याख्यान\n\n' +
+      '2\n00:00:03.100 --> 00:00:04.750\n<v SPEAKER 2>Thank you for listening\nधन्यवाद आप के लिए सुनने\n\n'
+    );
+  });
+
+  it('keeps the original alone where a translation is empty', () => {
+    expect(bilingualCues(cues, [{ ...cues[0], text: '' }]).map(cue => cue.text)).toEqual([cues[0].text, cues[1].text]);
+  });
+});
@@ -0,0 +1,96 @@
+import { wrapLines, type SubtitleCue } from '@/lib/segmentation';
+import { MAX_TRANSLATION_TEXTS } from '@/lib/transcription-api-contract';
+import type { Translator } from '@/lib/translators/types';
+
+// Subtitle translation. Cue texts go to the translator in batches and the
+// translations are put back on copies of the cues, so timings, speakers and
+// channels carry over unchanged.
+
+// A translator refused the request, e.g. for a language pair it doesn't cover
+export class TranslationError extends Error {
+  readonly code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.name = 'TranslationError';
+    this.code = code;
+  }
+}
+
+export interface TranslateCuesOptions {
+  // Amazon Translate codes; the source may be 'auto'
+  sourceLanguage: string;
+  targetLanguage: string;
+  doNotTranslate?: string[];
+  // Translated text is re-wrapped to this line length
+  maxCharsPerLine?: number;
+  signal?: AbortSignal;
+  onProgress?: (translated: number, total: number) => void;
+}
+
+export interface TranslatedTrack {
+  language: string;
+  // The source language used, as detected when the request asked for 'auto'
+  sourceLanguage: string;
+  cues: SubtitleCue[];
+}
+
+export async function translateCues(
+  cues: SubtitleCue[],
+  translator: Translator,
+  { sourceLanguage, targetLanguage, doNotTranslate = [], maxCharsPerLine, signal, onProgress }: TranslateCuesOptions
+): Promise<TranslatedTrack> {
+  // Lines are re-broken after translation, so each cue goes over as one sentence
+  const texts = cues.map(cue => cue.text.replace(/\s*\n\s*/g, ' '));
+  const translations: string[] = [];
+  let detected = sourceLanguage;
+
+  for (let start = 0; start < texts.length; start += MAX_TRANSLATION_TEXTS) {
+    if (signal?.aborted) throw new DOMException('Translation cancelled', 'AbortError');
+    const batch = texts.slice(start, start + MAX_TRANSLATION_TEXTS);
+    const response = await translator.translate({
+      sourceLanguage,
+      targetLanguage,
+      texts: batch,
+      doNotTranslate: doNotTranslate.length > 0 ? doNotTranslate : undefined
+    }, signal);
+    if (response.translations.length !== batch.length) {
+      throw new TranslationError('InvalidResponse', 'The translator returned a different number of texts');
+    }
+    translations.push(...response.translations);
+    detected = response.sourceLanguage;
+    onProgress?.(translations.length, texts.length);
+  }
+
+  return {
+    language: targetLanguage,
+    sourceLanguage: detected,
+    cues: cues.map((cue, index) => ({
+      ...cue,
+      text: maxCharsPerLine ? wrapLines(translations[index], maxCharsPerLine).join('\n') : translations[index]
+    }))
+  };
+}
+
+// Each cue with the original text above its translation, for bilingual
+// subtitles. The tracks come from translateCues, so their cues line up.
+export function bilingualCues(original: SubtitleCue[], translated: SubtitleCue[]): SubtitleCue[] {
+  return original.map((cue, index) => ({
+    ...cue,
+    text: translated[index]?.text ? `${cue.text}\n${translated[index].text}` : cue.text
+  }));
+}
+
+// Glossary terms typed one per line or separated by commas, without repeats
+export function parseGlossary(text: string): string[] {
+  const seen = new Set<string>();
+  return text
+    .split(/[\n,]/)
+    .map(term => term.trim())
+    .filter(term => {
+      const key = term.toLowerCase();
+      if (!term || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
@@ -0,0 +1,11 @@
+import { createTranscriptionApi } from '@/lib/transcription-api';
+import type { Translator } from '@/lib/translators/types';
+
+// Amazon Translate, reached through the transcription server in server/
+export function createAwsTranslator(api = createTranscriptionApi()): Translator {
+  return {
+    id: 'aws',
+    label: 'Amazon Translate',
+    translate: (request, signal) => api.translate(request, signal)
+  };
+}
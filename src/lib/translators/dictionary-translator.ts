@@ -0,0 +1,28 @@
+import { TranslationError } from '@/lib/translation';
+import { findMockDictionary, mockSourceLanguage, translateWithDictionary } from '@/lib/translation-languages';
+import type { Translator } from '@/lib/translators/types';
+
+// Offline word-for-word translation from the built-in dictionaries. It covers
+// the recorded transcripts, for demos and for working without a server.
+export function createDictionaryTranslator(): Translator {
+  return {
+    id: 'dictionary',
+    label: 'Offline dictionary',
+
+    async translate({ targetLanguage, texts, doNotTranslate, ...request }, signal) {
+      if (signal?.aborted) throw new DOMException('Translation cancelled', 'AbortError');
+      const sourceLanguage = mockSourceLanguage(request.sourceLanguage, texts.join(' '));
+      const dictionary = findMockDictionary(sourceLanguage, targetLanguage);
+      if (!dictionary) {
+        throw new TranslationError(
+          'UnsupportedLanguagePairException',
+          `The offline dictionary can't translate from ${sourceLanguage} to ${targetLanguage}`
+        );
+      }
+      return {
+        translations: texts.map(text => translateWithDictionary(text, dictionary, doNotTranslate)),
+        sourceLanguage
+      };
+    }
+  };
+}
@@ -0,0 +1,22 @@
+import { transcriptionConfig } from '@/config/transcription-config';
+import { createAwsTranslator } from '@/lib/translators/aws-translator';
+import { createDictionaryTranslator } from '@/lib/translators/dictionary-translator';
+import type { Translator, TranslatorId } from '@/lib/translators/types';
+
+export type { Translator, TranslatorId } from '@/lib/translators/types';
+
+const TRANSLATOR_FACTORIES: Record<TranslatorId, () => Translator> = {
+  aws: createAwsTranslator,
+  dictionary: createDictionaryTranslator
+};
+
+const instances = new Map<TranslatorId, Translator>();
+
+export function getTranslator(id: TranslatorId = transcriptionConfig.translator): Translator {
+  let translator = instances.get(id);
+  if (!translator) {
+    translator = TRANSLATOR_FACTORIES[id]();
+    instances.set(id, translator);
+  }
+  return translator;
+}
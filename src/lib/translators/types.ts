@@ -0,0 +1,11 @@
+import type { TranslateRequest, TranslateResponse } from '@/lib/transcription-api-contract';
+
+export type TranslatorId = 'aws' | 'dictionary';
+
+// Translates batches of subtitle texts. translateCues owns batching, progress
+// and putting the texts back on their cues.
+export interface Translator {
+  readonly id: TranslatorId;
+  readonly label: string;
+  translate(request: TranslateRequest, signal?: AbortSignal): Promise<TranslateResponse>;
+}
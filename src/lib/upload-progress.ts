@@ -0,0 +1,37 @@
+// Byte-level upload progress with throughput and time remaining
+
+export interface UploadStats {
+  loaded: number;
+  total: number;
+  bytesPerSecond: number;
+  // null until there is enough data for an estimate
+  etaSeconds: number | null;
+}
+
+// Measures throughput over a sliding window so the estimate follows the current
+// connection speed. Bytes that were already uploaded before a resume do not
+// count as speed, since the window starts at the first sample.
+export function createTransferMeter(windowMs = 5000) {
+  const samples: { time: number; loaded: number }[] = [];
+
+  return (loaded: number, total: number): UploadStats => {
+    const now = Date.now();
+    samples.push({ time: now, loaded });
+    while (samples.length > 2 && now - samples[0].time > windowMs) samples.shift();
+
+    const first = samples[0];
+    const elapsedSeconds = (now - first.time) / 1000;
+    const bytesPerSecond = elapsedSeconds > 0.5 ? Math.max(0, (loaded - first.loaded) / elapsedSeconds) : 0;
+    const etaSeconds = bytesPerSecond > 0 ? Math.ceil((total - loaded) / bytesPerSecond) : null;
+
+    return { loaded, total, bytesPerSecond, etaSeconds };
+  };
+}
+
+export function formatEta(seconds: number | null): string {
+  if (seconds === null) return 'estimating time left';
+  if (seconds < 60) return `${seconds}s left`;
+  if (seconds < 3600) return `${Math.ceil(seconds / 60)} min left`;
+  const hours = Math.floor(seconds / 3600);
+  return `${hours} h ${Math.ceil((seconds % 3600) / 60)} min left`;
+}
@@ -4,3 +4,10 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return bytes + ' B'
+  else if (bytes < 1048576) return (bytes / 1024).toFixed(1) + ' KB'
+  else if (bytes < 1073741824) return (bytes / 1048576).toFixed(1) + ' MB'
+  else return (bytes / 1073741824).toFixed(2) + ' GB'
+}
@@ -0,0 +1,144 @@
+import type { VocabularyPhrase } from './transcription-api-contract';
+
+// Custom vocabulary tables and vocabulary filter word lists: reading them from
+// CSV files, checking them against Transcribe's rules and writing the table
+// format Transcribe loads from S3. The server compiles this file too, so it
+// only uses relative imports.
+
+const TABLE_COLUMNS = ['Phrase', 'IPA', 'SoundsLike', 'DisplayAs'] as const;
+
+// Transcribe rejects vocabulary files and filter word lists larger than this
+export const MAX_VOCABULARY_FILE_BYTES = 50 * 1024;
+
+// Column names accepted in CSV headers, compared without case, spaces or underscores
+const HEADER_ALIASES: Record<string, keyof VocabularyPhrase> = {
+  phrase: 'phrase',
+  ipa: 'ipa',
+  soundslike: 'soundsLike',
+  displayas: 'displayAs'
+};
+
+export interface ParsedVocabularyCsv {
+  phrases: VocabularyPhrase[];
+  // One message per row that could not be used, with its line number
+  errors: string[];
+}
+
+// Split one line of CSV or TSV, honouring double quotes around fields
+export function splitDelimitedLine(line: string, delimiter: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field.trim() === '') {
+      quoted = true;
+      field = '';
+    } else if (char === delimiter) {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+}
+
+function splitLines(text: string): string[] {
+  return text.replace(/^\uFEFF/, '').split(/\r\n?|\n/).filter(line => line.trim() !== '');
+}
+
+// Reason a phrase can't go into a Transcribe vocabulary, or null if it can
+export function validateVocabularyPhrase(phrase: VocabularyPhrase): string | null {
+  if (!phrase.phrase.trim()) return 'The phrase is empty';
+  if (/\d/.test(phrase.phrase)) return `"${phrase.phrase}": spell out numbers; use Display as for digits`;
+  const invalid = phrase.phrase.match(/[^\p{L}\p{M}\s'.-]/u);
+  if (invalid) return `"${phrase.phrase}": "${invalid[0]}" is not allowed in a phrase`;
+  if (/-{2,}/.test(phrase.phrase)) return `"${phrase.phrase}": contains repeated hyphens`;
+  if (phrase.ipa && phrase.soundsLike) return `"${phrase.phrase}": use either IPA or Sounds like, not both`;
+  return null;
+}
+
+// CSV or TSV with the columns Phrase, IPA, SoundsLike and DisplayAs. The header
+// row is optional; without one the columns are taken in that order.
+export function parseVocabularyCsv(text: string): ParsedVocabularyCsv {
+  const lines = splitLines(text);
+  if (lines.length === 0) return { phrases: [], errors: ['The file is empty'] };
+
+  const delimiter = lines[0].includes('\t') ? '\t' : ',';
+  const firstRow = splitDelimitedLine(lines[0], delimiter);
+  const headerKeys = firstRow.map(name => HEADER_ALIASES[name.toLowerCase().replace(/[\s_]/g, '')]);
+  const hasHeader = headerKeys.includes('phrase');
+  const columns: (keyof VocabularyPhrase | undefined)[] = hasHeader
+    ? headerKeys
+    : ['phrase', 'ipa', 'soundsLike', 'displayAs'];
+
+  const phrases: VocabularyPhrase[] = [];
+  const errors: string[] = [];
+  lines.slice(hasHeader ? 1 : 0).forEach((line, index) => {
+    const lineNumber = index + (hasHeader ? 2 : 1);
+    const row: VocabularyPhrase = { phrase: '' };
+    splitDelimitedLine(line, delimiter).forEach((value, column) => {
+      const key = columns[column];
+      if (key && value) row[key] = value;
+    });
+    const error = validateVocabularyPhrase(row);
+    if (error) errors.push(`Line ${lineNumber}: ${error}`);
+    else phrases.push(row);
+  });
+
+  return { phrases, errors };
+}
+
+// Filter words, one per line or as the first column of a CSV file
+export function parseWordList(text: string): string[] {
+  const words = splitLines(text)
+    .map(line => splitDelimitedLine(line, line.includes('\t') ? '\t' : ',')[0])
+    .filter(word => word && !/^words?$/i.test(word));
+  return Array.from(new Set(words));
+}
+
+// Tab-separated table as Transcribe reads it from S3
+export function toVocabularyTable(phrases: VocabularyPhrase[]): string {
+  const hyphenate = (value?: string) => (value ? value.trim().replace(/\s+/g, '-') : '');
+  const rows = phrases.map(phrase => [
+    hyphenate(phrase.phrase),
+    phrase.ipa?.trim() || '',
+    hyphenate(phrase.soundsLike),
+    phrase.displayAs?.trim() || ''
+  ].join('\t'));
+  return [TABLE_COLUMNS.join('\t'), ...rows].join('\n') + '\n';
+}
+
+// Read a vocabulary back from the file Transcribe serves for it. Vocabularies
+// created from a plain phrase list come back as one phrase per line.
+export function parseVocabularyTable(text: string): VocabularyPhrase[] {
+  const lines = splitLines(text);
+  const hasHeader = /^phrase\t/i.test(lines[0] || '');
+  const unhyphenate = (value?: string) => value?.replace(/-/g, ' ').trim() || undefined;
+
+  return lines.slice(hasHeader ? 1 : 0).map(line => {
+    const [phrase, ipa, soundsLike, displayAs] = line.split('\t');
+    return {
+      phrase: unhyphenate(phrase) || '',
+      ...(ipa?.trim() && { ipa: ipa.trim() }),
+      ...(soundsLike?.trim() && { soundsLike: unhyphenate(soundsLike) }),
+      ...(displayAs?.trim() && { displayAs: displayAs.trim() })
+    };
+  });
+}
+
+export function vocabularyFileBytes(content: string): number {
+  return new TextEncoder().encode(content).length;
+}
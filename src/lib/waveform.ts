@@ -0,0 +1,62 @@
+// Waveform peaks for the subtitle timeline, decoded in the browser with the
+// Web Audio API. Audio is decoded at a low sample rate: the waveform only
+// needs the loudness envelope, and full-rate PCM of an hour-long recording
+// would take gigabytes of memory.
+
+export interface Waveform {
+  // Loudest absolute sample per bucket, 0..1, all channels mixed
+  peaks: Float32Array;
+  peaksPerSecond: number;
+  duration: number; // seconds
+}
+
+export interface DecodeWaveformOptions {
+  peaksPerSecond?: number;
+  sampleRate?: number;
+}
+
+const DEFAULT_PEAKS_PER_SECOND = 100;
+// Lowest rate every browser's OfflineAudioContext accepts
+const DECODE_SAMPLE_RATE = 8000;
+
+export function computePeaks(channels: Float32Array[], sampleRate: number, peaksPerSecond: number): Float32Array {
+  const length = channels[0]?.length ?? 0;
+  const samplesPerPeak = Math.max(1, Math.round(sampleRate / peaksPerSecond));
+  const peaks = new Float32Array(Math.ceil(length / samplesPerPeak));
+
+  for (const data of channels) {
+    for (let i = 0; i < length; i++) {
+      const value = Math.abs(data[i]);
+      const bucket = Math.floor(i / samplesPerPeak);
+      if (value > peaks[bucket]) peaks[bucket] = value;
+    }
+  }
+  return peaks;
+}
+
+export async function decodeWaveform(file: File, options: DecodeWaveformOptions = {}): Promise<Waveform> {
+  const peaksPerSecond = options.peaksPerSecond ?? DEFAULT_PEAKS_PER_SECOND;
+  const sampleRate = options.sampleRate ?? DECODE_SAMPLE_RATE;
+
+  // decodeAudioData resamples to the context's rate, which keeps the buffer small
+  const context = new OfflineAudioContext(1, 1, sampleRate);
+  const buffer = await context.decodeAudioData(await file.arrayBuffer());
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, index) => buffer.getChannelData(index));
+
+  return {
+    peaks: computePeaks(channels, buffer.sampleRate, peaksPerSecond),
+    peaksPerSecond,
+    duration: buffer.duration
+  };
+}
+
+// Loudest peak between two times, for drawing one pixel column
+export function peakBetween(waveform: Waveform, from: number, to: number): number {
+  const first = Math.max(0, Math.floor(from * waveform.peaksPerSecond));
+  const last = Math.min(waveform.peaks.length, Math.max(first + 1, Math.ceil(to * waveform.peaksPerSecond)));
+  let peak = 0;
+  for (let i = first; i < last; i++) {
+    if (waveform.peaks[i] > peak) peak = waveform.peaks[i];
+  }
+  return peak;
+}
@@ -1,5 +1,4 @@
 
-import './aws-polyfill';  // Must be first import
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
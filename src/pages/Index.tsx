@@ -1,46 +1,266 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useMemo, useCallback, useRef } from 'react';
 import { motion } from 'framer-motion';
 import { AudioWaveform } from 'lucide-react';
 import { toast } from 'sonner';
 import AudioUploader from '@/components/AudioUploader';
 import TranscriptionResult from '@/components/TranscriptionResult';
-import { transcribeAudio, getAwsCredentials, configureAws } from '@/lib/transcription';
+import CacheSettingsPanel from '@/components/CacheSettingsPanel';
+import TranscriptionQueue from '@/components/TranscriptionQueue';
+import ResumedJobs from '@/components/ResumedJobs';
+import TranscriptionErrorAlert from '@/components/TranscriptionErrorAlert';
+import VocabularyManager from '@/components/VocabularyManager';
+import LanguagePicker from '@/components/LanguagePicker';
+import LiveCaptions from '@/components/LiveCaptions';
+import { useTranscriptionQueue, type QueueItem } from '@/hooks/use-transcription-queue';
+import { useVocabularies } from '@/hooks/use-vocabularies';
+import {
+  transcribeAudio,
+  transcriptToCues,
+  transcriptToChannelTracks,
+  isAbortError,
+  type TranscribeResult,
+  type TranscriptionOptions,
+  type TranscriptionProgress
+} from '@/lib/transcription';
+import { SEGMENTATION_PRESETS, type SegmentationPresetId } from '@/lib/segmentation';
+import { readSubtitleFile, SubtitleParseError } from '@/lib/subtitle-import';
+import { cuesToSrt } from '@/lib/subtitle-formats';
+import { formatDuration } from '@/lib/transcribe-output';
+import { getTranscriptionProvider } from '@/lib/providers';
+import { AUTO_LANGUAGE, languageOptionsProblem } from '@/lib/languages';
+import { transcriptionConfig } from '@/config/transcription-config';
+import type { PersistedJob } from '@/lib/transcription-jobs';
+import type { VocabularyFilterMethod } from '@/lib/transcription-api-contract';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+
+const STAGE_MESSAGES: Record<TranscriptionProgress['stage'], string> = {
+  extracting: 'Extracting audio from video...',
+  hashing: 'Checking cache...',
+  uploading: 'Uploading audio...',
+  transcribing: 'Processing audio...',
+  fetching: 'Fetching transcript...',
+  completed: 'Finishing up...'
+};
+
+const FILTER_METHOD_LABELS: Record<VocabularyFilterMethod, string> = {
+  mask: 'Mask with ***',
+  remove: 'Remove',
+  tag: 'Tag only'
+};
+
+// Select value for "no vocabulary"; Radix selects can't use an empty string
+const NONE = 'none';
+
+// Chosen at build time through VITE_TRANSCRIPTION_PROVIDER
+const provider = getTranscriptionProvider();
 
 const Index = () => {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [transcriptionResult, setTranscriptionResult] = useState<{
-    srtContent: string;
-    duration: string;
-    rawTranscriptData?: any;
-  } | null>(null);
+  const [transcriptionResult, setTranscriptionResult] = useState<TranscribeResult | null>(null);
+  const [resultFileName, setResultFileName] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [progress, setProgress] = useState<TranscriptionProgress | null>(null);
   const [selectedLanguage, setSelectedLanguage] = useState<string>("ta-IN");
+  const [identifyLanguage, setIdentifyLanguage] = useState(false);
+  // Tamil and English, for code-switched recordings
+  const [candidateLanguages, setCandidateLanguages] = useState<string[]>(['ta-IN', 'en-IN']);
+  const [identifyMultipleLanguages, setIdentifyMultipleLanguages] = useState(false);
+  const [segmentationPreset, setSegmentationPreset] = useState<SegmentationPresetId>("default");
+  const [identifySpeakers, setIdentifySpeakers] = useState(false);
+  const [maxSpeakers, setMaxSpeakers] = useState(2);
+  const [identifyChannels, setIdentifyChannels] = useState(false);
+  const [queueConcurrency, setQueueConcurrency] = useState(2);
+  const [demoMode, setDemoMode] = useState(false);
+  const [transcriptionError, setTranscriptionError] = useState<unknown>(null);
+  const [vocabularyName, setVocabularyName] = useState(NONE);
+  const [vocabularyFilterName, setVocabularyFilterName] = useState(NONE);
+  const [vocabularyFilterMethod, setVocabularyFilterMethod] = useState<VocabularyFilterMethod>('mask');
+  const vocabularyStore = useVocabularies(!!provider.supportsVocabularies);
+  const jobLanguage = identifyLanguage ? AUTO_LANGUAGE : selectedLanguage;
+  const candidateProblem = identifyLanguage ? languageOptionsProblem(candidateLanguages) : null;
 
-  // Configure AWS on component mount
-  useEffect(() => {
-    const credentials = getAwsCredentials();
-    configureAws(credentials);
-  }, []);
+  // Vocabularies and filters only apply to jobs in their own language, or with
+  // identification to one of the candidates, where they cover that language only
+  const vocabularyLanguages = identifyLanguage ? candidateLanguages : [selectedLanguage];
+  const languageVocabularies = vocabularyStore.vocabularies.filter(vocabulary => vocabularyLanguages.includes(vocabulary.languageCode));
+  const languageFilters = vocabularyStore.filters.filter(filter => vocabularyLanguages.includes(filter.languageCode));
+  const activeVocabularyName = languageVocabularies
+    .find(vocabulary => vocabulary.name === vocabularyName && vocabulary.state === 'READY')?.name;
+  const activeFilterName = languageFilters.find(filter => filter.name === vocabularyFilterName)?.name;
+
+  const jobOptions: TranscriptionOptions = useMemo(() => ({
+    segmentation: SEGMENTATION_PRESETS[segmentationPreset].options,
+    maxSpeakers: identifySpeakers ? maxSpeakers : undefined,
+    channelIdentification: identifyChannels,
+    languageOptions: identifyLanguage ? candidateLanguages : undefined,
+    identifyMultipleLanguages: identifyLanguage && identifyMultipleLanguages,
+    vocabularyName: activeVocabularyName,
+    vocabularyFilterName: activeFilterName,
+    vocabularyFilterMethod: activeFilterName ? vocabularyFilterMethod : undefined,
+    demoMode
+  }), [
+    segmentationPreset,
+    identifySpeakers,
+    maxSpeakers,
+    identifyChannels,
+    identifyLanguage,
+    candidateLanguages,
+    identifyMultipleLanguages,
+    activeVocabularyName,
+    activeFilterName,
+    vocabularyFilterMethod,
+    demoMode
+  ]);
+
+  const queueTranscriber = useCallback(
+    (file: File, onProgress: TranscriptionOptions['onProgress'], signal: AbortSignal) =>
+      transcribeAudio(file, jobLanguage, { ...jobOptions, onProgress, signal, quiet: true }),
+    [jobLanguage, jobOptions]
+  );
+  const queue = useTranscriptionQueue(queueTranscriber, queueConcurrency);
+
+  // Re-segment locally when the preset changes so users don't need to re-transcribe
+  const cues = useMemo(() => {
+    if (!transcriptionResult) return [];
+    if (!transcriptionResult.rawTranscriptData) return transcriptionResult.cues;
+    return transcriptToCues(
+      transcriptionResult.rawTranscriptData,
+      SEGMENTATION_PRESETS[segmentationPreset].options
+    );
+  }, [transcriptionResult, segmentationPreset]);
+
+  const channelTracks = useMemo(() => {
+    if (!transcriptionResult?.rawTranscriptData) return {};
+    return transcriptToChannelTracks(
+      transcriptionResult.rawTranscriptData,
+      SEGMENTATION_PRESETS[segmentationPreset].options
+    );
+  }, [transcriptionResult, segmentationPreset]);
+
+  // Transcribe accepts either speaker or channel identification, never both
+  const handleIdentifySpeakersChange = (checked: boolean) => {
+    setIdentifySpeakers(checked);
+    if (checked) setIdentifyChannels(false);
+  };
+
+  const handleIdentifyChannelsChange = (checked: boolean) => {
+    setIdentifyChannels(checked);
+    if (checked) setIdentifySpeakers(false);
+  };
 
   const handleFileSelected = async (file: File) => {
     setSelectedFile(file);
     setTranscriptionResult(null);
+    setTranscriptionError(null);
     
     setIsProcessing(true);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     
     try {
-      const result = await transcribeAudio(file, selectedLanguage);
+      const result = await transcribeAudio(file, jobLanguage, {
+        ...jobOptions,
+        signal: controller.signal,
+        onProgress: setProgress
+      });
       setTranscriptionResult(result);
-      toast.success('Transcription completed successfully');
+      setResultFileName(file.name);
+      if (!result.isDemo) toast.success('Transcription completed successfully');
     } catch (error) {
+      if (isAbortError(error)) {
+        toast.info('Transcription cancelled');
+        return;
+      }
       console.error('Transcription error:', error);
-      toast.error(error instanceof Error ? error.message : 'Failed to transcribe audio file');
+      setTranscriptionError(error);
     } finally {
+      abortControllerRef.current = null;
+      setProgress(null);
       setIsProcessing(false);
     }
   };
 
+  const statusMessage = !progress
+    ? undefined
+    : progress.stage === 'transcribing' && progress.jobStatus === 'QUEUED'
+      ? 'Waiting in the AWS queue...'
+      : progress.stage === 'transcribing' && progress.jobStatus === 'IN_PROGRESS'
+        ? `Transcribing (${progress.percent}%)...`
+        : STAGE_MESSAGES[progress.stage];
+
+  const handleCancelTranscription = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleResumedResult = useCallback((job: PersistedJob, result: TranscribeResult) => {
+    setSelectedFile(null);
+    setTranscriptionError(null);
+    setTranscriptionResult(result);
+    setResultFileName(job.fileName);
+  }, []);
+
+  // Imported subtitles skip transcription and go straight to the editor
+  const handleSubtitleImport = async (subtitles: File, media: File | null) => {
+    try {
+      const { cues, skippedBlocks } = await readSubtitleFile(subtitles);
+      setSelectedFile(media);
+      setTranscriptionError(null);
+      setTranscriptionResult({
+        srtContent: cuesToSrt(cues),
+        cues,
+        duration: formatDuration(cues.reduce((max, cue) => Math.max(max, cue.end), 0))
+      });
+      setResultFileName(subtitles.name);
+      toast.success(`Imported ${cues.length} subtitles from ${subtitles.name}`);
+      if (skippedBlocks > 0) {
+        toast.warning(`Skipped ${skippedBlocks} cue${skippedBlocks === 1 ? '' : 's'} with unreadable timings`);
+      }
+    } catch (error) {
+      console.error('Subtitle import error:', error);
+      toast.error(error instanceof SubtitleParseError ? error.message : `Could not read ${subtitles.name}`);
+    }
+  };
+
+  // A finished live session opens in the editor without media, like an import
+  const handleLiveSession = useCallback((result: TranscribeResult, fileName: string) => {
+    setSelectedFile(null);
+    setTranscriptionError(null);
+    setTranscriptionResult(result);
+    setResultFileName(fileName);
+  }, []);
+
+  const liveSettings = useMemo(() => ({
+    language: jobLanguage,
+    languageOptions: identifyLanguage ? candidateLanguages : undefined,
+    showSpeakerLabels: identifySpeakers,
+    vocabularyName: activeVocabularyName,
+    vocabularyFilterName: activeFilterName,
+    vocabularyFilterMethod: activeFilterName ? vocabularyFilterMethod : undefined
+  }), [
+    jobLanguage,
+    identifyLanguage,
+    candidateLanguages,
+    identifySpeakers,
+    activeVocabularyName,
+    activeFilterName,
+    vocabularyFilterMethod
+  ]);
+
+  const handleFilesSelected = (files: File[]) => {
+    queue.addFiles(files);
+    toast.info(`Added ${files.length} files to the transcription queue`);
+  };
+
+  const handleViewQueueItem = (item: QueueItem) => {
+    setSelectedFile(item.file);
+    setTranscriptionError(null);
+    setTranscriptionResult(item.result);
+    setResultFileName(item.file.name);
+  };
+
   return (
     <div className="min-h-screen relative flex flex-col pb-10">
       {/* Background gradient */}
@@ -52,6 +272,18 @@ const Index = () => {
 
       {/* Main content */}
       <div className="relative z-10 container mx-auto px-4 py-12 max-w-4xl">
+        <div className="flex items-center justify-end gap-2 mb-4">
+          {provider.id !== 'aws' && (
+            <Badge variant="outline" title="Set VITE_TRANSCRIPTION_PROVIDER to change it">
+              Provider: {provider.label}
+            </Badge>
+          )}
+          {provider.supportsVocabularies && (
+            <VocabularyManager store={vocabularyStore} defaultLanguage={selectedLanguage} />
+          )}
+          <CacheSettingsPanel />
+        </div>
+
         <header className="text-center mb-16">
           <motion.div 
             initial={{ opacity: 0 }}
@@ -83,23 +315,183 @@ const Index = () => {
 
         <div className="grid gap-8">
           {/* Language Selector */}
+          <div className="mb-4 space-y-3">
+            <div>
+              <label htmlFor="transcription-language" className="block text-sm font-medium mb-1">
+                Transcription Language
+              </label>
+              <LanguagePicker
+                id="transcription-language"
+                value={[selectedLanguage]}
+                onChange={([code]) => setSelectedLanguage(code)}
+                disabled={identifyLanguage}
+              />
+            </div>
+            <div className="flex items-center gap-3">
+              <Switch id="identify-language" checked={identifyLanguage} onCheckedChange={setIdentifyLanguage} />
+              <label htmlFor="identify-language" className="text-sm font-medium">
+                Identify the language automatically
+              </label>
+            </div>
+            {identifyLanguage && (
+              <div className="space-y-3 rounded-md border p-3">
+                <div>
+                  <label htmlFor="candidate-languages" className="block text-sm font-medium mb-1">
+                    Languages it could be
+                  </label>
+                  <LanguagePicker
+                    id="candidate-languages"
+                    multiple
+                    value={candidateLanguages}
+                    onChange={setCandidateLanguages}
+                    placeholder="Choose at least two languages"
+                  />
+                  {candidateProblem && <p className="mt-1 text-xs text-destructive">{candidateProblem}</p>}
+                </div>
+                <div className="flex items-center gap-3">
+                  <Switch
+                    id="identify-multiple-languages"
+                    checked={identifyMultipleLanguages}
+                    onCheckedChange={setIdentifyMultipleLanguages}
+                  />
+                  <label htmlFor="identify-multiple-languages" className="text-sm font-medium">
+                    Speakers switch between languages
+                  </label>
+                  <span className="text-xs text-muted-foreground">e.g. Tamil mixed with English</span>
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Subtitle Style Selector */}
           <div className="mb-4">
-            <label className="block text-sm font-medium mb-1">Transcription Language</label>
-            <Select value={selectedLanguage} onValueChange={setSelectedLanguage}>
+            <label className="block text-sm font-medium mb-1">Subtitle Style</label>
+            <Select
+              value={segmentationPreset}
+              onValueChange={(value) => setSegmentationPreset(value as SegmentationPresetId)}
+            >
               <SelectTrigger className="w-full">
-                <SelectValue placeholder="Select Language" />
+                <SelectValue placeholder="Select Subtitle Style" />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="ta-IN">Tamil (India)</SelectItem>
-                <SelectItem value="en-US">English (US)</SelectItem>
-                <SelectItem value="hi-IN">Hindi (India)</SelectItem>
-                <SelectItem value="te-IN">Telugu (India)</SelectItem>
-                <SelectItem value="kn-IN">Kannada (India)</SelectItem>
-                <SelectItem value="ml-IN">Malayalam (India)</SelectItem>
+                {Object.entries(SEGMENTATION_PRESETS).map(([id, preset]) => (
+                  <SelectItem key={id} value={id}>
+                    {preset.label} — {preset.description}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
 
+          {/* Speaker Identification */}
+          <div className="mb-4 flex flex-wrap items-center justify-between gap-4">
+            <div className="flex items-center gap-3">
+              <Switch
+                id="identify-speakers"
+                checked={identifySpeakers}
+                onCheckedChange={handleIdentifySpeakersChange}
+              />
+              <label htmlFor="identify-speakers" className="text-sm font-medium">
+                Identify speakers
+              </label>
+            </div>
+            {identifySpeakers && (
+              <div className="flex items-center gap-2">
+                <label className="text-sm text-muted-foreground">Max speakers</label>
+                <Select value={String(maxSpeakers)} onValueChange={(value) => setMaxSpeakers(Number(value))}>
+                  <SelectTrigger className="w-20">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Array.from({ length: 9 }, (_, i) => i + 2).map(count => (
+                      <SelectItem key={count} value={String(count)}>{count}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          {/* Channel Identification */}
+          <div className="mb-4 flex items-center gap-3">
+            <Switch
+              id="identify-channels"
+              checked={identifyChannels}
+              onCheckedChange={handleIdentifyChannelsChange}
+            />
+            <label htmlFor="identify-channels" className="text-sm font-medium">
+              Transcribe audio channels separately
+            </label>
+            <span className="text-xs text-muted-foreground">e.g. agent left, customer right</span>
+          </div>
+
+          {/* Custom Vocabulary and Vocabulary Filter */}
+          {provider.supportsVocabularies && (
+            <div className="mb-4 grid gap-4 sm:grid-cols-3">
+              <div>
+                <label className="block text-sm font-medium mb-1">Custom vocabulary</label>
+                <Select value={activeVocabularyName ?? NONE} onValueChange={setVocabularyName}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>None</SelectItem>
+                    {languageVocabularies.map(vocabulary => (
+                      <SelectItem key={vocabulary.name} value={vocabulary.name} disabled={vocabulary.state !== 'READY'}>
+                        {vocabulary.name}{identifyLanguage && ` · ${vocabulary.languageCode}`}
+                        {vocabulary.state !== 'READY' && ` (${vocabulary.state.toLowerCase()})`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Vocabulary filter</label>
+                <Select value={activeFilterName ?? NONE} onValueChange={setVocabularyFilterName}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>None</SelectItem>
+                    {languageFilters.map(filter => (
+                      <SelectItem key={filter.name} value={filter.name}>
+                        {filter.name}{identifyLanguage && ` · ${filter.languageCode}`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Filtered words</label>
+                <Select
+                  value={vocabularyFilterMethod}
+                  onValueChange={(value) => setVocabularyFilterMethod(value as VocabularyFilterMethod)}
+                  disabled={!activeFilterName}
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(FILTER_METHOD_LABELS).map(([method, label]) => (
+                      <SelectItem key={method} value={method}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+
+          {/* Demo Mode */}
+          <div className="mb-4 flex items-center gap-3">
+            <Switch id="demo-mode" checked={demoMode} onCheckedChange={setDemoMode} />
+            <label htmlFor="demo-mode" className="text-sm font-medium">
+              Demo mode
+            </label>
+            <span className="text-xs text-muted-foreground">
+              Skips AWS and returns placeholder subtitles
+            </span>
+          </div>
+
           {/* Audio Uploader */}
           <motion.div
             initial={{ opacity: 0, y: 20 }}
@@ -108,17 +500,71 @@ const Index = () => {
           >
             <AudioUploader 
               onFileSelected={handleFileSelected} 
+              onFilesSelected={handleFilesSelected}
+              onSubtitleImport={handleSubtitleImport}
               isLoading={isProcessing}
+              onCancel={handleCancelTranscription}
+              statusMessage={statusMessage}
+              progress={progress?.percent}
+              uploadStats={progress?.stage === 'uploading' ? progress.upload : undefined}
+              acceptedFileTypes={provider.acceptedFileTypes}
+              maxFileSizeMB={transcriptionConfig.upload.maxFileSizeMB}
+              maxRecordingSeconds={provider.takesTranscripts ? undefined : transcriptionConfig.recording.maxMinutes * 60}
             />
           </motion.div>
 
+          {/* Live Captions */}
+          {provider.supportsStreaming && !demoMode && (
+            <LiveCaptions
+              settings={liveSettings}
+              segmentation={SEGMENTATION_PRESETS[segmentationPreset].options}
+              onOpenInEditor={handleLiveSession}
+              disabled={isProcessing || !!candidateProblem}
+            />
+          )}
+
+          {/* Transcription Error */}
+          {transcriptionError && !isProcessing && (
+            <TranscriptionErrorAlert
+              error={transcriptionError}
+              onRetry={selectedFile ? () => handleFileSelected(selectedFile) : undefined}
+              onDismiss={() => setTranscriptionError(null)}
+            />
+          )}
+
+          {/* Jobs resumed after a reload */}
+          <ResumedJobs
+            segmentation={SEGMENTATION_PRESETS[segmentationPreset].options}
+            onResult={handleResumedResult}
+          />
+
+          {/* Batch Queue */}
+          {queue.items.length > 0 && (
+            <TranscriptionQueue
+              items={queue.items}
+              concurrency={queueConcurrency}
+              onConcurrencyChange={setQueueConcurrency}
+              onRetry={queue.retry}
+              onCancel={queue.cancel}
+              onRemove={queue.remove}
+              onClearFinished={queue.clearFinished}
+              onView={handleViewQueueItem}
+            />
+          )}
+
           {/* Transcription Result */}
-          {transcriptionResult && selectedFile && (
+          {transcriptionResult && resultFileName && (
             <TranscriptionResult 
-              srtContent={transcriptionResult.srtContent}
-              fileName={selectedFile.name}
+              cues={cues}
+              channelTracks={channelTracks}
+              language={jobLanguage}
+              fileName={resultFileName}
               duration={transcriptionResult.duration}
               rawTranscriptData={transcriptionResult.rawTranscriptData}
+              isDemo={transcriptionResult.isDemo}
+              media={selectedFile ?? undefined}
+              extractedAudio={transcriptionResult.extractedAudio}
+              segmentation={SEGMENTATION_PRESETS[segmentationPreset].options}
             />
           )}
         </div>
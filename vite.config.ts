@@ -8,6 +8,15 @@ export default defineConfig(({ mode }) => ({
   server: {
     host: "::",
     port: 8080,
+    // Transcription server from server/index.ts
+    proxy: {
+      "/api": {
+        target: "http://localhost:8787",
+        rewrite: (path) => path.replace(/^\/api/, ""),
+        // Live captions from the mock server use a WebSocket
+        ws: true,
+      },
+    },
   },
   plugins: [
     react(),